@@ -2,8 +2,10 @@ import React from 'react';
 import { render, screen } from '@testing-library/react';
 import App from './App';
 
-test('renders learn react link', () => {
+// react-markdown ships as ES modules only; the start page renders no markdown
+jest.mock('react-markdown', () => ({ __esModule: true, default: ({ children }: { children: string }) => children }));
+
+test('renders the start page', () => {
   render(<App />);
-  const linkElement = screen.getByText(/learn react/i);
-  expect(linkElement).toBeInTheDocument();
+  expect(screen.getByRole('heading', { name: /legal document ai assistant/i })).toBeInTheDocument();
 });
@@ -1,246 +1,474 @@
-import React, { useState, useEffect } from 'react';
-import { ChatSidebar, ChatInterface, FileUpload } from './components';
+import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import {
+  ChatSidebar,
+  ChatInterface,
+  CrossDocumentChat,
+  FileUpload,
+  UploadBatchSummary,
+  MatterView,
+  MIN_COMPARE_DOCUMENTS,
+  localMessageId
+} from './components';
+import {
+  Document,
+  Matter,
+  MatterRequest,
+  UpdateDocumentRequest,
+  ChatMessage,
+  ChatThread,
+  listDocuments,
+  updateDocument,
+  listMatters,
+  createMatter,
+  updateMatter,
+  deleteMatter,
+  listChatThreads,
+  createChatThread,
+  renameChatThread,
+  deleteChatThread,
+  getChatHistory,
+  sendChatMessage,
+  streamChatMessage,
+  sendMultiDocumentMessage,
+  streamMultiDocumentMessage,
+  isApiError
+} from './api';
+import { jobManager, isActiveJob, useJobs } from './jobs';
+import { AppRoute, navigate, useRoute } from './routing';
 import './App.css';
 
-interface Document {
-  id: string;
-  file_name: string;
-  created_at: string;
-  processed_at: string;
-  ocr_metadata?: {
-    document_type?: string;
-    statistics?: any;
-  };
-}
 
-interface ChatMessage {
-  id: string;
-  role: 'user' | 'assistant' | 'system';
-  message: string;
-  created_at: string;
-  metadata?: any;
-}
+// Statuses meaning the chat endpoint can't stream, so a plain request is worth trying
+const STREAM_UNSUPPORTED = [404, 405, 406, 415, 501];
+// Backends from before chat threads answer the threads route with these
+const THREADS_UNSUPPORTED = [404, 405, 501];
+// Backends without matters answer GET /api/matters with these. Matters, tags and
+// drag-and-drop filing are then hidden; they rely on GET/POST /api/matters,
+// PATCH/DELETE /api/matters/{id}, GET /api/matters/{id}/documents and
+// PATCH /api/documents/{id}.
+const MATTERS_UNSUPPORTED = [404, 405, 501];
+// PATCH /api/documents/{id} also answers 404 for an unknown document or matter
+const DOCUMENT_UPDATE_UNSUPPORTED = [405, 501];
+
+// Where a question goes: one document's thread, or several documents at once
+type ChatScope = { documentId: string; threadId?: string } | { documentIds: string[] };
 
 function App() {
-  // Set backend base URL (deployed)
-  const API_BASE = 'https://legal-ai-backend-chi.vercel.app';
   const [documents, setDocuments] = useState<Document[]>([]);
-  const [selectedDocument, setSelectedDocument] = useState<Document | null>(null);
+  // Set once the list has loaded successfully; until then a link to a document
+  // cannot be told apart from one to a deleted document
+  const [documentsLoaded, setDocumentsLoaded] = useState(false);
+  // The URL decides what is open; state below is derived from it
+  const route = useRoute();
+  const selectedDocument = useMemo(
+    () => documents.find(d => d.id === route.documentId) || null,
+    [documents, route.documentId]
+  );
+  const selectedDocumentId = selectedDocument?.id;
+  // null when the backend has no matters
+  const [matters, setMatters] = useState<Matter[] | null>([]);
+  // Set once matters have loaded, or the backend turned out to have none
+  const [mattersLoaded, setMattersLoaded] = useState(false);
+  const selectedMatter = useMemo(
+    () => matters?.find(m => m.id === route.matterId) || null,
+    [matters, route.matterId]
+  );
+  // Documents in the cross-document chat; empty unless a comparison is open
+  const compareKey = (route.compare || []).join(',');
+  const compareDocuments = useMemo(
+    () => (compareKey ? compareKey.split(',') : [])
+      .map(id => documents.find(d => d.id === id))
+      .filter((d): d is Document => !!d),
+    [documents, compareKey]
+  );
   const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
+  // null when the backend has no threads and each document has a single history
+  const [threads, setThreads] = useState<ChatThread[] | null>([]);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  // Guards against history responses arriving after the user switched threads
+  const activeThreadRef = useRef<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const streamControllerRef = useRef<AbortController | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const jobs = useJobs();
+  const hasActiveJobs = jobs.some(isActiveJob);
+  // Read by the job listener, which is registered once
+  const selectedDocumentRef = useRef<Document | null>(null);
+  selectedDocumentRef.current = selectedDocument;
+  const comparingRef = useRef(false);
+  comparingRef.current = compareDocuments.length > 0;
 
-  // Load documents on app start
+  // Load documents and matters on app start
   useEffect(() => {
     loadDocuments();
+    loadMatters();
   }, []);
 
-  // Load chat history when document is selected
-  useEffect(() => {
-    if (selectedDocument) {
-      loadChatHistory(selectedDocument.id);
-    }
-  }, [selectedDocument]);
+  // When a background job finishes, refresh the list and open the new document
+  // unless the user is already working in another one (or a comparison) or is uploading a batch.
+  // Re-processed documents are only refreshed.
+  useEffect(() => jobManager.onJobFinished(async job => {
+    if (job.status !== 'done') return;
+    const docs = await loadDocuments();
+    if (!docs || job.kind === 'reprocess' || selectedDocumentRef.current || comparingRef.current) return;
+    const batchSize = jobManager.getJobs().filter(j => job.batchId && j.batchId === job.batchId).length;
+    if (batchSize > 1) return;
+    const newDoc = job.documentId
+      ? docs.find(d => d.id === job.documentId)
+      // Older backends don't report document_id; fall back to the file name
+      : docs.find(d => d.file_name === job.filename);
+    if (newDoc) navigate({ documentId: newDoc.id });
+  }), []);
 
-  const loadDocuments = async () => {
-    try {
-  const response = await fetch(`${API_BASE}/api/documents`);
-      if (response.ok) {
-        const data = await response.json();
-        setDocuments(data.documents || []);
-      } else {
-        console.warn('Failed to load documents:', response.statusText);
-      }
-    } catch (error) {
-      console.warn('Failed to load documents:', error);
+  // Links to documents that no longer exist (or were deleted from the
+  // sidebar) fall back to the start page; a comparison needs enough documents
+  useEffect(() => {
+    if (!documentsLoaded) return;
+    if (route.documentId && !selectedDocument) {
+      setError('That document could not be found. It may have been deleted.');
+      navigate({}, { replace: true });
+    } else if (route.matterId && mattersLoaded && !selectedMatter) {
+      setError('That matter could not be found. It may have been deleted.');
+      navigate({}, { replace: true });
+    } else if (route.compare && compareDocuments.length < MIN_COMPARE_DOCUMENTS) {
+      navigate({}, { replace: true });
+    } else if (route.compare && compareDocuments.length < route.compare.length) {
+      navigate({ compare: compareDocuments.map(d => d.id) }, { replace: true });
     }
-  };
+  }, [documentsLoaded, mattersLoaded, route, selectedDocument, selectedMatter, compareDocuments]);
 
-  const loadChatHistory = async (documentId: string) => {
+  const loadChatHistory = useCallback(async (documentId: string, threadId?: string) => {
     try {
       setIsLoading(true);
-  const response = await fetch(`${API_BASE}/api/chat/${documentId}/history`);
-      if (response.ok) {
-        const data = await response.json();
-        setChatHistory(data.chats || []);
-      } else {
-        console.warn('Failed to load chat history:', response.statusText);
-        setChatHistory([]);
-      }
+      const history = await getChatHistory(documentId, threadId);
+      if (activeThreadRef.current === (threadId || null)) setChatHistory(history);
     } catch (error) {
       console.warn('Failed to load chat history:', error);
       setChatHistory([]);
     } finally {
       setIsLoading(false);
     }
+  }, []);
+
+  // Make `threadId` the visible thread; null shows an empty conversation
+  const switchThread = useCallback((threadId: string | null, documentId?: string) => {
+    // A reply still streaming belongs to the previous thread
+    streamControllerRef.current?.abort();
+    activeThreadRef.current = threadId;
+    setActiveThreadId(threadId);
+    setChatHistory([]);
+    if (threadId && documentId) loadChatHistory(documentId, threadId);
+  }, [loadChatHistory]);
+
+  const loadThreads = useCallback(async (documentId: string) => {
+    try {
+      const list = await listChatThreads(documentId);
+      if (selectedDocumentRef.current?.id !== documentId) return;
+      setThreads(list);
+    } catch (error) {
+      if (selectedDocumentRef.current?.id !== documentId) return;
+      if (isApiError(error) && THREADS_UNSUPPORTED.includes(error.status)) {
+        setThreads(null);
+        loadChatHistory(documentId);
+        return;
+      }
+      console.warn('Failed to load chat threads:', error);
+      setThreads([]);
+    }
+  }, [loadChatHistory]);
+
+  // Load the document's threads when it is opened
+  useEffect(() => {
+    // A reply still streaming belongs to the previous document
+    streamControllerRef.current?.abort();
+    setThreads([]);
+    switchThread(null);
+    if (selectedDocumentId) {
+      loadThreads(selectedDocumentId);
+    }
+  }, [selectedDocumentId, switchThread, loadThreads]);
+
+  // Show the thread named in the URL, or the document's first thread
+  useEffect(() => {
+    if (!selectedDocumentId || !threads) return;
+    const wanted = threads.find(t => t.id === route.threadId)?.id || threads[0]?.id || null;
+    if (wanted !== activeThreadRef.current) switchThread(wanted, selectedDocumentId);
+  }, [selectedDocumentId, threads, route.threadId, switchThread]);
+
+  // A cross-document chat starts empty
+  useEffect(() => {
+    if (!compareKey) return;
+    streamControllerRef.current?.abort();
+    setChatHistory([]);
+  }, [compareKey]);
+
+  const loadDocuments = async () => {
+    try {
+      const docs = await listDocuments();
+      setDocuments(docs);
+      setDocumentsLoaded(true);
+      return docs;
+    } catch (error) {
+      console.warn('Failed to load documents:', error);
+      return null;
+    }
   };
 
-  const handleFileUploaded = async (fileData: {file_id: string; filename: string; rawResponse?: any}) => {
+  const loadMatters = async () => {
     try {
-      setIsLoading(true);
-      setError(null);
-      // If the upload returned an immediate processed result (serverless sync), use it
-      if (fileData.rawResponse && fileData.rawResponse.result) {
-        // Reload documents list and select the newly processed document if present
-        await loadDocuments();
-        const updatedDocs = await fetch(`${API_BASE}/api/documents`);
-        if (updatedDocs.ok) {
-          const data = await updatedDocs.json();
-          const newDoc = (data.documents || []).find((d: Document) => 
-            d.file_name === fileData.filename || 
-            d.id === fileData.rawResponse.document_id
-          );
-          if (newDoc) {
-            setDocuments(data.documents || []);
-            setSelectedDocument(newDoc);
-            setIsLoading(false);
-            return;
-          }
-        }
-        setIsLoading(false);
+      setMatters(await listMatters());
+      setMattersLoaded(true);
+    } catch (error) {
+      if (isApiError(error) && MATTERS_UNSUPPORTED.includes(error.status)) {
+        setMatters(null);
+        setMattersLoaded(true);
         return;
       }
+      console.warn('Failed to load matters:', error);
+    }
+  };
 
-      // Start processing (fallback when upload didn't process synchronously)
-      const processResponse = await fetch(`${API_BASE}/api/process/${fileData.file_id}`, {
-        method: 'POST'
-      });
-      
-      if (processResponse.status === 202) {
-        // Poll for completion with visual feedback
-        const pollForCompletion = async () => {
-          let attempts = 0;
-          const maxAttempts = 60; // 60 seconds max
-          
-          while (attempts < maxAttempts) {
-            await new Promise(resolve => setTimeout(resolve, 1000)); // Wait 1 second
-            
-            const statusResponse = await fetch(`${API_BASE}/api/process/status/${fileData.file_id}`);
-            if (statusResponse.status === 404) {
-              // File not found; stop polling and inform user
-              setError('Processing file not found on server. Please re-upload and try again.');
-              break;
-            }
-            if (statusResponse.ok) {
-              const statusData = await statusResponse.json();
-              
-              if (statusData.status === 'done') {
-                // Reload documents list and select the new document
-                await loadDocuments();
-                
-                // Find and auto-select the newly processed document
-                const updatedDocs = await fetch(`${API_BASE}/api/documents`);
-                if (updatedDocs.ok) {
-                  const data = await updatedDocs.json();
-                  const newDoc = (data.documents || []).find((d: Document) => 
-                    d.file_name === fileData.filename || 
-                    (statusData.document_id && d.id === statusData.document_id)
-                  );
-                  if (newDoc) {
-                    setDocuments(data.documents || []);
-                    setSelectedDocument(newDoc);
-                    setIsLoading(false);
-                    return;
-                  }
-                }
-                break;
-              } else if (statusData.status === 'error') {
-                setError('Document processing failed. Please try again.');
-                break;
-              }
-            }
-            
-            attempts++;
-          }
-          
-          if (attempts >= maxAttempts) {
-            setError('Document processing timed out. Please check and try again.');
+  // Stream the assistant reply into a placeholder message. Tokens are batched
+  // per animation frame so long answers don't re-render on every token.
+  // `questionId` is the user message being answered, kept so a retry reuses it.
+  const streamReply = async (scope: ChatScope, question: string, questionId: string) => {
+    const assistantId = localMessageId('assistant');
+    const asked = { question, question_id: questionId };
+    const controller = new AbortController();
+    streamControllerRef.current = controller;
+    let text = '';
+    let frame: number | null = null;
+    const updateAssistant = (patch: Partial<ChatMessage>) =>
+      setChatHistory(prev => prev.map(m => (m.id === assistantId ? { ...m, ...patch } : m)));
+
+    setChatHistory(prev => [...prev, {
+      id: assistantId,
+      role: 'assistant',
+      message: '',
+      created_at: new Date().toISOString(),
+      metadata: { streaming: true, ...asked }
+    }]);
+    setIsStreaming(true);
+
+    try {
+      const options = {
+        signal: controller.signal,
+        onToken: (token: string) => {
+          text += token;
+          if (frame === null) {
+            frame = window.requestAnimationFrame(() => {
+              frame = null;
+              updateAssistant({ message: text });
+            });
           }
-          setIsLoading(false);
-        };
-        
-        pollForCompletion();
-      } else if (processResponse.ok) {
-        // Immediate completion
-        const processData = await processResponse.json();
-        if (processData.result) {
-          await loadDocuments();
-          // Auto-select if possible
-          const newDoc = documents.find(d => d.file_name === fileData.filename);
-          if (newDoc) setSelectedDocument(newDoc);
         }
-        setIsLoading(false);
+      };
+      await ('documentIds' in scope
+        ? streamMultiDocumentMessage(scope.documentIds, question, options)
+        : streamChatMessage(scope.documentId, question, { ...options, threadId: scope.threadId, messageId: questionId }));
+      updateAssistant({ message: text, metadata: asked });
+    } catch (err) {
+      if (controller.signal.aborted) {
+        // Stopped by the user (or by switching documents or threads); keep what arrived
+        updateAssistant({ message: text, metadata: { stopped: true, ...asked } });
+      } else if (!text && isApiError(err) && STREAM_UNSUPPORTED.includes(err.status)) {
+        // Backend without streaming support: fall back to a single JSON reply
+        try {
+          const data = await ('documentIds' in scope
+            ? sendMultiDocumentMessage(scope.documentIds, question)
+            : sendChatMessage(scope.documentId, question, scope.threadId, questionId));
+          updateAssistant({ message: data.message, metadata: asked });
+        } catch (fallbackErr) {
+          updateAssistant({ metadata: { interrupted: true, ...asked } });
+          setError('Failed to send message: ' + (fallbackErr as Error).message);
+        }
       } else {
-        setError('Failed to process document. Please try again.');
-        setIsLoading(false);
+        updateAssistant({ message: text, metadata: { interrupted: true, ...asked } });
+        if (!text) setError('Failed to send message: ' + (err as Error).message);
       }
-    } catch (error) {
-      setError('Upload failed: ' + (error as Error).message);
-      setIsLoading(false);
+    } finally {
+      if (frame !== null) window.cancelAnimationFrame(frame);
+      if (streamControllerRef.current === controller) streamControllerRef.current = null;
+      setIsStreaming(false);
     }
   };
 
+  const appendUserMessage = (message: string) => {
+    const userMessage: ChatMessage = {
+      id: localMessageId('user'),
+      role: 'user',
+      message: message,
+      created_at: new Date().toISOString()
+    };
+    setChatHistory(prev => [...prev, userMessage]);
+    return userMessage.id;
+  };
+
   const handleSendMessage = async (message: string) => {
-    if (!selectedDocument) return;
+    if (!selectedDocument || isStreaming) return;
+
+    // Every thread was deleted: start a new one named after the question
+    let threadId = activeThreadId || undefined;
+    if (threads && !threadId) {
+      try {
+        const thread = await createChatThread(selectedDocument.id, message.length > 40 ? `${message.slice(0, 40)}…` : message);
+        setThreads(prev => [...(prev || []), thread]);
+        activeThreadRef.current = thread.id;
+        setActiveThreadId(thread.id);
+        navigate({ documentId: selectedDocument.id, threadId: thread.id }, { replace: true });
+        threadId = thread.id;
+      } catch (e) {
+        setError('Failed to start a new thread: ' + (e as Error).message);
+        return;
+      }
+    }
 
+    // Add user message to chat immediately
+    const questionId = appendUserMessage(message);
+    await streamReply({ documentId: selectedDocument.id, threadId }, message, questionId);
+  };
+
+  const handleStopGeneration = () => {
+    streamControllerRef.current?.abort();
+  };
+
+  // Re-ask the question behind a stopped or interrupted reply. The question
+  // stays where it is and keeps its id, so it is not added again.
+  const handleRetryMessage = async (messageId: string) => {
+    const failed = chatHistory.find(m => m.id === messageId);
+    const question = failed?.metadata?.question;
+    const questionId = failed?.metadata?.question_id;
+    if (!question || !questionId || isStreaming) return;
+    const scope: ChatScope | null = compareDocuments.length
+      ? { documentIds: compareDocuments.map(d => d.id) }
+      : selectedDocument && { documentId: selectedDocument.id, threadId: activeThreadId || undefined };
+    if (!scope) return;
+    setChatHistory(prev => prev.filter(m => m.id !== messageId));
+    await streamReply(scope, question, questionId);
+  };
+
+  const handleSelectDocument = (document: Document | null) => {
+    navigate(document ? { documentId: document.id } : {});
+  };
+
+  // Open a cross-document chat; it starts empty and replaces the document chat
+  const handleCompareDocuments = (docs: Document[]) => {
+    navigate({ compare: docs.map(d => d.id) });
+  };
+
+  const handleRemoveCompareDocument = (documentId: string) => {
+    const kept = compareDocuments.filter(d => d.id !== documentId);
+    navigate(kept.length ? { compare: kept.map(d => d.id) } : {}, { replace: true });
+  };
+
+  // The clause visualizer is part of the URL so it survives a refresh;
+  // focusing another clause replaces the entry instead of piling up history
+  const documentRoute = (extra: Partial<AppRoute> = {}): AppRoute => ({
+    documentId: selectedDocumentId,
+    threadId: route.threadId,
+    ...extra
+  });
+
+  const handleOpenClauses = (clauseId?: string) => {
+    navigate(documentRoute({ clauses: true, clauseId }), { replace: !!route.clauses });
+  };
+
+  const handleCloseClauses = (options: { replace?: boolean } = {}) => {
+    navigate(documentRoute(), options);
+  };
+
+  const handleSendCompareMessage = async (message: string) => {
+    if (compareDocuments.length === 0 || isStreaming) return;
+    const questionId = appendUserMessage(message);
+    await streamReply({ documentIds: compareDocuments.map(d => d.id) }, message, questionId);
+  };
+
+  // Filing a document under a matter or changing its tags
+  const handleUpdateDocument = async (documentId: string, patch: UpdateDocumentRequest) => {
     try {
-      setIsLoading(true);
-      
-      // Add user message to chat immediately
-      const userMessage: ChatMessage = {
-        id: Date.now().toString(),
-        role: 'user',
-        message: message,
-        created_at: new Date().toISOString()
-      };
-      setChatHistory(prev => [...prev, userMessage]);
-
-      // Send to backend
-  const response = await fetch(`${API_BASE}/api/chat/${selectedDocument.id}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({ message })
-      });
-
-      if (response.ok) {
-        const data = await response.json();
-        
-        // Add assistant response
-        const assistantMessage: ChatMessage = {
-          id: (Date.now() + 1).toString(),
-          role: 'assistant',
-          message: data.message,
-          created_at: new Date().toISOString()
-        };
-        setChatHistory(prev => [...prev, assistantMessage]);
-      } else {
-        setError('Failed to send message');
+      const updated = await updateDocument(documentId, patch);
+      setDocuments(prev => prev.map(d => (d.id === documentId ? updated : d)));
+    } catch (e) {
+      if (isApiError(e) && DOCUMENT_UPDATE_UNSUPPORTED.includes(e.status)) {
+        setMatters(null);
+        setError('This server does not support matters and tags.');
+        return;
       }
-    } catch (error) {
-      setError('Failed to send message: ' + (error as Error).message);
-    } finally {
-      setIsLoading(false);
+      setError('Failed to update the document: ' + (e as Error).message);
     }
   };
 
-  const handleDeleteChat = async (documentId: string) => {
+  const handleOpenMatter = (matterId: string) => {
+    navigate({ matterId });
+  };
+
+  const handleCreateMatter = async (request: MatterRequest) => {
     try {
-      setIsLoading(true);
-  const resp = await fetch(`${API_BASE}/api/chats/${documentId}`, { method: 'DELETE' });
-      if (resp.ok) {
-        // Refresh document list and clear selection
-        await loadDocuments();
-        setSelectedDocument(null);
-        setChatHistory([]);
-      } else {
-        console.warn('Failed to delete chat', await resp.text());
+      const matter = await createMatter(request);
+      await loadMatters();
+      return matter;
+    } catch (e) {
+      setError('Failed to create the matter: ' + (e as Error).message);
+      return null;
+    }
+  };
+
+  // Errors are shown by the matter view, next to the form
+  const handleUpdateMatter = async (matterId: string, patch: MatterRequest) => {
+    const updated = await updateMatter(matterId, patch);
+    setMatters(prev => prev && prev.map(m => (m.id === matterId ? updated : m)));
+  };
+
+  // The matter's documents are kept and become unfiled
+  const handleDeleteMatter = async (matter: Matter) => {
+    if (!window.confirm(`Delete the matter "${matter.name}"? Its documents are kept.`)) return;
+    try {
+      await deleteMatter(matter.id);
+      setMatters(prev => prev && prev.filter(m => m.id !== matter.id));
+      if (route.matterId === matter.id) navigate({}, { replace: true });
+      await loadDocuments();
+    } catch (e) {
+      setError('Failed to delete the matter: ' + (e as Error).message);
+    }
+  };
+
+  const handleSelectThread = (threadId: string) => {
+    if (selectedDocument) navigate({ documentId: selectedDocument.id, threadId });
+  };
+
+  const handleCreateThread = async (title: string) => {
+    if (!selectedDocument) return;
+    try {
+      const thread = await createChatThread(selectedDocument.id, title);
+      setThreads(prev => [...(prev || []), thread]);
+      navigate({ documentId: selectedDocument.id, threadId: thread.id });
+    } catch (e) {
+      setError('Failed to create thread: ' + (e as Error).message);
+    }
+  };
+
+  const handleRenameThread = async (threadId: string, title: string) => {
+    try {
+      const renamed = await renameChatThread(threadId, title);
+      setThreads(prev => prev && prev.map(t => (t.id === threadId ? { ...t, ...renamed } : t)));
+    } catch (e) {
+      setError('Failed to rename thread: ' + (e as Error).message);
+    }
+  };
+
+  // Deleting a thread only removes its history; the document stays open
+  const handleDeleteThread = async (threadId: string) => {
+    if (!selectedDocument || !threads) return;
+    try {
+      await deleteChatThread(threadId);
+      const remaining = threads.filter(t => t.id !== threadId);
+      setThreads(remaining);
+      if (threadId === activeThreadId) {
+        navigate({ documentId: selectedDocument.id, threadId: remaining[0]?.id }, { replace: true });
       }
     } catch (e) {
-      console.warn('Delete chat error', e);
-    } finally {
-      setIsLoading(false);
+      setError('Failed to delete thread: ' + (e as Error).message);
     }
   };
 
@@ -257,39 +485,82 @@ function App() {
         <ChatSidebar 
           documents={documents}
           selectedDocument={selectedDocument}
-          onSelectDocument={setSelectedDocument}
-          onNewChat={() => setSelectedDocument(null)}
+          onSelectDocument={handleSelectDocument}
+          onNewChat={() => handleSelectDocument(null)}
           onDocumentsChange={loadDocuments}
+          comparingIds={compareDocuments.map(d => d.id)}
+          onCompareDocuments={handleCompareDocuments}
+          matters={matters || []}
+          activeMatterId={selectedMatter?.id}
+          onOpenMatter={matters ? handleOpenMatter : undefined}
+          onCreateMatter={matters ? handleCreateMatter : undefined}
+          onMoveDocument={matters ? (documentId, matterId) => handleUpdateDocument(documentId, { matter_id: matterId }) : undefined}
         />
         
         <div className="chat-area">
-          {selectedDocument ? (
+          {compareDocuments.length > 0 ? (
+            <CrossDocumentChat
+              documents={compareDocuments}
+              chatHistory={chatHistory}
+              onSendMessage={handleSendCompareMessage}
+              isLoading={isLoading}
+              isStreaming={isStreaming}
+              onStopGeneration={handleStopGeneration}
+              onRetryMessage={handleRetryMessage}
+              onOpenDocument={handleSelectDocument}
+              onRemoveDocument={handleRemoveCompareDocument}
+              onClose={() => handleSelectDocument(null)}
+            />
+          ) : selectedDocument ? (
             <ChatInterface
               document={selectedDocument}
               chatHistory={chatHistory}
               onSendMessage={handleSendMessage}
               isLoading={isLoading}
-              onDeleteChat={handleDeleteChat}
+              isStreaming={isStreaming}
+              onStopGeneration={handleStopGeneration}
+              onRetryMessage={handleRetryMessage}
+              threads={threads}
+              activeThreadId={activeThreadId}
+              onSelectThread={handleSelectThread}
+              onCreateThread={handleCreateThread}
+              onRenameThread={handleRenameThread}
+              onDeleteThread={handleDeleteThread}
+              showClauses={!!route.clauses}
+              focusedClauseId={route.clauseId}
+              onOpenClauses={handleOpenClauses}
+              onCloseClauses={handleCloseClauses}
+              focusedMessageId={route.messageId}
+              messageRoute={messageId => documentRoute({ messageId })}
+              matters={matters || []}
+              onUpdateDocument={matters ? patch => handleUpdateDocument(selectedDocument.id, patch) : undefined}
+            />
+          ) : selectedMatter ? (
+            <MatterView
+              matter={selectedMatter}
+              documents={documents}
+              onOpenDocument={handleSelectDocument}
+              onUpdate={patch => handleUpdateMatter(selectedMatter.id, patch)}
+              onDelete={() => handleDeleteMatter(selectedMatter)}
+              onClose={() => handleSelectDocument(null)}
             />
           ) : (
             <div className="welcome-area">
               <div className="welcome-content">
                 <h1>Legal Document AI Assistant</h1>
                 <p>Upload a legal document to get started with AI-powered analysis and chat.</p>
-                {isLoading && (
+                {hasActiveJobs && (
                   <div className="processing-indicator">
                     <div className="processing-spinner"></div>
-                    <p>Processing your document... This may take a few moments.</p>
+                    <p>Processing your document... Progress is shown in the sidebar, and you can keep working meanwhile.</p>
                   </div>
                 )}
               </div>
 
-              {/* Show FileUpload only when not processing */}
-              {!isLoading && (
-                <div className="welcome-upload">
-                  <FileUpload onFileUploaded={handleFileUploaded} isProcessing={isLoading} />
-                </div>
-              )}
+              <div className="welcome-upload">
+                <FileUpload />
+                <UploadBatchSummary documents={documents} onSelectDocument={handleSelectDocument} />
+              </div>
             </div>
           )}
         </div>
@@ -0,0 +1,108 @@
+/**
+ * @jest-environment node
+ */
+import { ApiError, streamChatMessage } from './client';
+
+type Chunk = string | Uint8Array;
+
+// Just enough of a fetch Response for streamChat: a content type and a body
+// that hands out the given chunks one read at a time
+const respond = (chunks: Chunk[], contentType = 'text/event-stream') => {
+  const encoder = new TextEncoder();
+  const queue = chunks.map(c => (typeof c === 'string' ? encoder.encode(c) : c));
+  const cancel = jest.fn(() => Promise.resolve());
+  const response = {
+    ok: true,
+    status: 200,
+    headers: { get: () => contentType },
+    json: async () => JSON.parse(new TextDecoder().decode(queue[0])),
+    text: async () => new TextDecoder().decode(queue[0]),
+    body: {
+      getReader: () => ({
+        read: async () => (queue.length ? { done: false, value: queue.shift() } : { done: true, value: undefined }),
+        cancel
+      })
+    }
+  };
+  return { response, cancel };
+};
+
+const fetchMock = jest.fn();
+
+const stream = async (chunks: Chunk[], contentType?: string) => {
+  const { response, cancel } = respond(chunks, contentType);
+  fetchMock.mockResolvedValue(response);
+  const tokens: string[] = [];
+  const text = streamChatMessage('doc-1', 'Is rent due monthly?', { onToken: t => tokens.push(t) });
+  return { text, tokens, cancel };
+};
+
+describe('streamChatMessage', () => {
+  beforeEach(() => Object.assign(globalThis, { fetch: fetchMock }));
+
+  test('asks for a stream and sends the question id for retries', async () => {
+    fetchMock.mockResolvedValue(respond(['data: [DONE]\n\n']).response);
+    await streamChatMessage('doc 1', 'Hi', { onToken: () => {}, threadId: 't-1', messageId: 'm-1' });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toMatch(/\/api\/chat\/doc%201$/);
+    expect(JSON.parse(init.body)).toEqual({ message: 'Hi', thread_id: 't-1', message_id: 'm-1', stream: true });
+  });
+
+  test('joins events split across chunks', async () => {
+    const { text, tokens } = await stream([
+      'data: {"tok',
+      'en": "Rent is "}\n',
+      '\ndata: {"token": "due"}\r\n\r\nda',
+      'ta: {"delta": " monthly."}\n\nevent: done\ndata: {}\n\n'
+    ]);
+    await expect(text).resolves.toBe('Rent is due monthly.');
+    expect(tokens).toEqual(['Rent is ', 'due', ' monthly.']);
+  });
+
+  test('keeps characters whose bytes straddle two chunks', async () => {
+    const bytes = new TextEncoder().encode('data: "₹ 1,000"\n\ndata: [DONE]\n\n');
+    const { text } = await stream([bytes.slice(0, 8), bytes.slice(8)]);
+    await expect(text).resolves.toBe('₹ 1,000');
+  });
+
+  test('joins multi-line data with newlines', async () => {
+    const { text } = await stream(['data: First line\ndata: second line\ndata:third\n\n', 'data: [DONE]\n\n']);
+    await expect(text).resolves.toBe('First line\nsecond line\nthird');
+  });
+
+  test('stops reading at [DONE]', async () => {
+    const { text, tokens, cancel } = await stream(['data: "Yes."\n\ndata: [DONE]\n\ndata: "ignored"\n\n']);
+    await expect(text).resolves.toBe('Yes.');
+    expect(tokens).toEqual(['Yes.']);
+    expect(cancel).toHaveBeenCalled();
+  });
+
+  test('a done event left in the buffer when the stream closes still completes', async () => {
+    const { text } = await stream(['data: "Yes."\n\nevent: done\ndata: {}']);
+    await expect(text).resolves.toBe('Yes.');
+  });
+
+  test('a stream that closes without done is interrupted, with the partial text', async () => {
+    const { text, tokens } = await stream(['data: "Rent is"\n\n']);
+    await expect(text).rejects.toMatchObject({ status: 0, body: { partial: 'Rent is' } });
+    expect(tokens).toEqual(['Rent is']);
+  });
+
+  test('an error event rejects with its message', async () => {
+    const { text } = await stream(['data: "Partial"\n\nevent: error\ndata: {"error": "Model overloaded"}\n\n']);
+    await expect(text).rejects.toBeInstanceOf(ApiError);
+    await expect(text).rejects.toMatchObject({ message: 'Model overloaded', status: 500 });
+  });
+
+  test('plain chunked text is passed through as it arrives', async () => {
+    const { text, tokens } = await stream(['Rent is ', 'due monthly.'], 'text/plain');
+    await expect(text).resolves.toBe('Rent is due monthly.');
+    expect(tokens).toEqual(['Rent is ', 'due monthly.']);
+  });
+
+  test('a JSON answer arrives as one token', async () => {
+    const { text, tokens } = await stream(['{"message": "Rent is due monthly."}'], 'application/json');
+    await expect(text).resolves.toBe('Rent is due monthly.');
+    expect(tokens).toEqual(['Rent is due monthly.']);
+  });
+});
@@ -0,0 +1,454 @@
+import axios from 'axios';
+import { API_BASE, API_MODE } from '../config';
+import { mockFetch } from './mock';
+import {
+  CachedProcessingResult,
+  ChatHistoryResponse,
+  ChatMessage,
+  ChatThread,
+  ChatThreadResponse,
+  ChatThreadsResponse,
+  Clause,
+  ClauseAnalysisVersion,
+  ClauseContextRequest,
+  ClauseVersionResponse,
+  ClauseVersionsResponse,
+  ClausesResponse,
+  CreateMitigationTaskRequest,
+  CustomScenarioRequest,
+  CustomScenarioResponse,
+  Document,
+  DocumentDetailsResponse,
+  DocumentResponse,
+  DocumentsChangedResponse,
+  DocumentsResponse,
+  LegalReference,
+  LegalReferencesResponse,
+  Matter,
+  MatterDocumentsResponse,
+  MatterRequest,
+  MatterResponse,
+  MattersResponse,
+  MitigationTask,
+  MitigationTaskResponse,
+  MitigationTasksResponse,
+  PersistClause,
+  PersistClausesResponse,
+  ProcessResponse,
+  ProcessStatusResponse,
+  ProcessingResult,
+  ReprocessResponse,
+  Scenario,
+  ScenariosRequest,
+  ScenariosResponse,
+  SendChatResponse,
+  TrashResponse,
+  UpdateDocumentRequest,
+  UpdateMitigationTaskRequest,
+  UploadResponse
+} from './types';
+
+// Every failed call rejects with an ApiError so callers can branch on `status`
+// (0 means the request never reached the server) instead of parsing responses.
+export class ApiError extends Error {
+  status: number;
+  route: string;
+  body: unknown;
+
+  constructor(message: string, status: number, route: string, body?: unknown) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.route = route;
+    this.body = body;
+    Object.setPrototypeOf(this, ApiError.prototype);
+  }
+}
+
+export const isApiError = (e: unknown): e is ApiError => e instanceof ApiError;
+
+// The `error` or `message` of a JSON error body, when it has one
+const errorMessage = (body: unknown): string | undefined => {
+  if (!body || typeof body !== 'object') return undefined;
+  const { error, message } = body as { error?: unknown; message?: unknown };
+  if (typeof error === 'string' && error) return error;
+  if (typeof message === 'string' && message) return message;
+  return undefined;
+};
+
+// Backend errors usually look like { error: "..." }, but plain text also happens
+const errorFromResponse = async (resp: Response, route: string) => {
+  let body: unknown = null;
+  let message = resp.statusText || `Request failed with status ${resp.status}`;
+  try {
+    const text = await resp.text();
+    try {
+      body = JSON.parse(text);
+      message = errorMessage(body) || JSON.stringify(body);
+    } catch {
+      body = text;
+      if (text) message = text;
+    }
+  } catch (_) {}
+  return new ApiError(message, resp.status, route, body);
+};
+
+// In mock mode requests never leave the browser
+const transport = (route: string, init?: RequestInit) =>
+  API_MODE === 'mock' ? mockFetch(route, init) : fetch(`${API_BASE}${route}`, init);
+
+const send = async (route: string, init?: RequestInit): Promise<Response> => {
+  let resp: Response;
+  try {
+    resp = await transport(route, init);
+  } catch (e) {
+    if ((e as Error)?.name === 'AbortError') throw e;
+    throw new ApiError((e as Error)?.message || 'Network error', 0, route);
+  }
+  if (!resp.ok) throw await errorFromResponse(resp, route);
+  return resp;
+};
+
+const request = async <T>(route: string, init?: RequestInit): Promise<T> => {
+  const resp = await send(route, init);
+  try {
+    return (await resp.json()) as T;
+  } catch (e) {
+    throw new ApiError('Invalid JSON in response', resp.status, route);
+  }
+};
+
+const postJson = <T>(route: string, body?: unknown, signal?: AbortSignal) =>
+  request<T>(route, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+    signal
+  });
+
+const id = (value: string) => encodeURIComponent(value);
+
+// --- Documents & chat ---
+
+export const listDocuments = async (): Promise<Document[]> => {
+  const data = await request<DocumentsResponse>('/api/documents');
+  return data.documents || [];
+};
+
+export const getDocumentDetails = async (documentId: string): Promise<DocumentDetailsResponse> => {
+  const details = await request<Omit<DocumentDetailsResponse, 'result'> & { result?: ProcessingResult | CachedProcessingResult }>(
+    `/api/documents/${id(documentId)}`
+  );
+  const { result } = details;
+  return { ...details, result: result && 'result' in result ? result.result : result };
+};
+
+export const updateDocument = async (documentId: string, patch: UpdateDocumentRequest): Promise<Document> =>
+  (await request<DocumentResponse>(`/api/documents/${id(documentId)}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(patch)
+  })).document;
+
+// Soft delete: trashed documents leave the document list but can be restored
+// until the backend's retention window runs out
+export const trashDocuments = (documentIds: string[]) =>
+  postJson<DocumentsChangedResponse>('/api/documents/trash', { document_ids: documentIds });
+
+export const restoreDocuments = (documentIds: string[]) =>
+  postJson<DocumentsChangedResponse>('/api/documents/restore', { document_ids: documentIds });
+
+export const listTrash = async (): Promise<TrashResponse> => {
+  const data = await request<TrashResponse>('/api/trash');
+  return { documents: data.documents || [], retention_days: data.retention_days };
+};
+
+export const listChatThreads = async (documentId: string): Promise<ChatThread[]> => {
+  const data = await request<ChatThreadsResponse>(`/api/chat/${id(documentId)}/threads`);
+  return data.threads || [];
+};
+
+export const createChatThread = async (documentId: string, title: string): Promise<ChatThread> =>
+  (await postJson<ChatThreadResponse>(`/api/chat/${id(documentId)}/threads`, { title })).thread;
+
+export const renameChatThread = async (threadId: string, title: string): Promise<ChatThread> =>
+  (await request<ChatThreadResponse>(`/api/chat/threads/${id(threadId)}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ title })
+  })).thread;
+
+export const deleteChatThread = async (threadId: string): Promise<void> => {
+  await send(`/api/chat/threads/${id(threadId)}`, { method: 'DELETE' });
+};
+
+// Without threadId the document's default thread is used
+export const getChatHistory = async (documentId: string, threadId?: string): Promise<ChatMessage[]> => {
+  const query = threadId ? `?thread_id=${id(threadId)}` : '';
+  const data = await request<ChatHistoryResponse>(`/api/chat/${id(documentId)}/history${query}`);
+  return data.chats || [];
+};
+
+export const sendChatMessage = (documentId: string, message: string, threadId?: string, messageId?: string) =>
+  postJson<SendChatResponse>(`/api/chat/${id(documentId)}`, { message, thread_id: threadId, message_id: messageId });
+
+export interface StreamOptions {
+  onToken: (token: string) => void;
+  signal?: AbortSignal;
+  threadId?: string;
+  // See SendChatRequest.message_id
+  messageId?: string;
+}
+
+// Pulls the text out of one SSE event; returns null for the terminal event
+const sseToken = (event: string, route: string): string | null => {
+  let name = 'message';
+  const data: string[] = [];
+  event.split(/\r?\n/).forEach(line => {
+    if (line.startsWith('event:')) name = line.slice(6).trim();
+    else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+  });
+  const payload = data.join('\n');
+  if (name === 'done' || payload === '[DONE]') return null;
+  if (name === 'error') {
+    let message = payload;
+    try { message = JSON.parse(payload).error || payload; } catch {}
+    throw new ApiError(message || 'Stream error', 500, route);
+  }
+  try {
+    const parsed = JSON.parse(payload);
+    if (typeof parsed === 'string') return parsed;
+    return parsed.token ?? parsed.delta ?? parsed.content ?? '';
+  } catch {
+    return payload;
+  }
+};
+
+// Streams the assistant reply from a chat endpoint. Understands SSE
+// (`data: {"token": "..."}` terminated by `event: done`), plain chunked text,
+// and the classic JSON `{ message }` answer from backends that don't stream.
+// Resolves with the full text; rejects with an ApiError if the stream drops
+// before it completes (tokens already delivered through onToken stay valid),
+// or with an AbortError when `signal` is aborted.
+const streamChat = async (route: string, body: object, options: StreamOptions): Promise<string> => {
+  const resp = await send(route, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+    body: JSON.stringify({ ...body, stream: true }),
+    signal: options.signal
+  });
+  const contentType = resp.headers.get('Content-Type') || '';
+
+  if (contentType.includes('application/json') || !resp.body) {
+    const data: SendChatResponse = contentType.includes('application/json')
+      ? await resp.json()
+      : { message: await resp.text() };
+    options.onToken(data.message || '');
+    return data.message || '';
+  }
+
+  const isSse = contentType.includes('text/event-stream');
+  const reader = resp.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+  const emit = (token: string) => {
+    if (!token) return;
+    text += token;
+    options.onToken(token);
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const chunk = decoder.decode(value, { stream: true });
+      if (!isSse) {
+        emit(chunk);
+        continue;
+      }
+      buffer += chunk;
+      const events = buffer.split(/\r?\n\r?\n/);
+      buffer = events.pop() || '';
+      for (const event of events) {
+        const token = sseToken(event, route);
+        if (token === null) {
+          reader.cancel().catch(() => {});
+          return text;
+        }
+        emit(token);
+      }
+    }
+  } catch (e) {
+    if (options.signal?.aborted || isApiError(e)) throw e;
+    throw new ApiError('The response stream was interrupted', 0, route, { partial: text });
+  }
+
+  // SSE streams must end with a done event; closing early means the connection dropped
+  if (isSse && buffer.trim() && sseToken(buffer, route) === null) return text;
+  if (isSse) throw new ApiError('The response stream ended unexpectedly', 0, route, { partial: text });
+  return text;
+};
+
+export const streamChatMessage = (documentId: string, message: string, options: StreamOptions) =>
+  streamChat(`/api/chat/${id(documentId)}`, { message, thread_id: options.threadId, message_id: options.messageId }, options);
+
+// Cross-document chat: one question answered over several documents, with
+// each statement attributed to the document it comes from
+export const sendMultiDocumentMessage = (documentIds: string[], message: string) =>
+  postJson<SendChatResponse>('/api/chat/multi', { document_ids: documentIds, message });
+
+export const streamMultiDocumentMessage = (documentIds: string[], message: string, options: StreamOptions) =>
+  streamChat('/api/chat/multi', { document_ids: documentIds, message }, options);
+
+// Deletes the document together with all of its threads, for good
+export const deleteChat = async (documentId: string): Promise<void> => {
+  await send(`/api/chats/${id(documentId)}`, { method: 'DELETE' });
+};
+
+// --- Upload & processing ---
+
+export interface UploadOptions {
+  // Called with 0-100 as the request body is sent
+  onProgress?: (percent: number) => void;
+  signal?: AbortSignal;
+}
+
+export const uploadDocument = async (file: File, options: UploadOptions = {}): Promise<UploadResponse> => {
+  const route = '/api/upload';
+  const formData = new FormData();
+  formData.append('file', file);
+  if (API_MODE === 'mock') {
+    const data = await request<UploadResponse>(route, { method: 'POST', body: formData, signal: options.signal });
+    options.onProgress?.(100);
+    return data;
+  }
+  try {
+    const response = await axios.post<UploadResponse>(`${API_BASE}${route}`, formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+      signal: options.signal,
+      onUploadProgress: e => {
+        if (options.onProgress && e.total) options.onProgress(Math.round((e.loaded / e.total) * 100));
+      }
+    });
+    return response.data;
+  } catch (error) {
+    const response = axios.isAxiosError(error) ? error.response : undefined;
+    const message = errorMessage(response?.data) || (error instanceof Error && error.message) || 'Upload failed';
+    throw new ApiError(message, response?.status || 0, route, response?.data);
+  }
+};
+
+export const startProcessing = async (fileId: string): Promise<ProcessResponse> => {
+  const resp = await send(`/api/process/${id(fileId)}`, { method: 'POST' });
+  if (resp.status === 202) {
+    const body = await resp.json().catch(() => ({}));
+    return { accepted: true, document_id: body?.document_id };
+  }
+  const body = await resp.json().catch(() => ({}));
+  // Some responses wrap the payload as { result, cached }
+  return { accepted: false, document_id: body?.document_id, result: body?.result || body };
+};
+
+// Extract the text of an already processed document again
+export const reprocessDocument = (documentId: string) =>
+  postJson<ReprocessResponse>(`/api/documents/${id(documentId)}/reprocess`);
+
+export const getProcessStatus = (fileId: string) =>
+  request<ProcessStatusResponse>(`/api/process/status/${id(fileId)}`);
+
+// --- Matters ---
+
+export const listMatters = async (): Promise<Matter[]> => {
+  const data = await request<MattersResponse>('/api/matters');
+  return data.matters || [];
+};
+
+export const createMatter = async (matter: MatterRequest): Promise<Matter> =>
+  (await postJson<MatterResponse>('/api/matters', matter)).matter;
+
+export const updateMatter = async (matterId: string, patch: MatterRequest): Promise<Matter> =>
+  (await request<MatterResponse>(`/api/matters/${id(matterId)}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(patch)
+  })).matter;
+
+// The matter's documents stay, unfiled
+export const deleteMatter = async (matterId: string): Promise<void> => {
+  await send(`/api/matters/${id(matterId)}`, { method: 'DELETE' });
+};
+
+export const getMatterDocuments = (matterId: string) =>
+  request<MatterDocumentsResponse>(`/api/matters/${id(matterId)}/documents`);
+
+// --- Clause analysis ---
+
+export const analyzeClauses = async (documentId: string): Promise<Clause[]> => {
+  const data = await request<ClausesResponse>(`/api/analysis/clauses/${id(documentId)}`);
+  return data.clauses || [];
+};
+
+export const getPersistedClauses = async (documentId: string): Promise<Clause[]> => {
+  const data = await request<ClausesResponse>(`/api/analysis/clauses/${id(documentId)}/persisted`);
+  return data.clauses || [];
+};
+
+export const persistClauses = (documentId: string, clauses: PersistClause[], author?: string) =>
+  postJson<PersistClausesResponse>(`/api/analysis/clauses/${id(documentId)}/persist`, { clauses, author });
+
+export const undoPersist = async (documentId: string, clauseIds: string[]): Promise<void> => {
+  await send(`/api/analysis/clauses/${id(documentId)}/undo`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ clause_ids: clauseIds })
+  });
+};
+
+export const listClauseVersions = async (documentId: string): Promise<ClauseAnalysisVersion[]> => {
+  const data = await request<ClauseVersionsResponse>(`/api/analysis/clauses/${id(documentId)}/versions`);
+  return data.versions || [];
+};
+
+export const getClauseVersion = (documentId: string, versionId: string) =>
+  request<ClauseVersionResponse>(`/api/analysis/clauses/${id(documentId)}/versions/${id(versionId)}`);
+
+// Makes a copy of an older version the current clause set (as a new version)
+export const restoreClauseVersion = (documentId: string, versionId: string, author?: string) =>
+  postJson<ClauseVersionResponse>(`/api/analysis/clauses/${id(documentId)}/versions/${id(versionId)}/restore`, { author });
+
+// --- Mitigation tasks ---
+
+export const listMitigationTasks = async (documentId: string): Promise<MitigationTask[]> => {
+  const data = await request<MitigationTasksResponse>(`/api/analysis/clauses/${id(documentId)}/tasks`);
+  return data.tasks || [];
+};
+
+export const createMitigationTask = async (documentId: string, task: CreateMitigationTaskRequest): Promise<MitigationTask> =>
+  (await postJson<MitigationTaskResponse>(`/api/analysis/clauses/${id(documentId)}/tasks`, task)).task;
+
+export const updateMitigationTask = async (taskId: string, patch: UpdateMitigationTaskRequest): Promise<MitigationTask> =>
+  (await request<MitigationTaskResponse>(`/api/analysis/tasks/${id(taskId)}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(patch)
+  })).task;
+
+export const deleteMitigationTask = async (taskId: string): Promise<void> => {
+  await send(`/api/analysis/tasks/${id(taskId)}`, { method: 'DELETE' });
+};
+
+// --- Per-clause enrichment ---
+
+export const getWhatIfScenarios = async (req: ScenariosRequest, signal?: AbortSignal): Promise<Scenario[]> => {
+  const data = await postJson<ScenariosResponse>('/api/what-if-scenarios', req, signal);
+  return data.scenarios || [];
+};
+
+export const askWhatIf = async (req: CustomScenarioRequest, signal?: AbortSignal): Promise<Scenario> =>
+  (await postJson<CustomScenarioResponse>('/api/what-if-scenarios/custom', req, signal)).scenario;
+
+export const getLegalReferences = async (req: ClauseContextRequest, signal?: AbortSignal): Promise<LegalReference[]> => {
+  const data = await postJson<LegalReferencesResponse>('/api/legal-knowledge-graph', req, signal);
+  return data.references || [];
+};
@@ -0,0 +1,769 @@
+import { ChatMessage, Clause, ClauseContextRequest, CreateMitigationTaskRequest, CustomScenarioRequest, Matter, MitigationTask, MitigationTaskStatus, PersistClause, ProcessState, RiskLevel, ScenariosRequest } from '../types';
+import { getMockCustomScenario, getMockReferences, getMockScenarios } from './fallbackData';
+import { SAMPLE_UPLOAD_TEXT, SeedDocument, SeedThread, SeedVersion, buildSeed, buildSeedMatters, resultFor } from './seed';
+
+// In-browser implementation of every /api/* route the UI calls. It keeps all
+// state in memory (a reload restores the seed) and answers with real Response
+// objects so the API client cannot tell it apart from the deployed backend.
+
+const LATENCY_MS = 250;
+// Processing reports 'pending' for the first second, then 'processing' until done
+const PENDING_MS = 1000;
+const PROCESSING_MS = 4000;
+const STREAM_TOKEN_MS = 35;
+// Uploads whose name matches this finish with status 'error'
+const FAILING_FILE = /corrupt|broken|error/i;
+// Trashed documents are removed for good after this many days
+const TRASH_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface MockFile {
+  file_id: string;
+  filename: string;
+  // null until POST /api/process is called
+  started_at: number | null;
+  status: ProcessState | 'uploaded';
+  document_id?: string;
+}
+
+interface MockState {
+  documents: Map<string, SeedDocument>;
+  files: Map<string, MockFile>;
+  matters: Map<string, Matter>;
+  counter: number;
+}
+
+const createState = (): MockState => {
+  const documents = new Map<string, SeedDocument>();
+  const files = new Map<string, MockFile>();
+  buildSeed().forEach(entry => {
+    documents.set(entry.document.id, entry);
+    files.set(entry.document.file_name, {
+      file_id: entry.document.file_name,
+      filename: entry.document.file_name,
+      started_at: entry.result ? 0 : null,
+      status: entry.result ? 'done' : 'uploaded',
+      document_id: entry.document.id
+    });
+  });
+  const matters = new Map(buildSeedMatters().map(m => [m.id, m]));
+  return { documents, files, matters, counter: 0 };
+};
+
+let state = createState();
+
+// Restore the seeded data; intended for tests and the demo "reset" action
+export const resetMockBackend = () => {
+  state = createState();
+};
+
+const nextId = (prefix: string) => `${prefix}-${Date.now().toString(36)}-${++state.counter}`;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const notFound = (what: string) => json({ error: `${what} not found` }, 404);
+
+const delay = (ms: number, signal?: AbortSignal | null) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+      return;
+    }
+    // Callers reuse long-lived signals, so the listener goes once the wait is over
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Request bodies are whatever the caller sent; handlers pick out and check
+// the fields they use
+const readJson = (init?: RequestInit): Record<string, unknown> => {
+  if (typeof init?.body !== 'string') return {};
+  try {
+    const body: unknown = JSON.parse(init.body);
+    return body && typeof body === 'object' && !Array.isArray(body) ? (body as Record<string, unknown>) : {};
+  } catch {
+    return {};
+  }
+};
+
+const optionalString = (value: unknown) => (typeof value === 'string' ? value : undefined);
+
+const stringList = (value: unknown) => (Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : []);
+
+const clauseContext = (body: Record<string, unknown>): ClauseContextRequest => ({
+  clauseText: optionalString(body.clauseText) || '',
+  documentType: optionalString(body.documentType),
+  clauseType: optionalString(body.clauseType),
+  jurisdiction: optionalString(body.jurisdiction)
+});
+
+// --- Processing ---
+
+const documentTypeFor = (filename: string) => {
+  const name = filename.toLowerCase();
+  if (name.includes('lease') || name.includes('rent')) return 'Lease Agreement';
+  if (name.includes('nda')) return 'NDA';
+  if (name.includes('employ')) return 'Employment Agreement';
+  if (name.includes('privacy')) return 'Privacy Policy';
+  return 'Service Agreement';
+};
+
+// Advance a file through pending → processing → done/error based on elapsed time
+const refreshFile = (file: MockFile) => {
+  if (file.started_at === null || file.status === 'done' || file.status === 'error') return file;
+  const elapsed = Date.now() - file.started_at;
+  if (elapsed < PENDING_MS) {
+    file.status = 'pending';
+  } else if (elapsed < PROCESSING_MS) {
+    file.status = 'processing';
+  } else if (FAILING_FILE.test(file.filename)) {
+    file.status = 'error';
+  } else {
+    const documentType = documentTypeFor(file.filename);
+    const existing = file.document_id ? state.documents.get(file.document_id) : undefined;
+    // Re-processing keeps the document's own text
+    const result = resultFor(file.file_id, existing?.result?.cleaned_text || SAMPLE_UPLOAD_TEXT, documentType);
+    const now = new Date().toISOString();
+    if (existing) {
+      existing.result = result;
+      existing.document = {
+        ...existing.document,
+        processed_at: now,
+        ocr_metadata: { document_type: documentType, statistics: result.statistics }
+      };
+    } else {
+      const id = nextId('doc');
+      state.documents.set(id, {
+        document: {
+          id,
+          file_name: file.filename,
+          created_at: now,
+          processed_at: now,
+          ocr_metadata: { document_type: documentType, statistics: result.statistics }
+        },
+        result,
+        threads: [],
+        persisted: [],
+        versions: [],
+        tasks: []
+      });
+      file.document_id = id;
+    }
+    file.status = 'done';
+  }
+  return file;
+};
+
+// --- Clause analysis ---
+
+// Persisted clauses need their text and a known risk level; other fields are kept as sent
+const isPersistClause = (value: unknown): value is PersistClause => {
+  if (!value || typeof value !== 'object') return false;
+  const { clause_text: text, risk } = value as Record<string, unknown>;
+  return typeof text === 'string' && (risk === 'low' || risk === 'medium' || risk === 'high');
+};
+
+// Replace the document's persisted clauses and record them as a new version
+const addVersion = (
+  entry: SeedDocument,
+  documentId: string,
+  clauses: Array<Omit<Clause, 'id'>>,
+  author?: string,
+  restoredFrom?: number
+): SeedVersion => {
+  const inserted: Clause[] = clauses.map(c => ({ ...c, id: nextId('clause') }));
+  const riskCounts: Record<RiskLevel, number> = { low: 0, medium: 0, high: 0 };
+  inserted.forEach(c => { riskCounts[c.risk] = (riskCounts[c.risk] || 0) + 1; });
+  const version: SeedVersion = {
+    version: {
+      id: nextId('version'),
+      document_id: documentId,
+      version: (entry.versions[entry.versions.length - 1]?.version.version || 0) + 1,
+      author: typeof author === 'string' && author.trim() ? author.trim() : undefined,
+      created_at: new Date().toISOString(),
+      clause_count: inserted.length,
+      risk_counts: riskCounts,
+      restored_from: restoredFrom
+    },
+    clauses: inserted
+  };
+  entry.versions.push(version);
+  entry.persisted = [...inserted];
+  return version;
+};
+
+const riskFor = (text: string): RiskLevel => {
+  const t = text.toLowerCase();
+  if (/penalt|indemnif|liquidated|terminat|liabilit|forfeit/.test(t)) return 'high';
+  if (/pay|fee|rent|deposit|interest|notice/.test(t)) return 'medium';
+  return 'low';
+};
+
+const analyze = (documentId: string, text: string): Clause[] => {
+  const clauses: Clause[] = [];
+  const numbered = /(^|\n\n)(\d+)\.\s+([^\n]+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = numbered.exec(text))) {
+    const start = match.index + match[1].length;
+    const clauseText = text.slice(start, start + match[0].length - match[1].length);
+    const headline = (match[3].split('.')[0] || '').trim();
+    const sentences = (clauseText.replace(/^\d+\.\s+[^.]+\.\s*/, '').match(/[^.]+\.?/g) || []).map(x => x.trim()).filter(Boolean);
+    clauses.push({
+      id: `${documentId}-clause-${match[2]}`,
+      clause_text: clauseText,
+      clause_headline: headline.charAt(0) + headline.slice(1).toLowerCase(),
+      risk: riskFor(clauseText),
+      highlights: sentences.slice(0, 2),
+      start_pos: start,
+      end_pos: start + clauseText.length
+    });
+  }
+  return clauses;
+};
+
+// --- Chat ---
+
+const DEMO_NOTE = '*(offline demo mode — answers are generated locally from the document text)*';
+
+// The paragraph sharing the most words with the question, if any
+const bestParagraph = (entry: SeedDocument, message: string) => {
+  if (!entry.result) return null;
+  const words = message.toLowerCase().match(/[a-z]{4,}/g) || [];
+  const scored = entry.result.cleaned_text.split('\n\n')
+    .map(p => ({ p, score: words.filter(w => p.toLowerCase().includes(w)).length }))
+    .filter(x => x.score > 0)
+    .sort((a, b) => b.score - a.score);
+  return scored.length ? scored[0].p : null;
+};
+
+const replyFor = (entry: SeedDocument, message: string) => {
+  if (!entry.result) {
+    return 'I could not find any extracted text for this document yet. Try processing it first.';
+  }
+  const paragraph = bestParagraph(entry, message);
+  if (!paragraph) {
+    return `This is an offline demo reply for **${entry.document.file_name}**. I could not match your question to a specific clause, so try asking about rent, termination, deposits or liability.`;
+  }
+  return `Here is the most relevant part of **${entry.document.file_name}**:\n\n> ${paragraph}\n\n${DEMO_NOTE}`;
+};
+
+// One section per document so every statement names its source
+const multiReplyFor = (entries: SeedDocument[], message: string) => {
+  const sections = entries.map(entry => {
+    const name = `**${entry.document.file_name}**`;
+    if (!entry.result) return `${name}: no extracted text yet, so this document was not compared.`;
+    const paragraph = bestParagraph(entry, message);
+    return paragraph ? `${name} says:\n\n> ${paragraph}` : `${name}: nothing in this document addresses the question.`;
+  });
+  return `Comparing ${entries.length} documents:\n\n${sections.join('\n\n')}\n\n${DEMO_NOTE}`;
+};
+
+const createThread = (entry: SeedDocument, title: string): SeedThread => {
+  const now = new Date().toISOString();
+  const created = {
+    thread: { id: nextId('thread'), document_id: entry.document.id, title, created_at: now, updated_at: now },
+    chats: []
+  };
+  entry.threads.push(created);
+  return created;
+};
+
+// Requests without thread_id go to the first thread, created on demand like the
+// backend does for documents whose history predates threads
+const threadFor = (entry: SeedDocument, threadId?: string | null) =>
+  threadId
+    ? entry.threads.find(t => t.thread.id === threadId)
+    : entry.threads[0] || createThread(entry, 'General');
+
+const findThread = (threadId: string) => {
+  for (const entry of Array.from(state.documents.values())) {
+    const found = entry.threads.find(t => t.thread.id === threadId);
+    if (found) return { entry, thread: found };
+  }
+  return null;
+};
+
+const findTask = (taskId: string) => {
+  for (const entry of Array.from(state.documents.values())) {
+    const task = entry.tasks.find(t => t.id === taskId);
+    if (task) return { entry, task };
+  }
+  return null;
+};
+
+// Tags are compared case-insensitively, so they are stored lower-cased and unique
+const cleanTags = (tags: unknown): string[] =>
+  Array.isArray(tags)
+    ? Array.from(new Set(tags.map(t => String(t).trim().toLowerCase()).filter(Boolean)))
+    : [];
+
+const isTrashed = (entry: SeedDocument) => !!entry.document.deleted_at;
+
+const liveDocuments = () => Array.from(state.documents.values()).filter(e => !isTrashed(e));
+
+// Documents past the retention window go for good on the next trash or list request
+const purgeExpiredTrash = () => {
+  const cutoff = Date.now() - TRASH_RETENTION_DAYS * DAY_MS;
+  state.documents.forEach((entry, documentId) => {
+    if (entry.document.deleted_at && new Date(entry.document.deleted_at).getTime() < cutoff) state.documents.delete(documentId);
+  });
+};
+
+// Applies `change` to every listed document for which `eligible` holds; the rest are reported as missing
+const changeDocuments = (init: RequestInit | undefined, eligible: (entry: SeedDocument) => boolean, change: (entry: SeedDocument) => void) => {
+  const ids = stringList(readJson(init).document_ids);
+  if (ids.length === 0) return json({ error: 'document_ids is required' }, 400);
+  const documents = [];
+  const missing: string[] = [];
+  for (const documentId of ids) {
+    const entry = state.documents.get(documentId);
+    if (!entry || !eligible(entry)) {
+      missing.push(documentId);
+      continue;
+    }
+    change(entry);
+    documents.push(entry.document);
+  }
+  return json({ documents, missing });
+};
+
+const matterSummary = (entry: SeedDocument) => {
+  const riskCounts: Record<RiskLevel, number> = { low: 0, medium: 0, high: 0 };
+  entry.persisted.forEach(c => { riskCounts[c.risk] += 1; });
+  return { document: entry.document, clause_count: entry.persisted.length, risk_counts: riskCounts };
+};
+
+const TASK_STATUSES: MitigationTaskStatus[] = ['todo', 'in_progress', 'done'];
+
+const isTaskStatus = (value: unknown): value is MitigationTaskStatus =>
+  TASK_STATUSES.some(status => status === value);
+
+const threadJson = ({ thread, chats }: SeedThread) => ({ ...thread, message_count: chats.length });
+
+const addMessage = (target: SeedThread, role: ChatMessage['role'], message: string, messageId?: string) => {
+  const now = new Date().toISOString();
+  target.chats.push({ id: messageId || nextId('msg'), role, message, created_at: now });
+  target.thread.updated_at = now;
+};
+
+// Emits the reply word by word as SSE, like the streaming chat endpoint.
+// With a target thread, whatever was sent is saved there when the stream ends.
+const streamReply = (target: SeedThread | null, reply: string, signal?: AbortSignal | null) => {
+  const encoder = new TextEncoder();
+  const tokens = reply.match(/\S+\s*/g) || [];
+  let sent = '';
+  const save = () => {
+    if (sent && target) addMessage(target, 'assistant', sent);
+  };
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        for (const token of tokens) {
+          await delay(STREAM_TOKEN_MS, signal);
+          sent += token;
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ token })}\n\n`));
+        }
+        controller.enqueue(encoder.encode('event: done\ndata: {}\n\n'));
+        controller.close();
+      } catch (e) {
+        controller.error(e);
+      } finally {
+        // Like the real backend, keep whatever was generated before a stop
+        save();
+      }
+    }
+  });
+  return new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+};
+
+// --- Router ---
+
+type Handler = (params: string[], init: RequestInit | undefined, query: URLSearchParams) => Response | Promise<Response>;
+
+const routes: Array<[string, RegExp, Handler]> = [
+  ['GET', /^\/api\/documents$/, () => {
+    purgeExpiredTrash();
+    return json({ documents: liveDocuments().map(e => e.document) });
+  }],
+
+  // Registered before /api/documents/:documentId so "trash" and "restore" are not taken for ids
+  ['POST', /^\/api\/documents\/trash$/, (_, init) =>
+    changeDocuments(init, entry => !isTrashed(entry), entry => {
+      entry.document = { ...entry.document, deleted_at: new Date().toISOString() };
+    })],
+
+  ['POST', /^\/api\/documents\/restore$/, (_, init) =>
+    changeDocuments(init, isTrashed, entry => {
+      entry.document = { ...entry.document, deleted_at: null };
+    })],
+
+  ['GET', /^\/api\/trash$/, () => {
+    purgeExpiredTrash();
+    const trashed = Array.from(state.documents.values()).filter(isTrashed).map(e => e.document);
+    trashed.sort((a, b) => (b.deleted_at || '').localeCompare(a.deleted_at || ''));
+    return json({ documents: trashed, retention_days: TRASH_RETENTION_DAYS });
+  }],
+
+  ['POST', /^\/api\/documents\/([^/]+)\/reprocess$/, ([documentId]) => {
+    const entry = state.documents.get(documentId);
+    if (!entry || isTrashed(entry)) return notFound('Document');
+    const file = Array.from(state.files.values()).find(f => f.document_id === documentId);
+    if (!file) return notFound('File');
+    if (file.status === 'pending' || file.status === 'processing') return json({ error: 'Document is already being processed' }, 409);
+    file.started_at = Date.now();
+    file.status = 'pending';
+    return json({ file_id: file.file_id, document_id: documentId }, 202);
+  }],
+
+  ['GET', /^\/api\/documents\/([^/]+)$/, ([documentId]) => {
+    const entry = state.documents.get(documentId);
+    if (!entry) return notFound('Document');
+    return json({ document: entry.document, result: entry.result });
+  }],
+
+  ['PATCH', /^\/api\/documents\/([^/]+)$/, ([documentId], init) => {
+    const entry = state.documents.get(documentId);
+    if (!entry) return notFound('Document');
+    const patch = readJson(init);
+    const matterId = optionalString(patch.matter_id);
+    if (matterId && !state.matters.has(matterId)) return notFound('Matter');
+    const document = { ...entry.document };
+    if (patch.matter_id !== undefined) document.matter_id = matterId || null;
+    if (patch.tags !== undefined) document.tags = cleanTags(patch.tags);
+    entry.document = document;
+    return json({ document });
+  }],
+
+  ['GET', /^\/api\/matters$/, () =>
+    json({ matters: Array.from(state.matters.values()).sort((a, b) => a.name.localeCompare(b.name)) })],
+
+  ['POST', /^\/api\/matters$/, (_, init) => {
+    const body = readJson(init);
+    const name = String(body.name || '').trim();
+    if (!name) return json({ error: 'name is required' }, 400);
+    const now = new Date().toISOString();
+    const matter: Matter = { id: nextId('matter'), name, client: String(body.client || '').trim() || undefined, created_at: now, updated_at: now };
+    state.matters.set(matter.id, matter);
+    return json({ matter }, 201);
+  }],
+
+  ['PATCH', /^\/api\/matters\/([^/]+)$/, ([matterId], init) => {
+    const matter = state.matters.get(matterId);
+    if (!matter) return notFound('Matter');
+    const patch = readJson(init);
+    if (patch.name !== undefined && !String(patch.name).trim()) return json({ error: 'name cannot be empty' }, 400);
+    const updated: Matter = {
+      ...matter,
+      name: patch.name !== undefined ? String(patch.name).trim() : matter.name,
+      client: patch.client !== undefined ? String(patch.client).trim() || undefined : matter.client,
+      updated_at: new Date().toISOString()
+    };
+    state.matters.set(matterId, updated);
+    return json({ matter: updated });
+  }],
+
+  ['DELETE', /^\/api\/matters\/([^/]+)$/, ([matterId]) => {
+    if (!state.matters.delete(matterId)) return notFound('Matter');
+    state.documents.forEach(entry => {
+      if (entry.document.matter_id === matterId) entry.document = { ...entry.document, matter_id: null };
+    });
+    return json({ deleted: true });
+  }],
+
+  ['GET', /^\/api\/matters\/([^/]+)\/documents$/, ([matterId]) => {
+    const matter = state.matters.get(matterId);
+    if (!matter) return notFound('Matter');
+    const entries = liveDocuments().filter(e => e.document.matter_id === matterId);
+    return json({ matter, documents: entries.map(matterSummary) });
+  }],
+
+  // Registered before /api/chat/:documentId so "multi" is not taken for a document id
+  ['POST', /^\/api\/chat\/multi$/, (_, init) => {
+    const body = readJson(init);
+    const message = optionalString(body.message);
+    const documentIds = stringList(body.document_ids);
+    if (!message) return json({ error: 'message is required' }, 400);
+    if (documentIds.length === 0) return json({ error: 'document_ids is required' }, 400);
+    const entries = documentIds.map(docId => state.documents.get(docId));
+    if (entries.some(e => !e)) return notFound('Document');
+    const reply = multiReplyFor(entries as SeedDocument[], message);
+    const accept = new Headers(init?.headers).get('Accept') || '';
+    if (!accept.includes('text/event-stream')) return json({ message: reply });
+    return streamReply(null, reply, init?.signal);
+  }],
+
+  ['GET', /^\/api\/chat\/([^/]+)\/threads$/, ([documentId]) => {
+    const entry = state.documents.get(documentId);
+    if (!entry) return notFound('Document');
+    if (!entry.threads.length) createThread(entry, 'General');
+    return json({ threads: entry.threads.map(threadJson) });
+  }],
+
+  ['POST', /^\/api\/chat\/([^/]+)\/threads$/, ([documentId], init) => {
+    const entry = state.documents.get(documentId);
+    if (!entry) return notFound('Document');
+    const title = String(readJson(init).title || '').trim();
+    if (!title) return json({ error: 'title is required' }, 400);
+    return json({ thread: threadJson(createThread(entry, title)) }, 201);
+  }],
+
+  ['PATCH', /^\/api\/chat\/threads\/([^/]+)$/, ([threadId], init) => {
+    const found = findThread(threadId);
+    if (!found) return notFound('Thread');
+    const title = String(readJson(init).title || '').trim();
+    if (!title) return json({ error: 'title is required' }, 400);
+    found.thread.thread.title = title;
+    found.thread.thread.updated_at = new Date().toISOString();
+    return json({ thread: threadJson(found.thread) });
+  }],
+
+  ['DELETE', /^\/api\/chat\/threads\/([^/]+)$/, ([threadId]) => {
+    const found = findThread(threadId);
+    if (!found) return notFound('Thread');
+    found.entry.threads = found.entry.threads.filter(t => t !== found.thread);
+    return json({ deleted: true });
+  }],
+
+  ['GET', /^\/api\/chat\/([^/]+)\/history$/, ([documentId], _, query) => {
+    const entry = state.documents.get(documentId);
+    if (!entry) return notFound('Document');
+    const target = threadFor(entry, query.get('thread_id'));
+    if (!target) return notFound('Thread');
+    return json({ chats: target.chats });
+  }],
+
+  ['POST', /^\/api\/chat\/([^/]+)$/, ([documentId], init) => {
+    const entry = state.documents.get(documentId);
+    if (!entry) return notFound('Document');
+    const body = readJson(init);
+    const message = optionalString(body.message);
+    if (!message) return json({ error: 'message is required' }, 400);
+    const target = threadFor(entry, optionalString(body.thread_id));
+    if (!target) return notFound('Thread');
+    const reply = replyFor(entry, message);
+    // A retried question is already in the thread
+    const messageId = optionalString(body.message_id);
+    if (!messageId || !target.chats.some(c => c.id === messageId)) addMessage(target, 'user', message, messageId);
+    const accept = new Headers(init?.headers).get('Accept') || '';
+    if (!accept.includes('text/event-stream')) {
+      addMessage(target, 'assistant', reply);
+      return json({ message: reply });
+    }
+    return streamReply(target, reply, init?.signal);
+  }],
+
+  ['DELETE', /^\/api\/chats\/([^/]+)$/, ([documentId]) => {
+    if (!state.documents.delete(documentId)) return notFound('Document');
+    return json({ deleted: true });
+  }],
+
+  ['POST', /^\/api\/upload$/, (_, init) => {
+    const file = init?.body instanceof FormData ? init.body.get('file') : null;
+    if (!(file instanceof File)) return json({ error: 'No file provided' }, 400);
+    if (file.size === 0) return json({ error: 'Uploaded file is empty' }, 400);
+    const fileId = nextId('file');
+    state.files.set(fileId, { file_id: fileId, filename: file.name, started_at: null, status: 'uploaded' });
+    return json({ file_id: fileId, filename: file.name });
+  }],
+
+  ['POST', /^\/api\/process\/([^/]+)$/, ([fileId]) => {
+    const file = state.files.get(fileId);
+    if (!file) return notFound('File');
+    refreshFile(file);
+    if (file.status === 'done') {
+      const entry = file.document_id ? state.documents.get(file.document_id) : undefined;
+      return json({ result: entry?.result, document_id: file.document_id, cached: true });
+    }
+    if (file.started_at === null || file.status === 'error') {
+      file.started_at = Date.now();
+      file.status = 'pending';
+    }
+    return json({ status: file.status }, 202);
+  }],
+
+  ['GET', /^\/api\/process\/status\/([^/]+)$/, ([fileId]) => {
+    const file = state.files.get(fileId);
+    if (!file || file.started_at === null) return notFound('File');
+    refreshFile(file);
+    if (file.status === 'error') {
+      return json({ status: 'error', error: 'Text extraction failed for this file' });
+    }
+    const entry = file.status === 'done' && file.document_id ? state.documents.get(file.document_id) : undefined;
+    return json({ status: file.status, document_id: file.document_id, result: entry?.result });
+  }],
+
+  ['GET', /^\/api\/analysis\/clauses\/([^/]+)$/, ([documentId]) => {
+    const entry = state.documents.get(documentId);
+    if (!entry) return notFound('Document');
+    if (!entry.result) return json({ error: 'Document text unavailable. Process the document first.' }, 422);
+    return json({ clauses: analyze(documentId, entry.result.cleaned_text) });
+  }],
+
+  ['GET', /^\/api\/analysis\/clauses\/([^/]+)\/persisted$/, ([documentId]) => {
+    const entry = state.documents.get(documentId);
+    if (!entry) return notFound('Document');
+    return json({ clauses: entry.persisted });
+  }],
+
+  ['POST', /^\/api\/analysis\/clauses\/([^/]+)\/persist$/, ([documentId], init) => {
+    const entry = state.documents.get(documentId);
+    if (!entry) return notFound('Document');
+    const body = readJson(init);
+    const clauses = Array.isArray(body.clauses) ? body.clauses.filter(isPersistClause) : [];
+    const { version, clauses: inserted } = addVersion(entry, documentId, clauses, optionalString(body.author));
+    return json({ count: inserted.length, inserted, version });
+  }],
+
+  ['POST', /^\/api\/analysis\/clauses\/([^/]+)\/undo$/, ([documentId], init) => {
+    const entry = state.documents.get(documentId);
+    if (!entry) return notFound('Document');
+    const ids = stringList(readJson(init).clause_ids);
+    const latest = entry.versions[entry.versions.length - 1];
+    if (latest && latest.clauses.every(c => ids.includes(c.id))) {
+      // Undoing a whole persist forgets its version and brings back the previous one
+      entry.versions.pop();
+      entry.persisted = [...(entry.versions[entry.versions.length - 1]?.clauses || [])];
+    } else {
+      entry.persisted = entry.persisted.filter(c => !ids.includes(c.id));
+    }
+    return json({ removed: ids.length });
+  }],
+
+  ['GET', /^\/api\/analysis\/clauses\/([^/]+)\/versions$/, ([documentId]) => {
+    const entry = state.documents.get(documentId);
+    if (!entry) return notFound('Document');
+    return json({ versions: entry.versions.map(v => v.version).reverse() });
+  }],
+
+  ['GET', /^\/api\/analysis\/clauses\/([^/]+)\/versions\/([^/]+)$/, ([documentId, versionId]) => {
+    const entry = state.documents.get(documentId);
+    if (!entry) return notFound('Document');
+    const found = entry.versions.find(v => v.version.id === versionId);
+    if (!found) return notFound('Version');
+    return json(found);
+  }],
+
+  ['POST', /^\/api\/analysis\/clauses\/([^/]+)\/versions\/([^/]+)\/restore$/, ([documentId, versionId], init) => {
+    const entry = state.documents.get(documentId);
+    if (!entry) return notFound('Document');
+    const found = entry.versions.find(v => v.version.id === versionId);
+    if (!found) return notFound('Version');
+    const clauses = found.clauses.map(({ id, ...rest }) => rest);
+    return json(addVersion(entry, documentId, clauses, optionalString(readJson(init).author), found.version.version));
+  }],
+
+  ['GET', /^\/api\/analysis\/clauses\/([^/]+)\/tasks$/, ([documentId]) => {
+    const entry = state.documents.get(documentId);
+    if (!entry) return notFound('Document');
+    return json({ tasks: entry.tasks });
+  }],
+
+  ['POST', /^\/api\/analysis\/clauses\/([^/]+)\/tasks$/, ([documentId], init) => {
+    const entry = state.documents.get(documentId);
+    if (!entry) return notFound('Document');
+    const raw = readJson(init);
+    if (raw.status && !isTaskStatus(raw.status)) return json({ error: `Unknown status: ${raw.status}` }, 400);
+    const body: Partial<CreateMitigationTaskRequest> = {
+      clause_id: optionalString(raw.clause_id),
+      clause_text: optionalString(raw.clause_text),
+      clause_headline: optionalString(raw.clause_headline),
+      scenario_id: optionalString(raw.scenario_id),
+      scenario_title: optionalString(raw.scenario_title),
+      mitigation: optionalString(raw.mitigation),
+      owner: optionalString(raw.owner),
+      due_date: optionalString(raw.due_date),
+      status: isTaskStatus(raw.status) ? raw.status : undefined
+    };
+    if (!body.clause_id || !body.scenario_id || !body.mitigation?.trim()) {
+      return json({ error: 'clause_id, scenario_id and mitigation are required' }, 400);
+    }
+    const now = new Date().toISOString();
+    const task: MitigationTask = {
+      id: nextId('task'),
+      document_id: documentId,
+      clause_id: body.clause_id,
+      clause_text: body.clause_text || '',
+      clause_headline: body.clause_headline,
+      scenario_id: body.scenario_id,
+      scenario_title: body.scenario_title || '',
+      mitigation: body.mitigation.trim(),
+      owner: body.owner || undefined,
+      due_date: body.due_date || undefined,
+      status: body.status || 'todo',
+      created_at: now,
+      updated_at: now
+    };
+    entry.tasks.push(task);
+    return json({ task }, 201);
+  }],
+
+  ['PATCH', /^\/api\/analysis\/tasks\/([^/]+)$/, ([taskId], init) => {
+    const found = findTask(taskId);
+    if (!found) return notFound('Task');
+    const patch = readJson(init);
+    if (patch.status !== undefined && !isTaskStatus(patch.status)) return json({ error: `Unknown status: ${patch.status}` }, 400);
+    if (patch.mitigation !== undefined && !String(patch.mitigation).trim()) return json({ error: 'mitigation cannot be empty' }, 400);
+    const { task } = found;
+    if (isTaskStatus(patch.status)) task.status = patch.status;
+    if (patch.mitigation !== undefined) task.mitigation = String(patch.mitigation).trim();
+    if (patch.owner !== undefined) task.owner = String(patch.owner).trim() || undefined;
+    if (patch.due_date !== undefined) task.due_date = optionalString(patch.due_date) || undefined;
+    task.updated_at = new Date().toISOString();
+    return json({ task });
+  }],
+
+  ['DELETE', /^\/api\/analysis\/tasks\/([^/]+)$/, ([taskId]) => {
+    const found = findTask(taskId);
+    if (!found) return notFound('Task');
+    found.entry.tasks = found.entry.tasks.filter(t => t !== found.task);
+    return json({ deleted: true });
+  }],
+
+  ['POST', /^\/api\/what-if-scenarios$/, (_, init) => {
+    const body = readJson(init);
+    const req: ScenariosRequest = { ...clauseContext(body), round: typeof body.round === 'number' ? body.round : undefined };
+    if (!req.clauseText) return json({ error: 'clauseText is required' }, 400);
+    return json({ scenarios: getMockScenarios(req.documentType || 'Legal Document', req.clauseType, req.jurisdiction, req.round) });
+  }],
+
+  ['POST', /^\/api\/what-if-scenarios\/custom$/, (_, init) => {
+    const body = readJson(init);
+    const req: CustomScenarioRequest = { ...clauseContext(body), question: optionalString(body.question) || '' };
+    if (!req.clauseText) return json({ error: 'clauseText is required' }, 400);
+    if (!req.question?.trim()) return json({ error: 'question is required' }, 400);
+    const scenario = getMockCustomScenario(req.question, req.documentType || 'Legal Document', req.clauseType, req.jurisdiction);
+    return json({ scenario: { ...scenario, id: nextId('scenario') } });
+  }],
+
+  ['POST', /^\/api\/legal-knowledge-graph$/, (_, init) => {
+    const req = clauseContext(readJson(init));
+    if (!req.clauseText) return json({ error: 'clauseText is required' }, 400);
+    return json({ references: getMockReferences(req.documentType || 'Legal Document', req.clauseType, req.clauseText, req.jurisdiction) });
+  }]
+];
+
+// Drop-in replacement for fetch(`${API_BASE}${route}`, init)
+export const mockFetch = async (route: string, init?: RequestInit): Promise<Response> => {
+  await delay(LATENCY_MS, init?.signal);
+  const method = (init?.method || 'GET').toUpperCase();
+  const [path, search = ''] = route.split('?');
+  for (const [routeMethod, pattern, handler] of routes) {
+    const match = routeMethod === method ? pattern.exec(path) : null;
+    if (match) {
+      try {
+        return await handler(match.slice(1).map(decodeURIComponent), init, new URLSearchParams(search));
+      } catch (e) {
+        return json({ error: `Mock backend error: ${(e as Error).message}` }, 500);
+      }
+    }
+  }
+  return json({ error: `No mock route for ${method} ${path}` }, 404);
+};
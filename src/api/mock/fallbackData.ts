@@ -0,0 +1,334 @@
+import { LegalReference, Scenario } from '../types';
+import { DEFAULT_JURISDICTION, getJurisdictionPack, matcher } from '../../jurisdiction/packs';
+
+// Offline fallback data used when the knowledge-graph / what-if endpoints are
+// unreachable, and served directly by the mock backend in demo mode. The law
+// comes from the jurisdiction pack; a jurisdiction without a pack gets no
+// references rather than another country's.
+
+export const getMockReferences = (
+  docType: string,
+  clType?: string,
+  clause?: string,
+  jurisdiction: string = DEFAULT_JURISDICTION
+): LegalReference[] => {
+  const pack = getJurisdictionPack(jurisdiction);
+  if (!pack) return [];
+  return pack.references(docType, clType, clause)
+    .slice(0, 4)
+    .map(ref => ({ ...ref, jurisdiction: pack.code }));
+};
+
+// Scenarios offered when a set is regenerated, a few at a time, so each round
+// reads differently from the last
+const ALTERNATE_SCENARIOS: Scenario[] = [
+  {
+    id: 'force_majeure',
+    title: 'Force Majeure Event',
+    description: 'An event outside either party\'s control stops performance',
+    likelihood: 'low',
+    impact: 'high',
+    category: 'operational',
+    outcomes: [
+      'Performance may be suspended without liability if the event is covered',
+      'Disputes over whether the event qualifies',
+      'Prolonged events may give a right to terminate'
+    ],
+    mitigation: [
+      'List qualifying events and notice requirements explicitly',
+      'Set a long-stop date after which either party may exit',
+      'Keep business continuity plans for critical obligations'
+    ]
+  },
+  {
+    id: 'counterparty_insolvency',
+    title: 'Counterparty Insolvency',
+    description: 'The other party becomes insolvent mid-term',
+    likelihood: 'low',
+    impact: 'high',
+    category: 'financial',
+    outcomes: [
+      'Amounts owed may only be recovered in part',
+      'An administrator may continue or disclaim the agreement',
+      'Advance payments and deposits are at risk'
+    ],
+    mitigation: [
+      'Limit prepayments and hold security where possible',
+      'Add financial reporting or guarantee requirements',
+      'Check how insolvency-triggered termination rights apply locally'
+    ]
+  },
+  {
+    id: 'regulatory_change',
+    title: 'Change in Law',
+    description: 'New regulation makes the clause costlier or harder to perform',
+    likelihood: 'medium',
+    impact: 'medium',
+    category: 'compliance',
+    outcomes: [
+      'Compliance costs may fall on one party unless the contract says otherwise',
+      'Parts of the clause may become unenforceable',
+      'Renegotiation may be needed mid-term'
+    ],
+    mitigation: [
+      'Add a change-in-law clause with a cost-sharing mechanism',
+      'Schedule periodic compliance reviews',
+      'Allow amendment by mutual written agreement'
+    ]
+  },
+  {
+    id: 'dispute_escalation',
+    title: 'Dispute Escalation',
+    description: 'A disagreement over this clause cannot be settled informally',
+    likelihood: 'medium',
+    impact: 'medium',
+    category: 'legal',
+    outcomes: [
+      'Costs of arbitration or litigation',
+      'Performance may stall while the dispute runs',
+      'Outcome depends on how clearly the clause is drafted'
+    ],
+    mitigation: [
+      'Set a tiered escalation: negotiation, mediation, then arbitration',
+      'Fix governing law and forum in the agreement',
+      'Keep written records of performance and communications'
+    ]
+  },
+  {
+    id: 'change_of_control',
+    title: 'Assignment or Change of Control',
+    description: 'The other party assigns the agreement or is acquired',
+    likelihood: 'low',
+    impact: 'medium',
+    category: 'operational',
+    outcomes: [
+      'You may end up dealing with an unknown counterparty',
+      'Service levels or priorities may change',
+      'Confidential information may pass to a competitor'
+    ],
+    mitigation: [
+      'Require consent for assignment',
+      'Add a termination right on change of control',
+      'Tighten confidentiality obligations'
+    ]
+  },
+  {
+    id: 'key_person_departure',
+    title: 'Key Person Departure',
+    description: 'People the arrangement depends on leave',
+    likelihood: 'medium',
+    impact: 'medium',
+    category: 'operational',
+    outcomes: [
+      'Delivery quality or timelines may slip',
+      'Knowledge needed to perform the clause may be lost',
+      'Replacement costs and handover delays'
+    ],
+    mitigation: [
+      'Name key personnel and require approval of replacements',
+      'Require documentation and handover plans',
+      'Tie fees to service levels rather than individuals'
+    ]
+  }
+];
+
+const ALTERNATES_PER_ROUND = 3;
+
+export const getMockScenarios = (
+  docType: string,
+  clType?: string,
+  jurisdiction: string = DEFAULT_JURISDICTION,
+  round = 1
+): Scenario[] => {
+  const packScenarios = getJurisdictionPack(jurisdiction)?.scenarios(docType, clType) || [];
+  if (round > 1) {
+    const start = ((round - 2) * ALTERNATES_PER_ROUND) % ALTERNATE_SCENARIOS.length;
+    const picked = [...ALTERNATE_SCENARIOS, ...ALTERNATE_SCENARIOS].slice(start, start + ALTERNATES_PER_ROUND);
+    return [...picked, ...packScenarios];
+  }
+
+  const is = matcher(docType);
+  const baseScenarios: Scenario[] = [];
+
+  // Common scenarios for all legal documents
+  baseScenarios.push({
+    id: 'breach_scenario',
+    title: 'Clause Breach Scenario',
+    description: 'What happens if this clause is violated or not fulfilled',
+    likelihood: 'medium',
+    impact: 'high',
+    category: 'breach',
+    outcomes: [
+      'Legal action may be initiated by the non-breaching party',
+      'Damages or penalties as specified in the contract may apply',
+      'Relationship between parties may be strained or terminated'
+    ],
+    mitigation: [
+      'Implement clear monitoring and compliance procedures',
+      'Regular review and communication between parties',
+      'Consider adding grace periods or cure provisions'
+    ]
+  });
+
+  // Document type specific scenarios
+  if (is.type('contract', 'agreement')) {
+    baseScenarios.push(
+      {
+        id: 'payment_delay',
+        title: 'Payment Delay Scenario',
+        description: 'Analysis of delayed payment implications',
+        likelihood: 'high',
+        impact: 'medium',
+        category: 'financial',
+        outcomes: [
+          'Interest charges may accrue on overdue amounts',
+          'Services may be suspended until payment is received',
+          'Credit rating impact for the defaulting party'
+        ],
+        mitigation: [
+          'Establish clear payment terms and schedules',
+          'Implement automated payment reminders',
+          'Consider requiring deposits or guarantees'
+        ]
+      },
+      {
+        id: 'scope_creep',
+        title: 'Scope Expansion Scenario',
+        description: 'What if project scope expands beyond agreed terms',
+        likelihood: 'medium',
+        impact: 'medium',
+        category: 'operational',
+        outcomes: [
+          'Additional costs may not be covered',
+          'Timeline delays and resource strain',
+          'Disputes over responsibility and compensation'
+        ],
+        mitigation: [
+          'Define clear change management procedures',
+          'Require written approval for scope changes',
+          'Establish pricing for additional work'
+        ]
+      }
+    );
+  }
+
+  if (is.type('lease', 'rental')) {
+    baseScenarios.push({
+      id: 'early_termination',
+      title: 'Early Lease Termination',
+      description: 'Financial and legal consequences of breaking the lease',
+      likelihood: 'medium',
+      impact: 'medium',
+      category: 'financial',
+      outcomes: [
+        'Early termination penalties may apply',
+        'Loss of security deposit',
+        'Difficulty finding alternative accommodation'
+      ],
+      mitigation: [
+        'Include reasonable termination clauses',
+        'Allow subletting with landlord approval',
+        'Consider graduated penalty structure'
+      ]
+    });
+  }
+
+  // Lease damage, dismissal and data breach scenarios cite local law
+  baseScenarios.push(...packScenarios);
+
+  return baseScenarios;
+};
+
+const QUESTION_TEMPLATES: Array<{ words: string[]; category: Scenario['category']; outcomes: string[]; mitigation: string[] }> = [
+  {
+    words: ['leave', 'leaves', 'vacate', 'terminat', 'exit', 'quit', 'cancel', 'walk away', 'early'],
+    category: 'breach',
+    outcomes: [
+      'Notice and lock-in terms in this clause decide whether leaving early is a breach',
+      'Unpaid amounts for the remaining period or a termination fee may be claimed',
+      'Deposits or advance payments may be withheld against losses'
+    ],
+    mitigation: [
+      'Check the notice period and any lock-in before acting',
+      'Agree an exit in writing, including what happens to deposits',
+      'Document the handover to limit later claims'
+    ]
+  },
+  {
+    words: ['pay', 'rent', 'fee', 'invoice', 'price', 'cost', 'money', 'interest', 'deposit'],
+    category: 'financial',
+    outcomes: [
+      'Late or missed payments may attract interest or penalties under this clause',
+      'The other party may suspend performance until paid',
+      'Repeated default can become grounds for termination'
+    ],
+    mitigation: [
+      'Confirm due dates, grace periods and interest rates in the clause',
+      'Raise disputes about amounts in writing before the due date',
+      'Consider a payment plan agreed in writing'
+    ]
+  },
+  {
+    words: ['data', 'privacy', 'leak', 'breach of data', 'personal information', 'hack'],
+    category: 'compliance',
+    outcomes: [
+      'Regulatory notification duties may be triggered',
+      'Liability may be shared depending on who controlled the data',
+      'Affected individuals may bring claims'
+    ],
+    mitigation: [
+      'Follow the incident response steps the clause requires',
+      'Preserve logs and evidence',
+      'Check indemnities and liability caps that apply'
+    ]
+  },
+  {
+    words: ['late', 'delay', 'deliver', 'deadline', 'scope', 'miss'],
+    category: 'operational',
+    outcomes: [
+      'Delays may count as breach once any cure period runs out',
+      'Liquidated damages or service credits may apply',
+      'Dependent work and timelines slip'
+    ],
+    mitigation: [
+      'Give written notice of the delay and its cause promptly',
+      'Agree revised milestones in writing',
+      'Check whether the delay falls under force majeure'
+    ]
+  }
+];
+
+const LEGAL_TEMPLATE = {
+  category: 'legal' as Scenario['category'],
+  outcomes: [
+    'How a court reads this clause decides who bears the consequences',
+    'Ambiguity is often read against the party who drafted the clause',
+    'Legal costs may be recoverable only if the agreement says so'
+  ],
+  mitigation: [
+    'Get advice on how the clause applies to these facts',
+    'Keep written records of what each party did and when',
+    'Try to resolve it through the agreed dispute process first'
+  ]
+};
+
+// Answer to a reviewer's own hypothetical, shaped like the generated scenarios.
+// Picks the closest template by keywords; the clause's risk sets the impact.
+export const getMockCustomScenario = (question: string, docType: string, clType?: string, jurisdiction: string = DEFAULT_JURISDICTION): Scenario => {
+  const text = question.toLowerCase();
+  const template = QUESTION_TEMPLATES.find(t => t.words.some(w => text.includes(w))) || LEGAL_TEMPLATE;
+  const hypothesis = question.trim().replace(/^what\s+if\s+/i, '').replace(/[?.!\s]+$/, '');
+  const risk = clType === 'high' || clType === 'medium' || clType === 'low' ? clType : 'medium';
+  const pack = getJurisdictionPack(jurisdiction);
+  return {
+    id: 'custom',
+    title: `What if ${hypothesis.length > 80 ? `${hypothesis.slice(0, 79)}…` : hypothesis}?`,
+    description: `How this ${docType.toLowerCase()} clause plays out if ${hypothesis}${pack ? `, under ${pack.name} law` : ''}.`,
+    likelihood: 'medium',
+    impact: risk,
+    category: template.category,
+    outcomes: template.outcomes,
+    mitigation: template.mitigation,
+    question: question.trim()
+  };
+};
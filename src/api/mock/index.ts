@@ -0,0 +1,2 @@
+export { mockFetch, resetMockBackend } from './backend';
+export { getMockReferences, getMockScenarios } from './fallbackData';
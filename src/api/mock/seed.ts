@@ -0,0 +1,185 @@
+import { ChatMessage, ChatThread, Clause, ClauseAnalysisVersion, Document, Matter, MitigationTask, ProcessingResult } from '../types';
+
+// Sample data loaded into the in-browser mock backend. Timestamps are fixed so
+// demos and screenshots stay stable between reloads.
+
+export interface SeedDocument {
+  document: Document;
+  // Missing for documents whose text was never extracted (exercises the
+  // "Document text unavailable" → "Start processing" path in the chat header)
+  result?: ProcessingResult;
+  threads: SeedThread[];
+  // The current clause set, i.e. a copy of the newest version
+  persisted: Clause[];
+  versions: SeedVersion[];
+  tasks: MitigationTask[];
+}
+
+export interface SeedVersion {
+  version: ClauseAnalysisVersion;
+  clauses: Clause[];
+}
+
+export interface SeedThread {
+  thread: ChatThread;
+  chats: ChatMessage[];
+}
+
+const LEASE_TEXT = [
+  'RESIDENTIAL LEASE AGREEMENT',
+  'This Lease Agreement is made on 1 March 2024 between Asha Verma ("Landlord") and Rohan Mehta ("Tenant") for the premises at Flat 402, Green Residency, Pune.',
+  '1. TERM. The lease shall commence on 1 April 2024 and continue for a period of eleven (11) months, unless terminated earlier in accordance with this Agreement.',
+  '2. RENT. The Tenant shall pay a monthly rent of Rs. 25,000 on or before the 5th day of each month. Late payment shall attract interest at 18% per annum on the outstanding amount.',
+  '3. SECURITY DEPOSIT. The Tenant has paid a refundable security deposit of Rs. 75,000. The Landlord may deduct unpaid rent and the cost of repairing damage beyond normal wear and tear before refunding the balance within 30 days of vacating.',
+  '4. TERMINATION. Either party may terminate this lease by giving two (2) months written notice. If the Tenant vacates before the end of the lock-in period of six (6) months, the Tenant shall pay a penalty equal to two months rent.',
+  '5. MAINTENANCE. The Tenant shall keep the premises in good condition and shall not make structural alterations without prior written consent of the Landlord.',
+  '6. INDEMNITY. The Tenant shall indemnify the Landlord against all claims, losses and damages arising from the Tenant\'s use of the premises.'
+].join('\n\n');
+
+const NDA_TEXT = [
+  'MUTUAL NON-DISCLOSURE AGREEMENT',
+  'This Agreement is entered into on 10 January 2024 by and between Northwind Analytics Pvt. Ltd. and Contoso Health Ltd. (each a "Party").',
+  '1. CONFIDENTIAL INFORMATION. "Confidential Information" means all non-public business, technical and financial information disclosed by either Party, whether orally or in writing.',
+  '2. OBLIGATIONS. The receiving Party shall use Confidential Information solely to evaluate a potential business relationship and shall protect it with at least reasonable care.',
+  '3. TERM. The obligations under this Agreement survive for three (3) years from the date of disclosure.',
+  '4. REMEDIES. Any breach of this Agreement may cause irreparable harm, and the disclosing Party shall be entitled to injunctive relief in addition to liquidated damages of Rs. 10,00,000.',
+  '5. GOVERNING LAW. This Agreement is governed by the laws of India and the courts at Bengaluru shall have exclusive jurisdiction.'
+].join('\n\n');
+
+const statisticsFor = (raw: string, cleaned: string) => ({
+  raw_length: raw.length,
+  cleaned_length: cleaned.length,
+  reduction_percentage: raw.length ? Math.round((1 - cleaned.length / raw.length) * 1000) / 10 : 0
+});
+
+// OCR noise the "raw" text carries before cleaning
+const noisy = (text: string) => text.split('\n\n').map((p, i) => `${p}\n\nPage ${i + 1} of 8   |   CONFIDENTIAL`).join('\n\n');
+
+export const resultFor = (fileId: string, cleaned: string, documentType: string): ProcessingResult => {
+  const raw = noisy(cleaned);
+  return {
+    file_id: fileId,
+    raw_text: raw,
+    cleaned_text: cleaned,
+    document_type: documentType,
+    llm_available: false,
+    guidance: `This ${documentType} has been processed in offline demo mode. Review the payment, termination and liability clauses carefully before signing.`,
+    statistics: statisticsFor(raw, cleaned)
+  };
+};
+
+export const buildSeedMatters = (): Matter[] => [
+  {
+    id: 'matter-verma',
+    name: 'Verma residential lease',
+    client: 'Asha Verma',
+    created_at: '2024-03-01T08:00:00.000Z',
+    updated_at: '2024-03-01T08:00:00.000Z'
+  },
+  {
+    id: 'matter-northwind',
+    name: 'Northwind vendor onboarding',
+    client: 'Northwind Traders',
+    created_at: '2024-01-10T08:00:00.000Z',
+    updated_at: '2024-01-10T08:00:00.000Z'
+  }
+];
+
+export const buildSeed = (): SeedDocument[] => {
+  const lease = resultFor('lease_green_residency.pdf', LEASE_TEXT, 'Lease Agreement');
+  const nda = resultFor('mutual_nda_northwind.pdf', NDA_TEXT, 'NDA');
+
+  return [
+    {
+      document: {
+        id: 'demo-lease',
+        file_name: 'lease_green_residency.pdf',
+        created_at: '2024-03-02T09:15:00.000Z',
+        processed_at: '2024-03-02T09:15:40.000Z',
+        ocr_metadata: { document_type: 'Lease Agreement', statistics: lease.statistics },
+        matter_id: 'matter-verma',
+        tags: ['residential', 'renewal']
+      },
+      result: lease,
+      threads: [
+        {
+          thread: {
+            id: 'demo-lease-termination',
+            document_id: 'demo-lease',
+            title: 'Termination questions',
+            created_at: '2024-03-02T09:20:00.000Z',
+            updated_at: '2024-03-02T09:20:05.000Z'
+          },
+          chats: [
+            {
+              id: 'demo-lease-1',
+              role: 'user',
+              message: 'What happens if I leave before the lease ends?',
+              created_at: '2024-03-02T09:20:00.000Z'
+            },
+            {
+              id: 'demo-lease-2',
+              role: 'assistant',
+              message: 'Under **Clause 4 (Termination)** you must give **two months written notice**. If you leave during the six-month lock-in period you also owe a penalty of **two months rent** (Rs. 50,000).',
+              created_at: '2024-03-02T09:20:05.000Z'
+            }
+          ]
+        },
+        {
+          thread: {
+            id: 'demo-lease-payments',
+            document_id: 'demo-lease',
+            title: 'Payment review',
+            created_at: '2024-03-02T09:25:00.000Z',
+            updated_at: '2024-03-02T09:25:00.000Z'
+          },
+          chats: []
+        }
+      ],
+      persisted: [],
+      versions: [],
+      tasks: []
+    },
+    {
+      document: {
+        id: 'demo-nda',
+        file_name: 'mutual_nda_northwind.pdf',
+        created_at: '2024-01-11T14:02:00.000Z',
+        processed_at: '2024-01-11T14:02:30.000Z',
+        ocr_metadata: { document_type: 'NDA', statistics: nda.statistics },
+        matter_id: 'matter-northwind',
+        tags: ['confidentiality']
+      },
+      result: nda,
+      threads: [],
+      persisted: [],
+      versions: [],
+      tasks: []
+    },
+    {
+      document: {
+        id: 'demo-unprocessed',
+        file_name: 'vendor_services_agreement.pdf',
+        created_at: '2024-04-18T11:30:00.000Z',
+        processed_at: '2024-04-18T11:30:00.000Z',
+        ocr_metadata: { document_type: 'Service Agreement' },
+        matter_id: 'matter-northwind',
+        tags: []
+      },
+      threads: [],
+      persisted: [],
+      versions: [],
+      tasks: []
+    }
+  ];
+};
+
+// Text used when an uploaded file is "processed" by the mock backend
+export const SAMPLE_UPLOAD_TEXT = [
+  'SERVICE AGREEMENT',
+  'This Service Agreement is made between the Client and the Service Provider for the provision of software maintenance services.',
+  '1. SERVICES. The Service Provider shall deliver the services described in Schedule A with reasonable skill and care.',
+  '2. FEES. The Client shall pay a monthly fee of Rs. 1,20,000 within 15 days of invoice. Overdue amounts carry interest at 1.5% per month.',
+  '3. TERMINATION. Either party may terminate for convenience with 30 days notice. The Client may terminate immediately for material breach.',
+  '4. LIMITATION OF LIABILITY. The Service Provider\'s aggregate liability shall not exceed the fees paid in the preceding twelve months.'
+].join('\n\n');
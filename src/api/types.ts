@@ -0,0 +1,435 @@
+// Request/response models for every backend route the frontend calls.
+// Keep these in sync with the Flask backend; components should import from here
+// instead of redeclaring their own copies.
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+// Clause fields a reviewer can change before persisting
+export type ClauseReviewField = 'risk' | 'clause_headline' | 'highlights' | 'reviewer_notes';
+
+export interface DocumentStatistics {
+  raw_length: number;
+  cleaned_length: number;
+  reduction_percentage: number;
+}
+
+export interface Document {
+  id: string;
+  file_name: string;
+  created_at: string;
+  processed_at: string;
+  ocr_metadata?: {
+    document_type?: string;
+    statistics?: DocumentStatistics;
+  };
+  // Matter (client folder) the document is filed under; unfiled when absent
+  matter_id?: string | null;
+  // Free-form labels, lower-cased
+  tags?: string[];
+  // Set while the document is in the trash; it is removed for good once the
+  // retention window has passed
+  deleted_at?: string | null;
+}
+
+export interface Matter {
+  id: string;
+  name: string;
+  client?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant' | 'system';
+  message: string;
+  created_at: string;
+  metadata?: ChatMessageMetadata;
+}
+
+// Client-side state of a reply while it streams and after it ends
+export interface ChatMessageMetadata {
+  // Tokens are still arriving
+  streaming?: boolean;
+  // Cut short by the user, or by a stream that broke off
+  stopped?: boolean;
+  interrupted?: boolean;
+  // The question the reply answers and its message id, so a retry can ask it again
+  question?: string;
+  question_id?: string;
+}
+
+// A named conversation about one document; each keeps its own history
+export interface ChatThread {
+  id: string;
+  document_id: string;
+  title: string;
+  created_at: string;
+  updated_at: string;
+  message_count?: number;
+}
+
+export interface Clause {
+  id: string;
+  clause_text: string;
+  risk: RiskLevel;
+  highlights?: string[];
+  clause_headline?: string;
+  start_pos?: number;
+  end_pos?: number;
+  scenarios?: Scenario[];
+  legal_references?: LegalReference[];
+  reviewer_notes?: string;
+  // Fields changed by a reviewer; everything else is model output
+  human_reviewed?: ClauseReviewField[];
+  // Monetary terms used to estimate scenario exposure, as last edited
+  exposure_parameters?: ExposureParameter[];
+}
+
+export type ExposureParameterKind = 'penalty' | 'deposit' | 'recurring' | 'amount' | 'interest_rate' | 'notice_period';
+
+// One monetary term of a clause. Values are normalised: amounts in `currency`,
+// recurring amounts per month, interest rates in percent per year and
+// notice periods in days.
+export interface ExposureParameter {
+  id: string;
+  kind: ExposureParameterKind;
+  label: string;
+  value: number;
+  // ISO 4217 code for amounts
+  currency?: string;
+  // Clause text the value was read from; absent for terms added by hand
+  source?: string;
+}
+
+export interface Scenario {
+  id: string;
+  title: string;
+  description: string;
+  likelihood: RiskLevel;
+  impact: RiskLevel;
+  category: 'breach' | 'compliance' | 'financial' | 'operational' | 'legal';
+  outcomes: string[];
+  mitigation: string[];
+  precedent?: string;
+  // Set on scenarios answering a reviewer's own what-if question
+  question?: string;
+}
+
+export type MitigationTaskStatus = 'todo' | 'in_progress' | 'done';
+
+// A scenario mitigation someone has taken on. Clause ids change whenever the
+// analysis is persisted again, so the clause text is kept to find it later.
+export interface MitigationTask {
+  id: string;
+  document_id: string;
+  clause_id: string;
+  clause_text: string;
+  clause_headline?: string;
+  scenario_id: string;
+  scenario_title: string;
+  mitigation: string;
+  owner?: string;
+  // YYYY-MM-DD
+  due_date?: string;
+  status: MitigationTaskStatus;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface LegalReference {
+  id: string;
+  title: string;
+  type: 'act' | 'regulation' | 'guideline' | 'rule' | 'circular';
+  authority: string;
+  section?: string;
+  description: string;
+  relevance: RiskLevel;
+  url?: string;
+  lastUpdated?: string;
+  // Code of the jurisdiction the reference belongs to, e.g. 'UK'
+  jurisdiction?: string;
+}
+
+export interface ProcessingResult {
+  file_id: string;
+  raw_text: string;
+  cleaned_text: string;
+  document_type?: string;
+  guidance?: string;
+  llm_available?: boolean;
+  statistics: DocumentStatistics;
+}
+
+// GET /api/documents
+export interface DocumentsResponse {
+  documents: Document[];
+}
+
+// GET /api/documents/{documentId}
+// Some backends return a stored result wrapped with its cache flag
+export interface CachedProcessingResult {
+  result: ProcessingResult;
+  cached?: boolean;
+}
+
+// GET /api/documents/{documentId}; the client unwraps a CachedProcessingResult
+export interface DocumentDetailsResponse {
+  document: Document;
+  // Missing until the document has been processed
+  result?: ProcessingResult;
+}
+
+// PATCH /api/documents/{documentId}; null matter_id takes the document out of its matter
+export interface UpdateDocumentRequest {
+  matter_id?: string | null;
+  tags?: string[];
+}
+
+export interface DocumentResponse {
+  document: Document;
+}
+
+// POST /api/documents/trash and POST /api/documents/restore
+export interface DocumentIdsRequest {
+  document_ids: string[];
+}
+
+export interface DocumentsChangedResponse {
+  documents: Document[];
+  // Ids that did not name a document (or one in the expected state)
+  missing?: string[];
+}
+
+// GET /api/trash
+export interface TrashResponse {
+  documents: Document[];
+  retention_days: number;
+}
+
+// POST /api/documents/{documentId}/reprocess answers 202; progress is then
+// polled with GET /api/process/status/{file_id}
+export interface ReprocessResponse {
+  file_id: string;
+  document_id: string;
+}
+
+// GET /api/matters
+export interface MattersResponse {
+  matters: Matter[];
+}
+
+// POST /api/matters and PATCH /api/matters/{matterId}
+export interface MatterRequest {
+  name?: string;
+  client?: string;
+}
+
+export interface MatterResponse {
+  matter: Matter;
+}
+
+// Risk of one document in a matter, from its persisted clauses
+export interface MatterDocumentSummary {
+  document: Document;
+  // 0 when the document has no persisted analysis
+  clause_count: number;
+  risk_counts: Record<RiskLevel, number>;
+}
+
+// GET /api/matters/{matterId}/documents
+export interface MatterDocumentsResponse {
+  matter: Matter;
+  documents: MatterDocumentSummary[];
+}
+
+// GET /api/chat/{documentId}/threads
+export interface ChatThreadsResponse {
+  threads: ChatThread[];
+}
+
+// POST /api/chat/{documentId}/threads and PATCH /api/chat/threads/{threadId}
+export interface ChatThreadRequest {
+  title: string;
+}
+
+export interface ChatThreadResponse {
+  thread: ChatThread;
+}
+
+// GET /api/chat/{documentId}/history?thread_id=...
+// Without thread_id the backend answers with the document's default thread
+export interface ChatHistoryResponse {
+  chats: ChatMessage[];
+}
+
+// POST /api/chat/{documentId}
+export interface SendChatRequest {
+  message: string;
+  thread_id?: string;
+  // Client id of the question; retrying sends the same id. Backend contract:
+  // a message_id the thread already holds is answered again without storing
+  // the question a second time. A backend that ignores it stores every
+  // retried question twice (see README, "Chat retry").
+  message_id?: string;
+}
+
+// POST /api/chat/multi — the reply names the source document of each statement
+export interface MultiDocumentChatRequest {
+  document_ids: string[];
+  message: string;
+}
+
+export interface SendChatResponse {
+  message: string;
+}
+
+// POST /api/upload
+export interface UploadResponse {
+  file_id: string;
+  filename: string;
+  document_id?: string;
+  // Present when the backend processed the upload synchronously (serverless)
+  result?: ProcessingResult;
+}
+
+// POST /api/process/{fileId} answers 200 with a result or 202 when queued
+export interface ProcessResponse {
+  accepted: boolean;
+  document_id?: string;
+  result?: ProcessingResult;
+}
+
+// GET /api/process/status/{fileId}
+export type ProcessState = 'pending' | 'processing' | 'done' | 'error';
+
+export interface ProcessStatusResponse {
+  status: ProcessState;
+  document_id?: string;
+  result?: ProcessingResult;
+  error?: string;
+}
+
+// GET /api/analysis/clauses/{documentId} and .../persisted
+export interface ClausesResponse {
+  clauses: Clause[];
+}
+
+// One persisted clause set of a document. Every persist (and every restore)
+// replaces the current set and records it as a new version.
+export interface ClauseAnalysisVersion {
+  id: string;
+  document_id: string;
+  // 1-based and increasing per document
+  version: number;
+  author?: string;
+  created_at: string;
+  clause_count: number;
+  risk_counts: Record<RiskLevel, number>;
+  // Set when the version was created by restoring an older one
+  restored_from?: number;
+}
+
+// POST /api/analysis/clauses/{documentId}/persist
+export interface PersistClausesRequest {
+  clauses: PersistClause[];
+  author?: string;
+}
+
+export interface PersistClause {
+  clause_text: string;
+  clause_headline: string;
+  start_pos?: number;
+  end_pos?: number;
+  risk: RiskLevel;
+  highlights?: string[];
+  scenarios?: Scenario[];
+  legal_references?: LegalReference[];
+  reviewer_notes?: string;
+  human_reviewed?: ClauseReviewField[];
+  exposure_parameters?: ExposureParameter[];
+}
+
+export interface PersistClausesResponse {
+  count: number;
+  inserted: Clause[];
+  version?: ClauseAnalysisVersion;
+}
+
+// GET /api/analysis/clauses/{documentId}/versions, newest first
+export interface ClauseVersionsResponse {
+  versions: ClauseAnalysisVersion[];
+}
+
+// GET /api/analysis/clauses/{documentId}/versions/{versionId} and
+// POST .../versions/{versionId}/restore (answers with the new version)
+export interface ClauseVersionResponse {
+  version: ClauseAnalysisVersion;
+  clauses: Clause[];
+}
+
+export interface RestoreClauseVersionRequest {
+  author?: string;
+}
+
+// POST /api/analysis/clauses/{documentId}/undo — drops the version the clauses were persisted in
+export interface UndoPersistRequest {
+  clause_ids: string[];
+}
+
+// GET /api/analysis/clauses/{documentId}/tasks
+export interface MitigationTasksResponse {
+  tasks: MitigationTask[];
+}
+
+// POST /api/analysis/clauses/{documentId}/tasks
+export interface CreateMitigationTaskRequest {
+  clause_id: string;
+  clause_text: string;
+  clause_headline?: string;
+  scenario_id: string;
+  scenario_title: string;
+  mitigation: string;
+  owner?: string;
+  due_date?: string;
+  status?: MitigationTaskStatus;
+}
+
+// PATCH /api/analysis/tasks/{taskId}; an empty owner or due_date clears it
+export type UpdateMitigationTaskRequest = Partial<Pick<MitigationTask, 'owner' | 'due_date' | 'status' | 'mitigation'>>;
+
+export interface MitigationTaskResponse {
+  task: MitigationTask;
+}
+
+// POST /api/what-if-scenarios and /api/legal-knowledge-graph
+export interface ClauseContextRequest {
+  clauseText: string;
+  documentType?: string;
+  clauseType?: string;
+  // Whose law to apply, e.g. 'IN', 'UK', 'US'; the backend default when omitted
+  jurisdiction?: string;
+}
+
+// POST /api/what-if-scenarios
+export interface ScenariosRequest extends ClauseContextRequest {
+  // Regeneration round; 1 (or omitted) is the first set, later rounds ask for different scenarios
+  round?: number;
+}
+
+// POST /api/what-if-scenarios/custom
+export interface CustomScenarioRequest extends ClauseContextRequest {
+  question: string;
+}
+
+export interface CustomScenarioResponse {
+  scenario: Scenario;
+}
+
+export interface ScenariosResponse {
+  scenarios: Scenario[];
+}
+
+export interface LegalReferencesResponse {
+  references: LegalReference[];
+}
@@ -0,0 +1,100 @@
+import React, { useEffect } from 'react';
+
+interface ChatComposerProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Called with the trimmed message; the composer clears itself afterwards
+  onSubmit: (message: string) => void;
+  isLoading: boolean;
+  isStreaming?: boolean;
+  onStop?: () => void;
+  placeholder?: string;
+  // Lets the parent focus the textarea (e.g. after quoting a passage)
+  inputRef?: React.RefObject<HTMLTextAreaElement | null>;
+}
+
+// Message input with send / stop-generation button
+const ChatComposer: React.FC<ChatComposerProps> = ({
+  value,
+  onChange,
+  onSubmit,
+  isLoading,
+  isStreaming = false,
+  onStop,
+  placeholder,
+  inputRef
+}) => {
+  // Auto-resize textarea
+  useEffect(() => {
+    const textarea = inputRef?.current;
+    if (textarea) {
+      textarea.style.height = 'auto';
+      textarea.style.height = Math.min(textarea.scrollHeight, 120) + 'px';
+    }
+  }, [value, inputRef]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (value.trim() && !isLoading && !isStreaming) {
+      onSubmit(value.trim());
+      onChange('');
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSubmit(e);
+    }
+  };
+
+  return (
+    <div className="chat-input-container">
+      <form onSubmit={handleSubmit} className="chat-form">
+        <div className="input-wrapper">
+          <textarea
+            ref={inputRef}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder={placeholder}
+            disabled={isLoading}
+            rows={1}
+            className="chat-input"
+          />
+          {isStreaming ? (
+            <button
+              type="button"
+              onClick={() => onStop && onStop()}
+              className="send-button stop-button"
+              aria-label="Stop generating"
+              title="Stop generating"
+            >
+              <svg width="20" height="20" viewBox="0 0 24 24" fill="none">
+                <rect x="6" y="6" width="12" height="12" rx="2" fill="currentColor" />
+              </svg>
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={!value.trim() || isLoading}
+              className="send-button"
+            >
+              <svg width="24" height="24" viewBox="0 0 24 24" fill="none">
+                <path
+                  d="M22 2L11 13M22 2L15 22L11 13M22 2L2 9L11 13"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                />
+              </svg>
+            </button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ChatComposer;
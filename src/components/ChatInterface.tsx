@@ -1,36 +1,80 @@
-import React, { useState, useRef, useEffect } from 'react';
-import ReactMarkdown from 'react-markdown';
-import rehypeRaw from 'rehype-raw';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { FileDown, FileText, Gauge, History, Info, ListChecks, Network } from 'lucide-react';
 import ClauseVisualizer from './ClauseVisualizer';
+import DocumentPane from './DocumentPane';
+import ChatMessageList from './ChatMessageList';
+import ChatComposer from './ChatComposer';
+import ThreadTabs from './ThreadTabs';
+import ReportExportDialog from './ReportExportDialog';
+import ClauseVersionHistory from './ClauseVersionHistory';
+import RiskDashboard from './RiskDashboard';
+import KnowledgeGraphView from './KnowledgeGraphView';
+import MitigationBoard from './MitigationBoard';
+import DocumentTypePicker from './DocumentTypePicker';
+import DocumentTags from './DocumentTags';
+import DocumentDetails from './DocumentDetails';
 import Toast from './Toast';
-import { TypingAnimation } from './TypingAnimation';
-import { API_BASE } from '../config';
+import {
+  Document,
+  ChatMessage,
+  ChatThread,
+  Clause,
+  Matter,
+  MitigationTask,
+  UpdateDocumentRequest,
+  analyzeClauses,
+  getPersistedClauses,
+  undoPersist,
+  isApiError
+} from '../api';
+import { jobManager, useJobs } from '../jobs';
+import { jurisdictionSettings, listJurisdictionPacks, useDocumentJurisdiction } from '../jurisdiction';
+import { clauseForTask, useMitigationTasks } from '../tasks';
+import { useDocumentType } from '../taxonomy';
+import { AppRoute } from '../routing';
 
-interface Document {
-  id: string;
-  file_name: string;
-  created_at: string;
-  processed_at: string;
-  ocr_metadata?: {
-    document_type?: string;
-    statistics?: any;
-  };
-}
-
-interface ChatMessage {
-  id: string;
-  role: 'user' | 'assistant' | 'system';
-  message: string;
-  created_at: string;
-  metadata?: any;
-}
+// Chat highlights for persisted clauses: their highlights, or the start of the
+// clause text when they have none
+const highlightsFrom = (persisted: Clause[]) => {
+  const map: Record<string, string[]> = {};
+  persisted.forEach(c => {
+    if (c.highlights && c.highlights.length) {
+      map[c.id] = c.highlights;
+    } else if (c.clause_text) {
+      map[c.id] = [c.clause_text.slice(0, 200)];
+    }
+  });
+  return map;
+};
 
 interface ChatInterfaceProps {
   document: Document;
   chatHistory: ChatMessage[];
   onSendMessage: (message: string) => void;
   isLoading: boolean;
-  onDeleteChat?: (documentId: string) => Promise<void>;
+  // True while an assistant reply is streaming in
+  isStreaming?: boolean;
+  onStopGeneration?: () => void;
+  // Re-asks the question behind a stopped or interrupted reply
+  onRetryMessage?: (messageId: string) => void;
+  // null when the backend keeps a single history per document
+  threads?: ChatThread[] | null;
+  activeThreadId?: string | null;
+  onSelectThread?: (threadId: string) => void;
+  onCreateThread?: (title: string) => void;
+  onRenameThread?: (threadId: string, title: string) => void;
+  onDeleteThread?: (threadId: string) => void;
+  // Clause visualizer state from the URL; without these it is local to the component
+  showClauses?: boolean;
+  focusedClauseId?: string;
+  onOpenClauses?: (clauseId?: string) => void;
+  onCloseClauses?: (options?: { replace?: boolean }) => void;
+  // Message named in the URL, and the route a message's "copy link" points to
+  focusedMessageId?: string;
+  messageRoute?: (messageId: string) => AppRoute;
+  // Matter and tag editing; hidden without a handler
+  matters?: Matter[];
+  onUpdateDocument?: (patch: UpdateDocumentRequest) => void;
 }
 
 export const ChatInterface: React.FC<ChatInterfaceProps> = ({
@@ -38,45 +82,78 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
   chatHistory,
   onSendMessage,
   isLoading,
-  onDeleteChat
+  isStreaming = false,
+  onStopGeneration,
+  onRetryMessage,
+  threads = null,
+  activeThreadId = null,
+  onSelectThread,
+  onCreateThread,
+  onRenameThread,
+  onDeleteThread,
+  showClauses,
+  focusedClauseId,
+  onOpenClauses,
+  onCloseClauses,
+  focusedMessageId,
+  messageRoute,
+  matters = [],
+  onUpdateDocument
 }) => {
   const [inputMessage, setInputMessage] = useState('');
-  const messagesEndRef = useRef<HTMLDivElement>(null);
+  // Unsent input per document thread, restored when switching back
+  const draftsRef = useRef<Record<string, string>>({});
+  const draftKey = `${document.id}:${activeThreadId || ''}`;
   const inputRef = useRef<HTMLTextAreaElement>(null);
-  const [clauses, setClauses] = useState<any[]>([]);
+  const [clauses, setClauses] = useState<Clause[]>([]);
   const [persistedByDocument, setPersistedByDocument] = useState<Record<string, boolean>>({});
   const [showVisualizer, setShowVisualizer] = useState(false);
   const [visualizerLoading, setVisualizerLoading] = useState(false);
   const [highlights, setHighlights] = useState<Record<string, string[]>>({});
+  // Flattened once so every message shares the same array (and memoized plugin list)
+  const highlightSnippets = useMemo(() => Object.values(highlights).flat(), [highlights]);
   const [toast, setToast] = useState<null | { id: string; message: string; actionLabel?: string; onAction?: ()=>void }>(null);
-  const [lastMessageCount, setLastMessageCount] = useState(0);
-
-  // Auto-scroll to bottom when new messages arrive
-  useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [chatHistory]);
-
-  // Track message count to detect new messages
-  useEffect(() => {
-    setLastMessageCount(chatHistory.length);
-  }, [chatHistory]);
+  // Processing job started from the "Start processing" toast; clause analysis re-runs when it finishes
+  const [processingJobId, setProcessingJobId] = useState<string | null>(null);
+  const processingJob = useJobs().find(j => j.id === processingJobId);
+  // Side-by-side document view; `focus` scrolls it to the clause picked in the visualizer
+  const [showDocument, setShowDocument] = useState(false);
+  const [documentFocus, setDocumentFocus] = useState<null | { clauseId: string; nonce: number }>(null);
+  const [showExport, setShowExport] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showDashboard, setShowDashboard] = useState(false);
+  const jurisdiction = useDocumentJurisdiction(document.id);
+  // Detected type or the user's correction; sent with every clause, scenario and graph request
+  const documentType = useDocumentType(document).name;
+  const [showGraph, setShowGraph] = useState(false);
+  // Reference card to open in the visualizer after a click in the knowledge graph
+  const [referenceFocus, setReferenceFocus] = useState<null | { clauseId: string; title: string; nonce: number }>(null);
+  const [showTasks, setShowTasks] = useState(false);
+  const [showDetails, setShowDetails] = useState(false);
+  const openTaskCount = useMitigationTasks(document.id).filter(t => t.status !== 'done').length;
+  // Task picked on the board; its clause is looked up once the clauses are loaded
+  const [taskFocus, setTaskFocus] = useState<null | { task: MitigationTask; nonce: number }>(null);
+  const focusedTask = useMemo(() => {
+    const clause = taskFocus && clauseForTask(taskFocus.task, clauses);
+    return clause && taskFocus ? { ...taskFocus, clauseId: clause.id } : null;
+  }, [taskFocus, clauses]);
+  // Analysis answers for a document the user has since left are dropped
+  const documentIdRef = useRef(document.id);
+  documentIdRef.current = document.id;
+  // Route callbacks change every render; the effects below follow job and URL state only
+  const routeCallbacksRef = useRef({ onOpenClauses, onCloseClauses });
+  routeCallbacksRef.current = { onOpenClauses, onCloseClauses };
 
   // On mount / document change: check if clauses already persisted for this document
   useEffect(() => {
     let mounted = true;
     const checkPersisted = async () => {
       try {
-  const resp = await fetch(`${API_BASE}/api/analysis/clauses/${document.id}/persisted`);
-        if (resp.ok) {
-          const data = await resp.json();
-          const present = Array.isArray(data.clauses) && data.clauses.length > 0;
-          if (mounted) setPersistedByDocument(prev => ({ ...prev, [document.id]: present }));
-        } else {
-          // Non-200 means probably supabase not configured or no persisted rows
-          if (mounted) setPersistedByDocument(prev => ({ ...prev, [document.id]: false }));
-        }
+        const persisted = await getPersistedClauses(document.id);
+        if (mounted) setPersistedByDocument(prev => ({ ...prev, [document.id]: persisted.length > 0 }));
       } catch (e) {
-        // Network or server error — assume not persisted
+        // Non-200 means probably supabase not configured or no persisted rows;
+        // network or server error — assume not persisted
         if (mounted) setPersistedByDocument(prev => ({ ...prev, [document.id]: false }));
       }
     };
@@ -84,402 +161,426 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
     return () => { mounted = false; }
   }, [document.id]);
 
-  // Auto-resize textarea
   useEffect(() => {
-    const textarea = inputRef.current;
-    if (textarea) {
-      textarea.style.height = 'auto';
-      textarea.style.height = Math.min(textarea.scrollHeight, 120) + 'px';
+    if (!processingJob || processingJob.documentId !== document.id) return;
+    if (processingJob.status === 'done') {
+      setProcessingJobId(null);
+      // Re-run analysis request; a routed visualizer runs it when the URL opens it
+      const { onOpenClauses: openRouted } = routeCallbacksRef.current;
+      if (openRouted) {
+        openRouted();
+        return;
+      }
+      analyzeClauses(document.id).then(result => {
+        setClauses(result);
+        setShowVisualizer(true);
+      }).catch(err => {
+        setToast({ id: `toast-${Date.now()}`, message: isApiError(err) ? err.message : 'Clause analysis failed' });
+      });
+    } else if (processingJob.status === 'error') {
+      setProcessingJobId(null);
+      setToast({ id: `toast-${Date.now()}`, message: processingJob.error || 'Processing failed on server. Please try again later.' });
     }
-  }, [inputMessage]);
+  }, [processingJob, document.id]);
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (inputMessage.trim() && !isLoading) {
-      onSendMessage(inputMessage.trim());
-      setInputMessage('');
-    }
+  // Clause highlights in the document pane come from the visualizer; when it has
+  // not been opened yet, fall back to whatever was persisted for this document
+  useEffect(() => {
+    if (!showDocument || clauses.length > 0 || !persistedByDocument[document.id]) return;
+    let mounted = true;
+    getPersistedClauses(document.id)
+      .then(persisted => { if (mounted) setClauses(persisted); })
+      .catch(err => console.warn('Failed to load persisted clauses for document pane', err));
+    return () => { mounted = false; };
+  }, [showDocument, clauses.length, persistedByDocument, document.id]);
+
+  // Clauses, their highlights and the open pane belong to the previous document
+  useEffect(() => {
+    setClauses([]);
+    setHighlights({});
+    setShowVisualizer(false);
+    setShowDashboard(false);
+    setShowGraph(false);
+    setShowTasks(false);
+    setShowDetails(false);
+    setDocumentFocus(null);
+    setReferenceFocus(null);
+    setTaskFocus(null);
+  }, [document.id]);
+
+  const handleAskAbout = (passage: string) => {
+    const quoted = passage.split('\n').map(line => `> ${line}`).join('\n');
+    updateInput(`Regarding this passage:\n${quoted}\n\n`);
+    inputRef.current?.focus();
   };
 
-  const handleKeyDown = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter' && !e.shiftKey) {
-      e.preventDefault();
-      handleSubmit(e);
-    }
+  const handleSelectClause = (clause: Clause) => {
+    setShowDocument(true);
+    setDocumentFocus({ clauseId: clause.id, nonce: Date.now() });
+    onOpenClauses?.(clause.id);
   };
 
-  const formatMessage = (message: string) => {
-    // Use ReactMarkdown for ChatGPT-style rendering
-    return (
-      <ReactMarkdown rehypePlugins={[rehypeRaw as any]}
-        components={{
-          p: ({ children }) => <div className="gpt-paragraph">{children}</div>,
-          ul: ({ children }) => <ul className="gpt-list">{children}</ul>,
-          ol: ({ children }) => <ol className="gpt-list">{children}</ol>,
-          li: ({ children }) => <li>{children}</li>,
-          code: ({ children, ...props }) => 
-            props.className?.includes('language-') ? 
-              <pre className="gpt-code"><code>{children}</code></pre> : 
-              <code className="gpt-inline-code">{children}</code>,
-          strong: ({ children }) => <strong className="gpt-bold">{children}</strong>,
-          em: ({ children }) => <em className="gpt-italic">{children}</em>,
-          blockquote: ({ children }) => <blockquote className="gpt-quote">{children}</blockquote>,
-          h1: ({ children }) => <h1 className="gpt-h1">{children}</h1>,
-          h2: ({ children }) => <h2 className="gpt-h2">{children}</h2>,
-          h3: ({ children }) => <h3 className="gpt-h3">{children}</h3>,
-        }}
-      >
-        {message}
-      </ReactMarkdown>
-    );
+  const handleSelectGraphNode = ({ clauseId, referenceTitle }: { clauseId: string; referenceTitle?: string }) => {
+    const nonce = Date.now();
+    setShowDocument(true);
+    setDocumentFocus({ clauseId, nonce });
+    setReferenceFocus(referenceTitle ? { clauseId, title: referenceTitle, nonce } : null);
+    if (onOpenClauses) onOpenClauses(clauseId);
+    else if (!showVisualizer) loadClauses();
   };
 
-  // Replace highlight snippets in a message string with <mark>wrapped</mark> HTML
-  const applyInlineHighlights = (message: string) => {
-    if (!message || Object.keys(highlights).length === 0) return message;
+  const handleOpenTask = (task: MitigationTask) => {
+    const nonce = Date.now();
+    const clause = clauseForTask(task, clauses);
+    setTaskFocus({ task, nonce });
+    if (clause) {
+      setShowDocument(true);
+      setDocumentFocus({ clauseId: clause.id, nonce });
+    }
+    if (onOpenClauses) onOpenClauses(clause?.id);
+    else if (!showVisualizer) loadClauses();
+  };
 
-    let transformed = message;
-    // For each highlight snippet, replace first occurrence to avoid excessive replacements.
-    Object.values(highlights).forEach((snippets) => {
-      snippets.forEach((snippet) => {
-        if (!snippet) return;
+  // Load the clauses to show: persisted ones when the document has any,
+  // otherwise a fresh analysis. Resolves false when nothing could be shown.
+  const loadClauses = async () => {
+    const documentId = document.id;
+    try {
+      setVisualizerLoading(true);
+      let persisted = persistedByDocument[documentId];
+      if (persisted === undefined) {
+        // A deep link can open the visualizer before the persisted check has answered
+        persisted = await getPersistedClauses(documentId).then(list => list.length > 0, () => false);
+      }
+      if (persisted) {
+        // Load persisted clauses from server
         try {
-          // escape RegExp special chars in snippet
-          const esc = snippet.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-          const re = new RegExp(esc, 'i');
-          if (re.test(transformed)) {
-            transformed = transformed.replace(re, (m) => `<mark>${m}</mark>`);
+          const result = await getPersistedClauses(documentId);
+          if (documentIdRef.current !== documentId) return false;
+          setClauses(result);
+          setShowVisualizer(true);
+          return true;
+        } catch (err) {
+          // show user-friendly message
+          const msg = isApiError(err) ? err.message : 'Failed to load persisted clauses';
+          setToast({ id: `toast-${Date.now()}`, message: msg });
+          console.warn('Failed to load persisted clauses', msg);
+        }
+      } else {
+        // Run fresh analysis
+        try {
+          const result = await analyzeClauses(documentId);
+          if (documentIdRef.current !== documentId) return false;
+          setClauses(result);
+          // ClauseVisualizer will pick up scenarios/legal_references from the clause objects when persisting/viewing
+          setShowVisualizer(true);
+          return true;
+        } catch (err) {
+          // Provide actionable feedback: document likely not processed yet
+          const msg = isApiError(err) ? err.message : 'Clause analysis failed';
+          // If we know the underlying cause, offer to start processing using file_name
+          if (msg && msg.toLowerCase().includes('document text unavailable')) {
+            const actionAvailable = !!document.file_name;
+            setToast({
+              id: `toast-${Date.now()}`,
+              message: 'Document not processed yet. Click to start processing.',
+              actionLabel: actionAvailable ? 'Start processing' : undefined,
+              onAction: actionAvailable ? () => {
+                  setToast(null);
+                  // Use document.file_name as the file id; progress shows in the sidebar
+                  setProcessingJobId(jobManager.process(document.file_name, document.file_name, document.id).id);
+                } : undefined
+            });
+          } else {
+            setToast({ id: `toast-${Date.now()}`, message: msg });
           }
-        } catch (e) {
-          // ignore invalid regex
+          console.warn('Clause analysis failed', msg);
         }
-      });
-    });
-    return transformed;
+      }
+    } catch (e) {
+      console.warn('Clause visualization failed', e);
+    } finally {
+      setVisualizerLoading(false);
+    }
+    return false;
   };
 
-  const formatTime = (dateString: string) => {
-    try {
-      return new Date(dateString).toLocaleTimeString('en-US', {
-        hour: '2-digit',
-        minute: '2-digit'
-      });
-    } catch {
-      return '';
+  const loadClausesRef = useRef(loadClauses);
+  loadClausesRef.current = loadClauses;
+
+  // Open or close the visualizer when the URL says so (links, back/forward)
+  useEffect(() => {
+    if (showClauses === undefined) return;
+    if (!showClauses) {
+      setShowVisualizer(false);
+      return;
     }
+    loadClausesRef.current().then(shown => {
+      // Don't leave a URL behind that claims the visualizer is open
+      if (!shown && documentIdRef.current === document.id) routeCallbacksRef.current.onCloseClauses?.({ replace: true });
+    });
+  }, [showClauses, document.id]);
+
+  const openVisualizer = () => (onOpenClauses ? onOpenClauses() : loadClauses());
+  const closeVisualizer = () => (onCloseClauses ? onCloseClauses() : setShowVisualizer(false));
+
+  useEffect(() => {
+    setInputMessage(draftsRef.current[draftKey] || '');
+  }, [draftKey]);
+
+  const updateInput = (value: string) => {
+    draftsRef.current[draftKey] = value;
+    setInputMessage(value);
   };
 
   return (
-    <div className="chat-interface">
-      {/* Chat Header */}
-      <div className="chat-header">
-        <div className="document-info">
-          <h3>{document.file_name}</h3>
-          {/* Show detected type only if it matches a whitelist of expected labels */}
-          <span className="document-type">
-            {(() => {
-              const allowed = new Set([
-                'Contract','Agreement','Lease Agreement','Rental Agreement','Will','Testament','Trust Document',
-                'Privacy Policy','Data Processing Agreement','Terms of Service','Terms and Conditions','Invoice','Bill',
-                'Legal Notice','Court Filing','Complaint','Summons','NDA','Non-Disclosure Agreement','Employment Agreement',
-                'Service Agreement','Sales Agreement','Purchase Agreement','Power of Attorney','Deed','Mortgage','Promissory Note',
-                'License Agreement','Settlement Agreement','Release','Consent Form'
-              ]);
-              const detected = document.ocr_metadata?.document_type;
-              if (detected && allowed.has(detected)) return detected;
-              return 'Legal Document';
-            })()}
-          </span>
-        </div>
-        <div className="header-actions">
-          <button className="visualize-button" disabled={visualizerLoading} onClick={async () => {
-            try {
-              setVisualizerLoading(true);
-              if (persistedByDocument[document.id]) {
-                // Load persisted clauses from server
-                const resp = await fetch(`${API_BASE}/api/analysis/clauses/${document.id}/persisted`);
-                if (resp.ok) {
-                  const data = await resp.json();
-                  setClauses(data.clauses || []);
-                  setShowVisualizer(true);
-                } else {
-                  // show user-friendly message
-                  let msg = 'Failed to load persisted clauses';
-                  try {
-                    const body = await resp.json();
-                    msg = body.error || JSON.stringify(body);
-                  } catch (e) {
-                    try { msg = await resp.text(); } catch(_){}
-                  }
-                  setToast({ id: `toast-${Date.now()}`, message: msg });
-                  console.warn('Failed to load persisted clauses', msg);
-                }
-              } else {
-                // Run fresh analysis
-                const resp = await fetch(`${API_BASE}/api/analysis/clauses/${document.id}`);
-                if (resp.ok) {
-                  const data = await resp.json();
-                  const persisted = data.clauses || [];
-                  setClauses(persisted);
-                  // Pre-populate ClauseVisualizer caches by passing the persisted clauses
-                  // ClauseVisualizer will pick up scenarios/legal_references from the clause objects when persisting/viewing
-                  setShowVisualizer(true);
-                } else {
-                  // Provide actionable feedback: document likely not processed yet
-                  let msg = 'Clause analysis failed';
-                  try {
-                    const body = await resp.json();
-                    msg = body.error || JSON.stringify(body);
-                  } catch (e) {
-                    try { msg = await resp.text(); } catch(_){}
-                  }
-                  // If we know the underlying cause, offer to start processing using file_name
-                  if (msg && msg.toLowerCase().includes('document text unavailable')) {
-                    const actionAvailable = !!document.file_name;
-                    setToast({
-                      id: `toast-${Date.now()}`,
-                      message: 'Document not processed yet. Click to start processing.',
-                      actionLabel: actionAvailable ? 'Start processing' : undefined,
-                      onAction: actionAvailable ? async () => {
-                          try {
-                            setToast(null);
-                            // Attempt to start processing using document.file_name as the file id
-                            const startResp = await fetch(`${API_BASE}/api/process/${encodeURIComponent(document.file_name)}`, { method: 'POST' });
-                            if (startResp.ok || startResp.status === 202) {
-                              // Poll status until done, but bail on 404 (file not found)
-                              const poll = async () => {
-                                for (let i=0;i<60;i++) {
-                                  await new Promise(r=>setTimeout(r, 2000));
-                                  const st = await fetch(`${API_BASE}/api/process/status/${encodeURIComponent(document.file_name)}`);
-                                  if (st.status === 404) {
-                                    // File isn't present on the server — inform the user to re-upload
-                                    setToast({ id: `toast-${Date.now()}`, message: 'Processing file not found on server. Please re-upload the original file and try again.' });
-                                    return;
-                                  }
-                                  if (st.ok) {
-                                    const body = await st.json();
-                                    if (body.status === 'done') {
-                                      // Re-run analysis request
-                                      const r2 = await fetch(`${API_BASE}/api/analysis/clauses/${document.id}`);
-                                      if (r2.ok) {
-                                        const data = await r2.json();
-                                        setClauses(data.clauses || []);
-                                        setShowVisualizer(true);
-                                        setPersistedByDocument(prev => ({ ...prev, [document.id]: true }));
-                                        return;
-                                      }
-                                    } else if (body.status === 'error') {
-                                      setToast({ id: `toast-${Date.now()}`, message: 'Processing failed on server. Please try again later.' });
-                                      return;
-                                    }
-                                  }
-                                }
-                                setToast({ id: `toast-${Date.now()}`, message: 'Processing did not complete in time. Please try again later.' });
-                              };
-                              poll();
-                            } else {
-                              const txt = await startResp.text().catch(()=>null);
-                              setToast({ id: `toast-${Date.now()}`, message: `Failed to start processing: ${txt || startResp.status}` });
-                            }
-                          } catch (err) {
-                            setToast({ id: `toast-${Date.now()}`, message: `Failed to start processing: ${String(err)}` });
-                          }
-                        } : undefined
-                    });
-                  } else {
-                    setToast({ id: `toast-${Date.now()}`, message: msg });
-                  }
-                  console.warn('Clause analysis failed', msg);
-                }
-              }
-            } catch (e) {
-              console.warn('Clause visualization failed', e);
-            } finally {
-              setVisualizerLoading(false);
-            }
-          }}>{persistedByDocument[document.id] ? 'View Clauses' : 'Visualize Clauses'}</button>
+    <div className="chat-workspace">
+      {showDocument && (
+        <DocumentPane
+          documentId={document.id}
+          clauses={clauses}
+          focus={documentFocus}
+          onAskAbout={handleAskAbout}
+          onClose={() => setShowDocument(false)}
+        />
+      )}
+      <div className="chat-interface">
+        {/* Chat Header */}
+        <div className="chat-header">
+          <div className="document-info">
+            <h3>{document.file_name}</h3>
+            <DocumentTypePicker document={document} />
+            <select
+              className="jurisdiction-select"
+              value={jurisdiction}
+              onChange={e => jurisdictionSettings.set(document.id, e.target.value)}
+              aria-label="Jurisdiction"
+              title="Whose law legal references and scenarios are based on"
+            >
+              {listJurisdictionPacks().map(pack => <option key={pack.code} value={pack.code}>{pack.name}</option>)}
+              {!listJurisdictionPacks().some(pack => pack.code === jurisdiction) && <option value={jurisdiction}>{jurisdiction}</option>}
+            </select>
+            {onUpdateDocument && <DocumentTags document={document} matters={matters} onUpdate={onUpdateDocument} />}
+          </div>
+          <div className="header-actions">
+            <button
+              className={`document-toggle-button ${showDocument ? 'active' : ''}`}
+              onClick={() => setShowDocument(prev => !prev)}
+              title={showDocument ? 'Hide document' : 'Show document side by side'}
+            >
+              <FileText size={16} /> Document
+            </button>
+            <button
+              className={`document-toggle-button ${showDetails ? 'active' : ''}`}
+              onClick={() => setShowDetails(prev => !prev)}
+              title="Extracted text, processing statistics and guidance"
+            >
+              <Info size={16} /> Details
+            </button>
+            <button
+              className={`document-toggle-button ${showDashboard ? 'active' : ''}`}
+              onClick={() => setShowDashboard(prev => !prev)}
+              title="Document risk overview"
+            >
+              <Gauge size={16} /> Risk
+            </button>
+            <button
+              className={`document-toggle-button ${showGraph ? 'active' : ''}`}
+              onClick={() => setShowGraph(prev => !prev)}
+              title="Laws and authorities behind every clause"
+            >
+              <Network size={16} /> Graph
+            </button>
+            <button
+              className={`document-toggle-button ${showTasks ? 'active' : ''}`}
+              onClick={() => setShowTasks(prev => !prev)}
+              title="Mitigations being worked on"
+            >
+              <ListChecks size={16} /> Tasks{openTaskCount > 0 && <span className="task-count-badge">{openTaskCount}</span>}
+            </button>
+            {persistedByDocument[document.id] && (
+              <button className="document-toggle-button" onClick={() => setShowHistory(true)} title="Persisted clause versions">
+                <History size={16} /> History
+              </button>
+            )}
+            <button className="document-toggle-button" onClick={() => setShowExport(true)} title="Export analysis report">
+              <FileDown size={16} /> Export report
+            </button>
+            <button className="visualize-button" disabled={visualizerLoading} onClick={openVisualizer}>
+              {persistedByDocument[document.id] ? 'View Clauses' : 'Visualize Clauses'}
+            </button>
+          </div>
         </div>
-      </div>
 
-      {showVisualizer && (
-        <div className="clause-panel">
-          <ClauseVisualizer
-            clauses={clauses}
-            documentId={document.id}
-            documentType={(() => {
-              const allowed = new Set([
-                'Contract','Agreement','Lease Agreement','Rental Agreement','Will','Testament','Trust Document',
-                'Privacy Policy','Data Processing Agreement','Terms of Service','Terms and Conditions','Invoice','Bill',
-                'Legal Notice','Court Filing','Complaint','Summons','NDA','Non-Disclosure Agreement','Employment Agreement',
-                'Service Agreement','Sales Agreement','Purchase Agreement','Power of Attorney','Deed','Mortgage','Promissory Note',
-                'License Agreement','Settlement Agreement','Release','Consent Form'
-              ]);
-              const detected = document.ocr_metadata?.document_type;
-              if (detected && allowed.has(detected)) return detected;
-              return 'Legal Document';
-            })()}
-            onPersist={(inserted) => {
-                // Mark this document as persisted
-                setPersistedByDocument(prev => ({ ...prev, [document.id]: true }));
+        {threads && onSelectThread && onCreateThread && onRenameThread && onDeleteThread && (
+          <ThreadTabs
+            threads={threads}
+            activeThreadId={activeThreadId}
+            onSelect={onSelectThread}
+            onCreate={onCreateThread}
+            onRename={onRenameThread}
+            onDelete={onDeleteThread}
+          />
+        )}
 
-              // Build highlights map from inserted clauses
-              const map: Record<string, string[]> = {};
-              (inserted || []).forEach((c: any) => {
-                if (c.highlights && c.highlights.length) {
-                  map[c.id] = c.highlights;
-                } else if (c.clause_text) {
-                  // use clause text fallback as a single highlight
-                  map[c.id] = [c.clause_text.slice(0, 200)];
-                }
-              });
-              setHighlights(map);
+        {showDetails && (
+          <div className="risk-dashboard-panel">
+            <DocumentDetails document={document} documentType={documentType} onClose={() => setShowDetails(false)} />
+          </div>
+        )}
+
+        {showDashboard && (
+          <div className="risk-dashboard-panel">
+            <RiskDashboard
+              document={document}
+              documentType={documentType}
+              jurisdiction={jurisdiction}
+              clauses={clauses}
+              onSelectClause={handleSelectClause}
+              onClose={() => setShowDashboard(false)}
+            />
+          </div>
+        )}
+
+        {showGraph && (
+          <div className="risk-dashboard-panel">
+            <KnowledgeGraphView
+              document={document}
+              documentType={documentType}
+              jurisdiction={jurisdiction}
+              clauses={clauses}
+              onSelectNode={handleSelectGraphNode}
+              onClose={() => setShowGraph(false)}
+            />
+          </div>
+        )}
+
+        {showTasks && (
+          <div className="risk-dashboard-panel">
+            <MitigationBoard
+              document={document}
+              onOpenTask={handleOpenTask}
+              onClose={() => setShowTasks(false)}
+            />
+          </div>
+        )}
 
-              // Show toast with Undo action (pass clause ids if available)
-              const ids = (inserted || []).map((x: any) => x.id).filter(Boolean);
-              if (ids.length) {
-                setToast({
-                  id: Date.now().toString(),
-                  message: `${ids.length} clause(s) saved`,
-                  actionLabel: 'Undo',
-                  onAction: async () => {
-                    try {
-                      const resp = await fetch(`${API_BASE}/api/analysis/clauses/${document.id}/undo`, {
-                        method: 'POST',
-                        headers: { 'Content-Type': 'application/json' },
-                        body: JSON.stringify({ clause_ids: ids })
-                      });
-                      if (resp.ok) {
+        {showVisualizer && (
+          <div className="clause-panel">
+            <ClauseVisualizer
+              clauses={clauses}
+              documentId={document.id}
+              documentType={documentType}
+              jurisdiction={jurisdiction}
+              onPersist={(inserted) => {
+                  // Mark this document as persisted
+                  setPersistedByDocument(prev => ({ ...prev, [document.id]: true }));
+
+                setHighlights(highlightsFrom(inserted || []));
+
+                // Show toast with Undo action (pass clause ids if available)
+                const ids = (inserted || []).map(x => x.id).filter(Boolean);
+                if (ids.length) {
+                  setToast({
+                    id: Date.now().toString(),
+                    message: `${ids.length} clause(s) saved`,
+                    actionLabel: 'Undo',
+                    onAction: async () => {
+                      try {
+                        await undoPersist(document.id, ids);
                         // Optionally refresh clauses
-                        setClauses(prev => prev.filter((c:any) => !ids.includes(c.id)));
-                        // Clear persisted flag for this document
-                        setPersistedByDocument(prev => ({ ...prev, [document.id]: false }));
-                      } else {
-                        console.warn('Undo failed', await resp.text());
+                        setClauses(prev => prev.filter(c => !ids.includes(c.id)));
+                        // Undo brings back the previous version, if there was one
+                        const remaining = await getPersistedClauses(document.id).catch(() => [] as Clause[]);
+                        setPersistedByDocument(prev => ({ ...prev, [document.id]: remaining.length > 0 }));
+                        setHighlights(highlightsFrom(remaining));
+                      } catch (e) {
+                        console.warn('Undo request failed', e);
                       }
-                    } catch (e) {
-                      console.warn('Undo request failed', e);
                     }
-                  }
-                });
-                // auto-dismiss toast after 8s
-                setTimeout(() => setToast(null), 8000);
-              }
-            }}
-            onClose={() => setShowVisualizer(false)}
-          />
-        </div>
-      )}
-
-      {/* Messages Area */}
-      <div className="messages-container">
-        <div className="messages">
-          {chatHistory.length === 0 ? (
-            <div className="empty-chat">
-              <div className="welcome-message">
-                <h4>Welcome! Your document has been processed.</h4>
-                <p>Ask me questions about this document, request summaries, or get legal guidance.</p>
-                <div className="suggested-questions">
-                  <p><strong>Try asking:</strong></p>
-                  <ul>
-                    <li>"What are the key points in this document?"</li>
-                    <li>"Can you summarize this for me?"</li>
-                    <li>"What should I be aware of?"</li>
-                    <li>"Are there any important dates or deadlines?"</li>
-                  </ul>
-                </div>
-              </div>
-            </div>
-          ) : (
-            chatHistory.map((msg, index) => {
-              const isLatestAssistantMessage = 
-                msg.role === 'assistant' && 
-                index === chatHistory.length - 1 && 
-                chatHistory.length > lastMessageCount;
-              
-              return (
-                <div key={msg.id} className={`message ${msg.role}`}>
-                  <div className="message-content">
-                    <div className="message-text">
-                      {isLatestAssistantMessage ? (
-                        <TypingAnimation 
-                          text={msg.message} 
-                          speed={15}
-                        />
-                      ) : (
-                        // Apply inline highlights into the markdown before rendering
-                        formatMessage(applyInlineHighlights(msg.message))
-                      )}
-                    </div>
-                    <div className="message-time">
-                      {formatTime(msg.created_at)}
-                    </div>
-                  </div>
-                </div>
-              );
-            })
-          )}
+                  });
+                  // auto-dismiss toast after 8s
+                  setTimeout(() => setToast(null), 8000);
+                }
+              }}
+              onSelectClause={handleSelectClause}
+              focusedClauseId={focusedClauseId}
+              focusedReference={referenceFocus}
+              focusedTask={focusedTask}
+              onClose={closeVisualizer}
+            />
+          </div>
+        )}
 
-          {/* Show loading indicator when waiting for response */}
-          {isLoading && (
-            <div className="message assistant">
-              <div className="message-content loading-message">
-                <div className="ai-thinking">
-                  <div className="thinking-dots">
-                    <div className="thinking-dot"></div>
-                    <div className="thinking-dot"></div>
-                    <div className="thinking-dot"></div>
-                  </div>
-                  <span className="thinking-text">AI is analyzing...</span>
-                </div>
+        {/* Messages Area */}
+        <ChatMessageList
+          messages={chatHistory}
+          isLoading={isLoading}
+          isStreaming={isStreaming}
+          onRetryMessage={onRetryMessage}
+          highlights={highlightSnippets}
+          focusedMessageId={focusedMessageId}
+          messageRoute={messageRoute}
+          emptyState={
+            <div className="welcome-message">
+              <h4>Welcome! Your document has been processed.</h4>
+              <p>Ask me questions about this document, request summaries, or get legal guidance.</p>
+              <div className="suggested-questions">
+                <p><strong>Try asking:</strong></p>
+                <ul>
+                  <li>"What are the key points in this document?"</li>
+                  <li>"Can you summarize this for me?"</li>
+                  <li>"What should I be aware of?"</li>
+                  <li>"Are there any important dates or deadlines?"</li>
+                </ul>
               </div>
             </div>
-          )}
-          
-          <div ref={messagesEndRef} />
-        </div>
-      </div>
+          }
+        />
 
-      {/* Input Area */}
-      <div className="chat-input-container">
-        <form onSubmit={handleSubmit} className="chat-form">
-          <div className="input-wrapper">
-            <textarea
-              ref={inputRef}
-              value={inputMessage}
-              onChange={(e) => setInputMessage(e.target.value)}
-              onKeyDown={handleKeyDown}
-              placeholder="Ask a question about this document..."
-              disabled={isLoading}
-              rows={1}
-              className="chat-input"
-            />
-            <button
-              type="submit"
-              disabled={!inputMessage.trim() || isLoading}
-              className="send-button"
-            >
-              <svg width="24" height="24" viewBox="0 0 24 24" fill="none">
-                <path 
-                  d="M22 2L11 13M22 2L15 22L11 13M22 2L2 9L11 13" 
-                  stroke="currentColor" 
-                  strokeWidth="2" 
-                  strokeLinecap="round" 
-                  strokeLinejoin="round"
-                />
-              </svg>
-            </button>
-          </div>
-        </form>
-      </div>
-      {/* Toast overlay */}
-      {toast && (
-        <Toast
-          message={toast.message}
-          actionLabel={toast.actionLabel}
-          onAction={toast.onAction}
-          onClose={() => setToast(null)}
+        {/* Input Area */}
+        <ChatComposer
+          value={inputMessage}
+          onChange={updateInput}
+          onSubmit={onSendMessage}
+          isLoading={isLoading}
+          isStreaming={isStreaming}
+          onStop={onStopGeneration}
+          placeholder="Ask a question about this document..."
+          inputRef={inputRef}
         />
-      )}
+        {showExport && (
+          <ReportExportDialog
+            document={document}
+            documentType={documentType}
+            jurisdiction={jurisdiction}
+            clauses={clauses}
+            chatHistory={chatHistory}
+            onClose={() => setShowExport(false)}
+          />
+        )}
+        {showHistory && (
+          <ClauseVersionHistory
+            documentId={document.id}
+            onRestored={(version, restored) => {
+              setPersistedByDocument(prev => ({ ...prev, [document.id]: restored.length > 0 }));
+              setHighlights(highlightsFrom(restored));
+              setClauses(restored);
+              setToast({ id: `toast-${Date.now()}`, message: `Restored version ${version.restored_from} as version ${version.version}` });
+            }}
+            onClose={() => setShowHistory(false)}
+          />
+        )}
+        {/* Toast overlay */}
+        {toast && (
+          <Toast
+            message={toast.message}
+            actionLabel={toast.actionLabel}
+            onAction={toast.onAction}
+            onClose={() => setToast(null)}
+          />
+        )}
+      </div>
     </div>
   );
 };
@@ -0,0 +1,157 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, Link2 } from 'lucide-react';
+import { ChatMessage } from '../api';
+import { AppRoute, messageAnchorId, routeUrl } from '../routing';
+import { Markdown } from './Markdown';
+import { StreamingMessage } from './StreamingMessage';
+
+interface ChatMessageListProps {
+  messages: ChatMessage[];
+  isLoading: boolean;
+  isStreaming?: boolean;
+  // Re-asks the question behind a stopped or interrupted reply
+  onRetryMessage?: (messageId: string) => void;
+  highlights?: string[];
+  // Shown instead of the list while there are no messages
+  emptyState?: React.ReactNode;
+  // Scrolled to and outlined instead of jumping to the bottom
+  focusedMessageId?: string;
+  // Route a message's "copy link" button points to; no button without it
+  messageRoute?: (messageId: string) => AppRoute;
+}
+
+// Messages added in the browser get a local id until the history is reloaded
+// from the backend; they have no stable address, so they can't be linked to
+const LOCAL_PREFIX = 'local-';
+
+export const localMessageId = (role: ChatMessage['role']) => `${LOCAL_PREFIX}${Date.now()}-${role}`;
+
+export const isLocalMessage = (message: ChatMessage) => message.id.startsWith(LOCAL_PREFIX);
+
+const formatTime = (dateString: string) => {
+  try {
+    return new Date(dateString).toLocaleTimeString('en-US', {
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+  } catch {
+    return '';
+  }
+};
+
+// Scrollable message history shared by the document chat and the
+// cross-document chat, including streaming and "thinking" states
+const ChatMessageList: React.FC<ChatMessageListProps> = ({
+  messages,
+  isLoading,
+  isStreaming = false,
+  onRetryMessage,
+  highlights,
+  emptyState,
+  focusedMessageId,
+  messageRoute
+}) => {
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+  // A linked message is scrolled to once; later messages scroll to the bottom again
+  const anchoredRef = useRef<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  // Auto-scroll to bottom when new messages arrive
+  useEffect(() => {
+    if (focusedMessageId && anchoredRef.current !== focusedMessageId) {
+      const anchor = document.getElementById(messageAnchorId(focusedMessageId));
+      if (anchor) {
+        anchoredRef.current = focusedMessageId;
+        anchor.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        return;
+      }
+    }
+    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages, focusedMessageId]);
+
+  const copyLink = async (messageId: string) => {
+    if (!messageRoute) return;
+    try {
+      await navigator.clipboard.writeText(routeUrl(messageRoute(messageId)));
+      setCopiedId(messageId);
+      setTimeout(() => setCopiedId(current => (current === messageId ? null : current)), 2000);
+    } catch (err) {
+      console.warn('Failed to copy message link', err);
+    }
+  };
+
+  return (
+    <div className="messages-container">
+      <div className="messages">
+        {messages.length === 0 ? (
+          <div className="empty-chat">{emptyState}</div>
+        ) : (
+          messages.map((msg) => {
+            const meta = msg.metadata || {};
+            // The thinking indicator below stands in until the first token arrives
+            if (meta.streaming && !msg.message) return null;
+
+            return (
+              <div
+                key={msg.id}
+                id={messageAnchorId(msg.id)}
+                className={`message ${msg.role} ${msg.id === focusedMessageId ? 'focused' : ''}`}
+              >
+                <div className="message-content">
+                  <div className="message-text">
+                    {meta.streaming ? (
+                      <StreamingMessage text={msg.message} streaming />
+                    ) : (
+                      <Markdown source={msg.message} highlights={highlights} />
+                    )}
+                  </div>
+                  {(meta.stopped || meta.interrupted) && (
+                    <div className="message-stream-status">
+                      <span>{meta.interrupted ? 'Response interrupted before it finished.' : 'Generation stopped.'}</span>
+                      {onRetryMessage && !isStreaming && (
+                        <button onClick={() => onRetryMessage(msg.id)}>Retry</button>
+                      )}
+                    </div>
+                  )}
+                  <div className="message-time">
+                    {formatTime(msg.created_at)}
+                    {messageRoute && !isLocalMessage(msg) && (
+                      <button
+                        className="message-link-button"
+                        onClick={() => copyLink(msg.id)}
+                        title="Copy link to this message"
+                        aria-label="Copy link to this message"
+                      >
+                        {copiedId === msg.id ? <Check size={12} /> : <Link2 size={12} />}
+                      </button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            );
+          })
+        )}
+
+        {/* Show loading indicator when waiting for response */}
+        {(isLoading || messages.some(m => m.metadata?.streaming && !m.message)) && (
+          <div className="message assistant">
+            <div className="message-content loading-message">
+              <div className="ai-thinking">
+                <div className="thinking-dots">
+                  <div className="thinking-dot"></div>
+                  <div className="thinking-dot"></div>
+                  <div className="thinking-dot"></div>
+                </div>
+                <span className="thinking-text">AI is analyzing...</span>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div ref={messagesEndRef} />
+      </div>
+    </div>
+  );
+};
+
+export default ChatMessageList;
@@ -1,17 +1,39 @@
-import React, { useState } from 'react';
-import { Trash2 } from 'lucide-react';
-import { API_BASE } from '../config';
-
-interface Document {
-  id: string;
-  file_name: string;
-  created_at: string;
-  processed_at: string;
-  ocr_metadata?: {
-    document_type?: string;
-    statistics?: any;
-  };
-}
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Trash2,
+  RotateCcw,
+  X,
+  Files,
+  Search,
+  SlidersHorizontal,
+  Briefcase,
+  FolderOpen,
+  Inbox,
+  Plus,
+  CheckSquare,
+  RefreshCw,
+  Download
+} from 'lucide-react';
+import { Document, Matter, MatterRequest, deleteChat, isApiError, listTrash, restoreDocuments, trashDocuments } from '../api';
+import { API_MODE, setApiMode } from '../config';
+import { Job, JobStatus, isActiveJob, jobManager, useJobs } from '../jobs';
+import { MIN_COMPARE_DOCUMENTS } from './CrossDocumentChat';
+import { DocumentTypeBadge } from './DocumentTypePicker';
+import TrashPanel from './TrashPanel';
+import Toast from './Toast';
+import { documentTypeOf, useDocumentTaxonomy } from '../taxonomy';
+import { jurisdictionSettings } from '../jurisdiction';
+import { AnalysisReport, collectReport, exportReportBundle } from '../report';
+import {
+  DOCUMENT_SORTS,
+  DocumentQuery,
+  DocumentSort,
+  EMPTY_DOCUMENT_QUERY,
+  UNFILED,
+  isFilteredQuery,
+  queryDocuments,
+  useVirtualRows
+} from '../documents';
 
 interface ChatSidebarProps {
   documents: Document[];
@@ -19,16 +41,262 @@ interface ChatSidebarProps {
   onSelectDocument: (document: Document | null) => void;
   onNewChat: () => void;
   onDocumentsChange?: () => void;
+  // Documents in the open cross-document chat, marked in the list
+  comparingIds?: string[];
+  onCompareDocuments?: (documents: Document[]) => void;
+  // Matters are listed, and documents can be dragged onto them, when handlers are given
+  matters?: Matter[];
+  activeMatterId?: string;
+  onOpenMatter?: (matterId: string) => void;
+  onCreateMatter?: (request: MatterRequest) => Promise<Matter | null>;
+  onMoveDocument?: (documentId: string, matterId: string | null) => void;
 }
 
+// Height of one document row including the gap below it; .documents-list
+// .document-item in App.css must add up to the same
+const DOCUMENT_ROW_HEIGHT = 144;
+
+// Drag payload for a document row; other drags (files, text) are ignored
+const DOCUMENT_DRAG_TYPE = 'application/x-legalai-document';
+// How long the "moved to trash" notice offers its undo
+const UNDO_MS = 8000;
+// Backends from before the trash answer its routes with these; deleting is then
+// permanent, as it used to be, and there is no undo or trash view
+const TRASH_UNSUPPORTED = [404, 405, 501];
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+// What went wrong, each distinct error once
+const failureReasons = (errors: unknown[]) =>
+  Array.from(new Set(errors.map(err => (err instanceof Error && err.message) || 'Unknown error'))).join('; ');
+
+const JOB_STATUS_LABELS: Record<JobStatus, string> = {
+  queued: 'Waiting',
+  uploading: 'Uploading',
+  pending: 'Starting',
+  processing: 'Processing',
+  done: 'Ready',
+  error: 'Failed',
+  cancelled: 'Cancelled'
+};
+
 export const ChatSidebar: React.FC<ChatSidebarProps> = ({
   documents,
   selectedDocument,
   onSelectDocument,
   onNewChat
-  , onDocumentsChange
+  , onDocumentsChange,
+  comparingIds = [],
+  onCompareDocuments,
+  matters = [],
+  activeMatterId,
+  onOpenMatter,
+  onCreateMatter,
+  onMoveDocument
 }) => {
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [showTrash, setShowTrash] = useState(false);
+  // null until the backend has answered the trash route
+  const [trashSupported, setTrashSupported] = useState<boolean | null>(null);
+  // Running bulk action, shown in the selection bar
+  const [bulkStatus, setBulkStatus] = useState<string | null>(null);
+  const [notice, setNotice] = useState<{ message: string; undoIds?: string[] } | null>(null);
+  const taxonomy = useDocumentTaxonomy();
+  const [query, setQuery] = useState<DocumentQuery>(EMPTY_DOCUMENT_QUERY);
+  const [showFilters, setShowFilters] = useState(false);
+  const shown = useMemo(() => queryDocuments(documents, query, taxonomy), [documents, query, taxonomy]);
+  // Types present in the list, most common first, for the type filter
+  const typeCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    documents.forEach(doc => {
+      const name = documentTypeOf(doc, taxonomy).name;
+      counts.set(name, (counts.get(name) || 0) + 1);
+    });
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+  }, [documents, taxonomy]);
+  // Only the rows near the viewport are rendered, so thousands of documents stay cheap
+  const rows = useVirtualRows<HTMLDivElement>(shown.length, DOCUMENT_ROW_HEIGHT);
+  const { scrollToTop } = rows;
+  const updateQuery = (patch: Partial<DocumentQuery>) => setQuery(prev => ({ ...prev, ...patch }));
+
+  // A new search or order starts at the top of the list
+  useEffect(() => scrollToTop(), [query, scrollToTop]);
+  // Every tag in use, for the tag filter
+  const allTags = useMemo(
+    () => Array.from(new Set(documents.flatMap(doc => doc.tags || []))).sort(),
+    [documents]
+  );
+  const matterCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    documents.forEach(doc => {
+      const key = doc.matter_id || UNFILED;
+      counts.set(key, (counts.get(key) || 0) + 1);
+    });
+    return counts;
+  }, [documents]);
+  const matterNames = useMemo(() => new Map(matters.map(m => [m.id, m.name])), [matters]);
+  // The matter (or UNFILED) a document is being dragged over
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [newMatter, setNewMatter] = useState<string | null>(null);
+  const filteredMatter = query.matter;
+
+  // A deleted matter stops filtering the list
+  useEffect(() => {
+    if (filteredMatter && filteredMatter !== UNFILED && !matterNames.has(filteredMatter)) {
+      setQuery(prev => ({ ...prev, matter: '' }));
+    }
+  }, [filteredMatter, matterNames]);
+
+  const dropHandlers = (target: string) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes(DOCUMENT_DRAG_TYPE)) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'move';
+      setDropTarget(target);
+    },
+    onDragLeave: () => setDropTarget(prev => (prev === target ? null : prev)),
+    onDrop: (e: React.DragEvent) => {
+      const documentId = e.dataTransfer.getData(DOCUMENT_DRAG_TYPE);
+      setDropTarget(null);
+      if (!documentId || !onMoveDocument) return;
+      e.preventDefault();
+      const matterId = target === UNFILED ? null : target;
+      if ((documents.find(d => d.id === documentId)?.matter_id || null) !== matterId) onMoveDocument(documentId, matterId);
+    }
+  });
+
+  const handleCreateMatter = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!onCreateMatter || !newMatter?.trim()) return;
+    const matter = await onCreateMatter({ name: newMatter.trim() });
+    setNewMatter(null);
+    if (matter) onOpenMatter?.(matter.id);
+  };
+  // Multi-select for cross-document chat and bulk actions; null when not selecting
+  const [checkedIds, setCheckedIds] = useState<string[] | null>(null);
+  const toggleChecked = (documentId: string) =>
+    setCheckedIds(prev => prev && (prev.includes(documentId) ? prev.filter(x => x !== documentId) : [...prev, documentId]));
+  const checkedDocuments = documents.filter(d => checkedIds?.includes(d.id));
+  const allShownChecked = !!checkedIds && shown.length > 0 && shown.every(d => checkedIds.includes(d.id));
+
+  useEffect(() => {
+    let mounted = true;
+    listTrash()
+      .then(() => { if (mounted) setTrashSupported(true); })
+      .catch(err => { if (mounted) setTrashSupported(!(isApiError(err) && TRASH_UNSUPPORTED.includes(err.status))); });
+    return () => { mounted = false; };
+  }, []);
+
+  // The undo offer goes away on its own
+  useEffect(() => {
+    if (!notice) return;
+    const timer = setTimeout(() => setNotice(null), UNDO_MS);
+    return () => clearTimeout(timer);
+  }, [notice]);
+
+  // Soft delete; the notice offers to bring the documents straight back
+  const moveToTrash = async (docs: Document[]) => {
+    const ids = docs.map(d => d.id);
+    const { documents: trashed } = await trashDocuments(ids);
+    if (selectedDocument && ids.includes(selectedDocument.id)) onSelectDocument(null);
+    if (onDocumentsChange) onDocumentsChange();
+    const trashedIds = trashed.map(d => d.id);
+    setNotice({
+      message: trashedIds.length === 1 ? `Moved "${trashed[0].file_name}" to the trash` : `Moved ${plural(trashedIds.length, 'document')} to the trash`,
+      undoIds: trashedIds
+    });
+  };
+
+  // Without a trash, documents are deleted for good behind a confirmation
+  const deletePermanently = async (docs: Document[]) => {
+    const prompt = docs.length === 1
+      ? 'Delete this chat (and related messages)?'
+      : `Delete ${plural(docs.length, 'chat')} (and related messages)?`;
+    if (!window.confirm(prompt)) return false;
+    const results = await Promise.allSettled(docs.map(doc => deleteChat(doc.id)));
+    const deletedIds = docs.filter((_, index) => results[index].status === 'fulfilled').map(doc => doc.id);
+    if (selectedDocument && deletedIds.includes(selectedDocument.id)) onSelectDocument(null);
+    if (onDocumentsChange) onDocumentsChange();
+    const failures = results.filter((r): r is PromiseRejectedResult => r.status === 'rejected');
+    if (failures.length) {
+      setNotice({ message: `${plural(failures.length, 'document')} could not be deleted: ${failureReasons(failures.map(f => f.reason))}` });
+    }
+    return true;
+  };
+
+  // Trash when the backend has one; false when the user backed out
+  const removeDocuments = async (docs: Document[]) => {
+    if (trashSupported !== false) {
+      try {
+        await moveToTrash(docs);
+        return true;
+      } catch (err) {
+        if (!(isApiError(err) && TRASH_UNSUPPORTED.includes(err.status))) throw err;
+        setTrashSupported(false);
+      }
+    }
+    return deletePermanently(docs);
+  };
+
+  const handleUndo = async (ids: string[]) => {
+    try {
+      await restoreDocuments(ids);
+      if (onDocumentsChange) onDocumentsChange();
+    } catch (err) {
+      setNotice({ message: isApiError(err) ? err.message : 'Failed to restore' });
+    }
+  };
+
+  const handleBulkDelete = async () => {
+    if (!checkedDocuments.length) return;
+    setBulkStatus('Deleting...');
+    try {
+      if (await removeDocuments(checkedDocuments)) setCheckedIds(null);
+    } catch (err) {
+      setNotice({ message: isApiError(err) ? err.message : 'Failed to delete' });
+    } finally {
+      setBulkStatus(null);
+    }
+  };
+
+  // Progress of each document shows in the processing list above
+  const handleBulkReprocess = () => {
+    if (!checkedDocuments.length) return;
+    if (!window.confirm(`Extract the text of ${plural(checkedDocuments.length, 'document')} again? Existing chats and saved analysis are kept.`)) return;
+    checkedDocuments.forEach(doc => jobManager.reprocess(doc.id, doc.file_name));
+    setCheckedIds(null);
+  };
+
+  // One report per document, bundled into a single zip. Documents without
+  // text to analyse are skipped and counted.
+  const handleBulkExport = async () => {
+    if (!checkedDocuments.length) return;
+    const reports: AnalysisReport[] = [];
+    const failures: unknown[] = [];
+    for (let index = 0; index < checkedDocuments.length; index++) {
+      const doc = checkedDocuments[index];
+      setBulkStatus(`Preparing ${index + 1} of ${checkedDocuments.length}...`);
+      try {
+        reports.push(await collectReport({
+          document: doc,
+          documentType: documentTypeOf(doc, taxonomy).name,
+          jurisdiction: jurisdictionSettings.get(doc.id),
+          questions: []
+        }));
+      } catch (err) {
+        console.warn('Report export skipped', doc.file_name, err);
+        failures.push(err);
+      }
+    }
+    setBulkStatus(null);
+    if (reports.length) exportReportBundle(reports);
+    if (failures.length) {
+      setNotice({ message: `${plural(failures.length, 'document')} could not be exported: ${failureReasons(failures)}` });
+    }
+    if (reports.length) setCheckedIds(null);
+  };
+  // Finished batch uploads are reported by the batch summary instead
+  const jobs = useJobs().filter(job => !(job.batchId && job.status === 'done'));
   const formatDate = (dateString: string) => {
     try {
       return new Date(dateString).toLocaleDateString('en-US', {
@@ -50,86 +318,325 @@ export const ChatSidebar: React.FC<ChatSidebarProps> = ({
     return `${truncated}...${extension ? '.' + extension : ''}`;
   };
 
+  const renderDocument = (doc: Document) => (
+    <div
+      key={doc.id}
+      className={`document-item ${selectedDocument?.id === doc.id ? 'selected' : ''} ${comparingIds.includes(doc.id) ? 'comparing' : ''}`}
+      draggable={!!onMoveDocument}
+      onDragStart={e => {
+        e.dataTransfer.setData(DOCUMENT_DRAG_TYPE, doc.id);
+        e.dataTransfer.effectAllowed = 'move';
+      }}
+      onDragEnd={() => setDropTarget(null)}
+    >
+      {checkedIds && (
+        <input
+          type="checkbox"
+          className="document-check"
+          checked={checkedIds.includes(doc.id)}
+          onChange={() => toggleChecked(doc.id)}
+          aria-label={`Select ${doc.file_name}`}
+        />
+      )}
+      <div className="document-main" onClick={() => (checkedIds ? toggleChecked(doc.id) : onSelectDocument(doc))}>
+        <div className="document-name" title={doc.file_name}>
+          {truncateFileName(doc.file_name)}
+        </div>
+        <div className="document-type">
+          <DocumentTypeBadge type={documentTypeOf(doc, taxonomy)} />
+        </div>
+        <div className="document-labels">
+          {doc.matter_id && matterNames.has(doc.matter_id) && (
+            <span className="document-matter" title="Matter">
+              <Briefcase size={11} /> {matterNames.get(doc.matter_id)}
+            </span>
+          )}
+          {(doc.tags || []).map(tag => <span key={tag} className="document-tag">#{tag}</span>)}
+        </div>
+      </div>
+      <div className="document-meta">
+        <div className="document-date">
+          {formatDate(doc.created_at)}
+        </div>
+        <button
+          className="delete-doc-button"
+          disabled={deletingId === doc.id}
+          aria-label={trashSupported === false ? `Delete chat ${doc.file_name}` : `Move ${doc.file_name} to the trash`}
+          title={trashSupported === false ? 'Delete' : 'Move to trash'}
+          onClick={async (e) => {
+            e.stopPropagation();
+            try {
+              setDeletingId(doc.id);
+              await removeDocuments([doc]);
+            } catch (err) {
+              setNotice({ message: `Could not delete "${doc.file_name}": ${failureReasons([err])}` });
+            } finally {
+              setDeletingId(null);
+            }
+          }}
+        >
+          {deletingId === doc.id ? (
+            <div className="spinner" style={{ width: '14px', height: '14px' }}></div>
+          ) : (
+            <Trash2 size={14} />
+          )}
+        </button>
+      </div>
+    </div>
+  );
+
   return (
     <div className="chat-sidebar">
       <div className="sidebar-header">
         <h2>Documents</h2>
         <button className="new-chat-button" onClick={onNewChat}>+ New Chat / Upload</button>
+        {documents.length > 0 && !showTrash && (
+          checkedIds ? (
+            <>
+              <div className="compare-select-bar">
+                <span>{bulkStatus || `${checkedIds.length} selected`}</span>
+                <button
+                  onClick={() => setCheckedIds(allShownChecked
+                    ? checkedIds.filter(x => !shown.some(d => d.id === x))
+                    : Array.from(new Set([...checkedIds, ...shown.map(d => d.id)])))}
+                  disabled={!!bulkStatus}
+                >
+                  {allShownChecked ? 'None' : 'All'}
+                </button>
+                <button onClick={() => setCheckedIds(null)} disabled={!!bulkStatus}>Cancel</button>
+              </div>
+              <div className="bulk-actions">
+                {onCompareDocuments && documents.length >= MIN_COMPARE_DOCUMENTS && (
+                  <button
+                    className="compare-start"
+                    disabled={checkedIds.length < MIN_COMPARE_DOCUMENTS || !!bulkStatus}
+                    onClick={() => {
+                      onCompareDocuments(checkedDocuments);
+                      setCheckedIds(null);
+                    }}
+                  >
+                    <Files size={13} /> Ask across
+                  </button>
+                )}
+                <button disabled={!checkedIds.length || !!bulkStatus} onClick={handleBulkReprocess} title="Extract the text again">
+                  <RefreshCw size={13} /> Re-process
+                </button>
+                <button disabled={!checkedIds.length || !!bulkStatus} onClick={handleBulkExport} title="Download analysis reports as a zip">
+                  <Download size={13} /> Export
+                </button>
+                <button className="bulk-delete" disabled={!checkedIds.length || !!bulkStatus} onClick={handleBulkDelete} title={trashSupported === false ? 'Delete for good' : 'Move to trash'}>
+                  <Trash2 size={13} /> Delete
+                </button>
+              </div>
+            </>
+          ) : (
+            <button className="compare-button" onClick={() => setCheckedIds(comparingIds)}>
+              <CheckSquare size={14} /> Select documents
+            </button>
+          )
+        )}
+        {API_MODE === 'mock' && (
+          <div className="demo-mode-banner">
+            <span>Offline demo — data is local to this browser</span>
+            <button onClick={() => setApiMode('live')}>Go live</button>
+          </div>
+        )}
       </div>
       
-      <div className="documents-list">
-        {documents.length === 0 ? (
-          <div className="no-documents">
-            <p>No documents yet</p>
-            <p className="subtitle">Upload a document to get started</p>
-          </div>
-        ) : (
-          documents.map((doc) => (
-            <div
-              key={doc.id}
-              className={`document-item ${selectedDocument?.id === doc.id ? 'selected' : ''}`}
-            >
-              <div className="document-main" onClick={() => onSelectDocument(doc)}>
-                <div className="document-name" title={doc.file_name}>
-                  {truncateFileName(doc.file_name)}
+      {jobs.length > 0 && (
+        <div className="job-list">
+          <div className="job-list-title">Processing</div>
+          {jobs.map((job: Job) => {
+            const doc = job.documentId ? documents.find(d => d.id === job.documentId) : undefined;
+            return (
+              <div key={job.id} className={`job-item ${job.status}`}>
+                <div className="job-row">
+                  <span className="job-name" title={job.filename}>{truncateFileName(job.filename, 22)}</span>
+                  <span className="job-status">{JOB_STATUS_LABELS[job.status]}</span>
                 </div>
-                <div className="document-type">
-                  {(() => {
-                    const allowed = new Set([
-                      'Contract','Agreement','Lease Agreement','Rental Agreement','Will','Testament','Trust Document',
-                      'Privacy Policy','Data Processing Agreement','Terms of Service','Terms and Conditions','Invoice','Bill',
-                      'Legal Notice','Court Filing','Complaint','Summons','NDA','Non-Disclosure Agreement','Employment Agreement',
-                      'Service Agreement','Sales Agreement','Purchase Agreement','Power of Attorney','Deed','Mortgage','Promissory Note',
-                      'License Agreement','Settlement Agreement','Release','Consent Form'
-                    ]);
-                    const detected = doc.ocr_metadata?.document_type;
-                    if (detected && allowed.has(detected)) return detected;
-                    return 'Legal Document';
-                  })()}
+                <div className="job-progress">
+                  <div className="job-progress-bar" style={{ width: `${job.progress}%` }}></div>
+                </div>
+                {job.error && <div className="job-error">{job.error}</div>}
+                <div className="job-actions">
+                  {job.status === 'done' && doc && (
+                    <button onClick={() => onSelectDocument(doc)}>Open</button>
+                  )}
+                  {(job.status === 'error' || job.status === 'cancelled') && (
+                    <button onClick={() => jobManager.retry(job.id)} aria-label={`Retry ${job.filename}`}>
+                      <RotateCcw size={12} /> Retry
+                    </button>
+                  )}
+                  {isActiveJob(job) ? (
+                    <button onClick={() => jobManager.cancel(job.id)} aria-label={`Cancel ${job.filename}`}>
+                      <X size={12} /> Cancel
+                    </button>
+                  ) : (
+                    <button onClick={() => jobManager.dismiss(job.id)} aria-label={`Dismiss ${job.filename}`}>
+                      <X size={12} />
+                    </button>
+                  )}
                 </div>
               </div>
-              <div className="document-meta">
-                <div className="document-date">
-                  {formatDate(doc.created_at)}
+            );
+          })}
+        </div>
+      )}
+
+      {showTrash ? (
+        <div className="documents-list">
+          <TrashPanel onRestored={() => onDocumentsChange && onDocumentsChange()} onClose={() => setShowTrash(false)} />
+        </div>
+      ) : (
+        <>
+          <div className="document-search">
+            <div className="document-search-row">
+              <Search size={14} />
+              <input
+                value={query.search}
+                onChange={e => updateQuery({ search: e.target.value })}
+                placeholder="Search documents"
+                aria-label="Search documents"
+              />
+              <button
+                className={`document-filter-toggle ${showFilters || query.type || query.tag || query.from || query.to ? 'active' : ''}`}
+                onClick={() => setShowFilters(prev => !prev)}
+                aria-label="Filters and sorting"
+                title="Filters and sorting"
+              >
+                <SlidersHorizontal size={14} />
+              </button>
+            </div>
+            {showFilters && (
+              <div className="document-filters">
+                <select value={query.type} onChange={e => updateQuery({ type: e.target.value })} aria-label="Document type">
+                  <option value="">All types</option>
+                  {typeCounts.map(([name, count]) => <option key={name} value={name}>{name} ({count})</option>)}
+                </select>
+                {allTags.length > 0 && (
+                  <select value={query.tag} onChange={e => updateQuery({ tag: e.target.value })} aria-label="Tag">
+                    <option value="">All tags</option>
+                    {allTags.map(tag => <option key={tag} value={tag}>#{tag}</option>)}
+                  </select>
+                )}
+                <div className="document-filter-dates">
+                  <input type="date" value={query.from} max={query.to || undefined} onChange={e => updateQuery({ from: e.target.value })} aria-label="Uploaded from" />
+                  <span>to</span>
+                  <input type="date" value={query.to} min={query.from || undefined} onChange={e => updateQuery({ to: e.target.value })} aria-label="Uploaded to" />
                 </div>
-                <button
-                  className="delete-doc-button"
-                  disabled={deletingId === doc.id}
-                  aria-label={`Delete chat ${doc.file_name}`}
-                  onClick={async (e) => {
-                    e.stopPropagation();
-                    if (!window.confirm('Delete this chat (and related messages)?')) return;
-                    try {
-                      setDeletingId(doc.id);
-                      const resp = await fetch(`${API_BASE}/api/chats/${doc.id}`, { method: 'DELETE' });
-                      if (resp.ok) {
-                        // If currently selected, clear selection
-                        if (selectedDocument?.id === doc.id) {
-                          onSelectDocument(null);
-                        }
-                        // Inform parent to refresh documents list
-                        if (onDocumentsChange) onDocumentsChange();
-                      } else {
-                        console.warn('Failed to delete chat', await resp.text());
-                      }
-                    } catch (err) {
-                      console.warn('Delete failed', err);
-                    } finally {
-                      setDeletingId(null);
-                    }
-                  }}
+                <select value={query.sort} onChange={e => updateQuery({ sort: e.target.value as DocumentSort })} aria-label="Sort by">
+                  {DOCUMENT_SORTS.map(({ sort, label }) => <option key={sort} value={sort}>{label}</option>)}
+                </select>
+              </div>
+            )}
+            {isFilteredQuery(query) && (
+              <div className="document-search-summary">
+                <span>{shown.length} of {documents.length} documents</span>
+                <button onClick={() => updateQuery({ ...EMPTY_DOCUMENT_QUERY, sort: query.sort })}>Clear</button>
+              </div>
+            )}
+          </div>
+
+          {onMoveDocument && (
+            <div className="matter-list">
+              <div className="matter-list-title">
+                <span>Matters</span>
+                {onCreateMatter && newMatter === null && (
+                  <button onClick={() => setNewMatter('')} aria-label="New matter" title="New matter">
+                    <Plus size={13} />
+                  </button>
+                )}
+              </div>
+              {newMatter !== null && (
+                <form className="matter-new" onSubmit={handleCreateMatter}>
+                  <input
+                    value={newMatter}
+                    onChange={e => setNewMatter(e.target.value)}
+                    onKeyDown={e => { if (e.key === 'Escape') setNewMatter(null); }}
+                    placeholder="Matter name"
+                    aria-label="Matter name"
+                    autoFocus
+                  />
+                  <button type="submit" disabled={!newMatter.trim()}>Add</button>
+                  <button type="button" onClick={() => setNewMatter(null)} aria-label="Cancel"><X size={12} /></button>
+                </form>
+              )}
+              {matters.map(matter => (
+                <div
+                  key={matter.id}
+                  className={`matter-item ${query.matter === matter.id ? 'filtering' : ''} ${activeMatterId === matter.id ? 'selected' : ''} ${dropTarget === matter.id ? 'drop-target' : ''}`}
+                  {...dropHandlers(matter.id)}
                 >
-                  {deletingId === doc.id ? (
-                    <div className="spinner" style={{ width: '14px', height: '14px' }}></div>
-                  ) : (
-                    <Trash2 size={14} />
+                  <button
+                    className="matter-filter"
+                    onClick={() => updateQuery({ matter: query.matter === matter.id ? '' : matter.id })}
+                    title={matter.client ? `${matter.name} (${matter.client})` : matter.name}
+                  >
+                    <Briefcase size={13} />
+                    <span className="matter-name">{matter.name}</span>
+                    <span className="matter-count">{matterCounts.get(matter.id) || 0}</span>
+                  </button>
+                  {onOpenMatter && (
+                    <button className="matter-open" onClick={() => onOpenMatter(matter.id)} aria-label={`Open ${matter.name}`} title="Open matter">
+                      <FolderOpen size={13} />
+                    </button>
                   )}
+                </div>
+              ))}
+              <div className={`matter-item ${query.matter === UNFILED ? 'filtering' : ''} ${dropTarget === UNFILED ? 'drop-target' : ''}`} {...dropHandlers(UNFILED)}>
+                <button className="matter-filter" onClick={() => updateQuery({ matter: query.matter === UNFILED ? '' : UNFILED })}>
+                  <Inbox size={13} />
+                  <span className="matter-name">Unfiled</span>
+                  <span className="matter-count">{matterCounts.get(UNFILED) || 0}</span>
                 </button>
               </div>
             </div>
-          ))
-        )}
-      </div>
+          )}
+
+          <div className="documents-list" ref={rows.containerRef}>
+            {documents.length === 0 ? (
+              <div className="no-documents">
+                <p>No documents yet</p>
+                <p className="subtitle">Upload a document to get started</p>
+              </div>
+            ) : shown.length === 0 ? (
+              <div className="no-documents">
+                <p>No documents match</p>
+                <p className="subtitle">Try other words or clear the filters</p>
+              </div>
+            ) : (
+              <>
+                <div style={{ height: rows.before }} />
+                {shown.slice(rows.start, rows.end).map(renderDocument)}
+                <div style={{ height: rows.after }} />
+              </>
+            )}
+          </div>
+        </>
+      )}
+
+      {trashSupported && (
+        <div className="sidebar-footer">
+          <button
+            className={showTrash ? 'active' : ''}
+            onClick={() => {
+              setShowTrash(prev => !prev);
+              setCheckedIds(null);
+            }}
+          >
+            <Trash2 size={14} /> Trash
+          </button>
+        </div>
+      )}
+
+      {notice && (
+        <Toast
+          message={notice.message}
+          actionLabel={notice.undoIds?.length ? 'Undo' : undefined}
+          onAction={notice.undoIds ? () => handleUndo(notice.undoIds || []) : undefined}
+          onClose={() => setNotice(null)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
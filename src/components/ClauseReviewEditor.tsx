@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import { ArrowDown, ArrowUp, Plus, RotateCcw, X } from 'lucide-react';
+import { Clause, ClauseReviewField, PersistClause, RiskLevel } from '../api';
+
+// The reviewer's version of a clause. Kept apart from the analysis output so
+// every field can be compared with (and reset to) what the model returned.
+export interface ClauseDraft {
+  include: boolean;
+  risk: RiskLevel;
+  clause_headline: string;
+  highlights: string[];
+  reviewer_notes: string;
+}
+
+const RISK_LEVELS: RiskLevel[] = ['low', 'medium', 'high'];
+
+export const draftFromClause = (clause: Clause): ClauseDraft => ({
+  include: true,
+  risk: clause.risk,
+  clause_headline: clause.clause_headline || '',
+  highlights: clause.highlights || [],
+  reviewer_notes: clause.reviewer_notes || ''
+});
+
+const cleanHighlights = (highlights: string[]) => highlights.map(h => h.trim()).filter(Boolean);
+
+// Fields the draft changes, plus any a reviewer already marked on an earlier save
+export const reviewedFields = (clause: Clause, draft: ClauseDraft): ClauseReviewField[] => {
+  const original = draftFromClause(clause);
+  const changed = new Set<ClauseReviewField>(clause.human_reviewed || []);
+  if (draft.risk !== original.risk) changed.add('risk');
+  if (draft.clause_headline.trim() !== original.clause_headline.trim()) changed.add('clause_headline');
+  if (cleanHighlights(draft.highlights).join('\n') !== cleanHighlights(original.highlights).join('\n')) changed.add('highlights');
+  if (draft.reviewer_notes.trim() !== original.reviewer_notes.trim()) changed.add('reviewer_notes');
+  return Array.from(changed);
+};
+
+const isEdited = (clause: Clause, draft: ClauseDraft) =>
+  JSON.stringify({ ...draft, include: true }) !== JSON.stringify(draftFromClause(clause));
+
+// The fields of a reviewed clause that go into the persist request
+export const reviewedClause = (clause: Clause, draft: ClauseDraft): Partial<PersistClause> => {
+  const reviewed = reviewedFields(clause, draft);
+  const highlights = cleanHighlights(draft.highlights);
+  return {
+    risk: draft.risk,
+    clause_headline: draft.clause_headline.trim() || (clause.clause_text || '').slice(0, 200),
+    highlights: highlights.length ? highlights : undefined,
+    reviewer_notes: draft.reviewer_notes.trim() || undefined,
+    human_reviewed: reviewed.length ? reviewed : undefined
+  };
+};
+
+export const ReviewedBadge: React.FC<{ show?: boolean }> = ({ show = true }) =>
+  show ? <span className="reviewed-badge" title="Changed by a reviewer">Reviewed</span> : null;
+
+interface ClauseReviewEditorProps {
+  clause: Clause;
+  draft: ClauseDraft;
+  onChange: (draft: ClauseDraft) => void;
+}
+
+// Inline form for overriding the model's risk, headline and highlights of one
+// clause and attaching reviewer notes before it is persisted
+const ClauseReviewEditor: React.FC<ClauseReviewEditorProps> = ({ clause, draft, onChange }) => {
+  const [newHighlight, setNewHighlight] = useState('');
+  const reviewed = reviewedFields(clause, draft);
+  const update = (patch: Partial<ClauseDraft>) => onChange({ ...draft, ...patch });
+
+  const setHighlight = (index: number, value: string) =>
+    update({ highlights: draft.highlights.map((h, i) => (i === index ? value : h)) });
+
+  const moveHighlight = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= draft.highlights.length) return;
+    const next = [...draft.highlights];
+    [next[index], next[target]] = [next[target], next[index]];
+    update({ highlights: next });
+  };
+
+  const addHighlight = () => {
+    const value = newHighlight.trim();
+    if (!value) return;
+    update({ highlights: [...draft.highlights, value] });
+    setNewHighlight('');
+  };
+
+  return (
+    <div className="clause-review">
+      <div className="clause-review-row">
+        <label htmlFor={`review-risk-${clause.id}`}>Risk</label>
+        <select
+          id={`review-risk-${clause.id}`}
+          value={draft.risk}
+          onChange={e => update({ risk: e.target.value as RiskLevel })}
+        >
+          {RISK_LEVELS.map(level => (
+            <option key={level} value={level}>
+              {level.charAt(0).toUpperCase() + level.slice(1)}{level === clause.risk ? ' (model)' : ''}
+            </option>
+          ))}
+        </select>
+        <ReviewedBadge show={reviewed.includes('risk')} />
+      </div>
+
+      <div className="clause-review-row">
+        <label htmlFor={`review-headline-${clause.id}`}>Headline</label>
+        <input
+          id={`review-headline-${clause.id}`}
+          value={draft.clause_headline}
+          placeholder="Short summary of the clause"
+          onChange={e => update({ clause_headline: e.target.value })}
+        />
+        <ReviewedBadge show={reviewed.includes('clause_headline')} />
+      </div>
+
+      <div className="clause-review-field">
+        <div className="clause-review-label">
+          Highlights <ReviewedBadge show={reviewed.includes('highlights')} />
+        </div>
+        <ul className="clause-review-highlights">
+          {draft.highlights.map((highlight, index) => (
+            <li key={index}>
+              <input
+                value={highlight}
+                onChange={e => setHighlight(index, e.target.value)}
+                aria-label={`Highlight ${index + 1}`}
+              />
+              <button onClick={() => moveHighlight(index, -1)} disabled={index === 0} aria-label="Move up" title="Move up">
+                <ArrowUp size={14} />
+              </button>
+              <button
+                onClick={() => moveHighlight(index, 1)}
+                disabled={index === draft.highlights.length - 1}
+                aria-label="Move down"
+                title="Move down"
+              >
+                <ArrowDown size={14} />
+              </button>
+              <button
+                onClick={() => update({ highlights: draft.highlights.filter((_, i) => i !== index) })}
+                aria-label="Remove highlight"
+                title="Remove"
+              >
+                <X size={14} />
+              </button>
+            </li>
+          ))}
+        </ul>
+        <div className="clause-review-add">
+          <input
+            value={newHighlight}
+            placeholder="Add a highlight"
+            onChange={e => setNewHighlight(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                addHighlight();
+              }
+            }}
+          />
+          <button onClick={addHighlight} disabled={!newHighlight.trim()}>
+            <Plus size={14} /> Add
+          </button>
+        </div>
+      </div>
+
+      <div className="clause-review-field">
+        <label className="clause-review-label" htmlFor={`review-notes-${clause.id}`}>
+          Reviewer notes <ReviewedBadge show={reviewed.includes('reviewer_notes')} />
+        </label>
+        <textarea
+          id={`review-notes-${clause.id}`}
+          rows={3}
+          value={draft.reviewer_notes}
+          placeholder="Context, negotiation points, follow-ups..."
+          onChange={e => update({ reviewer_notes: e.target.value })}
+        />
+      </div>
+
+      <button
+        className="clause-review-reset"
+        onClick={() => onChange({ ...draftFromClause(clause), include: draft.include })}
+        disabled={!isEdited(clause, draft)}
+      >
+        <RotateCcw size={14} /> Reset changes
+      </button>
+    </div>
+  );
+};
+
+export default ClauseReviewEditor;
@@ -0,0 +1,79 @@
+import React from 'react';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { Clause, ClauseAnalysisVersion, getClauseVersion, listClauseVersions, restoreClauseVersion } from '../api';
+import { setReviewerName } from '../review';
+import ClauseVersionHistory from './ClauseVersionHistory';
+
+jest.mock('../api', () => ({
+  isApiError: jest.requireActual('../api').isApiError,
+  getClauseVersion: jest.fn(),
+  listClauseVersions: jest.fn(),
+  restoreClauseVersion: jest.fn()
+}));
+
+const version = (n: number, fields: Partial<ClauseAnalysisVersion> = {}): ClauseAnalysisVersion => ({
+  id: `v-${n}`,
+  document_id: 'doc-1',
+  version: n,
+  created_at: '2025-01-01T00:00:00Z',
+  clause_count: 1,
+  risk_counts: { low: 0, medium: 1, high: 0 },
+  ...fields
+});
+
+const clauses: Record<string, Clause[]> = {
+  'v-1': [{ id: 'c-1', clause_text: 'Rent is due monthly.', risk: 'medium' }],
+  'v-2': [{ id: 'c-2', clause_text: 'Rent is due monthly.', risk: 'high' }],
+  'v-3': [{ id: 'c-3', clause_text: 'Rent is due monthly.', risk: 'medium' }]
+};
+
+describe('ClauseVersionHistory', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+    (listClauseVersions as jest.Mock).mockResolvedValue([version(2, { author: 'Asha' }), version(1)]);
+    (getClauseVersion as jest.Mock).mockImplementation((_: string, id: string) => Promise.resolve({ version: version(Number(id.slice(2))), clauses: clauses[id] }));
+  });
+
+  test('compares the latest version with the one before it', async () => {
+    render(<ClauseVersionHistory documentId="doc-1" onRestored={jest.fn()} onClose={jest.fn()} />);
+    expect(await screen.findByText('Changes from v1 to v2')).toBeInTheDocument();
+    expect(await screen.findByText('medium', { selector: '.diff-changed span' })).toBeInTheDocument();
+  });
+
+  test('restoring makes a new current version under the reviewer\'s name', async () => {
+    setReviewerName('Ravi');
+    jest.spyOn(window, 'confirm').mockReturnValue(true);
+    const restored = version(3, { author: 'Ravi', restored_from: 1 });
+    (restoreClauseVersion as jest.Mock).mockResolvedValue({ version: restored, clauses: clauses['v-3'] });
+    const onRestored = jest.fn();
+    render(<ClauseVersionHistory documentId="doc-1" onRestored={onRestored} onClose={jest.fn()} />);
+
+    fireEvent.click(await screen.findByRole('button', { name: /restore/i }));
+    expect(await screen.findByText('restored from v1')).toBeInTheDocument();
+    expect(restoreClauseVersion).toHaveBeenCalledWith('doc-1', 'v-1', 'Ravi');
+    expect(onRestored).toHaveBeenCalledWith(restored, clauses['v-3']);
+    // The restored copy is compared with the version it came from
+    expect(screen.getByText('Changes from v1 to v3')).toBeInTheDocument();
+    expect(await screen.findByText('No differences.')).toBeInTheDocument();
+  });
+
+  test('nothing is restored unless confirmed', async () => {
+    jest.spyOn(window, 'confirm').mockReturnValue(false);
+    render(<ClauseVersionHistory documentId="doc-1" onRestored={jest.fn()} onClose={jest.fn()} />);
+    fireEvent.click(await screen.findByRole('button', { name: /restore/i }));
+    expect(restoreClauseVersion).not.toHaveBeenCalled();
+  });
+
+  test('a failed restore is shown and keeps the history as it was', async () => {
+    jest.spyOn(window, 'confirm').mockReturnValue(true);
+    const { ApiError } = jest.requireActual('../api');
+    (restoreClauseVersion as jest.Mock).mockRejectedValue(new ApiError('Version not found', 404, '/restore'));
+    const onRestored = jest.fn();
+    render(<ClauseVersionHistory documentId="doc-1" onRestored={onRestored} onClose={jest.fn()} />);
+
+    fireEvent.click(await screen.findByRole('button', { name: /restore/i }));
+    expect(await screen.findByText('Version not found')).toBeInTheDocument();
+    expect(onRestored).not.toHaveBeenCalled();
+    expect(screen.queryByText('Version 3')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,214 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { History, RotateCcw, X } from 'lucide-react';
+import {
+  Clause,
+  ClauseAnalysisVersion,
+  getClauseVersion,
+  isApiError,
+  listClauseVersions,
+  restoreClauseVersion
+} from '../api';
+import { diffClauseVersions, getReviewerName } from '../review';
+import { formatDateTime } from '../report/text';
+
+interface ClauseVersionHistoryProps {
+  documentId: string;
+  onRestored: (version: ClauseAnalysisVersion, clauses: Clause[]) => void;
+  onClose: () => void;
+}
+
+const clauseLabel = (clause: Clause) =>
+  clause.clause_headline || (clause.clause_text.length > 80 ? `${clause.clause_text.slice(0, 80)}…` : clause.clause_text);
+
+// Every persist of a document's clauses as a list of versions, with a diff
+// between any two of them and a way back to an older one
+const ClauseVersionHistory: React.FC<ClauseVersionHistoryProps> = ({ documentId, onRestored, onClose }) => {
+  const [versions, setVersions] = useState<ClauseAnalysisVersion[] | null>(null);
+  // Ids of the (at most two) versions being compared
+  const [compare, setCompare] = useState<string[]>([]);
+  const [clausesById, setClausesById] = useState<Record<string, Clause[]>>({});
+  const [restoring, setRestoring] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+    listClauseVersions(documentId)
+      .then(list => {
+        if (!mounted) return;
+        setVersions(list);
+        // Newest change first: the latest version against the one before it
+        setCompare(list.slice(0, 2).map(v => v.id).reverse());
+      })
+      .catch(err => {
+        if (mounted) setError(isApiError(err) ? err.message : 'Failed to load version history');
+      });
+    return () => { mounted = false; };
+  }, [documentId]);
+
+  // Version clauses are fetched once each, when first picked for comparison
+  const requestedRef = useRef(new Set<string>());
+  const mountedRef = useRef(true);
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => { mountedRef.current = false; };
+  }, []);
+
+  useEffect(() => {
+    compare.filter(id => !requestedRef.current.has(id)).forEach(id => {
+      requestedRef.current.add(id);
+      getClauseVersion(documentId, id)
+        .then(data => { if (mountedRef.current) setClausesById(prev => ({ ...prev, [id]: data.clauses })); })
+        .catch(err => {
+          requestedRef.current.delete(id);
+          if (mountedRef.current) setError(isApiError(err) ? err.message : 'Failed to load version');
+        });
+    });
+  }, [compare, documentId]);
+
+  // Older version on the left, whichever order they were picked in
+  const [base, target] = useMemo(() => {
+    const picked = (versions || []).filter(v => compare.includes(v.id)).sort((a, b) => a.version - b.version);
+    return picked.length === 2 ? picked : [undefined, undefined];
+  }, [versions, compare]);
+
+  const diff = useMemo(() => {
+    if (!base || !target || !clausesById[base.id] || !clausesById[target.id]) return null;
+    return diffClauseVersions(clausesById[base.id], clausesById[target.id]);
+  }, [base, target, clausesById]);
+
+  const toggleCompare = (versionId: string) =>
+    setCompare(prev => {
+      if (prev.includes(versionId)) return prev.filter(id => id !== versionId);
+      // Picking a third version drops the one picked first
+      return [...prev, versionId].slice(-2);
+    });
+
+  const handleRestore = async (version: ClauseAnalysisVersion) => {
+    if (!window.confirm(`Restore version ${version.version}? It becomes the current analysis as a new version; nothing is deleted.`)) return;
+    try {
+      setRestoring(version.id);
+      setError(null);
+      const restored = await restoreClauseVersion(documentId, version.id, getReviewerName() || undefined);
+      setVersions(prev => [restored.version, ...(prev || [])]);
+      requestedRef.current.add(restored.version.id);
+      setClausesById(prev => ({ ...prev, [restored.version.id]: restored.clauses }));
+      setCompare([version.id, restored.version.id]);
+      onRestored(restored.version, restored.clauses);
+    } catch (e) {
+      setError(isApiError(e) ? e.message : 'Failed to restore version');
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  const latestId = versions?.[0]?.id;
+
+  return (
+    <div className="report-dialog-backdrop" onClick={e => e.target === e.currentTarget && !restoring && onClose()}>
+      <div className="report-dialog version-history" role="dialog" aria-labelledby="version-history-title">
+        <div className="report-dialog-header">
+          <h3 id="version-history-title"><History size={18} /> Clause analysis history</h3>
+          <button className="document-pane-close" onClick={onClose} aria-label="Close" disabled={!!restoring}>
+            <X size={16} />
+          </button>
+        </div>
+
+        {versions === null && !error && (
+          <div className="legal-loading">
+            <div className="spinner-small"></div>
+            <span>Loading versions...</span>
+          </div>
+        )}
+        {versions && versions.length === 0 && (
+          <p className="report-dialog-note">Nothing has been persisted for this document yet.</p>
+        )}
+
+        {versions && versions.length > 0 && (
+          <>
+            <p className="report-dialog-note">Tick two versions to compare them.</p>
+            <ul className="version-list">
+              {versions.map(v => (
+                <li key={v.id} className={`version-item ${compare.includes(v.id) ? 'selected' : ''}`}>
+                  <input
+                    type="checkbox"
+                    checked={compare.includes(v.id)}
+                    onChange={() => toggleCompare(v.id)}
+                    aria-label={`Compare version ${v.version}`}
+                  />
+                  <div className="version-info">
+                    <div className="version-title">
+                      Version {v.version}
+                      {v.id === latestId && <span className="version-current">Current</span>}
+                      {v.restored_from !== undefined && <span className="version-note">restored from v{v.restored_from}</span>}
+                    </div>
+                    <div className="version-meta">
+                      {v.author || 'Unknown reviewer'} · {formatDateTime(v.created_at)}
+                    </div>
+                    <div className="version-counts">
+                      {v.clause_count} clause{v.clause_count === 1 ? '' : 's'}
+                      <span className="risk-count high">{v.risk_counts.high || 0} high</span>
+                      <span className="risk-count medium">{v.risk_counts.medium || 0} medium</span>
+                      <span className="risk-count low">{v.risk_counts.low || 0} low</span>
+                    </div>
+                  </div>
+                  {v.id !== latestId && (
+                    <button className="version-restore" onClick={() => handleRestore(v)} disabled={!!restoring}>
+                      <RotateCcw size={14} /> {restoring === v.id ? 'Restoring...' : 'Restore'}
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+
+        {base && target && (
+          <div className="version-diff">
+            <div className="report-section-title">Changes from v{base.version} to v{target.version}</div>
+            {!diff ? (
+              <p className="report-dialog-note">Loading clauses...</p>
+            ) : diff.added.length + diff.removed.length + diff.changed.length === 0 ? (
+              <p className="report-dialog-note">No differences.</p>
+            ) : (
+              <ul className="version-diff-list">
+                {diff.added.map(c => (
+                  <li key={`added-${c.id}`} className="diff-added">
+                    <span className="diff-tag">Added</span> {clauseLabel(c)} <span className={`risk-count ${c.risk}`}>{c.risk}</span>
+                  </li>
+                ))}
+                {diff.removed.map(c => (
+                  <li key={`removed-${c.id}`} className="diff-removed">
+                    <span className="diff-tag">Removed</span> {clauseLabel(c)} <span className={`risk-count ${c.risk}`}>{c.risk}</span>
+                  </li>
+                ))}
+                {diff.changed.map(change => (
+                  <li key={`changed-${change.after.id}`} className="diff-changed">
+                    <span className="diff-tag">Changed</span> {clauseLabel(change.after)}
+                    <ul>
+                      {change.risk && (
+                        <li>
+                          Risk <span className={`risk-count ${change.risk.from}`}>{change.risk.from}</span> →{' '}
+                          <span className={`risk-count ${change.risk.to}`}>{change.risk.to}</span>
+                        </li>
+                      )}
+                      {change.headline && <li>Headline "{change.headline.from || '—'}" → "{change.headline.to || '—'}"</li>}
+                      {change.highlightsChanged && <li>Highlights edited</li>}
+                      {change.notesChanged && <li>Reviewer notes edited</li>}
+                    </ul>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {diff && diff.unchanged > 0 && (
+              <p className="report-dialog-note">{diff.unchanged} clause{diff.unchanged === 1 ? '' : 's'} unchanged.</p>
+            )}
+          </div>
+        )}
+
+        {error && <div className="report-dialog-error">{error}</div>}
+      </div>
+    </div>
+  );
+};
+
+export default ClauseVersionHistory;
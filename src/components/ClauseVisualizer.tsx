@@ -1,25 +1,39 @@
 import React from 'react';
 import LegalKnowledgeGraph from './LegalKnowledgeGraph';
 import WhatIfScenarios from './WhatIfScenarios';
-import { API_BASE } from '../config';
-
-interface Clause {
-  id: string;
-  clause_text: string;
-  risk: 'low'|'medium'|'high';
-  highlights?: string[];
-  clause_headline?: string;
-  start_pos?: number;
-  end_pos?: number;
-  scenarios?: any[];
-  legal_references?: any[];
-}
+import ExposureCalculator from './ExposureCalculator';
+import Toast from './Toast';
+import ClauseReviewEditor, { ClauseDraft, ReviewedBadge, draftFromClause, reviewedClause, reviewedFields } from './ClauseReviewEditor';
+import {
+  Clause,
+  ExposureParameter,
+  LegalReference,
+  MitigationTask,
+  PersistClause,
+  Scenario,
+  isApiError,
+  persistClauses
+} from '../api';
+import { enrichmentScheduler, isAbortError } from '../enrichment';
+import { getReviewerName, setReviewerName } from '../review';
+import { clauseExposure, extractMonetaryTerms, formatRange, totalExposure } from '../exposure';
+import { clauseForTask, taskBoard, useMitigationTasks } from '../tasks';
+import { getJurisdictionPack } from '../jurisdiction';
 
 interface ClauseVisualizerProps {
   clauses: Clause[];
   documentId?: string;
   documentType?: string;
+  jurisdiction?: string;
   onPersist?: (inserted: Clause[]) => void;
+  // Clicking a clause card (outside its controls) jumps to it in the document
+  onSelectClause?: (clause: Clause) => void;
+  // Clause named in the URL; scrolled into view and outlined
+  focusedClauseId?: string;
+  // Reference card picked in the knowledge graph, opened in its clause
+  focusedReference?: { clauseId: string; title: string; nonce: number } | null;
+  // Task opened from the task board, shown at its scenario in its clause
+  focusedTask?: { clauseId: string; task: MitigationTask; nonce: number } | null;
   onClose?: () => void;
 }
 
@@ -29,48 +43,91 @@ const riskColor = (r: string) => {
   return '#2ecc71';
 }
 
-const ClauseVisualizer: React.FC<ClauseVisualizerProps> = ({ clauses, documentId, documentType, onPersist, onClose }) => {
+const ClauseVisualizer: React.FC<ClauseVisualizerProps> = ({ clauses, documentId, documentType, jurisdiction, onPersist, onSelectClause, focusedClauseId, focusedReference, focusedTask, onClose }) => {
   const [saving, setSaving] = React.useState(false);
   const [savedCount, setSavedCount] = React.useState<number | null>(null);
+  // Failed saves; the edits stay in place so they can be saved again
+  const [toast, setToast] = React.useState<string | null>(null);
   const [expanded, setExpanded] = React.useState<Record<string, boolean>>({});
   // Cache of generated what-if scenarios and legal references per clause id
-  const [scenariosById, setScenariosById] = React.useState<Record<string, any[]>>({});
-  const [referencesById, setReferencesById] = React.useState<Record<string, any[]>>({});
+  const [scenariosById, setScenariosById] = React.useState<Record<string, Scenario[]>>({});
+  const [referencesById, setReferencesById] = React.useState<Record<string, LegalReference[]>>({});
+  const itemRefs = React.useRef<Record<string, HTMLDivElement | null>>({});
+  // Reviewer edits per clause id; clauses without an entry are persisted as analysed
+  const [drafts, setDrafts] = React.useState<Record<string, ClauseDraft>>({});
+  const [editing, setEditing] = React.useState<Record<string, boolean>>({});
+  // Recorded as the author of the version each persist creates
+  const [reviewer, setReviewer] = React.useState(getReviewerName);
+  const draftFor = (c: Clause) => drafts[c.id] || draftFromClause(c);
+  const included = clauses.filter(c => draftFor(c).include);
+  // Monetary terms per clause: edited, saved with the clause, or read from its text
+  const currency = getJurisdictionPack(jurisdiction)?.currency || 'INR';
+  const [exposureById, setExposureById] = React.useState<Record<string, ExposureParameter[]>>({});
+  const extractedTerms = React.useMemo(
+    () => Object.fromEntries(clauses.map(c => [c.id, c.exposure_parameters || extractMonetaryTerms(c.clause_text, currency)])),
+    [clauses, currency]
+  );
+  const termsFor = (c: Clause) => exposureById[c.id] || extractedTerms[c.id] || [];
+  const clauseScenarios = (c: Clause) => scenariosById[c.id] || c.scenarios || [];
+  const exposures = clauses.map(c => clauseExposure(clauseScenarios(c), termsFor(c), currency));
+  const documentExposure = totalExposure(exposures);
+  const tasks = useMitigationTasks(documentId);
+  const tasksFor = (c: Clause) => tasks.filter(t => clauseForTask(t, clauses)?.id === c.id);
+
+  const handleTrackMitigation = async (c: Clause, scenario: Scenario, mitigation: string) => {
+    if (!documentId) return;
+    try {
+      await taskBoard.track(documentId, c, scenario, mitigation, reviewer.trim() || undefined);
+    } catch (e) {
+      setToast(isApiError(e) ? `Could not track the mitigation: ${e.message}` : 'Could not track the mitigation');
+    }
+  };
 
-  // When the visualizer mounts or clauses change, fetch scenarios and references once for clauses that don't have them
+  // Edits belong to the clause set they were made on
   React.useEffect(() => {
-    let mounted = true;
+    setDrafts({});
+    setEditing({});
+    setExposureById({});
+  }, [clauses]);
+
+  // Fetched scenarios and references answer for the previous jurisdiction or document type
+  React.useEffect(() => {
+    setScenariosById({});
+    setReferencesById({});
+  }, [jurisdiction, documentType]);
+
+  React.useEffect(() => {
+    if (focusedClauseId) itemRefs.current[focusedClauseId]?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }, [focusedClauseId, clauses]);
+
+  // When the visualizer mounts or clauses change, prefetch scenarios and references
+  // for clauses that don't have them. The shared scheduler bounds and dedupes the
+  // requests; closing the visualizer (or new clauses) cancels whatever is still queued.
+  React.useEffect(() => {
+    const controller = new AbortController();
+    const { signal } = controller;
     const fetchForClause = async (c: Clause) => {
+      const request = { clauseText: c.clause_text, documentType: documentType, clauseType: c.risk, jurisdiction };
       try {
         // Fetch scenarios only if not present in clause
         if ((!c.scenarios || c.scenarios.length === 0) && c.clause_text) {
-          const resp = await fetch(`${API_BASE}/api/what-if-scenarios`, {
-            method: 'POST', headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ clauseText: c.clause_text, documentType: documentType, clauseType: c.risk })
-          });
-          if (resp.ok) {
-            const data = await resp.json();
-            if (mounted && data.scenarios) setScenariosById(prev => ({ ...prev, [c.id]: data.scenarios }));
-          }
+          const scenarios = await enrichmentScheduler.scenarios(request, { signal })
+            .catch(e => { if (isAbortError(e)) throw e; return [] as Scenario[]; });
+          if (scenarios.length) setScenariosById(prev => ({ ...prev, [c.id]: scenarios }));
         } else if (c.scenarios && c.scenarios.length) {
           // Use existing scenarios
-          if (mounted) setScenariosById(prev => ({ ...prev, [c.id]: c.scenarios || [] } as Record<string, any[]>));
+          setScenariosById(prev => ({ ...prev, [c.id]: c.scenarios || [] }));
         }
 
         // Fetch legal references only if not present
         if ((!c.legal_references || c.legal_references.length === 0) && c.clause_text) {
-          const resp2 = await fetch(`${API_BASE}/api/legal-knowledge-graph`, {
-            method: 'POST', headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ clauseText: c.clause_text, documentType: documentType, clauseType: c.risk })
-          });
-          if (resp2.ok) {
-            const data2 = await resp2.json();
-            if (mounted && data2.references) setReferencesById(prev => ({ ...prev, [c.id]: data2.references }));
-          }
+          const references = await enrichmentScheduler.references(request, { signal });
+          if (references.length) setReferencesById(prev => ({ ...prev, [c.id]: references }));
         } else if (c.legal_references && c.legal_references.length) {
-          if (mounted) setReferencesById(prev => ({ ...prev, [c.id]: c.legal_references || [] } as Record<string, any[]>));
+          setReferencesById(prev => ({ ...prev, [c.id]: c.legal_references || [] }));
         }
       } catch (e) {
+        if (isAbortError(e)) return;
         // ignore per-clause failures; child components will fall back to mock data
         console.warn('Per-clause analysis failed', e);
       }
@@ -80,15 +137,17 @@ const ClauseVisualizer: React.FC<ClauseVisualizerProps> = ({ clauses, documentId
       clauses.forEach(c => { fetchForClause(c); });
     }
 
-    return () => { mounted = false; }
-  }, [clauses, documentType]);
+    return () => controller.abort();
+  }, [clauses, documentType, jurisdiction]);
 
   const handlePersist = async () => {
     if (!documentId) return;
     try {
       setSaving(true);
-      // Build clauses payload including cached scenarios and legal references when available
-      const payloadClauses = (clauses || []).map(c => ({
+      setToast(null);
+      // Build clauses payload from the reviewed clauses the user kept, including
+      // cached scenarios and legal references when available
+      const payloadClauses: PersistClause[] = included.map(c => ({
         clause_text: c.clause_text,
         clause_headline: c.clause_headline || (c.clause_text || '').slice(0, 200),
         start_pos: c.start_pos,
@@ -96,37 +155,32 @@ const ClauseVisualizer: React.FC<ClauseVisualizerProps> = ({ clauses, documentId
         risk: c.risk,
         highlights: c.highlights,
         scenarios: scenariosById[c.id] || undefined,
-        legal_references: referencesById[c.id] || undefined
+        legal_references: referencesById[c.id] || undefined,
+        exposure_parameters: termsFor(c).length ? termsFor(c) : undefined,
+        ...reviewedClause(c, draftFor(c))
       }));
 
-  const resp = await fetch(`${API_BASE}/api/analysis/clauses/${documentId}/persist`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ clauses: payloadClauses })
-      });
-      if (resp.ok) {
-        const data = await resp.json();
-        setSavedCount(data.count || 0);
-        // Notify parent of persisted clauses if provided
-        if (typeof onPersist === 'function') {
-          try {
-            const inserted = data.inserted || [];
-            onPersist(inserted as Clause[]);
-          } catch (e) {
-            console.warn('Failed to notify parent of persisted clauses', e);
-          }
+      setReviewerName(reviewer);
+      const data = await persistClauses(documentId, payloadClauses, reviewer.trim() || undefined);
+      setSavedCount(data.count || 0);
+      // Notify parent of persisted clauses if provided
+      if (typeof onPersist === 'function') {
+        try {
+          onPersist(data.inserted || []);
+        } catch (e) {
+          console.warn('Failed to notify parent of persisted clauses', e);
         }
-        // Close visualizer if parent provided onClose
-        if (typeof onClose === 'function') {
-          try {
-            onClose();
-          } catch (e) {
-            console.warn('Failed to call onClose', e);
-          }
+      }
+      // Close visualizer if parent provided onClose
+      if (typeof onClose === 'function') {
+        try {
+          onClose();
+        } catch (e) {
+          console.warn('Failed to call onClose', e);
         }
       }
     } catch (e) {
-      console.warn('Persist failed', e);
+      setToast(isApiError(e) ? `Clauses were not saved: ${e.message}` : 'Clauses were not saved. Please try again.');
     } finally {
       setSaving(false);
     }
@@ -134,12 +188,33 @@ const ClauseVisualizer: React.FC<ClauseVisualizerProps> = ({ clauses, documentId
   return (
     <div className="clause-visualizer">
       <h4>Clause Visualizer & Risk Scoring</h4>
+      {documentExposure.length > 0 && (
+        <div className="exposure-total" title="Sum of each clause's costliest breach or financial scenario">
+          Estimated exposure: <strong>{documentExposure.map(formatRange).join(' + ')}</strong>
+          <span> across {exposures.filter(Boolean).length} clause{exposures.filter(Boolean).length === 1 ? '' : 's'}</span>
+          {exposures.some(e => e?.excluded) && <span className="exposure-excluded"> (terms in other currencies left out)</span>}
+        </div>
+      )}
       <div style={{display:'flex', alignItems:'center', justifyContent:'space-between', gap:12}}>
         <div>
           <button className="close-visualizer" onClick={() => onClose && onClose()}>Close</button>
         </div>
-        <div>
-          {documentId && <button className="persist-button" onClick={handlePersist} disabled={saving}>{saving ? 'Saving...' : 'Persist Clauses'}</button>}
+        <div className="persist-controls">
+          {documentId && (
+            <input
+              className="reviewer-name-input"
+              value={reviewer}
+              onChange={e => setReviewer(e.target.value)}
+              placeholder="Reviewer name"
+              aria-label="Reviewer name"
+              title="Recorded as the author of the saved version"
+            />
+          )}
+          {documentId && (
+            <button className="persist-button" onClick={handlePersist} disabled={saving || included.length === 0}>
+              {saving ? 'Saving...' : included.length === clauses.length ? 'Persist Clauses' : `Persist ${included.length} of ${clauses.length} Clauses`}
+            </button>
+          )}
           {savedCount !== null && <span style={{marginLeft:8}}>{savedCount} saved</span>}
         </div>
       </div>
@@ -147,16 +222,64 @@ const ClauseVisualizer: React.FC<ClauseVisualizerProps> = ({ clauses, documentId
         {clauses.length === 0 ? (
           <div className="no-clauses">No clauses found.</div>
         ) : (
-          clauses.map((c) => {
+          clauses.map((c, index) => {
+            const exposure = exposures[index];
             const isExpanded = !!expanded[c.id];
+            const draft = draftFor(c);
+            const reviewed = reviewedFields(c, draft);
             const excerpt = c.clause_text ? (c.clause_text.length > 300 ? c.clause_text.slice(0, 300) + '...' : c.clause_text) : '';
             return (
-              <div key={c.id} className="clause-item">
+              <div
+                key={c.id}
+                ref={el => { itemRefs.current[c.id] = el; }}
+                className={`clause-item ${onSelectClause ? 'selectable' : ''} ${c.id === focusedClauseId ? 'focused' : ''} ${draft.include ? '' : 'excluded'}`}
+                onClick={e => {
+                  if (!onSelectClause || (e.target as HTMLElement).closest('button, a, input, textarea, select, label, .clause-review')) return;
+                  onSelectClause(c);
+                }}
+              >
                 <div className="clause-header">
+                  {documentId && (
+                    <label className="clause-include" title="Include this clause when persisting">
+                      <input
+                        type="checkbox"
+                        checked={draft.include}
+                        onChange={e => setDrafts(prev => ({ ...prev, [c.id]: { ...draft, include: e.target.checked } }))}
+                      />
+                    </label>
+                  )}
                   <div className="clause-id">{c.id}</div>
-                  <div className="clause-risk" style={{backgroundColor: riskColor(c.risk)}}>{c.risk.toUpperCase()}</div>
+                  <div className="clause-risk" style={{backgroundColor: riskColor(draft.risk)}}>{draft.risk.toUpperCase()}</div>
+                  <ReviewedBadge show={reviewed.includes('risk')} />
+                  {exposure && (
+                    <span className="clause-exposure-chip" title="Costliest breach or financial scenario">
+                      {formatRange(exposure)}
+                    </span>
+                  )}
+                  {documentId && (
+                    <button
+                      className={`clause-review-toggle ${editing[c.id] ? 'active' : ''}`}
+                      onClick={() => setEditing(prev => ({ ...prev, [c.id]: !prev[c.id] }))}
+                    >
+                      {editing[c.id] ? 'Done' : 'Review'}
+                    </button>
+                  )}
                 </div>
 
+                {draft.clause_headline && (
+                  <div className="clause-headline">
+                    {draft.clause_headline} <ReviewedBadge show={reviewed.includes('clause_headline')} />
+                  </div>
+                )}
+
+                {editing[c.id] && (
+                  <ClauseReviewEditor
+                    clause={c}
+                    draft={draft}
+                    onChange={next => setDrafts(prev => ({ ...prev, [c.id]: next }))}
+                  />
+                )}
+
                 {/* Show excerpt only (hide long OCR text); allow expand to view full clause */}
                 <div className="clause-text">
                   {!isExpanded ? (
@@ -174,25 +297,41 @@ const ClauseVisualizer: React.FC<ClauseVisualizerProps> = ({ clauses, documentId
                   )}
                 </div>
 
-                {c.highlights && c.highlights.length > 0 && (
+                {!editing[c.id] && draft.highlights.length > 0 && (
                   <>
                     <div className="highlights-intro">
-                      <div className="highlights-title">Key highlights & action items</div>
+                      <div className="highlights-title">Key highlights & action items <ReviewedBadge show={reviewed.includes('highlights')} /></div>
                       <div className="highlights-sub">These bullets summarize important points from the clause for quick review — use them to decide what to persist or act on.</div>
                     </div>
                     <ul className="clause-highlights">
-                      {c.highlights.map((h, i) => <li key={i}>{h}</li>)}
+                      {draft.highlights.map((h, i) => <li key={i}>{h}</li>)}
                     </ul>
                   </>
                 )}
 
+                {!editing[c.id] && draft.reviewer_notes.trim() && (
+                  <div className="clause-reviewer-notes">
+                    <div className="highlights-title">Reviewer notes</div>
+                    <p>{draft.reviewer_notes}</p>
+                  </div>
+                )}
+
+                <ExposureCalculator
+                  parameters={termsFor(c)}
+                  scenarios={clauseScenarios(c)}
+                  currency={currency}
+                  onChange={next => setExposureById(prev => ({ ...prev, [c.id]: next }))}
+                />
+
                 {/* Legal Knowledge Graph Integration */}
                 <LegalKnowledgeGraph
                   clauseText={c.clause_text}
                   documentType={documentType || 'Legal Document'}
                   clauseType={c.risk}
+                  jurisdiction={jurisdiction}
                   onReferencesGenerated={(text, refs) => setReferencesById(prev => ({...prev, [c.id]: refs}))}
                   initialReferences={c.legal_references || referencesById[c.id] || null}
+                  focus={focusedReference?.clauseId === c.id ? focusedReference : undefined}
                 />
 
                 {/* What-if Scenarios Integration */}
@@ -200,15 +339,22 @@ const ClauseVisualizer: React.FC<ClauseVisualizerProps> = ({ clauses, documentId
                   clauseText={c.clause_text}
                   documentType={documentType || 'Legal Document'}
                   clauseType={c.risk}
+                  jurisdiction={jurisdiction}
+                  exposureParameters={termsFor(c)}
+                  currency={currency}
                   clauseId={c.id}
                   onScenariosGenerated={(id, sc) => setScenariosById(prev => ({...prev, [c.id]: sc}))}
                   initialScenarios={c.scenarios || scenariosById[c.id] || null}
+                  tasks={tasksFor(c)}
+                  onTrackMitigation={documentId ? (scenario, mitigation) => handleTrackMitigation(c, scenario, mitigation) : undefined}
+                  focus={focusedTask?.clauseId === c.id ? focusedTask : undefined}
                 />
               </div>
             );
           })
         )}
       </div>
+      {toast && <Toast message={toast} onClose={() => setToast(null)} />}
     </div>
   );
 };
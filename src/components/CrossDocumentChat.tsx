@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { Files, X } from 'lucide-react';
+import { ChatMessage, Document } from '../api';
+import ChatMessageList from './ChatMessageList';
+import ChatComposer from './ChatComposer';
+
+interface CrossDocumentChatProps {
+  documents: Document[];
+  chatHistory: ChatMessage[];
+  onSendMessage: (message: string) => void;
+  isLoading: boolean;
+  isStreaming?: boolean;
+  onStopGeneration?: () => void;
+  onRetryMessage?: (messageId: string) => void;
+  onOpenDocument: (document: Document) => void;
+  onRemoveDocument: (documentId: string) => void;
+  onClose: () => void;
+}
+
+// Minimum number of documents a comparison session needs
+export const MIN_COMPARE_DOCUMENTS = 2;
+
+// One chat session over several documents. The session lives only in the
+// browser; answers name the document each statement comes from.
+export const CrossDocumentChat: React.FC<CrossDocumentChatProps> = ({
+  documents,
+  chatHistory,
+  onSendMessage,
+  isLoading,
+  isStreaming = false,
+  onStopGeneration,
+  onRetryMessage,
+  onOpenDocument,
+  onRemoveDocument,
+  onClose
+}) => {
+  const [inputMessage, setInputMessage] = useState('');
+
+  return (
+    <div className="chat-interface">
+      <div className="chat-header">
+        <div className="document-info">
+          <h3><Files size={18} /> Comparing {documents.length} documents</h3>
+          <div className="compare-chips">
+            {documents.map(doc => (
+              <span key={doc.id} className="compare-chip">
+                <button className="compare-chip-name" onClick={() => onOpenDocument(doc)} title={`Open ${doc.file_name}`}>
+                  {doc.file_name}
+                </button>
+                {documents.length > MIN_COMPARE_DOCUMENTS && (
+                  <button
+                    className="compare-chip-remove"
+                    onClick={() => onRemoveDocument(doc.id)}
+                    aria-label={`Remove ${doc.file_name} from comparison`}
+                    disabled={isStreaming}
+                  >
+                    <X size={12} />
+                  </button>
+                )}
+              </span>
+            ))}
+          </div>
+        </div>
+        <div className="header-actions">
+          <button className="document-toggle-button" onClick={onClose}>End comparison</button>
+        </div>
+      </div>
+
+      <ChatMessageList
+        messages={chatHistory}
+        isLoading={isLoading}
+        isStreaming={isStreaming}
+        onRetryMessage={onRetryMessage}
+        emptyState={
+          <div className="welcome-message">
+            <h4>Ask one question across {documents.length} documents.</h4>
+            <p>Each answer names the document every statement comes from.</p>
+            <div className="suggested-questions">
+              <p><strong>Try asking:</strong></p>
+              <ul>
+                <li>"How do the indemnity clauses differ?"</li>
+                <li>"Which of these has the strictest termination terms?"</li>
+                <li>"Compare the payment obligations."</li>
+              </ul>
+            </div>
+          </div>
+        }
+      />
+
+      <ChatComposer
+        value={inputMessage}
+        onChange={setInputMessage}
+        onSubmit={onSendMessage}
+        isLoading={isLoading}
+        isStreaming={isStreaming}
+        onStop={onStopGeneration}
+        placeholder="Ask a question across the selected documents..."
+      />
+    </div>
+  );
+};
+
+export default CrossDocumentChat;
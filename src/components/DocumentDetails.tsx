@@ -0,0 +1,75 @@
+import React, { useEffect, useState } from 'react';
+import { Info, X } from 'lucide-react';
+import { Document, ProcessingResult, getDocumentDetails, isApiError } from '../api';
+import ResultsDisplay from './ResultsDisplay';
+
+interface DocumentDetailsProps {
+  document: Document;
+  documentType: string;
+  onClose: () => void;
+}
+
+const formatDate = (value?: string) => {
+  const date = value ? new Date(value) : null;
+  return date && !Number.isNaN(date.getTime()) ? date.toLocaleString() : '—';
+};
+
+// How the document was processed, from what the backend stored: extracted and
+// cleaned text, noise removed, whether the language model was available and
+// its guidance
+const DocumentDetails: React.FC<DocumentDetailsProps> = ({ document, documentType, onClose }) => {
+  // undefined while loading; null when the document has not been processed
+  const [result, setResult] = useState<ProcessingResult | null | undefined>(undefined);
+  const [error, setError] = useState<string | null>(null);
+
+  // processed_at changes when the document is re-processed
+  useEffect(() => {
+    let mounted = true;
+    setResult(undefined);
+    setError(null);
+    getDocumentDetails(document.id)
+      .then(details => { if (mounted) setResult(details.result || null); })
+      .catch(err => { if (mounted) setError(isApiError(err) ? err.message : 'Failed to load the document details'); });
+    return () => { mounted = false; };
+  }, [document.id, document.processed_at]);
+
+  const statistics = document.ocr_metadata?.statistics;
+
+  return (
+    <div className="document-details">
+      <div className="risk-dashboard-header">
+        <h4><Info size={16} /> Details</h4>
+        <button className="document-pane-close" onClick={onClose} aria-label="Close details">
+          <X size={16} />
+        </button>
+      </div>
+      <dl className="document-details-meta">
+        <dt>Uploaded</dt>
+        <dd>{formatDate(document.created_at)}</dd>
+        <dt>Processed</dt>
+        <dd>{result === undefined ? '—' : result ? formatDate(document.processed_at) : 'Not yet'}</dd>
+        <dt>Detected type</dt>
+        <dd>{document.ocr_metadata?.document_type || '—'}</dd>
+      </dl>
+
+      {error && <div className="document-pane-empty">{error}</div>}
+      {result === undefined && !error && (
+        <div className="legal-loading">
+          <div className="spinner-small"></div>
+          <span>Loading details...</span>
+        </div>
+      )}
+      {result === null && (
+        <p className="risk-note">
+          This document has not been processed yet, so there is no extracted text.
+          {statistics && ` The backend recorded ${statistics.raw_length.toLocaleString()} characters, ${statistics.reduction_percentage}% of them noise.`}
+        </p>
+      )}
+      {result && (
+        <ResultsDisplay result={result} statistics={statistics} documentType={documentType} fileName={document.file_name} />
+      )}
+    </div>
+  );
+};
+
+export default DocumentDetails;
@@ -0,0 +1,180 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { MessageSquarePlus, X } from 'lucide-react';
+import { Clause, getDocumentDetails, isApiError } from '../api';
+
+interface DocumentPaneProps {
+  documentId: string;
+  clauses: Clause[];
+  // Scroll to and flash this clause; bump `nonce` to re-trigger for the same clause
+  focus?: { clauseId: string; nonce: number } | null;
+  onAskAbout?: (text: string) => void;
+  onClose?: () => void;
+}
+
+interface ClauseSpan {
+  clause: Clause;
+  start: number;
+  end: number;
+}
+
+// Resolve each clause to a [start, end) range in the text. start_pos/end_pos
+// win when they fit the text; otherwise fall back to locating clause_text.
+// Overlaps are clipped so every character belongs to at most one clause.
+const locateClauses = (text: string, clauses: Clause[]): ClauseSpan[] => {
+  const spans = clauses
+    .map(clause => {
+      const { start_pos: start, end_pos: end } = clause;
+      if (typeof start === 'number' && typeof end === 'number' && start >= 0 && end > start && end <= text.length) {
+        return { clause, start, end };
+      }
+      const index = clause.clause_text ? text.indexOf(clause.clause_text) : -1;
+      return index >= 0 ? { clause, start: index, end: index + clause.clause_text.length } : null;
+    })
+    .filter((s): s is ClauseSpan => s !== null)
+    .sort((a, b) => a.start - b.start);
+
+  const clipped: ClauseSpan[] = [];
+  let cursor = 0;
+  spans.forEach(span => {
+    const start = Math.max(span.start, cursor);
+    if (start >= span.end) return;
+    clipped.push({ ...span, start });
+    cursor = span.end;
+  });
+  return clipped;
+};
+
+const DocumentPane: React.FC<DocumentPaneProps> = ({ documentId, clauses, focus, onAskAbout, onClose }) => {
+  const [text, setText] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selection, setSelection] = useState<null | { text: string; top: number; left: number }>(null);
+  const bodyRef = useRef<HTMLDivElement>(null);
+  const spanRefs = useRef<Record<string, HTMLElement | null>>({});
+
+  useEffect(() => {
+    let mounted = true;
+    setLoading(true);
+    setError(null);
+    setText(null);
+    getDocumentDetails(documentId)
+      .then(data => {
+        if (!mounted) return;
+        if (data.result?.cleaned_text) setText(data.result.cleaned_text);
+        else setError('This document has no extracted text yet. Process it to view it here.');
+      })
+      .catch(err => {
+        if (mounted) setError(isApiError(err) ? err.message : 'Failed to load document text');
+      })
+      .finally(() => {
+        if (mounted) setLoading(false);
+      });
+    return () => { mounted = false; };
+  }, [documentId]);
+
+  const spans = useMemo(() => (text ? locateClauses(text, clauses) : []), [text, clauses]);
+
+  useEffect(() => {
+    if (!focus || !text) return;
+    const el = spanRefs.current[focus.clauseId];
+    if (!el) return;
+    el.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    // Restart the flash animation even if it is already applied
+    el.classList.remove('flash');
+    void el.offsetWidth;
+    el.classList.add('flash');
+  }, [focus, text]);
+
+  const handleMouseUp = () => {
+    const sel = window.getSelection();
+    const selected = sel?.toString().trim();
+    const body = bodyRef.current;
+    if (!sel || !selected || !body || sel.rangeCount === 0 || !body.contains(sel.anchorNode)) {
+      setSelection(null);
+      return;
+    }
+    const rect = sel.getRangeAt(0).getBoundingClientRect();
+    const box = body.getBoundingClientRect();
+    setSelection({
+      text: selected,
+      top: rect.top - box.top + body.scrollTop - 40,
+      left: Math.max(8, rect.left - box.left + rect.width / 2 - 60)
+    });
+  };
+
+  const renderText = (content: string) => {
+    const parts: React.ReactNode[] = [];
+    let cursor = 0;
+    spans.forEach(({ clause, start, end }) => {
+      if (start > cursor) parts.push(content.slice(cursor, start));
+      parts.push(
+        <mark
+          key={clause.id}
+          ref={el => { spanRefs.current[clause.id] = el; }}
+          className={`doc-clause ${clause.risk}`}
+          title={`${clause.clause_headline || 'Clause'} — ${clause.risk} risk`}
+        >
+          {content.slice(start, end)}
+        </mark>
+      );
+      cursor = end;
+    });
+    if (cursor < content.length) parts.push(content.slice(cursor));
+    return parts;
+  };
+
+  return (
+    <div className="document-pane">
+      <div className="document-pane-header">
+        <h4>Document</h4>
+        {clauses.length > 0 && (
+          <div className="document-pane-legend">
+            <span className="doc-clause high">High</span>
+            <span className="doc-clause medium">Medium</span>
+            <span className="doc-clause low">Low</span>
+          </div>
+        )}
+        {onClose && (
+          <button className="document-pane-close" onClick={onClose} aria-label="Close document">
+            <X size={16} />
+          </button>
+        )}
+      </div>
+
+      <div className="document-pane-body" ref={bodyRef} onMouseUp={handleMouseUp}>
+        {loading && (
+          <div className="legal-loading">
+            <div className="spinner-small"></div>
+            <span>Loading document...</span>
+          </div>
+        )}
+        {error && <div className="document-pane-empty">{error}</div>}
+        {text && (
+          <>
+            {clauses.length === 0 && (
+              <div className="document-pane-hint">Visualize clauses to highlight them by risk.</div>
+            )}
+            <div className="document-pane-text">{renderText(text)}</div>
+          </>
+        )}
+        {selection && onAskAbout && (
+          <button
+            className="ask-about-button"
+            style={{ top: selection.top, left: selection.left }}
+            // Keep the text selection alive while clicking
+            onMouseDown={e => e.preventDefault()}
+            onClick={() => {
+              onAskAbout(selection.text);
+              window.getSelection()?.removeAllRanges();
+              setSelection(null);
+            }}
+          >
+            <MessageSquarePlus size={14} /> Ask about this
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DocumentPane;
@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { Briefcase, Plus, X } from 'lucide-react';
+import { Document, Matter, UpdateDocumentRequest } from '../api';
+
+interface DocumentTagsProps {
+  document: Document;
+  matters: Matter[];
+  onUpdate: (patch: UpdateDocumentRequest) => void;
+}
+
+const NO_MATTER = '';
+
+// The document's matter and tags in the chat header, editable in place
+const DocumentTags: React.FC<DocumentTagsProps> = ({ document, matters, onUpdate }) => {
+  const [adding, setAdding] = useState(false);
+  const [value, setValue] = useState('');
+  const tags = document.tags || [];
+
+  const addTags = () => {
+    // "a, b" adds two tags; duplicates are dropped by the backend
+    const added = value.split(',').map(t => t.trim().toLowerCase()).filter(Boolean);
+    if (added.length) onUpdate({ tags: [...tags, ...added.filter(t => !tags.includes(t))] });
+    setValue('');
+    setAdding(false);
+  };
+
+  return (
+    <div className="document-labels-editor">
+      <label className="document-matter-select" title="Matter this document is filed under">
+        <Briefcase size={13} />
+        <select
+          value={document.matter_id || NO_MATTER}
+          onChange={e => onUpdate({ matter_id: e.target.value || null })}
+          aria-label="Matter"
+        >
+          <option value={NO_MATTER}>No matter</option>
+          {matters.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+        </select>
+      </label>
+      {tags.map(tag => (
+        <span key={tag} className="document-tag">
+          #{tag}
+          <button onClick={() => onUpdate({ tags: tags.filter(t => t !== tag) })} aria-label={`Remove tag ${tag}`}>
+            <X size={11} />
+          </button>
+        </span>
+      ))}
+      {adding ? (
+        <input
+          className="document-tag-input"
+          value={value}
+          onChange={e => setValue(e.target.value)}
+          onBlur={addTags}
+          onKeyDown={e => {
+            if (e.key === 'Enter') addTags();
+            if (e.key === 'Escape') { setValue(''); setAdding(false); }
+          }}
+          placeholder="tag, another"
+          aria-label="New tags"
+          autoFocus
+        />
+      ) : (
+        <button className="document-tag-add" onClick={() => setAdding(true)}>
+          <Plus size={12} /> Tag
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default DocumentTags;
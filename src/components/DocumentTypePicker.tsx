@@ -0,0 +1,153 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronDown, Plus, RotateCcw, X } from 'lucide-react';
+import { Document } from '../api';
+import {
+  DOCUMENT_TYPE_ICONS,
+  DocumentTypeDefinition,
+  detectedDocumentType,
+  documentTaxonomy,
+  listDocumentTypes,
+  matchesDocumentType,
+  useDocumentTaxonomy,
+  useDocumentType
+} from '../taxonomy';
+
+export const DocumentTypeBadge: React.FC<{ type: DocumentTypeDefinition; className?: string }> = ({ type, className = '' }) => {
+  const Icon = DOCUMENT_TYPE_ICONS[type.icon] || DOCUMENT_TYPE_ICONS.generic;
+  return (
+    <span className={`document-type-badge ${className}`} style={{ color: type.color }}>
+      <Icon size={13} /> {type.name}
+    </span>
+  );
+};
+
+interface DocumentTypePickerProps {
+  document: Document;
+}
+
+const DEFAULT_CUSTOM_COLOR = '#0ea5e9';
+
+// The document's type in the chat header. Opens a list to correct a wrong
+// detection or add a type the app does not know.
+const DocumentTypePicker: React.FC<DocumentTypePickerProps> = ({ document }) => {
+  const state = useDocumentTaxonomy();
+  const current = useDocumentType(document);
+  const detected = detectedDocumentType(document, state);
+  const corrected = !!state.overrides[document.id];
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [adding, setAdding] = useState(false);
+  const [name, setName] = useState('');
+  const [aliases, setAliases] = useState('');
+  const [color, setColor] = useState(DEFAULT_CUSTOM_COLOR);
+  const [error, setError] = useState<string | null>(null);
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const onPointerDown = (e: MouseEvent) => {
+      if (!rootRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    window.document.addEventListener('mousedown', onPointerDown);
+    return () => window.document.removeEventListener('mousedown', onPointerDown);
+  }, [open]);
+
+  useEffect(() => {
+    setOpen(false);
+    setQuery('');
+    setAdding(false);
+    setError(null);
+  }, [document.id]);
+
+  const pick = (type: DocumentTypeDefinition | null) => {
+    // Picking the detected type is the same as having no correction
+    documentTaxonomy.setOverride(document.id, type && type.name !== detected.name ? type.name : null);
+    setOpen(false);
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const added = documentTaxonomy.addCustomType({ name, aliases: aliases.split(','), icon: 'custom', color });
+      setName('');
+      setAliases('');
+      setAdding(false);
+      setError(null);
+      pick(added);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleRemove = (type: DocumentTypeDefinition) => {
+    if (!window.confirm(`Remove the custom type "${type.name}"? Documents using it go back to their detected type.`)) return;
+    documentTaxonomy.removeCustomType(type.name);
+  };
+
+  const types = listDocumentTypes(state).filter(t => matchesDocumentType(t, query));
+
+  return (
+    <div className="document-type-picker" ref={rootRef}>
+      <button
+        className={`document-type ${corrected ? 'corrected' : ''}`}
+        onClick={() => setOpen(prev => !prev)}
+        title={corrected ? `Corrected by you; detected as ${detected.name}` : 'Detected type. Click to correct it'}
+      >
+        <DocumentTypeBadge type={current} />
+        <ChevronDown size={14} />
+      </button>
+
+      {open && (
+        <div className="document-type-menu">
+          <input
+            className="document-type-search"
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="Search types"
+            aria-label="Search document types"
+            autoFocus
+          />
+          {corrected && (
+            <button className="document-type-reset" onClick={() => pick(null)}>
+              <RotateCcw size={13} /> Use detected type ({detected.name})
+            </button>
+          )}
+          <ul className="document-type-options">
+            {types.map(type => (
+              <li key={type.name} className={type.name === current.name ? 'selected' : ''}>
+                <button onClick={() => pick(type)} title={type.aliases.length ? `Also: ${type.aliases.join(', ')}` : undefined}>
+                  <DocumentTypeBadge type={type} />
+                </button>
+                {type.custom && (
+                  <button className="document-type-remove" onClick={() => handleRemove(type)} aria-label={`Remove ${type.name}`}>
+                    <X size={13} />
+                  </button>
+                )}
+              </li>
+            ))}
+            {types.length === 0 && <li className="document-type-none">No type matches "{query}"</li>}
+          </ul>
+
+          {adding ? (
+            <form className="document-type-form" onSubmit={handleAdd}>
+              <input value={name} onChange={e => setName(e.target.value)} placeholder="Type name" aria-label="Type name" />
+              <input value={aliases} onChange={e => setAliases(e.target.value)} placeholder="Other names, comma separated" aria-label="Aliases" />
+              <div className="document-type-form-row">
+                <input type="color" value={color} onChange={e => setColor(e.target.value)} aria-label="Badge color" />
+                <button type="submit" disabled={!name.trim()}>Add and use</button>
+                <button type="button" onClick={() => { setAdding(false); setError(null); }}>Cancel</button>
+              </div>
+              {error && <div className="document-type-error">{error}</div>}
+            </form>
+          ) : (
+            <button className="document-type-add" onClick={() => { setAdding(true); setName(query); }}>
+              <Plus size={13} /> Add a custom type
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DocumentTypePicker;
@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, Plus, Wallet, X } from 'lucide-react';
+import { ExposureParameter, ExposureParameterKind, Scenario } from '../api';
+import { clauseExposure, estimateExposure, excludedNote, exposureLabel, formatRange } from '../exposure';
+
+interface ExposureCalculatorProps {
+  parameters: ExposureParameter[];
+  scenarios: Scenario[];
+  // Used for terms without their own currency
+  currency: string;
+  onChange: (parameters: ExposureParameter[]) => void;
+}
+
+const KINDS: ExposureParameterKind[] = ['penalty', 'deposit', 'recurring', 'amount', 'interest_rate', 'notice_period'];
+
+const unitFor = (parameter: ExposureParameter, currency: string) => {
+  switch (parameter.kind) {
+    case 'interest_rate': return '% a year';
+    case 'notice_period': return 'days';
+    case 'recurring': return `${parameter.currency || currency} a month`;
+    default: return parameter.currency || currency;
+  }
+};
+
+// The clause's monetary terms as editable numbers, and what each breach or
+// financial scenario could cost with them. Estimates update as terms change.
+const ExposureCalculator: React.FC<ExposureCalculatorProps> = ({ parameters, scenarios, currency, onChange }) => {
+  const [expanded, setExpanded] = useState(false);
+  const overall = clauseExposure(scenarios, parameters, currency);
+  const excluded = overall && excludedNote(overall);
+
+  const update = (id: string, patch: Partial<ExposureParameter>) =>
+    onChange(parameters.map(p => (p.id === id ? { ...p, ...patch } : p)));
+
+  const add = (kind: ExposureParameterKind) =>
+    onChange([
+      ...parameters,
+      {
+        id: `term-${Date.now()}`,
+        kind,
+        label: exposureLabel(kind),
+        value: 0,
+        currency: kind === 'interest_rate' || kind === 'notice_period' ? undefined : currency
+      }
+    ]);
+
+  return (
+    <div className="exposure-calculator">
+      <button className="exposure-toggle" onClick={() => setExpanded(prev => !prev)}>
+        <Wallet className="w-4 h-4" />
+        <span>Financial exposure</span>
+        <span className="exposure-summary">{overall ? formatRange(overall) : 'Add amounts to estimate'}</span>
+        {expanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+      </button>
+
+      {expanded && (
+        <div className="exposure-panel">
+          <div className="exposure-terms">
+            {parameters.map(p => (
+              <div key={p.id} className="exposure-term">
+                <input
+                  className="exposure-term-label"
+                  value={p.label}
+                  onChange={e => update(p.id, { label: e.target.value })}
+                  aria-label="Term name"
+                  title={p.source ? `From the clause: "${p.source}"` : 'Added by hand'}
+                />
+                <input
+                  className="exposure-term-value"
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={Number.isFinite(p.value) ? p.value : ''}
+                  onChange={e => update(p.id, { value: e.target.value === '' ? 0 : Number(e.target.value) })}
+                  aria-label={`${p.label} value`}
+                />
+                <span className="exposure-term-unit">{unitFor(p, currency)}</span>
+                <button className="exposure-term-remove" onClick={() => onChange(parameters.filter(x => x.id !== p.id))} aria-label={`Remove ${p.label}`}>
+                  <X size={14} />
+                </button>
+              </div>
+            ))}
+            <label className="exposure-add">
+              <Plus size={14} />
+              <select value="" onChange={e => e.target.value && add(e.target.value as ExposureParameterKind)} aria-label="Add a term">
+                <option value="">Add a term…</option>
+                {KINDS.map(kind => <option key={kind} value={kind}>{exposureLabel(kind)}</option>)}
+              </select>
+            </label>
+          </div>
+
+          <ul className="exposure-scenarios">
+            {scenarios.map(scenario => {
+              const range = estimateExposure(scenario, parameters, currency);
+              if (!range) return null;
+              return (
+                <li key={scenario.id}>
+                  <div className="exposure-scenario-head">
+                    <span>{scenario.title}</span>
+                    <strong>{formatRange(range)}</strong>
+                  </div>
+                  <ul className="exposure-items">
+                    {range.items.map(item => (
+                      <li key={item.label}>{item.label}: {formatRange({ ...item, currency: range.currency })}</li>
+                    ))}
+                  </ul>
+                </li>
+              );
+            })}
+          </ul>
+          {excluded && <p className="exposure-note exposure-excluded">{excluded}.</p>}
+          <p className="exposure-note">Rough estimates from the terms above, not legal or financial advice.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExposureCalculator;
@@ -1,55 +1,29 @@
-import React, { useCallback, useState } from 'react';
+import React, { useCallback } from 'react';
 import { useDropzone } from 'react-dropzone';
 import { AlertCircle, Plus } from 'lucide-react';
-import axios from 'axios';
-import { API_BASE } from '../config';
+import { jobManager } from '../jobs';
 
 interface FileUploadProps {
-  onFileUploaded: (fileData: {file_id: string; filename: string}) => void;
+  // Uploads run as background jobs (see src/jobs); this only disables the drop zone
   isProcessing?: boolean;
 }
 
-const FileUpload: React.FC<FileUploadProps> = ({ onFileUploaded, isProcessing = false }) => {
-  const [uploading, setUploading] = useState(false);
-  const [uploadError, setUploadError] = useState<string | null>(null);
+const MAX_FILES = 50;
 
-  const uploadFile = useCallback(async (file: File) => {
-    setUploading(true);
-    setUploadError(null);
-
-    const formData = new FormData();
-    formData.append('file', file);
-
-    try {
-  const response = await axios.post(`${API_BASE}/api/upload`, formData, {
-        headers: {
-          'Content-Type': 'multipart/form-data',
-        },
-      });
-
-      if (response.data.file_id) {
-        // Forward the whole response so the caller can use immediate "result" when the
-        // backend processed the upload synchronously (serverless). This avoids a
-        // follow-up /api/process call that may 404 if files are ephemeral.
-        onFileUploaded({
-          file_id: response.data.file_id,
-          filename: response.data.filename,
-          rawResponse: response.data
-        } as any);
-      }
-    } catch (error: any) {
-      const errorMessage = error.response?.data?.error || 'Upload failed. Please try again.';
-      setUploadError(errorMessage);
-    } finally {
-      setUploading(false);
-    }
-  }, [onFileUploaded]);
+const rejectionReason = (code: string) => {
+  if (code === 'file-too-large') return 'File too large (max 16MB)';
+  if (code === 'file-invalid-type') return 'Invalid file type (PDF, PNG, JPG only)';
+  if (code === 'too-many-files') return `Too many files (max ${MAX_FILES} at once)`;
+  return 'Upload error';
+};
 
+const FileUpload: React.FC<FileUploadProps> = ({ isProcessing = false }) => {
   const onDrop = useCallback((acceptedFiles: File[]) => {
-    if (acceptedFiles.length > 0 && !isProcessing && !uploading) {
-      uploadFile(acceptedFiles[0]);
+    if (acceptedFiles.length > 0 && !isProcessing) {
+      // Progress, errors and retries are tracked per job in the sidebar
+      jobManager.uploadBatch(acceptedFiles);
     }
-  }, [uploadFile, isProcessing, uploading]);
+  }, [isProcessing]);
 
   const { getRootProps, getInputProps, isDragActive, fileRejections } = useDropzone({
     onDrop,
@@ -59,11 +33,12 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileUploaded, isProcessing =
       'image/jpeg': ['.jpg', '.jpeg'],
     },
     maxSize: 16 * 1024 * 1024, // 16MB
-    multiple: false,
-    disabled: isProcessing || uploading,
+    multiple: true,
+    maxFiles: MAX_FILES,
+    disabled: isProcessing,
   });
 
-  const isDisabled = isProcessing || uploading;
+  const isDisabled = isProcessing;
 
   return (
     <div className="file-upload-bottom">
@@ -74,12 +49,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileUploaded, isProcessing =
         <input {...getInputProps()} />
         
         <div className="upload-content">
-          {uploading ? (
-            <>
-              <div className="spinner-small"></div>
-              <span>Uploading...</span>
-            </>
-          ) : isProcessing ? (
+          {isProcessing ? (
             <>
               <div className="spinner-small"></div>
               <span>Processing...</span>
@@ -87,7 +57,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileUploaded, isProcessing =
           ) : (
             <>
               <Plus className="upload-icon-small" />
-              <span>Upload new document</span>
+              <span>Upload documents (drop several at once)</span>
             </>
           )}
         </div>
@@ -96,20 +66,14 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileUploaded, isProcessing =
       {fileRejections.length > 0 && (
         <div className="upload-error">
           <AlertCircle className="error-icon-small" />
-          <span>
-            {fileRejections[0].errors[0].code === 'file-too-large'
-              ? 'File too large (max 16MB)'
-              : fileRejections[0].errors[0].code === 'file-invalid-type'
-              ? 'Invalid file type (PDF, PNG, JPG only)'
-              : 'Upload error'}
-          </span>
-        </div>
-      )}
-
-      {uploadError && (
-        <div className="upload-error">
-          <AlertCircle className="error-icon-small" />
-          <span>{uploadError}</span>
+          {fileRejections.length === 1 ? (
+            <span>{fileRejections[0].file.name}: {rejectionReason(fileRejections[0].errors[0].code)}</span>
+          ) : (
+            <span>
+              {fileRejections.length} files skipped: {fileRejections.slice(0, 3).map(r => `${r.file.name} (${rejectionReason(r.errors[0].code)})`).join(', ')}
+              {fileRejections.length > 3 && '…'}
+            </span>
+          )}
         </div>
       )}
     </div>
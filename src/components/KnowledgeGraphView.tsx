@@ -0,0 +1,260 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Maximize2, Minus, Plus, X } from 'lucide-react';
+import { Clause, Document, isApiError } from '../api';
+import { isAbortError } from '../enrichment';
+import { GraphNode, GraphNodeType, KnowledgeGraph, buildKnowledgeGraph, filterGraph, layoutGraph } from '../graph';
+import { clausesForDocument, referencesFor, unlessFailed } from '../report';
+
+interface KnowledgeGraphViewProps {
+  document: Document;
+  documentType: string;
+  jurisdiction: string;
+  // Clauses currently shown in the visualizer, if any
+  clauses: Clause[];
+  // Clicking a node jumps to its clause, and for law nodes to the reference card in it
+  onSelectNode: (target: { clauseId: string; referenceTitle?: string }) => void;
+  onClose: () => void;
+}
+
+const WIDTH = 900;
+const HEIGHT = 560;
+const MIN_ZOOM = 0.3;
+const MAX_ZOOM = 4;
+
+const TYPE_LABEL: Record<GraphNodeType, string> = {
+  clause: 'Clauses',
+  act: 'Acts',
+  regulation: 'Regulations',
+  guideline: 'Guidelines',
+  rule: 'Rules',
+  circular: 'Circulars',
+  section: 'Sections',
+  authority: 'Authorities'
+};
+
+const TYPE_ORDER: GraphNodeType[] = ['clause', 'act', 'regulation', 'rule', 'guideline', 'circular', 'section', 'authority'];
+
+const RADIUS: Record<GraphNodeType, number> = {
+  clause: 11,
+  act: 9,
+  regulation: 9,
+  guideline: 8,
+  rule: 8,
+  circular: 8,
+  section: 6,
+  authority: 7
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Node-link view of every clause of the document and the laws, sections and
+// authorities behind them. Drag to pan, scroll to zoom, click to jump.
+const KnowledgeGraphView: React.FC<KnowledgeGraphViewProps> = ({ document, documentType, jurisdiction, clauses, onSelectNode, onClose }) => {
+  const [graph, setGraph] = useState<KnowledgeGraph | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [hidden, setHidden] = useState<GraphNodeType[]>([]);
+  const [hovered, setHovered] = useState<string | null>(null);
+  const [view, setView] = useState({ x: 0, y: 0, k: 1 });
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<null | { pointerX: number; pointerY: number; x: number; y: number; moved: boolean }>(null);
+
+  useEffect(() => {
+    let mounted = true;
+    // Closing the graph drops its reference requests that are still queued
+    const controller = new AbortController();
+    setGraph(null);
+    setError(null);
+    clausesForDocument(document.id, clauses)
+      .then(list => Promise.all(list.map(async clause => ({
+        clause,
+        references: (await unlessFailed(referencesFor(clause, documentType, jurisdiction, controller.signal))) || []
+      }))))
+      .then(entries => { if (mounted) setGraph(buildKnowledgeGraph(entries)); })
+      .catch(err => {
+        if (mounted && !isAbortError(err)) setError(isApiError(err) ? err.message : 'Failed to build the knowledge graph');
+      });
+    return () => {
+      mounted = false;
+      controller.abort();
+    };
+  }, [document.id, documentType, jurisdiction, clauses]);
+
+  const visible = useMemo(() => (graph ? filterGraph(graph, hidden) : null), [graph, hidden]);
+  const positions = useMemo(
+    () => (visible ? layoutGraph(visible, { width: WIDTH, height: HEIGHT }) : {}),
+    [visible]
+  );
+  const presentTypes = useMemo(
+    () => TYPE_ORDER.filter(type => graph?.nodes.some(n => n.type === type)),
+    [graph]
+  );
+  // Hovering a node dims everything it isn't linked to
+  const neighbours = useMemo(() => {
+    if (!hovered || !visible) return null;
+    const linked = new Set([hovered]);
+    visible.edges.forEach(e => {
+      if (e.source === hovered) linked.add(e.target);
+      if (e.target === hovered) linked.add(e.source);
+    });
+    return linked;
+  }, [hovered, visible]);
+
+  // Wheel zoom keeps the point under the cursor in place. Registered natively
+  // because React's wheel listener is passive and can't stop the page scrolling.
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const box = svg.getBoundingClientRect();
+      const px = ((e.clientX - box.left) / box.width) * WIDTH;
+      const py = ((e.clientY - box.top) / box.height) * HEIGHT;
+      setView(prev => {
+        const k = clamp(prev.k * (e.deltaY < 0 ? 1.15 : 1 / 1.15), MIN_ZOOM, MAX_ZOOM);
+        return { k, x: px - ((px - prev.x) * k) / prev.k, y: py - ((py - prev.y) * k) / prev.k };
+      });
+    };
+    svg.addEventListener('wheel', onWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', onWheel);
+  }, [visible]);
+
+  const zoomBy = (factor: number) =>
+    setView(prev => {
+      const k = clamp(prev.k * factor, MIN_ZOOM, MAX_ZOOM);
+      const cx = WIDTH / 2;
+      const cy = HEIGHT / 2;
+      return { k, x: cx - ((cx - prev.x) * k) / prev.k, y: cy - ((cy - prev.y) * k) / prev.k };
+    });
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    dragRef.current = { pointerX: e.clientX, pointerY: e.clientY, x: view.x, y: view.y, moved: false };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    const svg = svgRef.current;
+    if (!drag || !svg) return;
+    const scale = WIDTH / svg.getBoundingClientRect().width;
+    const dx = (e.clientX - drag.pointerX) * scale;
+    const dy = (e.clientY - drag.pointerY) * scale;
+    if (!drag.moved && Math.abs(dx) + Math.abs(dy) < 4) return;
+    if (!drag.moved) svg.setPointerCapture(e.pointerId);
+    drag.moved = true;
+    setView(prev => ({ ...prev, x: drag.x + dx, y: drag.y + dy }));
+  };
+
+  const handlePointerUp = () => {
+    // Let the click that ends a drag know it was a drag
+    setTimeout(() => { dragRef.current = null; }, 0);
+  };
+
+  const handleNodeClick = (node: GraphNode) => {
+    if (dragRef.current?.moved) return;
+    onSelectNode({ clauseId: node.clauseId, referenceTitle: node.referenceTitle });
+  };
+
+  const toggleType = (type: GraphNodeType) =>
+    setHidden(prev => (prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]));
+
+  return (
+    <div className="knowledge-graph-view">
+      <div className="risk-dashboard-header">
+        <h4>Legal knowledge graph</h4>
+        <button className="document-pane-close" onClick={onClose} aria-label="Close knowledge graph">
+          <X size={16} />
+        </button>
+      </div>
+
+      {error && <div className="document-pane-empty">{error}</div>}
+      {!graph && !error && (
+        <div className="legal-loading">
+          <div className="spinner-small"></div>
+          <span>Finding relevant laws for every clause...</span>
+        </div>
+      )}
+
+      {graph && (
+        <>
+          <div className="graph-toolbar">
+            <div className="graph-filters">
+              {presentTypes.map(type => (
+                <button
+                  key={type}
+                  className={`graph-filter ${type} ${hidden.includes(type) ? 'off' : ''}`}
+                  onClick={() => toggleType(type)}
+                  aria-pressed={!hidden.includes(type)}
+                >
+                  <span className="graph-swatch" /> {TYPE_LABEL[type]}
+                </button>
+              ))}
+            </div>
+            <div className="graph-zoom">
+              <button onClick={() => zoomBy(1.25)} aria-label="Zoom in"><Plus size={14} /></button>
+              <button onClick={() => zoomBy(1 / 1.25)} aria-label="Zoom out"><Minus size={14} /></button>
+              <button onClick={() => setView({ x: 0, y: 0, k: 1 })} aria-label="Reset view"><Maximize2 size={14} /></button>
+            </div>
+          </div>
+
+          {visible && visible.nodes.length === 0 ? (
+            <div className="document-pane-empty">Nothing to show with the current filters.</div>
+          ) : (
+            <svg
+              ref={svgRef}
+              className="graph-canvas"
+              viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerLeave={handlePointerUp}
+            >
+              <g transform={`translate(${view.x} ${view.y}) scale(${view.k})`}>
+                {visible?.edges.map(edge => {
+                  const a = positions[edge.source];
+                  const b = positions[edge.target];
+                  if (!a || !b) return null;
+                  const dimmed = neighbours && !(neighbours.has(edge.source) && neighbours.has(edge.target));
+                  return (
+                    <line
+                      key={edge.id}
+                      className={`graph-edge ${edge.kind} ${dimmed ? 'dimmed' : ''}`}
+                      x1={a.x}
+                      y1={a.y}
+                      x2={b.x}
+                      y2={b.y}
+                      strokeWidth={edge.kind === 'relies-on' ? edge.weight * 1.2 : 1}
+                    />
+                  );
+                })}
+                {visible?.nodes.map(node => {
+                  const p = positions[node.id];
+                  if (!p) return null;
+                  const dimmed = neighbours && !neighbours.has(node.id);
+                  return (
+                    <g
+                      key={node.id}
+                      className={`graph-node ${node.type} level-${node.level} ${dimmed ? 'dimmed' : ''}`}
+                      transform={`translate(${p.x} ${p.y})`}
+                      onClick={() => handleNodeClick(node)}
+                      onMouseEnter={() => setHovered(node.id)}
+                      onMouseLeave={() => setHovered(null)}
+                    >
+                      <title>{node.detail || node.label}</title>
+                      <circle r={RADIUS[node.type]} />
+                      <text y={RADIUS[node.type] + 12}>{node.label}</text>
+                    </g>
+                  );
+                })}
+              </g>
+            </svg>
+          )}
+          <p className="risk-note">
+            {graph.nodes.filter(n => n.type === 'clause').length} clauses · {graph.nodes.filter(n => n.type !== 'clause').length} legal sources.
+            Thicker links mean higher relevance. Click a clause or law to open it.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default KnowledgeGraphView;
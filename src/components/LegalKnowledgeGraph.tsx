@@ -1,46 +1,65 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { ExternalLink, BookOpen, Scale, Info } from 'lucide-react';
-import { API_BASE } from '../config';
-
-interface LegalReference {
-  id: string;
-  title: string;
-  type: 'act' | 'regulation' | 'guideline' | 'rule' | 'circular';
-  authority: string;
-  section?: string;
-  description: string;
-  relevance: 'high' | 'medium' | 'low';
-  url?: string;
-  lastUpdated?: string;
-}
+import { LegalReference } from '../api';
+import { getMockReferences } from '../api/mock';
+import { jurisdictionName } from '../jurisdiction';
+import { enrichmentScheduler, isAbortError } from '../enrichment';
 
 interface LegalKnowledgeGraphProps {
   clauseText: string;
   documentType: string;
   clauseType?: string;
-  onReferencesGenerated?: (clauseText: string, references: any[]) => void;
-  initialReferences?: any[] | null;
+  jurisdiction?: string;
+  onReferencesGenerated?: (clauseText: string, references: LegalReference[]) => void;
+  initialReferences?: LegalReference[] | null;
+  // Reference picked in the document knowledge graph; expands the panel and
+  // scrolls to its card. The nonce repeats the jump for the same title.
+  focus?: { title: string; nonce: number };
 }
 
+const sameTitle = (a: string, b: string) =>
+  a.trim().replace(/\s+/g, ' ').toLowerCase() === b.trim().replace(/\s+/g, ' ').toLowerCase();
+
 const LegalKnowledgeGraph: React.FC<LegalKnowledgeGraphProps> = ({
   clauseText,
   documentType,
   clauseType,
+  jurisdiction,
   onReferencesGenerated,
-  initialReferences
+  initialReferences,
+  focus
 }) => {
   const [legalReferences, setLegalReferences] = useState<LegalReference[]>([]);
   const [loading, setLoading] = useState(false);
   const [expanded, setExpanded] = useState(false);
+  const cardRefs = useRef<Record<string, HTMLDivElement | null>>({});
+  // Parents pass a new callback every render; fetching only follows the clause
+  const onGeneratedRef = useRef(onReferencesGenerated);
+  onGeneratedRef.current = onReferencesGenerated;
+
+  useEffect(() => {
+    if (focus) setExpanded(true);
+  }, [focus]);
+
+  useEffect(() => {
+    if (!focus || !expanded || loading) return;
+    const match = legalReferences.find(ref => sameTitle(ref.title, focus.title));
+    if (match) cardRefs.current[match.id]?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [focus, expanded, loading, legalReferences]);
 
   useEffect(() => {
     let mounted = true;
+    // Collapsing, new props or unmounting cancels a request still waiting in the queue
+    const controller = new AbortController();
+    const reportGenerated = (references: LegalReference[]) => {
+      const onGenerated = onGeneratedRef.current;
+      if (typeof onGenerated !== 'function') return;
+      try { onGenerated(clauseText, references); } catch (err) { console.warn('onReferencesGenerated failed', err); }
+    };
     const fetchData = async () => {
       if (initialReferences && initialReferences.length) {
-        setLegalReferences(initialReferences as LegalReference[]);
-        if (typeof onReferencesGenerated === 'function') {
-          try { onReferencesGenerated(clauseText, initialReferences); } catch (err) { console.warn('onReferencesGenerated failed', err); }
-        }
+        setLegalReferences(initialReferences);
+        reportGenerated(initialReferences);
         return;
       }
 
@@ -49,29 +68,22 @@ const LegalKnowledgeGraph: React.FC<LegalKnowledgeGraphProps> = ({
         try {
           // Try backend first
           try {
-            const resp = await fetch(`${API_BASE}/api/legal-knowledge-graph`, {
-              method: 'POST', headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({ clauseText, documentType, clauseType })
-            });
-            if (resp.ok) {
-              const data = await resp.json();
-              const refs = data.references || [];
-              if (mounted) setLegalReferences(refs);
-              if (typeof onReferencesGenerated === 'function') {
-                try { onReferencesGenerated(clauseText, refs); } catch (err) { console.warn('onReferencesGenerated failed', err); }
-              }
-              return;
-            }
+            const refs = await enrichmentScheduler.references(
+              { clauseText, documentType, clauseType, jurisdiction },
+              { signal: controller.signal, priority: true }
+            );
+            if (mounted) setLegalReferences(refs);
+            reportGenerated(refs);
+            return;
           } catch (e) {
+            if (isAbortError(e)) return;
             // ignore and fall back to mock
           }
 
           // Fallback to mock
-          const mockReferences = getMockReferences(documentType, clauseType, clauseText);
+          const mockReferences = getMockReferences(documentType, clauseType, clauseText, jurisdiction);
           if (mounted) setLegalReferences(mockReferences);
-          if (typeof onReferencesGenerated === 'function') {
-            try { onReferencesGenerated(clauseText, mockReferences); } catch (err) { console.warn('onReferencesGenerated failed', err); }
-          }
+          reportGenerated(mockReferences);
         } catch (error) {
           console.error('Error fetching legal references:', error);
         } finally {
@@ -80,120 +92,11 @@ const LegalKnowledgeGraph: React.FC<LegalKnowledgeGraphProps> = ({
       }
     };
     fetchData();
-    return () => { mounted = false; };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [clauseText, documentType, clauseType, expanded]);
-
-  const getMockReferences = (docType: string, clType?: string, clause?: string): LegalReference[] => {
-    const baseReferences: LegalReference[] = [];
-
-    if (docType.toLowerCase().includes('contract')) {
-      baseReferences.push(
-        {
-          id: 'ica1872',
-          title: 'Indian Contract Act, 1872',
-          type: 'act',
-          authority: 'Government of India',
-          section: 'Section 10-30',
-          description: 'Defines what constitutes a valid contract and the essentials of a contract.',
-          relevance: 'high',
-          url: 'https://legislative.gov.in/sites/default/files/A1872-09.pdf',
-          lastUpdated: '2023-01-15'
-        },
-        {
-          id: 'specific_relief_act',
-          title: 'Specific Relief Act, 1963',
-          type: 'act',
-          authority: 'Government of India',
-          section: 'Section 9-25',
-          description: 'Provides remedies for breach of contract and specific performance.',
-          relevance: 'medium',
-          url: 'https://legislative.gov.in/sites/default/files/A1963-47.pdf'
-        }
-      );
-    }
-
-    if (docType.toLowerCase().includes('lease')) {
-      baseReferences.push(
-        {
-          id: 'rent_control',
-          title: 'Model Tenancy Act, 2021',
-          type: 'act',
-          authority: 'Ministry of Housing and Urban Affairs',
-          description: 'Governs rental agreements and tenant-landlord relationships.',
-          relevance: 'high',
-          url: 'https://mohua.gov.in/upload/uploadfiles/files/MTA_English1.pdf'
-        },
-        {
-          id: 'transfer_property',
-          title: 'Transfer of Property Act, 1882',
-          type: 'act',
-          authority: 'Government of India',
-          section: 'Section 105-117',
-          description: 'Defines lease of immovable property and rights of parties.',
-          relevance: 'high'
-        }
-      );
-    }
-
-    if (docType.toLowerCase().includes('privacy')) {
-      baseReferences.push(
-        {
-          id: 'dpdp_act',
-          title: 'Digital Personal Data Protection Act, 2023',
-          type: 'act',
-          authority: 'Government of India',
-          description: 'Regulates processing of digital personal data.',
-          relevance: 'high',
-          url: 'https://www.meity.gov.in/writereaddata/files/Digital%20Personal%20Data%20Protection%20Act%202023.pdf'
-        },
-        {
-          id: 'it_act',
-          title: 'Information Technology Act, 2000',
-          type: 'act',
-          authority: 'Government of India',
-          section: 'Section 43A, 72A',
-          description: 'Provides framework for data protection and cyber security.',
-          relevance: 'medium'
-        }
-      );
-    }
-
-    if (docType.toLowerCase().includes('employment')) {
-      baseReferences.push(
-        {
-          id: 'labour_code',
-          title: 'Code on Wages, 2019',
-          type: 'act',
-          authority: 'Ministry of Labour and Employment',
-          description: 'Regulates wage and bonus payment to employees.',
-          relevance: 'high'
-        },
-        {
-          id: 'esi_act',
-          title: "Employees' State Insurance Act, 1948",
-          type: 'act',
-          authority: 'ESIC',
-          description: 'Provides for medical care and cash benefits to employees.',
-          relevance: 'medium'
-        }
-      );
-    }
-
-    if ((clause || '').toLowerCase().includes('payment') || (clause || '').toLowerCase().includes('financial')) {
-      baseReferences.push({
-        id: 'rbi_payment',
-        title: 'RBI Master Direction on Payment System',
-        type: 'guideline',
-        authority: 'Reserve Bank of India',
-        description: 'Guidelines for payment systems and electronic transactions.',
-        relevance: 'medium',
-        url: 'https://www.rbi.org.in/Scripts/BS_ViewMasDirections.aspx?id=11142'
-      });
-    }
-
-    return baseReferences.slice(0, 4);
-  };
+    return () => {
+      mounted = false;
+      controller.abort();
+    };
+  }, [clauseText, documentType, clauseType, jurisdiction, expanded, initialReferences]);
 
   const getTypeIcon = (type: string) => {
     switch (type) {
@@ -258,7 +161,11 @@ const LegalKnowledgeGraph: React.FC<LegalKnowledgeGraphProps> = ({
           ) : (
             <div className="legal-references-grid">
               {legalReferences.map((ref) => (
-                <div key={ref.id} className="legal-reference-card">
+                <div
+                  key={ref.id}
+                  ref={el => { cardRefs.current[ref.id] = el; }}
+                  className={`legal-reference-card ${focus && sameTitle(ref.title, focus.title) ? 'focused' : ''}`}
+                >
                   <div className="legal-reference-header">
                     <div className={`legal-type-badge ${getTypeColor(ref.type)}`}>
                       {getTypeIcon(ref.type)}
@@ -267,6 +174,11 @@ const LegalKnowledgeGraph: React.FC<LegalKnowledgeGraphProps> = ({
                     <div className={`legal-relevance-badge ${getRelevanceColor(ref.relevance)}`}>
                       {ref.relevance.toUpperCase()}
                     </div>
+                    {(ref.jurisdiction || jurisdiction) && (
+                      <div className="legal-jurisdiction-badge" title="Jurisdiction">
+                        {jurisdictionName(ref.jurisdiction || jurisdiction)}
+                      </div>
+                    )}
                   </div>
 
                   <h6 className="legal-reference-title">{ref.title}</h6>
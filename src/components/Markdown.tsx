@@ -0,0 +1,46 @@
+import React, { useMemo } from 'react';
+import ReactMarkdown, { type Components } from 'react-markdown';
+import { rehypeHighlights, rehypeSanitize } from '../markdown';
+
+interface MarkdownProps {
+  source: string;
+  // Snippets to <mark> in the rendered output (e.g. persisted clause highlights)
+  highlights?: string[];
+}
+
+const components: Components = {
+  p: ({ children }) => <div className="gpt-paragraph">{children}</div>,
+  ul: ({ children }) => <ul className="gpt-list">{children}</ul>,
+  ol: ({ children, start }) => <ol className="gpt-list" start={start}>{children}</ol>,
+  li: ({ children }) => <li>{children}</li>,
+  // Fenced blocks arrive as <pre><code>, with or without a language, so the
+  // block styling goes on pre and code inside it drops the inline look
+  pre: ({ children }) => <pre className="gpt-code">{children}</pre>,
+  code: ({ children }) => <code className="gpt-inline-code">{children}</code>,
+  strong: ({ children }) => <strong className="gpt-bold">{children}</strong>,
+  em: ({ children }) => <em className="gpt-italic">{children}</em>,
+  blockquote: ({ children }) => <blockquote className="gpt-quote">{children}</blockquote>,
+  h1: ({ children }) => <h1 className="gpt-h1">{children}</h1>,
+  h2: ({ children }) => <h2 className="gpt-h2">{children}</h2>,
+  h3: ({ children }) => <h3 className="gpt-h3">{children}</h3>,
+  a: ({ children, href, title }) => <a href={href} title={title} target="_blank" rel="noopener noreferrer">{children}</a>,
+};
+
+// The one markdown renderer for model output. Raw HTML is never parsed, the
+// tree is sanitized against an allowlist, and highlights are applied on the
+// tree after sanitizing so they cannot be used to inject markup.
+export const Markdown: React.FC<MarkdownProps> = ({ source, highlights }) => {
+  const rehypePlugins = useMemo(
+    () => (highlights && highlights.length
+      ? [rehypeSanitize, [rehypeHighlights, { snippets: highlights }]]
+      : [rehypeSanitize]) as NonNullable<React.ComponentProps<typeof ReactMarkdown>['rehypePlugins']>,
+    [highlights]
+  );
+  return (
+    <ReactMarkdown rehypePlugins={rehypePlugins} components={components}>
+      {source}
+    </ReactMarkdown>
+  );
+};
+
+export default Markdown;
@@ -0,0 +1,180 @@
+import React, { useEffect, useState } from 'react';
+import { Briefcase, Pencil, Trash2, X } from 'lucide-react';
+import { Document, Matter, MatterDocumentSummary, MatterRequest, RiskLevel, getMatterDocuments, isApiError } from '../api';
+import { RISK_LEVELS, scoreFromCounts, scoreLevel } from '../report';
+import { documentTypeOf, useDocumentTaxonomy } from '../taxonomy';
+import { DocumentTypeBadge } from './DocumentTypePicker';
+
+interface MatterViewProps {
+  matter: Matter;
+  // The app's document list; the view reloads when documents are moved in or out
+  documents: Document[];
+  onOpenDocument: (document: Document) => void;
+  onUpdate: (patch: MatterRequest) => Promise<void>;
+  onDelete: () => void;
+  onClose: () => void;
+}
+
+const LEVEL_LABEL: Record<RiskLevel, string> = { low: 'Low', medium: 'Medium', high: 'High' };
+
+const sumCounts = (summaries: MatterDocumentSummary[]) =>
+  summaries.reduce<Record<RiskLevel, number>>(
+    (total, s) => ({ low: total.low + s.risk_counts.low, medium: total.medium + s.risk_counts.medium, high: total.high + s.risk_counts.high }),
+    { low: 0, medium: 0, high: 0 }
+  );
+
+// Everything filed under one client matter, with clause risk rolled up from
+// each document's persisted analysis
+const MatterView: React.FC<MatterViewProps> = ({ matter, documents, onOpenDocument, onUpdate, onDelete, onClose }) => {
+  const taxonomy = useDocumentTaxonomy();
+  const [summaries, setSummaries] = useState<MatterDocumentSummary[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [name, setName] = useState(matter.name);
+  const [client, setClient] = useState(matter.client || '');
+
+  useEffect(() => {
+    let mounted = true;
+    setError(null);
+    getMatterDocuments(matter.id)
+      .then(data => { if (mounted) setSummaries(data.documents); })
+      .catch(err => { if (mounted) setError(isApiError(err) ? err.message : 'Failed to load the matter'); });
+    return () => { mounted = false; };
+  }, [matter.id, documents]);
+
+  useEffect(() => {
+    setEditing(false);
+    setName(matter.name);
+    setClient(matter.client || '');
+  }, [matter]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await onUpdate({ name: name.trim(), client: client.trim() });
+      setEditing(false);
+    } catch (err) {
+      setError(isApiError(err) ? err.message : 'Failed to rename the matter');
+    }
+  };
+
+  const analysed = (summaries || []).filter(s => s.clause_count > 0);
+  const counts = sumCounts(analysed);
+  const clauseCount = analysed.reduce((total, s) => total + s.clause_count, 0);
+  const score = scoreFromCounts(counts);
+  // Riskiest documents first; unanalysed ones last
+  const ordered = [...(summaries || [])].sort((a, b) =>
+    (b.clause_count > 0 ? 1 : 0) - (a.clause_count > 0 ? 1 : 0) || scoreFromCounts(b.risk_counts) - scoreFromCounts(a.risk_counts)
+  );
+
+  return (
+    <div className="matter-view">
+      <div className="risk-dashboard-header">
+        {editing ? (
+          <form className="matter-edit" onSubmit={handleSave}>
+            <input value={name} onChange={e => setName(e.target.value)} placeholder="Matter name" aria-label="Matter name" autoFocus />
+            <input value={client} onChange={e => setClient(e.target.value)} placeholder="Client" aria-label="Client" />
+            <button type="submit" disabled={!name.trim()}>Save</button>
+            <button type="button" onClick={() => setEditing(false)}>Cancel</button>
+          </form>
+        ) : (
+          <div className="matter-title">
+            <h4><Briefcase size={18} /> {matter.name}</h4>
+            {matter.client && <span>{matter.client}</span>}
+          </div>
+        )}
+        <div className="matter-actions">
+          {!editing && (
+            <button onClick={() => setEditing(true)} aria-label="Rename matter" title="Rename matter">
+              <Pencil size={15} />
+            </button>
+          )}
+          <button onClick={onDelete} aria-label="Delete matter" title="Delete matter (its documents are kept)">
+            <Trash2 size={15} />
+          </button>
+          <button className="document-pane-close" onClick={onClose} aria-label="Close matter">
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="document-pane-empty">{error}</div>}
+      {!summaries && !error && (
+        <div className="legal-loading">
+          <div className="spinner-small"></div>
+          <span>Loading the matter...</span>
+        </div>
+      )}
+
+      {summaries && (
+        <>
+          <div className="risk-summary">
+            <div className={`risk-score ${scoreLevel(score)}`} title="Clause risk across every analysed document in the matter">
+              <span className="risk-score-value">{clauseCount ? score : '–'}</span>
+              <span className="risk-score-label">{clauseCount ? `${LEVEL_LABEL[scoreLevel(score)]} risk` : 'Not analysed'}</span>
+            </div>
+            <div className="risk-level-counts">
+              {[...RISK_LEVELS].reverse().map(level => (
+                <div key={level} className={`risk-level-count ${level}`}>
+                  <span className="risk-level-number">{counts[level]}</span>
+                  <span>{LEVEL_LABEL[level]}</span>
+                </div>
+              ))}
+              <div className="risk-level-count total">
+                <span className="risk-level-number">{summaries.length}</span>
+                <span>Documents</span>
+              </div>
+            </div>
+          </div>
+
+          {summaries.length === 0 ? (
+            <p className="risk-note">No documents in this matter yet. Drag documents onto it in the sidebar.</p>
+          ) : (
+            <table className="matter-documents">
+              <thead>
+                <tr>
+                  <th>Document</th>
+                  <th>Type</th>
+                  <th>Clause risk</th>
+                  <th>Score</th>
+                </tr>
+              </thead>
+              <tbody>
+                {ordered.map(({ document, clause_count: total, risk_counts: docCounts }) => {
+                  const docScore = scoreFromCounts(docCounts);
+                  return (
+                    <tr key={document.id}>
+                      <td>
+                        <button className="matter-document-link" onClick={() => onOpenDocument(document)}>{document.file_name}</button>
+                        {(document.tags || []).length > 0 && (
+                          <div className="document-tags">
+                            {(document.tags || []).map(tag => <span key={tag} className="document-tag">#{tag}</span>)}
+                          </div>
+                        )}
+                      </td>
+                      <td><DocumentTypeBadge type={documentTypeOf(document, taxonomy)} /></td>
+                      <td>
+                        {total > 0 ? (
+                          <div className="matter-risk-bar" title={RISK_LEVELS.map(l => `${docCounts[l]} ${l}`).join(', ')}>
+                            {[...RISK_LEVELS].reverse().map(level => docCounts[level] > 0 && (
+                              <span key={level} className={level} style={{ flexGrow: docCounts[level] }}>{docCounts[level]}</span>
+                            ))}
+                          </div>
+                        ) : (
+                          <span className="matter-not-analysed">Not analysed</span>
+                        )}
+                      </td>
+                      <td>{total > 0 ? <span className={`matter-score ${scoreLevel(docScore)}`}>{docScore}</span> : '–'}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MatterView;
@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { CalendarClock, ListChecks, Trash2, X } from 'lucide-react';
+import { Document, MitigationTask, MitigationTaskStatus, UpdateMitigationTaskRequest, isApiError } from '../api';
+import { TASK_STATUSES, isOverdue, taskBoard, useMitigationTasks } from '../tasks';
+
+interface MitigationBoardProps {
+  document: Document;
+  // Opens the task's clause in the visualizer at its scenario
+  onOpenTask: (task: MitigationTask) => void;
+  onClose: () => void;
+}
+
+const UNASSIGNED = '__unassigned__';
+
+// Owner is edited as text and saved when the field loses focus, not per keystroke
+const OwnerInput: React.FC<{ task: MitigationTask; onSave: (owner: string) => void }> = ({ task, onSave }) => {
+  const [value, setValue] = useState(task.owner || '');
+  React.useEffect(() => { setValue(task.owner || ''); }, [task.owner]);
+  const commit = () => {
+    if (value.trim() !== (task.owner || '')) onSave(value.trim());
+  };
+  return (
+    <input
+      className="task-owner-input"
+      value={value}
+      onChange={e => setValue(e.target.value)}
+      onBlur={commit}
+      onKeyDown={e => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+      placeholder="Owner"
+      aria-label="Owner"
+    />
+  );
+};
+
+// Scenario mitigations someone has taken on for this document, by status
+const MitigationBoard: React.FC<MitigationBoardProps> = ({ document, onOpenTask, onClose }) => {
+  const tasks = useMitigationTasks(document.id);
+  const [ownerFilter, setOwnerFilter] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const owners = Array.from(new Set(tasks.map(t => t.owner).filter((o): o is string => !!o))).sort();
+  const shown = tasks.filter(t =>
+    !ownerFilter || (ownerFilter === UNASSIGNED ? !t.owner : t.owner === ownerFilter)
+  );
+  const open = tasks.filter(t => t.status !== 'done').length;
+  const overdue = tasks.filter(t => isOverdue(t)).length;
+
+  const update = async (task: MitigationTask, patch: UpdateMitigationTaskRequest) => {
+    setError(null);
+    try {
+      await taskBoard.update(task, patch);
+    } catch (e) {
+      setError(isApiError(e) ? e.message : 'Failed to update the task');
+      console.warn('Failed to update mitigation task', e);
+    }
+  };
+
+  const remove = async (task: MitigationTask) => {
+    if (!window.confirm(`Remove the task "${task.mitigation}"?`)) return;
+    setError(null);
+    try {
+      await taskBoard.remove(task);
+    } catch (e) {
+      setError(isApiError(e) ? e.message : 'Failed to remove the task');
+      console.warn('Failed to remove mitigation task', e);
+    }
+  };
+
+  return (
+    <div className="mitigation-board">
+      <div className="risk-dashboard-header">
+        <h4>Mitigation tasks</h4>
+        <button className="document-pane-close" onClick={onClose} aria-label="Close task board">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="task-board-toolbar">
+        <span>
+          {open} open{overdue > 0 && <span className="task-overdue-count"> · {overdue} overdue</span>}
+        </span>
+        {tasks.length > 0 && (
+          <select value={ownerFilter} onChange={e => setOwnerFilter(e.target.value)} aria-label="Filter by owner">
+            <option value="">Everyone</option>
+            {owners.map(o => <option key={o} value={o}>{o}</option>)}
+            <option value={UNASSIGNED}>Unassigned</option>
+          </select>
+        )}
+      </div>
+      {error && <div className="task-board-error">{error}</div>}
+
+      {tasks.length === 0 ? (
+        <div className="document-pane-empty">
+          <ListChecks size={20} />
+          <p>No tasks yet. Use "Track" on a mitigation in a clause's what-if scenarios to add one.</p>
+        </div>
+      ) : (
+        <div className="task-board-columns">
+          {TASK_STATUSES.map(({ status, label }) => {
+            const column = shown.filter(t => t.status === status);
+            return (
+              <div key={status} className={`task-board-column ${status}`}>
+                <div className="task-board-column-title">
+                  {label} <span>{column.length}</span>
+                </div>
+                {column.map(task => (
+                  <div key={task.id} className={`task-card ${isOverdue(task) ? 'overdue' : ''}`}>
+                    <p className="task-mitigation">{task.mitigation}</p>
+                    <button className="task-link" onClick={() => onOpenTask(task)} title="Show in the clause visualizer">
+                      {task.scenario_title} · {task.clause_headline || task.clause_text.slice(0, 60)}
+                    </button>
+                    <div className="task-fields">
+                      <OwnerInput task={task} onSave={owner => update(task, { owner })} />
+                      <label className="task-due" title={isOverdue(task) ? 'Overdue' : 'Due date'}>
+                        <CalendarClock size={14} />
+                        <input
+                          type="date"
+                          value={task.due_date || ''}
+                          onChange={e => update(task, { due_date: e.target.value })}
+                          aria-label="Due date"
+                        />
+                      </label>
+                      <select
+                        value={task.status}
+                        onChange={e => update(task, { status: e.target.value as MitigationTaskStatus })}
+                        aria-label="Status"
+                      >
+                        {TASK_STATUSES.map(s => <option key={s.status} value={s.status}>{s.label}</option>)}
+                      </select>
+                      <button className="task-remove" onClick={() => remove(task)} aria-label="Remove task">
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MitigationBoard;
@@ -1,16 +1,21 @@
-import React, { useEffect, useState, useRef } from 'react';
-import { API_BASE } from '../config';
+import React, { useEffect, useRef, useState } from 'react';
+import { ProcessingResult } from '../api';
+import { jobManager, useJobs } from '../jobs';
 import { FileText, Loader2 } from 'lucide-react';
-import axios from 'axios';
 
 interface ProcessingStatusProps {
   fileId: string;
   filename: string;
-  onComplete: (result: any) => void;
+  onComplete: (result: ProcessingResult) => void;
   onError: (error: string) => void;
 }
 
-const POLL_INTERVAL_MS = 2000;
+const STATUS_MESSAGES: Record<string, string> = {
+  uploading: 'Uploading...',
+  pending: 'Processing started — checking status...',
+  processing: 'Extracting and cleaning text...',
+  cancelled: 'Processing cancelled'
+};
 
 const ProcessingStatus: React.FC<ProcessingStatusProps> = ({
   fileId,
@@ -18,90 +23,26 @@ const ProcessingStatus: React.FC<ProcessingStatusProps> = ({
   onComplete,
   onError
 }) => {
-  const [statusMessage, setStatusMessage] = useState('Processing...');
-  const pollingRef = useRef<number | null>(null);
+  // Attaches to an existing job for this file if one is already running
+  const [jobId, setJobId] = useState<string | null>(null);
+  const job = useJobs().find(j => j.id === jobId);
 
   useEffect(() => {
-    let cancelled = false;
-
-    const startProcessing = async () => {
-      try {
-  const postUrl = `${API_BASE}/api/process/${fileId}`;
-        const postResp = await axios.post(postUrl);
-
-        // If backend returned immediate result (cached or direct), handle it
-        if (postResp.status === 200) {
-          const payload = postResp.data;
-          const result = payload && payload.result ? payload.result : payload;
-          if (!cancelled) onComplete(result);
-          return;
-        }
-
-        // If processing started (202), poll for completion
-        if (postResp.status === 202) {
-          setStatusMessage('Processing started — checking status...');
-          pollStatus();
-          return;
-        }
-
-        // Fallback: treat response as data
-        const fallback = postResp.data;
-        const result = fallback && fallback.result ? fallback.result : fallback;
-        if (!cancelled) onComplete(result);
-
-      } catch (err: any) {
-        // If server responded with 202 but axios treats as success, handle above. Otherwise handle errors.
-        if (err.response && err.response.status === 202) {
-          setStatusMessage('Processing started — checking status...');
-          pollStatus();
-          return;
-        }
+    setJobId(jobManager.process(fileId, filename).id);
+  }, [fileId, filename]);
 
-        const errorMessage = err.response?.data?.error || 'Processing failed. Please try again.';
-        if (!cancelled) onError(errorMessage);
-      }
-    };
+  // The parent's callbacks change every render; only status transitions should report
+  const callbacksRef = useRef({ onComplete, onError });
+  callbacksRef.current = { onComplete, onError };
+  const status = job?.status;
+  const result = job?.result;
+  const error = job?.error;
 
-    const pollStatus = () => {
-      // clear any existing poll
-      if (pollingRef.current) {
-        window.clearInterval(pollingRef.current);
-      }
-
-      pollingRef.current = window.setInterval(async () => {
-        try {
-          const statusUrl = `${API_BASE}/api/process/status/${fileId}`;
-          const resp = await axios.get(statusUrl);
-          const data = resp.data;
-
-          if (data.status === 'done' && (data.result || data.result === 0)) {
-            // result may be inside data.result or data
-            const result = data.result || data;
-            if (pollingRef.current) {
-              window.clearInterval(pollingRef.current);
-              pollingRef.current = null;
-            }
-            onComplete(result);
-          }
-
-          // You can expand to handle 'error' or other states
-        } catch (err: any) {
-          // keep polling; if too many failures occur, notify user
-          console.warn('Status poll failed, will retry:', err?.message || err);
-        }
-      }, POLL_INTERVAL_MS);
-    };
-
-    startProcessing();
-
-    return () => {
-      cancelled = true;
-      if (pollingRef.current) {
-        window.clearInterval(pollingRef.current);
-        pollingRef.current = null;
-      }
-    };
-  }, [fileId, onComplete, onError]);
+  // Only react to status transitions, not to progress ticks
+  useEffect(() => {
+    if (status === 'done' && result) callbacksRef.current.onComplete(result);
+    if (status === 'error') callbacksRef.current.onError(error || 'Processing failed. Please try again.');
+  }, [status, result, error]);
 
   return (
     <div className="processing-container simple">
@@ -112,10 +53,10 @@ const ProcessingStatus: React.FC<ProcessingStatusProps> = ({
       </div>
       <div className="processing-line">
         <Loader2 className="spinner" />
-        <span className="processing-text">{statusMessage}</span>
+        <span className="processing-text">{(job && STATUS_MESSAGES[job.status]) || 'Processing...'}</span>
       </div>
     </div>
   );
 };
 
-export default ProcessingStatus;
\ No newline at end of file
+export default ProcessingStatus;
@@ -0,0 +1,119 @@
+import React, { useMemo, useState } from 'react';
+import { Download, X } from 'lucide-react';
+import { ChatMessage, Clause, Document, isApiError } from '../api';
+import { ReportFormat, collectReport, exportReport, questionsFrom } from '../report';
+
+interface ReportExportDialogProps {
+  document: Document;
+  documentType: string;
+  jurisdiction: string;
+  // Clauses currently shown in the visualizer, if any
+  clauses: Clause[];
+  chatHistory: ChatMessage[];
+  onClose: () => void;
+}
+
+const FORMATS: Array<{ value: ReportFormat; label: string; hint: string }> = [
+  { value: 'pdf', label: 'PDF', hint: 'Opens the print dialog — choose "Save as PDF"' },
+  { value: 'docx', label: 'Word (.docx)', hint: 'Editable document for redlining' },
+  { value: 'html', label: 'HTML', hint: 'Single self-contained web page' }
+];
+
+// Builds the full analysis report (metadata, clauses, scenarios, references
+// and the chosen Q&A) and hands it to the selected format
+const ReportExportDialog: React.FC<ReportExportDialogProps> = ({ document, documentType, jurisdiction, clauses, chatHistory, onClose }) => {
+  const questions = useMemo(() => questionsFrom(chatHistory), [chatHistory]);
+  const [format, setFormat] = useState<ReportFormat>('pdf');
+  const [selected, setSelected] = useState<string[]>(() => questions.map(q => q.id));
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggle = (questionId: string) =>
+    setSelected(prev => (prev.includes(questionId) ? prev.filter(x => x !== questionId) : [...prev, questionId]));
+
+  const handleExport = async () => {
+    try {
+      setExporting(true);
+      setError(null);
+      const report = await collectReport({
+        document,
+        documentType,
+        jurisdiction,
+        clauses,
+        questions: questions.filter(q => selected.includes(q.id))
+      });
+      await exportReport(report, format);
+      onClose();
+    } catch (e) {
+      console.warn('Report export failed', e);
+      setError(isApiError(e) ? e.message : 'Could not build the report. Please try again.');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="report-dialog-backdrop" onClick={e => e.target === e.currentTarget && !exporting && onClose()}>
+      <div className="report-dialog" role="dialog" aria-labelledby="report-dialog-title">
+        <div className="report-dialog-header">
+          <h3 id="report-dialog-title">Export analysis report</h3>
+          <button className="document-pane-close" onClick={onClose} aria-label="Close" disabled={exporting}>
+            <X size={16} />
+          </button>
+        </div>
+
+        <p className="report-dialog-note">
+          Includes document details, every clause with its risk and highlights, what-if scenarios and legal references.
+        </p>
+
+        <div className="report-section-title">Format</div>
+        <div className="report-formats">
+          {FORMATS.map(f => (
+            <label key={f.value} className={`report-format ${format === f.value ? 'active' : ''}`}>
+              <input type="radio" name="report-format" checked={format === f.value} onChange={() => setFormat(f.value)} />
+              <span className="report-format-label">{f.label}</span>
+              <span className="report-format-hint">{f.hint}</span>
+            </label>
+          ))}
+        </div>
+
+        <div className="report-section-title">
+          Questions &amp; answers ({selected.length} of {questions.length})
+          {questions.length > 0 && (
+            <button
+              className="report-select-all"
+              onClick={() => setSelected(selected.length === questions.length ? [] : questions.map(q => q.id))}
+            >
+              {selected.length === questions.length ? 'Select none' : 'Select all'}
+            </button>
+          )}
+        </div>
+        {questions.length === 0 ? (
+          <p className="report-dialog-note">No answered questions in this thread yet.</p>
+        ) : (
+          <ul className="report-questions">
+            {questions.map(q => (
+              <li key={q.id}>
+                <label>
+                  <input type="checkbox" checked={selected.includes(q.id)} onChange={() => toggle(q.id)} />
+                  <span>{q.question}</span>
+                </label>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {error && <div className="report-dialog-error">{error}</div>}
+
+        <div className="report-dialog-actions">
+          <button onClick={onClose} disabled={exporting}>Cancel</button>
+          <button className="report-export-button" onClick={handleExport} disabled={exporting}>
+            <Download size={14} /> {exporting ? 'Preparing report...' : 'Export'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReportExportDialog;
@@ -1,31 +1,29 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { FileText, Download, RefreshCw, BarChart3, Eye, EyeOff } from 'lucide-react';
+import { DocumentStatistics, ProcessingResult } from '../api';
+import { textStatistics } from '../documents';
 
 interface ResultsDisplayProps {
-  result: {
-    file_id: string;
-    raw_text: string;
-    cleaned_text: string;
-    document_type?: string;
-    guidance?: string;
-    llm_available?: boolean;
-    statistics: {
-      raw_length: number;
-      cleaned_length: number;
-      reduction_percentage: number;
-    };
-  };
-  onReset: () => void;
+  result: ProcessingResult;
+  // Statistics stored with the document (ocr_metadata.statistics); preferred over the result's
+  statistics?: DocumentStatistics;
+  // Type after any user correction; otherwise the detected one
+  documentType?: string;
+  // Names the text downloads after the document
+  fileName?: string;
+  // Without it there is no "Process New Document" header, as in the chat's details panel
+  onReset?: () => void;
 }
 
-const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ result, onReset }) => {
-  // Normalize backend wrapper: some responses use { result: {...}, cached: true }
-  const payload: any = result && (result as any).result ? (result as any).result : result;
-
-  const stats = payload && payload.statistics ? payload.statistics : { raw_length: 0, cleaned_length: 0, reduction_percentage: 0 };
-  const cleanedText = payload && payload.cleaned_text ? payload.cleaned_text : '';
-  const rawText = payload && payload.raw_text ? payload.raw_text : '';
-  const docType = payload && payload.document_type ? payload.document_type : 'Legal Document';
+const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ result, statistics, documentType, fileName, onReset }) => {
+  const cleanedText = result.cleaned_text || '';
+  const rawText = result.raw_text || '';
+  const stats = useMemo(
+    () => textStatistics({ raw_text: rawText, cleaned_text: cleanedText }, statistics || result.statistics),
+    [rawText, cleanedText, statistics, result.statistics]
+  );
+  const docType = documentType || result.document_type || 'Legal Document';
+  const baseName = fileName ? fileName.replace(/\.[^.]+$/, '').replace(/[^\w.-]+/g, '_') : 'document';
 
   const [activeTab, setActiveTab] = useState<'cleaned' | 'original' | 'stats'>('cleaned');
   const [showFullText, setShowFullText] = useState(false);
@@ -59,19 +57,21 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ result, onReset }) => {
 
   return (
     <div className="results-container">
-      <div className="results-header">
-        <div className="header-content">
-          <FileText className="results-icon" />
-          <div>
-            <h2>Document Processing Complete</h2>
-            <p>Your {docType} has been simplified and cleaned</p>
+      {onReset && (
+        <div className="results-header">
+          <div className="header-content">
+            <FileText className="results-icon" />
+            <div>
+              <h2>Document Processing Complete</h2>
+              <p>Your {docType} has been simplified and cleaned</p>
+            </div>
           </div>
+          <button onClick={onReset} className="new-document-button">
+            <RefreshCw className="button-icon" />
+            Process New Document
+          </button>
         </div>
-        <button onClick={onReset} className="new-document-button">
-          <RefreshCw className="button-icon" />
-          Process New Document
-        </button>
-      </div>
+      )}
 
       <div className="results-summary">
         <div className="summary-card">
@@ -83,19 +83,19 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ result, onReset }) => {
             </div>
             <div className="stat">
               <span className="stat-label">Original Length:</span>
-              <span className="stat-value">{stats.raw_length.toLocaleString()} characters</span>
+              <span className="stat-value">{stats.rawLength.toLocaleString()} characters</span>
             </div>
             <div className="stat">
               <span className="stat-label">Cleaned Length:</span>
-              <span className="stat-value">{stats.cleaned_length.toLocaleString()} characters</span>
+              <span className="stat-value">{stats.cleanedLength.toLocaleString()} characters</span>
             </div>
             <div className="stat highlight">
               <span className="stat-label">Noise Removed:</span>
-              <span className="stat-value">{stats.reduction_percentage}%</span>
+              <span className="stat-value">{stats.reductionPercentage}%</span>
             </div>
             <div className="stat">
               <span className="stat-label">AI Analysis:</span>
-              <span className="stat-value">{payload && payload.llm_available ? 'Available' : 'Fallback Mode'}</span>
+              <span className="stat-value">{result.llm_available ? 'Available' : 'Fallback Mode'}</span>
             </div>
           </div>
         </div>
@@ -139,7 +139,7 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ result, onReset }) => {
                   {showFullText ? 'Show Preview' : 'Show Full Text'}
                 </button>
                 <button
-                  onClick={() => downloadText(cleanedText, 'cleaned_document.txt')}
+                  onClick={() => downloadText(cleanedText, `${baseName}_cleaned.txt`)}
                   className="download-button"
                 >
                   <Download className="button-icon" />
@@ -171,7 +171,7 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ result, onReset }) => {
                   {showFullText ? 'Show Preview' : 'Show Full Text'}
                 </button>
                 <button
-                  onClick={() => downloadText(rawText, 'original_document.txt')}
+                  onClick={() => downloadText(rawText, `${baseName}_original.txt`)}
                   className="download-button"
                 >
                   <Download className="button-icon" />
@@ -199,29 +199,33 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ result, onReset }) => {
                 <div className="stat-comparison">
                   <div className="stat-item">
                     <span className="label">Original:</span>
-                    <span className="value">{stats.raw_length.toLocaleString()}</span>
+                    <span className="value">{stats.rawLength.toLocaleString()}</span>
                   </div>
                   <div className="stat-item">
                     <span className="label">Cleaned:</span>
-                    <span className="value">{stats.cleaned_length.toLocaleString()}</span>
+                    <span className="value">{stats.cleanedLength.toLocaleString()}</span>
                   </div>
                   <div className="stat-item reduction">
                     <span className="label">Reduction:</span>
-                    <span className="value">{stats.reduction_percentage}%</span>
+                    <span className="value">{stats.reductionPercentage}%</span>
                   </div>
                 </div>
               </div>
               
               <div className="stat-card">
-                <h4>Word Count (Estimated)</h4>
+                <h4>Word Count</h4>
                 <div className="stat-comparison">
                   <div className="stat-item">
                     <span className="label">Original:</span>
-                    <span className="value">{Math.round(stats.raw_length / 5).toLocaleString()}</span>
+                    <span className="value">{stats.rawWords.toLocaleString()}</span>
                   </div>
                   <div className="stat-item">
                     <span className="label">Cleaned:</span>
-                    <span className="value">{Math.round(stats.cleaned_length / 5).toLocaleString()}</span>
+                    <span className="value">{stats.cleanedWords.toLocaleString()}</span>
+                  </div>
+                  <div className="stat-item reduction">
+                    <span className="label">Removed:</span>
+                    <span className="value">{Math.max(0, stats.rawWords - stats.cleanedWords).toLocaleString()}</span>
                   </div>
                 </div>
               </div>
@@ -244,9 +248,9 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ result, onReset }) => {
       {/* AI Guidance section - shown below all content */}
       <div className="ai-guidance">
         <h3>AI Guidance</h3>
-        {payload && payload.guidance ? (
+        {result.guidance ? (
           <div className="guidance-content">
-            {formatText(payload.guidance)}
+            {formatText(result.guidance)}
           </div>
         ) : (
           <p className="no-guidance">AI guidance not available for this document.</p>
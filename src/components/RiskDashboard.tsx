@@ -0,0 +1,201 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X } from 'lucide-react';
+import { Clause, Document, RiskLevel, isApiError } from '../api';
+import {
+  MatrixScenario,
+  RISK_LEVELS,
+  clausesForDocument,
+  countRisks,
+  heatStrip,
+  overallRiskScore,
+  riskMatrix,
+  scenariosFor,
+  scoreLevel,
+  unlessFailed
+} from '../report';
+import { isAbortError } from '../enrichment';
+
+interface RiskDashboardProps {
+  document: Document;
+  documentType: string;
+  jurisdiction: string;
+  // Clauses currently shown in the visualizer, if any
+  clauses: Clause[];
+  // Jump to a clause (in the document pane and visualizer)
+  onSelectClause?: (clause: Clause) => void;
+  onClose: () => void;
+}
+
+const LEVEL_LABEL: Record<RiskLevel, string> = { low: 'Low', medium: 'Medium', high: 'High' };
+// Drawn in this order so higher risk sits on top where clauses overlap
+const LAYER: Record<RiskLevel, number> = { low: 1, medium: 2, high: 3 };
+
+const clauseLabel = (clause: Clause) =>
+  clause.clause_headline || (clause.clause_text.length > 80 ? `${clause.clause_text.slice(0, 80)}…` : clause.clause_text);
+
+// Whole-document triage view: an overall score, counts per risk level, where
+// the risky clauses sit in the document and how their scenarios spread over
+// likelihood × impact
+const RiskDashboard: React.FC<RiskDashboardProps> = ({ document, documentType, jurisdiction, clauses, onSelectClause, onClose }) => {
+  const [source, setSource] = useState<Clause[] | null>(null);
+  const [scenarios, setScenarios] = useState<MatrixScenario[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [cell, setCell] = useState<null | { likelihood: RiskLevel; impact: RiskLevel }>(null);
+
+  useEffect(() => {
+    let mounted = true;
+    // Closing the dashboard drops its scenario requests that are still queued
+    const controller = new AbortController();
+    setError(null);
+    setScenarios(null);
+    clausesForDocument(document.id, clauses)
+      .then(async list => {
+        if (!mounted) return;
+        setSource(list);
+        // A clause whose scenarios could not be fetched just adds none to the matrix
+        const perClause = await Promise.all(list.map(clause => unlessFailed(scenariosFor(clause, documentType, jurisdiction, controller.signal))));
+        if (mounted) setScenarios(list.flatMap((clause, i) => (perClause[i] || []).map(scenario => ({ scenario, clause }))));
+      })
+      .catch(err => {
+        if (mounted && !isAbortError(err)) setError(isApiError(err) ? err.message : 'Failed to load clauses for the dashboard');
+      });
+    return () => {
+      mounted = false;
+      controller.abort();
+    };
+  }, [document.id, documentType, jurisdiction, clauses]);
+
+  const counts = useMemo(() => countRisks(source || []), [source]);
+  const score = useMemo(() => overallRiskScore(source || []), [source]);
+  const strip = useMemo(
+    () => heatStrip(source || [], document.ocr_metadata?.statistics?.cleaned_length),
+    [source, document.ocr_metadata]
+  );
+  const matrix = useMemo(() => riskMatrix(scenarios || []), [scenarios]);
+  const busiestCell = useMemo(
+    () => Math.max(1, ...RISK_LEVELS.flatMap(l => RISK_LEVELS.map(i => matrix[l][i].length))),
+    [matrix]
+  );
+  const selected = cell ? matrix[cell.likelihood][cell.impact] : [];
+
+  return (
+    <div className="risk-dashboard">
+      <div className="risk-dashboard-header">
+        <h4>Document risk overview</h4>
+        <button className="document-pane-close" onClick={onClose} aria-label="Close dashboard">
+          <X size={16} />
+        </button>
+      </div>
+
+      {error && <div className="document-pane-empty">{error}</div>}
+      {!source && !error && (
+        <div className="legal-loading">
+          <div className="spinner-small"></div>
+          <span>Scoring clauses...</span>
+        </div>
+      )}
+
+      {source && source.length === 0 && <div className="document-pane-empty">No clauses found in this document.</div>}
+
+      {source && source.length > 0 && (
+        <>
+          <div className="risk-summary">
+            <div className={`risk-score ${scoreLevel(score)}`} title="Average clause risk, weighted towards the riskiest clause">
+              <span className="risk-score-value">{score}</span>
+              <span className="risk-score-label">{LEVEL_LABEL[scoreLevel(score)]} risk</span>
+            </div>
+            <div className="risk-level-counts">
+              {[...RISK_LEVELS].reverse().map(level => (
+                <div key={level} className={`risk-level-count ${level}`}>
+                  <span className="risk-level-number">{counts[level]}</span>
+                  <span>{LEVEL_LABEL[level]}</span>
+                </div>
+              ))}
+              <div className="risk-level-count total">
+                <span className="risk-level-number">{source.length}</span>
+                <span>Clauses</span>
+              </div>
+            </div>
+          </div>
+
+          <div className="risk-section-title">Where the risk is</div>
+          <div className="risk-heat-strip" role="list" aria-label="Clause risk along the document">
+            {strip.placed.map(({ clause, start, end }) => (
+              <button
+                key={clause.id}
+                role="listitem"
+                className={`risk-heat-segment ${clause.risk}`}
+                style={{ left: `${start * 100}%`, width: `max(${(end - start) * 100}%, 4px)`, zIndex: LAYER[clause.risk] }}
+                title={`${clauseLabel(clause)} — ${clause.risk} risk`}
+                onClick={() => onSelectClause?.(clause)}
+              />
+            ))}
+          </div>
+          <div className="risk-heat-axis">
+            <span>Start</span>
+            <span>End of document</span>
+          </div>
+          {strip.unplaced.length > 0 && (
+            <p className="risk-note">
+              {strip.unplaced.length} clause{strip.unplaced.length === 1 ? ' has' : 's have'} no position and {strip.unplaced.length === 1 ? 'is' : 'are'} not shown on the strip.
+            </p>
+          )}
+
+          <div className="risk-section-title">Scenarios by likelihood × impact</div>
+          {!scenarios ? (
+            <div className="legal-loading">
+              <div className="spinner-small"></div>
+              <span>Loading what-if scenarios...</span>
+            </div>
+          ) : (
+            <div className="risk-matrix">
+              <div className="risk-matrix-axis-y">Likelihood</div>
+              <div className="risk-matrix-grid">
+                {[...RISK_LEVELS].reverse().map(likelihood => (
+                  <React.Fragment key={likelihood}>
+                    <div className="risk-matrix-row-label">{LEVEL_LABEL[likelihood]}</div>
+                    {RISK_LEVELS.map(impact => {
+                      const entries = matrix[likelihood][impact];
+                      const severity = LAYER[likelihood] + LAYER[impact];
+                      const active = cell?.likelihood === likelihood && cell.impact === impact;
+                      return (
+                        <button
+                          key={impact}
+                          className={`risk-matrix-cell severity-${severity} ${active ? 'active' : ''}`}
+                          style={{ opacity: entries.length ? 0.45 + 0.55 * (entries.length / busiestCell) : 0.25 }}
+                          onClick={() => setCell(active ? null : { likelihood, impact })}
+                          disabled={entries.length === 0}
+                          aria-label={`${entries.length} scenarios with ${likelihood} likelihood and ${impact} impact`}
+                        >
+                          {entries.length || ''}
+                        </button>
+                      );
+                    })}
+                  </React.Fragment>
+                ))}
+                <div />
+                {RISK_LEVELS.map(impact => <div key={impact} className="risk-matrix-col-label">{LEVEL_LABEL[impact]}</div>)}
+              </div>
+              <div className="risk-matrix-axis-x">Impact</div>
+            </div>
+          )}
+
+          {cell && selected.length > 0 && (
+            <ul className="risk-matrix-scenarios">
+              {selected.map(({ scenario, clause }, i) => (
+                <li key={`${clause.id}-${scenario.id}-${i}`}>
+                  <strong>{scenario.title}</strong>
+                  <button className="risk-matrix-clause" onClick={() => onSelectClause?.(clause)}>
+                    {clauseLabel(clause)}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RiskDashboard;
@@ -0,0 +1,55 @@
+import React from 'react';
+import { Markdown } from './Markdown';
+
+interface StreamingMessageProps {
+  text: string;
+  streaming?: boolean;
+}
+
+const LIST_ITEM = /^ {0,3}(?:[-*+]|\d{1,9}[.)])(?:[ \t]|$)/;
+const TABLE_ROW = /^ {0,3}\|/;
+const REFERENCE_DEFINITION = /^ {0,3}\[[^\]]+\]:[ \t]*\S/m;
+
+// Whether `part`, after a blank line, still belongs to the markdown of `block`:
+// the rest of an open code fence, the next item or an indented paragraph of a
+// (loose) list, or more rows of a table
+const continues = (block: string, part: string) => {
+  if ((block.match(/```/g) || []).length % 2 === 1) return true;
+  const lines = block.split('\n');
+  if (lines.some(line => LIST_ITEM.test(line)) && (LIST_ITEM.test(part) || /^[ \t]/.test(part))) return true;
+  return TABLE_ROW.test(lines[lines.length - 1]) && TABLE_ROW.test(part);
+};
+
+// Split on blank lines so finished paragraphs can be memoized. Lists, tables
+// and code fences stay in one block, so each block renders as it will once
+// the reply is complete. Reference-style link definitions apply to the whole
+// reply, so a reply with any renders as a single block.
+const splitBlocks = (text: string) => {
+  if (REFERENCE_DEFINITION.test(text)) return [text];
+  const blocks: string[] = [];
+  text.split(/\n{2,}/).forEach(part => {
+    const last = blocks[blocks.length - 1];
+    if (last !== undefined && continues(last, part)) {
+      blocks[blocks.length - 1] = `${last}\n\n${part}`;
+    } else {
+      blocks.push(part);
+    }
+  });
+  return blocks;
+};
+
+const MarkdownBlock = React.memo(({ source }: { source: string }) => <Markdown source={source} />);
+
+// Renders an assistant reply while its tokens are still arriving. Only the
+// trailing block re-renders on each update, so long answers stay cheap.
+export const StreamingMessage: React.FC<StreamingMessageProps> = ({ text, streaming = false }) => {
+  const blocks = splitBlocks(text);
+  return (
+    <span>
+      {blocks.map((block, index) => <MarkdownBlock key={index} source={block} />)}
+      {streaming && <span className="typing-cursor">|</span>}
+    </span>
+  );
+};
+
+export default StreamingMessage;
@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { Pencil, Plus, X } from 'lucide-react';
+import { ChatThread } from '../api';
+
+interface ThreadTabsProps {
+  threads: ChatThread[];
+  activeThreadId: string | null;
+  onSelect: (threadId: string) => void;
+  onCreate: (title: string) => void;
+  onRename: (threadId: string, title: string) => void;
+  onDelete: (threadId: string) => void;
+}
+
+// Conversation switcher shown under the chat header. Titles are edited in
+// place: double-click (or the pencil) renames, "+" asks for a new title.
+const ThreadTabs: React.FC<ThreadTabsProps> = ({ threads, activeThreadId, onSelect, onCreate, onRename, onDelete }) => {
+  // 'new' while naming a thread that does not exist yet
+  const [editing, setEditing] = useState<null | { threadId: string | 'new'; value: string }>(null);
+
+  const commit = () => {
+    if (!editing) return;
+    const title = editing.value.trim();
+    setEditing(null);
+    if (!title) return;
+    if (editing.threadId === 'new') onCreate(title);
+    else if (title !== threads.find(t => t.id === editing.threadId)?.title) onRename(editing.threadId, title);
+  };
+
+  const renderInput = () => (
+    <input
+      className="thread-tab-input"
+      autoFocus
+      value={editing?.value || ''}
+      placeholder="Thread name"
+      maxLength={80}
+      onChange={e => setEditing(prev => prev && { ...prev, value: e.target.value })}
+      onBlur={commit}
+      onKeyDown={e => {
+        if (e.key === 'Enter') commit();
+        if (e.key === 'Escape') setEditing(null);
+      }}
+    />
+  );
+
+  return (
+    <div className="thread-tabs" role="tablist">
+      {threads.map(thread => {
+        const active = thread.id === activeThreadId;
+        if (editing?.threadId === thread.id) {
+          return <div key={thread.id} className="thread-tab active editing">{renderInput()}</div>;
+        }
+        return (
+          <div
+            key={thread.id}
+            role="tab"
+            aria-selected={active}
+            className={`thread-tab ${active ? 'active' : ''}`}
+            onClick={() => !active && onSelect(thread.id)}
+            onDoubleClick={() => setEditing({ threadId: thread.id, value: thread.title })}
+            title={thread.title}
+          >
+            <span className="thread-tab-title">{thread.title}</span>
+            {active && (
+              <button
+                className="thread-tab-action"
+                aria-label="Rename thread"
+                onClick={e => { e.stopPropagation(); setEditing({ threadId: thread.id, value: thread.title }); }}
+              >
+                <Pencil size={12} />
+              </button>
+            )}
+            <button
+              className="thread-tab-action"
+              aria-label="Delete thread"
+              onClick={e => {
+                e.stopPropagation();
+                if (window.confirm(`Delete "${thread.title}" and its messages?`)) onDelete(thread.id);
+              }}
+            >
+              <X size={12} />
+            </button>
+          </div>
+        );
+      })}
+      {editing?.threadId === 'new' ? (
+        <div className="thread-tab active editing">{renderInput()}</div>
+      ) : (
+        <button className="thread-tab-new" onClick={() => setEditing({ threadId: 'new', value: '' })} title="New thread">
+          <Plus size={14} /> New thread
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ThreadTabs;
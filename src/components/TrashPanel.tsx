@@ -0,0 +1,122 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ArrowLeft, RotateCcw, Trash2 } from 'lucide-react';
+import { Document, deleteChat, isApiError, listTrash, restoreDocuments } from '../api';
+
+interface TrashPanelProps {
+  // Called after documents come back into the list
+  onRestored: () => void;
+  onClose: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Whole days left before the backend removes a trashed document for good
+const daysLeft = (deletedAt: string | null | undefined, retentionDays: number) => {
+  const deleted = deletedAt ? new Date(deletedAt).getTime() : NaN;
+  if (Number.isNaN(deleted)) return retentionDays;
+  return Math.max(0, Math.ceil((deleted + retentionDays * DAY_MS - Date.now()) / DAY_MS));
+};
+
+// Soft-deleted documents, shown in place of the sidebar's document list
+const TrashPanel: React.FC<TrashPanelProps> = ({ onRestored, onClose }) => {
+  const [documents, setDocuments] = useState<Document[] | null>(null);
+  const [retentionDays, setRetentionDays] = useState(0);
+  const [busyIds, setBusyIds] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const trash = await listTrash();
+      setDocuments(trash.documents);
+      setRetentionDays(trash.retention_days);
+    } catch (err) {
+      setError(isApiError(err) ? err.message : 'Failed to load the trash');
+      setDocuments([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleRestore = async (ids: string[]) => {
+    setBusyIds(ids);
+    setError(null);
+    try {
+      await restoreDocuments(ids);
+      onRestored();
+      await load();
+    } catch (err) {
+      setError(isApiError(err) ? err.message : 'Failed to restore');
+    } finally {
+      setBusyIds([]);
+    }
+  };
+
+  const handleDeleteForever = async (ids: string[]) => {
+    const prompt = ids.length === 1
+      ? 'Delete this document for good? Its chats and analysis cannot be recovered.'
+      : `Delete ${ids.length} documents for good? Their chats and analysis cannot be recovered.`;
+    if (!window.confirm(prompt)) return;
+    setBusyIds(ids);
+    setError(null);
+    const results = await Promise.allSettled(ids.map(docId => deleteChat(docId)));
+    const failed = results.filter(r => r.status === 'rejected').length;
+    if (failed) setError(`${failed} of ${ids.length} documents could not be deleted`);
+    setBusyIds([]);
+    await load();
+  };
+
+  return (
+    <div className="trash-panel">
+      <div className="trash-header">
+        <button className="trash-back" onClick={onClose}>
+          <ArrowLeft size={14} /> Documents
+        </button>
+        {documents && documents.length > 0 && (
+          <button
+            className="trash-empty"
+            disabled={busyIds.length > 0}
+            onClick={() => handleDeleteForever(documents.map(d => d.id))}
+          >
+            Empty trash
+          </button>
+        )}
+      </div>
+      {retentionDays > 0 && (
+        <p className="trash-note">Deleted documents are removed for good after {retentionDays} days.</p>
+      )}
+      {error && <div className="job-error">{error}</div>}
+      {!documents ? (
+        <div className="no-documents"><p>Loading...</p></div>
+      ) : documents.length === 0 ? (
+        <div className="no-documents">
+          <p>Trash is empty</p>
+        </div>
+      ) : (
+        documents.map(doc => {
+          const left = daysLeft(doc.deleted_at, retentionDays);
+          const busy = busyIds.includes(doc.id);
+          return (
+            <div key={doc.id} className="trash-item">
+              <div className="document-name" title={doc.file_name}>{doc.file_name}</div>
+              <div className="trash-meta">
+                {left === 0 ? 'Removed today' : `Removed in ${left} day${left === 1 ? '' : 's'}`}
+              </div>
+              <div className="trash-actions">
+                <button disabled={busy} onClick={() => handleRestore([doc.id])}>
+                  <RotateCcw size={12} /> Restore
+                </button>
+                <button disabled={busy} onClick={() => handleDeleteForever([doc.id])} aria-label={`Delete ${doc.file_name} for good`}>
+                  <Trash2 size={12} /> Delete forever
+                </button>
+              </div>
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+};
+
+export default TrashPanel;
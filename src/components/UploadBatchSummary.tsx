@@ -0,0 +1,79 @@
+import React from 'react';
+import { CheckCircle2, AlertCircle, Loader2, RotateCcw } from 'lucide-react';
+import { Document } from '../api';
+import { isActiveJob, jobManager, useJobs } from '../jobs';
+
+interface UploadBatchSummaryProps {
+  documents: Document[];
+  onSelectDocument: (document: Document) => void;
+}
+
+// Summary of the most recent batch upload: which files are ready (and made it
+// into the sidebar), which are still running and which failed.
+const UploadBatchSummary: React.FC<UploadBatchSummaryProps> = ({ documents, onSelectDocument }) => {
+  const jobs = useJobs();
+  const batchId = [...jobs].reverse().find(j => j.batchId)?.batchId;
+  if (!batchId) return null;
+
+  const batchJobs = jobs.filter(j => j.batchId === batchId);
+  const ready = batchJobs.filter(j => j.status === 'done');
+  const failed = batchJobs.filter(j => j.status === 'error' || j.status === 'cancelled');
+  const running = batchJobs.filter(isActiveJob);
+  const documentFor = (documentId?: string) => documents.find(d => d.id === documentId);
+
+  return (
+    <div className="batch-summary">
+      <div className="batch-summary-header">
+        <div>
+          <h4>Batch upload</h4>
+          <p>
+            {ready.length} of {batchJobs.length} ready
+            {failed.length > 0 && ` · ${failed.length} failed`}
+            {running.length > 0 && ` · ${running.length} in progress`}
+          </p>
+        </div>
+        <div className="batch-summary-actions">
+          {failed.length > 0 && (
+            <button onClick={() => jobManager.retryFailed(batchId)}>
+              <RotateCcw size={14} /> Retry failed
+            </button>
+          )}
+          {running.length === 0 && (
+            <button onClick={() => jobManager.clearBatch(batchId)}>Clear</button>
+          )}
+        </div>
+      </div>
+
+      <ul className="batch-summary-list">
+        {batchJobs.map(job => {
+          const doc = documentFor(job.documentId);
+          return (
+            <li key={job.id} className={`batch-summary-item ${job.status}`}>
+              {job.status === 'done' ? (
+                <CheckCircle2 size={16} className="batch-icon" />
+              ) : isActiveJob(job) ? (
+                <Loader2 size={16} className="batch-icon spinning" />
+              ) : (
+                <AlertCircle size={16} className="batch-icon" />
+              )}
+              <span className="batch-file" title={job.filename}>{job.filename}</span>
+              {job.status === 'done' && (
+                doc ? (
+                  <button className="batch-open" onClick={() => onSelectDocument(doc)}>In sidebar · Open</button>
+                ) : (
+                  <span className="batch-note">Ready</span>
+                )
+              )}
+              {isActiveJob(job) && <span className="batch-note">{job.progress}%</span>}
+              {!isActiveJob(job) && job.status !== 'done' && (
+                <span className="batch-note error" title={job.error}>{job.error || 'Cancelled'}</span>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default UploadBatchSummary;
@@ -1,49 +1,115 @@
-import React, { useState, useEffect } from 'react';
-import { API_BASE } from '../config';
-import { AlertTriangle, TrendingUp, TrendingDown, HelpCircle, ChevronDown, ChevronUp } from 'lucide-react';
-
-interface Scenario {
-  id: string;
-  title: string;
-  description: string;
-  likelihood: 'high' | 'medium' | 'low';
-  impact: 'high' | 'medium' | 'low';
-  category: 'breach' | 'compliance' | 'financial' | 'operational' | 'legal';
-  outcomes: string[];
-  mitigation: string[];
-  precedent?: string;
-}
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { ExposureParameter, MitigationTask, Scenario, askWhatIf, isApiError } from '../api';
+import { estimateExposure, excludedNote, formatRange } from '../exposure';
+import { getMockScenarios } from '../api/mock';
+import { enrichmentScheduler, isAbortError } from '../enrichment';
+import { TASK_STATUSES, findTrackedTask, isTaskForScenario } from '../tasks';
+import { AlertTriangle, TrendingUp, TrendingDown, HelpCircle, ChevronDown, ChevronUp, RefreshCw, MessageSquarePlus, ListPlus, ListChecks } from 'lucide-react';
 
 interface WhatIfScenariosProps {
   clauseText: string;
   documentType: string;
   clauseType?: string;
+  jurisdiction?: string;
+  // Clause terms for the exposure estimate on breach and financial scenarios
+  exposureParameters?: ExposureParameter[];
+  currency?: string;
   clauseId?: string;
   onScenariosGenerated?: (clauseId: string | undefined, scenarios: Scenario[]) => void;
   initialScenarios?: Scenario[] | null;
+  // Mitigation tasks created from this clause; their mitigations show as tracked
+  tasks?: MitigationTask[];
+  // Offers a "Track" action on each mitigation when set
+  onTrackMitigation?: (scenario: Scenario, mitigation: string) => void;
+  // Task opened from the task board; expands the panel and scrolls to its
+  // scenario. The nonce repeats the jump for the same task.
+  focus?: { task: MitigationTask; nonce: number };
+}
+
+// Regeneration and questions have no offline stand-in, so their failures are shown as they are
+const failureReason = (error: unknown) =>
+  isApiError(error) && error.status === 0
+    ? 'the what-if service is unreachable.'
+    : (error instanceof Error && error.message) || 'the what-if service is unavailable.';
+
+// A scenario set replaced by regeneration, kept to compare against
+interface ScenarioRound {
+  round: number;
+  scenarios: Scenario[];
 }
 
 const WhatIfScenarios: React.FC<WhatIfScenariosProps> = ({
   clauseText,
   documentType,
   clauseType,
+  jurisdiction,
+  exposureParameters,
+  currency = 'INR',
   clauseId,
   onScenariosGenerated,
-  initialScenarios
+  initialScenarios,
+  tasks = [],
+  onTrackMitigation,
+  focus
 }) => {
   const [scenarios, setScenarios] = useState<Scenario[]>([]);
   const [loading, setLoading] = useState(false);
   const [expanded, setExpanded] = useState(false);
-  // const [selectedScenario, setSelectedScenario] = useState<string | null>(null);
+  // Regeneration round of the current set, and the sets it replaced (newest first)
+  const [round, setRound] = useState(1);
+  const [previousRounds, setPreviousRounds] = useState<ScenarioRound[]>([]);
+  const [compareRound, setCompareRound] = useState<number | null>(null);
+  const [regenerating, setRegenerating] = useState(false);
+  const [question, setQuestion] = useState('');
+  const [asking, setAsking] = useState(false);
+  // Why the last regenerate or question failed; the current set stays as it was
+  const [actionError, setActionError] = useState<string | null>(null);
+  const actionControllerRef = useRef<AbortController | null>(null);
+  // Set once the first set is in, so collapsing and expanding keeps later rounds and questions
+  const loadedRef = useRef(false);
+  const cardRefs = useRef<Record<string, HTMLDivElement | null>>({});
+  // Parents pass a new callback every render; fetching only follows the clause
+  const onGeneratedRef = useRef(onScenariosGenerated);
+  onGeneratedRef.current = onScenariosGenerated;
+
+  const notifyGenerated = useCallback((next: Scenario[]) => {
+    const onGenerated = onGeneratedRef.current;
+    if (typeof onGenerated !== 'function') return;
+    try { onGenerated(clauseId, next); } catch (err) { console.warn('onScenariosGenerated callback failed', err); }
+  }, [clauseId]);
+
+  useEffect(() => {
+    if (focus) setExpanded(true);
+  }, [focus]);
 
   useEffect(() => {
+    if (!focus || !expanded || loading) return;
+    const match = scenarios.find(s => isTaskForScenario(focus.task, s));
+    if (match) cardRefs.current[match.id]?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [focus, expanded, loading, scenarios]);
+
+  // Earlier rounds and pending requests belong to the previous clause or context
+  useEffect(() => {
+    loadedRef.current = false;
+    setScenarios([]);
+    setRound(1);
+    setPreviousRounds([]);
+    setCompareRound(null);
+    setQuestion('');
+    setActionError(null);
+    return () => actionControllerRef.current?.abort();
+  }, [clauseText, documentType, clauseType, jurisdiction]);
+
+  useEffect(() => {
+    // Collapsing, new props or unmounting cancels a request still waiting in the queue
+    const controller = new AbortController();
     const fetchScenarios = async () => {
+      if (loadedRef.current) return;
       // If initial scenarios are provided, use them and skip fetching
       if (initialScenarios && initialScenarios.length) {
+        loadedRef.current = true;
         setScenarios(initialScenarios);
-        if (typeof onScenariosGenerated === 'function') {
-          try { onScenariosGenerated(clauseId, initialScenarios); } catch (err) { console.warn('onScenariosGenerated failed', err); }
-        }
+        notifyGenerated(initialScenarios);
         return;
       }
 
@@ -51,41 +117,21 @@ const WhatIfScenarios: React.FC<WhatIfScenariosProps> = ({
         setLoading(true);
         try {
           // Call backend API to get what-if scenarios
-          const response = await fetch(`${API_BASE}/api/what-if-scenarios`, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              clauseText,
-              documentType,
-              clauseType
-            }),
-          });
-
-          if (response.ok) {
-            const data = await response.json();
-            const fetched = data.scenarios || [];
-            setScenarios(fetched);
-            // notify parent/cache
-            if (typeof onScenariosGenerated === 'function') {
-              try { onScenariosGenerated(clauseId, fetched); } catch (err) { console.warn('onScenariosGenerated callback failed', err); }
-            }
-          } else {
-            // Fallback to mock data if API not available
-            const mock = getMockScenarios(documentType, clauseType);
-            setScenarios(mock);
-            if (typeof onScenariosGenerated === 'function') {
-              try { onScenariosGenerated(clauseId, mock); } catch (err) { console.warn('onScenariosGenerated callback failed', err); }
-            }
-          }
+          const fetched = await enrichmentScheduler.scenarios(
+            { clauseText, documentType, clauseType, jurisdiction },
+            { signal: controller.signal, priority: true }
+          );
+          loadedRef.current = true;
+          setScenarios(fetched);
+          notifyGenerated(fetched);
         } catch (error) {
+          if (isAbortError(error)) return;
+          // Fallback to mock data if API not available
           console.warn('What-if scenarios API unavailable, using mock data');
-          const mock = getMockScenarios(documentType, clauseType);
+          const mock = getMockScenarios(documentType, clauseType, jurisdiction);
+          loadedRef.current = true;
           setScenarios(mock);
-          if (typeof onScenariosGenerated === 'function') {
-            try { onScenariosGenerated(clauseId, mock); } catch (err) { console.warn('onScenariosGenerated callback failed', err); }
-          }
+          notifyGenerated(mock);
         } finally {
           setLoading(false);
         }
@@ -93,165 +139,73 @@ const WhatIfScenarios: React.FC<WhatIfScenariosProps> = ({
     };
     
     fetchScenarios();
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [clauseText, documentType, clauseType, expanded]);
+    return () => controller.abort();
+  }, [clauseText, documentType, clauseType, jurisdiction, expanded, initialScenarios, notifyGenerated]);
 
-  const getMockScenarios = (docType: string, clType?: string): Scenario[] => {
-    const baseScenarios: Scenario[] = [];
-    
-    // Common scenarios for all legal documents
-    baseScenarios.push({
-      id: 'breach_scenario',
-      title: 'Clause Breach Scenario',
-      description: 'What happens if this clause is violated or not fulfilled',
-      likelihood: 'medium',
-      impact: 'high',
-      category: 'breach',
-      outcomes: [
-        'Legal action may be initiated by the non-breaching party',
-        'Damages or penalties as specified in the contract may apply',
-        'Relationship between parties may be strained or terminated'
-      ],
-      mitigation: [
-        'Implement clear monitoring and compliance procedures',
-        'Regular review and communication between parties',
-        'Consider adding grace periods or cure provisions'
-      ]
-    });
-
-    // Document type specific scenarios
-    if (docType.toLowerCase().includes('contract') || docType.toLowerCase().includes('agreement')) {
-      baseScenarios.push(
-        {
-          id: 'payment_delay',
-          title: 'Payment Delay Scenario',
-          description: 'Analysis of delayed payment implications',
-          likelihood: 'high',
-          impact: 'medium',
-          category: 'financial',
-          outcomes: [
-            'Interest charges may accrue on overdue amounts',
-            'Services may be suspended until payment is received',
-            'Credit rating impact for the defaulting party'
-          ],
-          mitigation: [
-            'Establish clear payment terms and schedules',
-            'Implement automated payment reminders',
-            'Consider requiring deposits or guarantees'
-          ]
-        },
-        {
-          id: 'scope_creep',
-          title: 'Scope Expansion Scenario',
-          description: 'What if project scope expands beyond agreed terms',
-          likelihood: 'medium',
-          impact: 'medium',
-          category: 'operational',
-          outcomes: [
-            'Additional costs may not be covered',
-            'Timeline delays and resource strain',
-            'Disputes over responsibility and compensation'
-          ],
-          mitigation: [
-            'Define clear change management procedures',
-            'Require written approval for scope changes',
-            'Establish pricing for additional work'
-          ]
-        }
-      );
-    }
+  const publish = (next: Scenario[]) => {
+    setScenarios(next);
+    notifyGenerated(next);
+  };
 
-    if (docType.toLowerCase().includes('lease') || docType.toLowerCase().includes('rental')) {
-      baseScenarios.push(
-        {
-          id: 'property_damage',
-          title: 'Property Damage Scenario',
-          description: 'Implications of property damage during lease term',
-          likelihood: 'low',
-          impact: 'high',
-          category: 'legal',
-          outcomes: [
-            'Tenant may be liable for repair costs',
-            'Security deposit may be forfeited',
-            'Insurance claims and potential premium increases'
-          ],
-          mitigation: [
-            'Require comprehensive tenant insurance',
-            'Conduct regular property inspections',
-            'Clearly define normal wear vs. damage'
-          ],
-          precedent: 'Model Tenancy Act 2021, Section 7'
-        },
-        {
-          id: 'early_termination',
-          title: 'Early Lease Termination',
-          description: 'Financial and legal consequences of breaking the lease',
-          likelihood: 'medium',
-          impact: 'medium',
-          category: 'financial',
-          outcomes: [
-            'Early termination penalties may apply',
-            'Loss of security deposit',
-            'Difficulty finding alternative accommodation'
-          ],
-          mitigation: [
-            'Include reasonable termination clauses',
-            'Allow subletting with landlord approval',
-            'Consider graduated penalty structure'
-          ]
-        }
-      );
-    }
+  const startAction = () => {
+    actionControllerRef.current?.abort();
+    actionControllerRef.current = new AbortController();
+    setActionError(null);
+    return actionControllerRef.current.signal;
+  };
 
-    if (docType.toLowerCase().includes('employment')) {
-      baseScenarios.push(
-        {
-          id: 'termination_dispute',
-          title: 'Wrongful Termination Scenario',
-          description: 'Legal implications of disputed employment termination',
-          likelihood: 'medium',
-          impact: 'high',
-          category: 'legal',
-          outcomes: [
-            'Labor court proceedings and legal costs',
-            'Potential compensation for wrongful dismissal',
-            'Reputational impact on employer'
-          ],
-          mitigation: [
-            'Follow proper disciplinary procedures',
-            'Document performance issues clearly',
-            'Provide adequate notice or compensation'
-          ],
-          precedent: 'Industrial Disputes Act 1947'
-        }
-      );
+  // Ask for a different set; the current one is kept for comparison and the
+  // reviewer's own questions carry over to the new set
+  const handleRegenerate = async () => {
+    const signal = startAction();
+    // Always a round not seen yet, even after going back to an earlier set
+    const nextRound = Math.max(round, ...previousRounds.map(r => r.round)) + 1;
+    const request = { clauseText, documentType, clauseType, jurisdiction, round: nextRound };
+    setRegenerating(true);
+    let generated: Scenario[];
+    try {
+      generated = await enrichmentScheduler.scenarios(request, { signal, priority: true });
+    } catch (error) {
+      if (isAbortError(error)) return;
+      setActionError(`Could not generate a new set: ${failureReason(error)}`);
+      return;
+    } finally {
+      if (!signal.aborted) setRegenerating(false);
     }
+    setPreviousRounds(prev => [{ round, scenarios }, ...prev]);
+    setCompareRound(round);
+    setRound(nextRound);
+    publish([...generated, ...scenarios.filter(s => s.question)]);
+  };
 
-    if (docType.toLowerCase().includes('privacy') || docType.toLowerCase().includes('data')) {
-      baseScenarios.push(
-        {
-          id: 'data_breach',
-          title: 'Data Breach Scenario',
-          description: 'Consequences of personal data compromise',
-          likelihood: 'low',
-          impact: 'high',
-          category: 'compliance',
-          outcomes: [
-            'Regulatory fines under DPDP Act 2023',
-            'Mandatory breach notification to authorities',
-            'Individual compensation claims'
-          ],
-          mitigation: [
-            'Implement robust data security measures',
-            'Regular security audits and updates',
-            'Data breach response plan'
-          ],
-          precedent: 'DPDP Act 2023, Section 33'
-        }
-      );
-    }
+  // Make an earlier set current again; the one it replaces joins the history
+  const handleUseRound = (earlier: ScenarioRound) => {
+    setPreviousRounds(prev => [{ round, scenarios }, ...prev.filter(r => r.round !== earlier.round)]);
+    setCompareRound(round);
+    setRound(earlier.round);
+    publish(earlier.scenarios);
+  };
 
-    return baseScenarios;
+  const handleAsk = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const asked = question.trim();
+    if (!asked || asking) return;
+    const signal = startAction();
+    const request = { clauseText, documentType, clauseType, jurisdiction, question: asked };
+    setAsking(true);
+    let answer: Scenario;
+    try {
+      answer = await askWhatIf(request, signal);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      // The question stays in the box so it can be asked again
+      setActionError(`Could not answer your question: ${failureReason(error)}`);
+      return;
+    } finally {
+      if (!signal.aborted) setAsking(false);
+    }
+    setQuestion('');
+    publish([...scenarios, { ...answer, question: answer.question || asked }]);
   };
 
   const getLikelihoodColor = (likelihood: string) => {
@@ -283,8 +237,86 @@ const WhatIfScenarios: React.FC<WhatIfScenariosProps> = ({
     }
   };
 
+  const renderCard = (scenario: Scenario) => {
+    const exposure = exposureParameters ? estimateExposure(scenario, exposureParameters, currency) : null;
+    return (
+      <div
+        key={scenario.id}
+        ref={el => { cardRefs.current[scenario.id] = el; }}
+        className={`scenario-card ${scenario.question ? 'custom' : ''} ${focus && isTaskForScenario(focus.task, scenario) ? 'focused' : ''}`}
+      >
+        <div className="scenario-header">
+          <div className="scenario-title-row">
+            {getCategoryIcon(scenario.category)}
+            <h6 className="scenario-title">{scenario.title}</h6>
+          </div>
+          <div className="scenario-badges">
+            {scenario.question && <span className="scenario-badge scenario-custom-badge">Your question</span>}
+            <span className={`scenario-badge ${getLikelihoodColor(scenario.likelihood)}`}>
+              {scenario.likelihood} likelihood
+            </span>
+            <span className={`scenario-badge ${getImpactColor(scenario.impact)}`}>
+              {scenario.impact} impact
+            </span>
+          </div>
+        </div>
+
+        <p className="scenario-description">{scenario.description}</p>
+
+        {exposure && (
+          <div className="scenario-exposure" title={exposure.items.map(i => `${i.label}: ${formatRange({ ...i, currency: exposure.currency })}`).join('\n')}>
+            Estimated exposure: <strong>{formatRange(exposure)}</strong>
+            {exposure.excluded && <span className="exposure-excluded"> ({excludedNote(exposure)})</span>}
+          </div>
+        )}
+
+        <div className="scenario-details">
+          <div className="scenario-section">
+            <h6 className="scenario-section-title">Potential Outcomes:</h6>
+            <ul className="scenario-list">
+              {scenario.outcomes.map((outcome, index) => (
+                <li key={index}>{outcome}</li>
+              ))}
+            </ul>
+          </div>
+
+          <div className="scenario-section">
+            <h6 className="scenario-section-title">Mitigation Strategies:</h6>
+            <ul className="scenario-list mitigation">
+              {scenario.mitigation.map((strategy, index) => {
+                const tracked = findTrackedTask(tasks, scenario, strategy);
+                return (
+                  <li key={index}>
+                    {strategy}
+                    {tracked ? (
+                      <span className={`mitigation-tracked ${tracked.status}`} title={tracked.owner ? `Owner: ${tracked.owner}` : 'Tracked on the task board'}>
+                        <ListChecks size={12} /> {TASK_STATUSES.find(s => s.status === tracked.status)?.label}
+                      </span>
+                    ) : onTrackMitigation && (
+                      <button className="mitigation-track" onClick={() => onTrackMitigation(scenario, strategy)} title="Add to the task board">
+                        <ListPlus size={12} /> Track
+                      </button>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+
+          {scenario.precedent && (
+            <div className="scenario-precedent">
+              <strong>Legal Precedent:</strong> {scenario.precedent}
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
   if (!clauseText) return null;
 
+  const compared = previousRounds.find(r => r.round === compareRound);
+
   return (
     <div className="what-if-scenarios">
       <button
@@ -313,60 +345,52 @@ const WhatIfScenarios: React.FC<WhatIfScenariosProps> = ({
             <p>Explore potential outcomes and implications of this clause</p>
           </div>
 
+          {!loading && (
+            <div className="scenarios-toolbar">
+              <button className="scenarios-regenerate" onClick={handleRegenerate} disabled={regenerating || asking}>
+                <RefreshCw className="w-4 h-4" /> {regenerating ? 'Generating...' : 'Regenerate'}
+              </button>
+              {previousRounds.length > 0 && (
+                <label className="scenarios-compare-select">
+                  Compare with
+                  <select
+                    value={compareRound ?? ''}
+                    onChange={e => setCompareRound(e.target.value ? Number(e.target.value) : null)}
+                  >
+                    <option value="">Nothing</option>
+                    {previousRounds.map(r => (
+                      <option key={r.round} value={r.round}>Set {r.round} ({r.scenarios.length})</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+            </div>
+          )}
+
+          {actionError && <p className="scenarios-action-error" role="alert">{actionError}</p>}
+
           {loading ? (
             <div className="scenarios-loading">
               <div className="spinner"></div>
               <span>Analyzing scenarios...</span>
             </div>
+          ) : compared ? (
+            <div className="scenarios-compare">
+              <div className="scenarios-compare-column">
+                <div className="scenarios-compare-title">
+                  Set {compared.round}
+                  <button className="scenarios-use-set" onClick={() => handleUseRound(compared)}>Use this set</button>
+                </div>
+                {compared.scenarios.map(renderCard)}
+              </div>
+              <div className="scenarios-compare-column">
+                <div className="scenarios-compare-title">Set {round} (current)</div>
+                {scenarios.map(renderCard)}
+              </div>
+            </div>
           ) : scenarios.length > 0 ? (
             <div className="scenarios-grid">
-              {/* One-time generated scenarios — no manual regenerate */}
-              {scenarios.map((scenario) => (
-                <div key={scenario.id} className="scenario-card">
-                  <div className="scenario-header">
-                    <div className="scenario-title-row">
-                      {getCategoryIcon(scenario.category)}
-                      <h6 className="scenario-title">{scenario.title}</h6>
-                    </div>
-                    <div className="scenario-badges">
-                      <span className={`scenario-badge ${getLikelihoodColor(scenario.likelihood)}`}>
-                        {scenario.likelihood} likelihood
-                      </span>
-                      <span className={`scenario-badge ${getImpactColor(scenario.impact)}`}>
-                        {scenario.impact} impact
-                      </span>
-                    </div>
-                  </div>
-
-                  <p className="scenario-description">{scenario.description}</p>
-
-                  <div className="scenario-details">
-                    <div className="scenario-section">
-                      <h6 className="scenario-section-title">Potential Outcomes:</h6>
-                      <ul className="scenario-list">
-                        {scenario.outcomes.map((outcome, index) => (
-                          <li key={index}>{outcome}</li>
-                        ))}
-                      </ul>
-                    </div>
-
-                    <div className="scenario-section">
-                      <h6 className="scenario-section-title">Mitigation Strategies:</h6>
-                      <ul className="scenario-list mitigation">
-                        {scenario.mitigation.map((strategy, index) => (
-                          <li key={index}>{strategy}</li>
-                        ))}
-                      </ul>
-                    </div>
-
-                    {scenario.precedent && (
-                      <div className="scenario-precedent">
-                        <strong>Legal Precedent:</strong> {scenario.precedent}
-                      </div>
-                    )}
-                  </div>
-                </div>
-              ))}
+              {scenarios.map(renderCard)}
             </div>
           ) : (
             <div className="scenarios-no-data">
@@ -375,6 +399,22 @@ const WhatIfScenarios: React.FC<WhatIfScenariosProps> = ({
               <span>Unable to generate what-if scenarios for this clause</span>
             </div>
           )}
+
+          {!loading && (
+            <form className="scenario-ask" onSubmit={handleAsk}>
+              <MessageSquarePlus className="w-4 h-4" />
+              <input
+                value={question}
+                onChange={e => setQuestion(e.target.value)}
+                placeholder="Ask your own: what if the tenant leaves after 4 months?"
+                aria-label="Your what-if question"
+                disabled={asking}
+              />
+              <button type="submit" disabled={asking || regenerating || !question.trim()}>
+                {asking ? 'Thinking...' : 'Ask'}
+              </button>
+            </form>
+          )}
         </div>
       )}
     </div>
@@ -6,4 +6,13 @@ export { default as GuidanceDisplay } from './GuidanceDisplay';
 export { ChatSidebar } from './ChatSidebar';
 export { ChatInterface } from './ChatInterface';
 export { default as ClauseVisualizer } from './ClauseVisualizer';
-export { TypingAnimation } from './TypingAnimation';
\ No newline at end of file
+export { StreamingMessage } from './StreamingMessage';
+export { default as UploadBatchSummary } from './UploadBatchSummary';
+export { default as DocumentPane } from './DocumentPane';
+export { Markdown } from './Markdown';
+export { default as ThreadTabs } from './ThreadTabs';
+export { default as ChatMessageList, localMessageId, isLocalMessage } from './ChatMessageList';
+export { default as ChatComposer } from './ChatComposer';
+export { CrossDocumentChat, MIN_COMPARE_DOCUMENTS } from './CrossDocumentChat';
+export { default as ReportExportDialog } from './ReportExportDialog';
+export { default as MatterView } from './MatterView';
@@ -1,2 +1,35 @@
 // Centralized API base URL for the frontend
 export const API_BASE = 'https://legal-ai-backend-chi.vercel.app';
+
+// 'mock' serves every /api/* route from the in-browser mock backend so the app
+// can be demoed and developed without network access. Enable it with
+// REACT_APP_API_MODE=mock at build time, or at runtime with ?mock=1 (remembered
+// in localStorage until ?mock=0).
+export type ApiMode = 'live' | 'mock';
+
+const API_MODE_KEY = 'legalai.apiMode';
+
+const readApiMode = (): ApiMode => {
+  try {
+    const param = new URLSearchParams(window.location.search).get('mock');
+    if (param === '1' || param === 'true') window.localStorage.setItem(API_MODE_KEY, 'mock');
+    if (param === '0' || param === 'false') window.localStorage.removeItem(API_MODE_KEY);
+    if (window.localStorage.getItem(API_MODE_KEY) === 'mock') return 'mock';
+  } catch (_) {
+    // localStorage can be unavailable (private mode, sandboxed iframes)
+  }
+  return process.env.REACT_APP_API_MODE === 'mock' ? 'mock' : 'live';
+};
+
+export const API_MODE: ApiMode = readApiMode();
+
+// Switch modes and reload so every module picks up the new transport
+export const setApiMode = (mode: ApiMode) => {
+  try {
+    if (mode === 'mock') window.localStorage.setItem(API_MODE_KEY, 'mock');
+    else window.localStorage.removeItem(API_MODE_KEY);
+  } catch (_) {}
+  const url = new URL(window.location.href);
+  url.searchParams.delete('mock');
+  window.location.replace(url.toString());
+};
@@ -0,0 +1,3 @@
+export * from './query';
+export * from './stats';
+export * from './virtual';
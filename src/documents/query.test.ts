@@ -0,0 +1,71 @@
+import { Document } from '../api';
+import { TaxonomyState } from '../taxonomy';
+import { EMPTY_DOCUMENT_QUERY, UNFILED, isFilteredQuery, queryDocuments } from './query';
+
+const doc = (id: string, fields: Partial<Document> = {}): Document => ({
+  id,
+  file_name: `${id}.pdf`,
+  created_at: '2025-01-01T10:00:00',
+  processed_at: '2025-01-01T10:05:00',
+  ...fields
+});
+
+const NO_TAXONOMY: TaxonomyState = { custom: [], overrides: {} };
+
+const documents = [
+  doc('lease', { file_name: 'Lease 2.pdf', created_at: '2025-03-10T09:00:00', ocr_metadata: { document_type: 'Rental Agreement' }, tags: ['urgent'], matter_id: 'm1' }),
+  doc('nda', { file_name: 'nda.pdf', created_at: '2025-01-15T09:00:00', processed_at: '2025-04-01T09:00:00', ocr_metadata: { document_type: 'Non-Disclosure Agreement' } }),
+  doc('old-lease', { file_name: 'Lease 10.pdf', created_at: '2024-12-31T23:00:00', ocr_metadata: { document_type: 'Lease' }, matter_id: 'm1' })
+];
+
+const ids = (list: Document[]) => list.map(d => d.id);
+
+describe('queryDocuments', () => {
+  test('the empty query lists everything, newest upload first', () => {
+    expect(ids(queryDocuments(documents, EMPTY_DOCUMENT_QUERY, NO_TAXONOMY))).toEqual(['lease', 'nda', 'old-lease']);
+  });
+
+  test('search matches names, types, aliases and tags, word by word', () => {
+    const search = (text: string) => ids(queryDocuments(documents, { ...EMPTY_DOCUMENT_QUERY, search: text }, NO_TAXONOMY));
+    expect(search('lease')).toEqual(['lease', 'old-lease']);
+    expect(search('confidentiality')).toEqual(['nda']);
+    expect(search('#urgent')).toEqual(['lease']);
+    expect(search('lease 10')).toEqual(['old-lease']);
+  });
+
+  test('filters by type after user corrections', () => {
+    const taxonomy: TaxonomyState = { custom: [], overrides: { nda: 'Lease Agreement' } };
+    expect(ids(queryDocuments(documents, { ...EMPTY_DOCUMENT_QUERY, type: 'Lease Agreement' }, taxonomy))).toEqual(['lease', 'nda', 'old-lease']);
+    expect(ids(queryDocuments(documents, { ...EMPTY_DOCUMENT_QUERY, type: 'NDA' }, taxonomy))).toEqual([]);
+  });
+
+  test('filters by matter, unfiled documents and tag', () => {
+    expect(ids(queryDocuments(documents, { ...EMPTY_DOCUMENT_QUERY, matter: 'm1' }, NO_TAXONOMY))).toEqual(['lease', 'old-lease']);
+    expect(ids(queryDocuments(documents, { ...EMPTY_DOCUMENT_QUERY, matter: UNFILED }, NO_TAXONOMY))).toEqual(['nda']);
+    expect(ids(queryDocuments(documents, { ...EMPTY_DOCUMENT_QUERY, tag: 'urgent' }, NO_TAXONOMY))).toEqual(['lease']);
+  });
+
+  test('date range is inclusive and uses the local upload day', () => {
+    const range = (from: string, to: string) => ids(queryDocuments(documents, { ...EMPTY_DOCUMENT_QUERY, from, to }, NO_TAXONOMY));
+    expect(range('2025-01-15', '2025-03-10')).toEqual(['lease', 'nda']);
+    expect(range('', '2024-12-31')).toEqual(['old-lease']);
+  });
+
+  test('sorts by name naturally and by processing date', () => {
+    expect(ids(queryDocuments(documents, { ...EMPTY_DOCUMENT_QUERY, sort: 'name_asc' }, NO_TAXONOMY))).toEqual(['lease', 'old-lease', 'nda']);
+    expect(ids(queryDocuments(documents, { ...EMPTY_DOCUMENT_QUERY, sort: 'processed_desc' }, NO_TAXONOMY))[0]).toBe('nda');
+  });
+
+  test('ties keep the backend order', () => {
+    const same = [doc('b'), doc('a'), doc('c')];
+    expect(ids(queryDocuments(same, EMPTY_DOCUMENT_QUERY, NO_TAXONOMY))).toEqual(['b', 'a', 'c']);
+  });
+});
+
+describe('isFilteredQuery', () => {
+  test('sorting alone is not a filter', () => {
+    expect(isFilteredQuery({ ...EMPTY_DOCUMENT_QUERY, sort: 'name_desc' })).toBe(false);
+    expect(isFilteredQuery({ ...EMPTY_DOCUMENT_QUERY, search: '   ' })).toBe(false);
+    expect(isFilteredQuery({ ...EMPTY_DOCUMENT_QUERY, tag: 'urgent' })).toBe(true);
+  });
+});
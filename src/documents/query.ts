@@ -0,0 +1,83 @@
+import { Document } from '../api';
+import { TaxonomyState, documentTypeOf } from '../taxonomy';
+
+// Search, filters and sort order for the document list in the sidebar. All
+// of it runs on the list the client already has.
+
+export type DocumentSort = 'created_desc' | 'created_asc' | 'processed_desc' | 'processed_asc' | 'name_asc' | 'name_desc';
+
+export interface DocumentQuery {
+  // Matched against the file name, the detected label, the document's type and its tags
+  search: string;
+  // Type name after any user correction; empty for every type
+  type: string;
+  // Matter id, UNFILED for documents without one, empty for all
+  matter: string;
+  tag: string;
+  // Upload date range, inclusive, as YYYY-MM-DD
+  from: string;
+  to: string;
+  sort: DocumentSort;
+}
+
+export const DOCUMENT_SORTS: Array<{ sort: DocumentSort; label: string }> = [
+  { sort: 'created_desc', label: 'Newest upload' },
+  { sort: 'created_asc', label: 'Oldest upload' },
+  { sort: 'processed_desc', label: 'Recently processed' },
+  { sort: 'processed_asc', label: 'Least recently processed' },
+  { sort: 'name_asc', label: 'Name A–Z' },
+  { sort: 'name_desc', label: 'Name Z–A' }
+];
+
+export const UNFILED = '__unfiled__';
+
+export const EMPTY_DOCUMENT_QUERY: DocumentQuery = { search: '', type: '', matter: '', tag: '', from: '', to: '', sort: 'created_desc' };
+
+export const isFilteredQuery = (query: DocumentQuery) =>
+  !!(query.search.trim() || query.type || query.matter || query.tag || query.from || query.to);
+
+// Local calendar day of a timestamp, comparable with <input type="date"> values
+const dayOf = (timestamp: string) => {
+  const date = new Date(timestamp);
+  if (Number.isNaN(date.getTime())) return '';
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+const time = (timestamp: string) => {
+  const value = new Date(timestamp).getTime();
+  return Number.isNaN(value) ? 0 : value;
+};
+
+const compare: Record<DocumentSort, (a: Document, b: Document) => number> = {
+  created_desc: (a, b) => time(b.created_at) - time(a.created_at),
+  created_asc: (a, b) => time(a.created_at) - time(b.created_at),
+  processed_desc: (a, b) => time(b.processed_at) - time(a.processed_at),
+  processed_asc: (a, b) => time(a.processed_at) - time(b.processed_at),
+  name_asc: (a, b) => a.file_name.localeCompare(b.file_name, undefined, { sensitivity: 'base', numeric: true }),
+  name_desc: (a, b) => b.file_name.localeCompare(a.file_name, undefined, { sensitivity: 'base', numeric: true })
+};
+
+export const queryDocuments = (documents: Document[], query: DocumentQuery, taxonomy: TaxonomyState): Document[] => {
+  const words = query.search.toLowerCase().split(/\s+/).filter(Boolean);
+  const matches = documents.filter(doc => {
+    const type = documentTypeOf(doc, taxonomy);
+    if (query.type && type.name !== query.type) return false;
+    if (query.matter && (doc.matter_id || UNFILED) !== query.matter) return false;
+    if (query.tag && !(doc.tags || []).includes(query.tag)) return false;
+    if (query.from || query.to) {
+      const day = dayOf(doc.created_at);
+      if (query.from && day < query.from) return false;
+      if (query.to && day > query.to) return false;
+    }
+    if (!words.length) return true;
+    const haystack = [doc.file_name, doc.ocr_metadata?.document_type || '', type.name, ...type.aliases, ...(doc.tags || []).map(t => `#${t}`)]
+      .join(' ')
+      .toLowerCase();
+    return words.every(word => haystack.includes(word));
+  });
+  // Ties keep the order the backend listed them in
+  return matches
+    .map((doc, index) => ({ doc, index }))
+    .sort((a, b) => compare[query.sort](a.doc, b.doc) || a.index - b.index)
+    .map(({ doc }) => doc);
+};
@@ -0,0 +1,38 @@
+import { countWords, textStatistics } from './stats';
+
+describe('countWords', () => {
+  test('joins apostrophes, hyphens and decimal points into one word', () => {
+    expect(countWords("The tenant's re-let fee is 3.5 months.")).toBe(7);
+  });
+
+  test('ignores stray OCR punctuation', () => {
+    expect(countWords('Rent | ~ -- . , due')).toBe(2);
+  });
+
+  test('counts words in any script', () => {
+    expect(countWords('किरायेदार मासिक किराया देगा')).toBe(4);
+    expect(countWords('Арендатор платит ежемесячно')).toBe(3);
+    expect(countWords('Ψ Straße ½')).toBe(3);
+  });
+});
+
+describe('textStatistics', () => {
+  test('measures lengths and reduction from the text', () => {
+    expect(textStatistics({ raw_text: 'Rent ### due ###', cleaned_text: 'Rent due' })).toEqual({
+      rawLength: 16,
+      cleanedLength: 8,
+      reductionPercentage: 50,
+      rawWords: 2,
+      cleanedWords: 2
+    });
+  });
+
+  test('prefers statistics stored at processing time', () => {
+    const stats = textStatistics({ raw_text: 'a b', cleaned_text: 'a' }, { raw_length: 1000, cleaned_length: 900, reduction_percentage: 10 });
+    expect(stats).toMatchObject({ rawLength: 1000, cleanedLength: 900, reductionPercentage: 10, rawWords: 2, cleanedWords: 1 });
+  });
+
+  test('empty text has no reduction', () => {
+    expect(textStatistics({ raw_text: '', cleaned_text: '' }).reductionPercentage).toBe(0);
+  });
+});
@@ -0,0 +1,38 @@
+import { DocumentStatistics, ProcessingResult } from '../api';
+
+// Text statistics for a processed document: how much extraction noise the
+// cleaning step removed, in characters and in words.
+
+export interface TextStatistics {
+  rawLength: number;
+  cleanedLength: number;
+  reductionPercentage: number;
+  rawWords: number;
+  cleanedWords: number;
+}
+
+// Runs of letters or digits in any script, optionally joined by an
+// apostrophe, hyphen or dot ("tenant's", "re-let", "3.5"), so stray OCR
+// punctuation is not a word. Combining marks (Devanagari vowel signs, for
+// one) belong to the word they sit in.
+const WORD = /[\p{L}\p{M}\p{N}]+(?:['’.-][\p{L}\p{M}\p{N}]+)*/gu;
+
+export const countWords = (text: string) => (text.match(WORD) || []).length;
+
+// Lengths come from the statistics stored at processing time when there are
+// any; word counts are always taken from the text itself
+export const textStatistics = (
+  result: Pick<ProcessingResult, 'raw_text' | 'cleaned_text'>,
+  stored?: Partial<DocumentStatistics>
+): TextStatistics => {
+  const rawLength = stored?.raw_length ?? result.raw_text.length;
+  const cleanedLength = stored?.cleaned_length ?? result.cleaned_text.length;
+  const measured = rawLength > 0 ? Math.round((1 - cleanedLength / rawLength) * 1000) / 10 : 0;
+  return {
+    rawLength,
+    cleanedLength,
+    reductionPercentage: stored?.reduction_percentage ?? Math.max(0, measured),
+    rawWords: countWords(result.raw_text),
+    cleanedWords: countWords(result.cleaned_text)
+  };
+};
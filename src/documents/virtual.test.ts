@@ -0,0 +1,38 @@
+import { act, renderHook } from '@testing-library/react';
+import { useVirtualRows } from './virtual';
+
+// jsdom has no layout, so the scroll container's size is set by hand
+const scroller = (clientHeight: number) => {
+  const el = document.createElement('div');
+  Object.defineProperty(el, 'clientHeight', { value: clientHeight });
+  return el;
+};
+
+describe('useVirtualRows', () => {
+  test('renders the first screen plus overscan before it is attached', () => {
+    const { result } = renderHook(() => useVirtualRows<HTMLDivElement>(1000, 40));
+    expect(result.current).toMatchObject({ start: 0, end: 26, before: 0, after: 974 * 40 });
+  });
+
+  test('follows the scroll position of the attached element', () => {
+    const el = scroller(400);
+    const { result } = renderHook(() => useVirtualRows<HTMLDivElement>(1000, 40, 2));
+    act(() => result.current.containerRef(el));
+    expect(result.current).toMatchObject({ start: 0, end: 12 });
+
+    act(() => {
+      el.scrollTop = 4000;
+      el.dispatchEvent(new Event('scroll'));
+    });
+    expect(result.current).toMatchObject({ start: 98, end: 112, before: 98 * 40, after: 888 * 40 });
+
+    act(() => result.current.scrollToTop());
+    expect(el.scrollTop).toBe(0);
+    expect(result.current.start).toBe(0);
+  });
+
+  test('short lists render every row', () => {
+    const { result } = renderHook(() => useVirtualRows<HTMLDivElement>(5, 40));
+    expect(result.current).toMatchObject({ start: 0, end: 5, before: 0, after: 0 });
+  });
+});
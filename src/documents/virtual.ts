@@ -0,0 +1,47 @@
+import { useCallback, useEffect, useState } from 'react';
+
+// Windowing for long lists of equal-height rows: only the rows in (or near)
+// the scroll viewport are rendered, with spacers standing in for the rest.
+// The returned ref goes on the scrolling element; it is a callback ref, so the
+// element may be unmounted and mounted again.
+
+const DEFAULT_VIEWPORT = 800;
+
+export const useVirtualRows = <T extends HTMLElement>(count: number, rowHeight: number, overscan = 6) => {
+  const [element, setElement] = useState<T | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewport, setViewport] = useState(DEFAULT_VIEWPORT);
+
+  useEffect(() => {
+    const el = element;
+    if (!el) return;
+    const measure = () => setViewport(el.clientHeight || DEFAULT_VIEWPORT);
+    const onScroll = () => setScrollTop(el.scrollTop);
+    measure();
+    setScrollTop(el.scrollTop);
+    el.addEventListener('scroll', onScroll, { passive: true });
+    const observer = typeof ResizeObserver === 'undefined' ? null : new ResizeObserver(measure);
+    observer?.observe(el);
+    return () => {
+      el.removeEventListener('scroll', onScroll);
+      observer?.disconnect();
+    };
+  }, [element]);
+
+  const scrollToTop = useCallback(() => {
+    if (element) element.scrollTop = 0;
+    setScrollTop(0);
+  }, [element]);
+
+  const start = Math.max(0, Math.min(count, Math.floor(scrollTop / rowHeight) - overscan));
+  const end = Math.min(count, Math.ceil((scrollTop + viewport) / rowHeight) + overscan);
+  return {
+    containerRef: setElement,
+    start,
+    end,
+    // Heights of the spacers above and below the rendered rows
+    before: start * rowHeight,
+    after: Math.max(0, count - end) * rowHeight,
+    scrollToTop
+  };
+};
@@ -0,0 +1,53 @@
+import { createEnrichmentCache } from './cache';
+
+const KEY = 'legalai.enrichment.test';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('createEnrichmentCache', () => {
+  beforeEach(() => window.localStorage.clear());
+  afterEach(() => jest.restoreAllMocks());
+
+  test('stores values in localStorage for the next cache', () => {
+    createEnrichmentCache(KEY).set('a', [1, 2]);
+    expect(createEnrichmentCache(KEY).get<number[]>('a')).toEqual([1, 2]);
+    expect(createEnrichmentCache('legalai.enrichment.other').get('a')).toBeUndefined();
+  });
+
+  test('entries expire after a week', () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(0);
+    const cache = createEnrichmentCache(KEY);
+    cache.set('a', 'value');
+    now.mockReturnValue(7 * DAY_MS);
+    expect(cache.get('a')).toBe('value');
+    now.mockReturnValue(8 * DAY_MS);
+    expect(cache.get('a')).toBeUndefined();
+  });
+
+  test('keeps the newest 300 entries', () => {
+    const now = jest.spyOn(Date, 'now');
+    const cache = createEnrichmentCache(KEY);
+    for (let i = 0; i <= 300; i++) {
+      now.mockReturnValue(i);
+      cache.set(`k${i}`, i);
+    }
+    expect(cache.get('k0')).toBeUndefined();
+    expect(cache.get('k1')).toBe(1);
+    expect(cache.get('k300')).toBe(300);
+  });
+
+  test('ignores unreadable storage', () => {
+    window.localStorage.setItem(KEY, '{not json');
+    const cache = createEnrichmentCache(KEY);
+    expect(cache.get('a')).toBeUndefined();
+    cache.set('a', 1);
+    expect(cache.get('a')).toBe(1);
+  });
+
+  test('clear forgets everything', () => {
+    const cache = createEnrichmentCache(KEY);
+    cache.set('a', 1);
+    cache.clear();
+    expect(cache.get('a')).toBeUndefined();
+    expect(window.localStorage.getItem(KEY)).toBeNull();
+  });
+});
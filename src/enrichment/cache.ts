@@ -0,0 +1,78 @@
+import { API_MODE } from '../config';
+
+// Enrichment results survive reloads in localStorage. Entries expire after a
+// week and the oldest are dropped beyond MAX_ENTRIES so the cache stays well
+// inside the storage quota. Live and mock mode keep separate caches.
+
+const MAX_ENTRIES = 300;
+const TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+interface Entry {
+  value: unknown;
+  storedAt: number;
+}
+
+export interface EnrichmentCache {
+  get: <T>(key: string) => T | undefined;
+  set: (key: string, value: unknown) => void;
+  clear: () => void;
+}
+
+export const createEnrichmentCache = (storageKey = `legalai.enrichment.${API_MODE}`): EnrichmentCache => {
+  let entries: Record<string, Entry> | null = null;
+
+  const load = () => {
+    if (entries) return entries;
+    entries = {};
+    try {
+      const raw = window.localStorage.getItem(storageKey);
+      if (raw) entries = JSON.parse(raw) || {};
+    } catch (_) {
+      // localStorage can be unavailable (private mode, sandboxed iframes) or hold garbage
+    }
+    return entries as Record<string, Entry>;
+  };
+
+  // Keep the newest `limit` entries
+  const prune = (all: Record<string, Entry>, limit: number) =>
+    Object.fromEntries(
+      Object.entries(all)
+        .sort(([, a], [, b]) => b.storedAt - a.storedAt)
+        .slice(0, limit)
+    );
+
+  const save = () => {
+    if (!entries) return;
+    try {
+      window.localStorage.setItem(storageKey, JSON.stringify(entries));
+    } catch (_) {
+      // Over quota: keep the newer half and try once more
+      entries = prune(entries, Math.floor(Object.keys(entries).length / 2));
+      try { window.localStorage.setItem(storageKey, JSON.stringify(entries)); } catch (__) {}
+    }
+  };
+
+  return {
+    get: <T>(key: string) => {
+      const entry = load()[key];
+      if (!entry) return undefined;
+      if (Date.now() - entry.storedAt > TTL_MS) {
+        delete load()[key];
+        return undefined;
+      }
+      return entry.value as T;
+    },
+
+    set: (key: string, value: unknown) => {
+      const all = load();
+      all[key] = { value, storedAt: Date.now() };
+      if (Object.keys(all).length > MAX_ENTRIES) entries = prune(all, MAX_ENTRIES);
+      save();
+    },
+
+    clear: () => {
+      entries = {};
+      try { window.localStorage.removeItem(storageKey); } catch (_) {}
+    }
+  };
+};
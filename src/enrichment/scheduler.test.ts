@@ -0,0 +1,139 @@
+import { getLegalReferences, getWhatIfScenarios } from '../api';
+import { EnrichmentCache } from './cache';
+import { createEnrichmentScheduler, enrichmentKey } from './scheduler';
+
+jest.mock('../api', () => ({
+  getLegalReferences: jest.fn(),
+  getWhatIfScenarios: jest.fn()
+}));
+
+const getScenarios = getWhatIfScenarios as jest.Mock;
+const getReferences = getLegalReferences as jest.Mock;
+
+// In-memory cache so tests don't share localStorage
+const memoryCache = (): EnrichmentCache => {
+  const values = new Map<string, unknown>();
+  return {
+    get: <T>(key: string) => values.get(key) as T | undefined,
+    set: (key, value) => { values.set(key, value); },
+    clear: () => values.clear()
+  };
+};
+
+// A request that settles when the test says so
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => { resolve = res; reject = rej; });
+  return { promise, resolve, reject };
+};
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const req = (clauseText: string) => ({ clauseText, documentType: 'Lease', clauseType: 'high' });
+
+describe('enrichmentKey', () => {
+  test('differs by kind, context and text', () => {
+    const key = enrichmentKey('scenarios', req('Rent is due monthly.'));
+    expect(enrichmentKey('scenarios', req('Rent is due monthly.'))).toBe(key);
+    expect(enrichmentKey('references', req('Rent is due monthly.'))).not.toBe(key);
+    expect(enrichmentKey('scenarios', { ...req('Rent is due monthly.'), jurisdiction: 'UK' })).not.toBe(key);
+    expect(enrichmentKey('scenarios', req('Rent is due weekly.'))).not.toBe(key);
+  });
+});
+
+describe('createEnrichmentScheduler', () => {
+  beforeEach(() => jest.resetAllMocks());
+
+  test('runs at most `concurrency` requests at once', async () => {
+    const pending = [deferred<never[]>(), deferred<never[]>(), deferred<never[]>()];
+    pending.forEach(p => getScenarios.mockReturnValueOnce(p.promise));
+    const scheduler = createEnrichmentScheduler({ concurrency: 2, cache: memoryCache() });
+
+    const results = ['a', 'b', 'c'].map(text => scheduler.scenarios(req(text)));
+    expect(scheduler.stats()).toEqual({ queued: 1, running: 2 });
+    pending[0].resolve([]);
+    await flush();
+    expect(scheduler.stats()).toEqual({ queued: 0, running: 2 });
+    pending[1].resolve([]);
+    pending[2].resolve([]);
+    await Promise.all(results);
+    expect(scheduler.stats()).toEqual({ queued: 0, running: 0 });
+  });
+
+  test('identical requests share one call and later ones come from the cache', async () => {
+    getReferences.mockResolvedValue([{ id: 'r1' }]);
+    const scheduler = createEnrichmentScheduler({ cache: memoryCache() });
+
+    const [first, second] = await Promise.all([scheduler.references(req('a')), scheduler.references(req('a'))]);
+    expect(first).toEqual([{ id: 'r1' }]);
+    expect(second).toBe(first);
+    await scheduler.references(req('a'));
+    expect(getReferences).toHaveBeenCalledTimes(1);
+  });
+
+  test('failures reach every waiter and are not cached', async () => {
+    getScenarios.mockRejectedValueOnce(new Error('offline')).mockResolvedValueOnce([]);
+    const scheduler = createEnrichmentScheduler({ cache: memoryCache() });
+
+    const results = await Promise.allSettled([scheduler.scenarios(req('a')), scheduler.scenarios(req('a'))]);
+    expect(results.map(r => r.status)).toEqual(['rejected', 'rejected']);
+    await expect(scheduler.scenarios(req('a'))).resolves.toEqual([]);
+  });
+
+  test('aborting drops that caller and cancels the request once nobody waits', async () => {
+    const pending = deferred<never[]>();
+    let signal: AbortSignal | undefined;
+    getScenarios.mockImplementation((_, s: AbortSignal) => { signal = s; return pending.promise; });
+    const scheduler = createEnrichmentScheduler({ cache: memoryCache() });
+
+    const first = new AbortController();
+    const second = new AbortController();
+    const a = scheduler.scenarios(req('a'), { signal: first.signal });
+    const b = scheduler.scenarios(req('a'), { signal: second.signal });
+
+    first.abort();
+    await expect(a).rejects.toHaveProperty('name', 'AbortError');
+    expect(signal?.aborted).toBe(false);
+    second.abort();
+    await expect(b).rejects.toHaveProperty('name', 'AbortError');
+    expect(signal?.aborted).toBe(true);
+  });
+
+  test('an already aborted signal rejects without a request', async () => {
+    const scheduler = createEnrichmentScheduler({ cache: memoryCache() });
+    const controller = new AbortController();
+    controller.abort();
+    await expect(scheduler.scenarios(req('a'), { signal: controller.signal })).rejects.toHaveProperty('name', 'AbortError');
+    expect(getScenarios).not.toHaveBeenCalled();
+  });
+
+  test('settled requests stop listening to the caller\'s signal', async () => {
+    getScenarios.mockResolvedValue([]);
+    const scheduler = createEnrichmentScheduler({ cache: memoryCache() });
+    const controller = new AbortController();
+    const remove = jest.spyOn(controller.signal, 'removeEventListener');
+
+    await scheduler.scenarios(req('a'), { signal: controller.signal });
+    expect(remove).toHaveBeenCalledWith('abort', expect.any(Function));
+  });
+
+  test('priority requests jump the queue', async () => {
+    const order: string[] = [];
+    const blocker = deferred<never[]>();
+    getScenarios.mockImplementation((request: { clauseText: string }) => {
+      order.push(request.clauseText);
+      return request.clauseText === 'first' ? blocker.promise : Promise.resolve([]);
+    });
+    const scheduler = createEnrichmentScheduler({ concurrency: 1, cache: memoryCache() });
+
+    const results = [
+      scheduler.scenarios(req('first')),
+      scheduler.scenarios(req('prefetch')),
+      scheduler.scenarios(req('clicked'), { priority: true })
+    ];
+    blocker.resolve([]);
+    await Promise.all(results);
+    expect(order).toEqual(['first', 'clicked', 'prefetch']);
+  });
+});
@@ -0,0 +1,167 @@
+import { ClauseContextRequest, LegalReference, Scenario, ScenariosRequest, getLegalReferences, getWhatIfScenarios } from '../api';
+import { EnrichmentCache, createEnrichmentCache } from './cache';
+
+// Single queue for the per-clause what-if and knowledge-graph requests. At
+// most `concurrency` run at once; identical requests (same kind, clause text,
+// document type and clause type) share one network call, and answers are
+// cached so reopening a clause costs nothing.
+//
+// Every caller passes its own AbortSignal. Aborting drops that caller only;
+// the underlying request is cancelled once nobody is waiting for it, so
+// closing the visualizer empties the queue without hurting other consumers.
+
+export type EnrichmentKind = 'scenarios' | 'references';
+
+export interface EnrichmentOptions {
+  signal?: AbortSignal;
+  // Jump ahead of queued prefetches (the user is waiting on this one)
+  priority?: boolean;
+}
+
+interface Waiter<T> {
+  resolve(value: T): void;
+  reject(error: unknown): void;
+}
+
+interface Task<T> {
+  key: string;
+  run: (signal: AbortSignal) => Promise<T>;
+  controller: AbortController;
+  waiters: Set<Waiter<T>>;
+}
+
+const DEFAULT_CONCURRENCY = 4;
+
+const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+export const isAbortError = (e: unknown) => (e as Error)?.name === 'AbortError';
+
+// 53-bit string hash (cyrb53) so long clause texts make short cache keys
+const hash = (text: string) => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+// Every request field takes part in the key, so fields added to
+// ClauseContextRequest later are respected without touching this
+export const enrichmentKey = (kind: EnrichmentKind, req: ClauseContextRequest) => {
+  const { clauseText, ...context } = req;
+  const fields = Object.keys(context)
+    .sort()
+    .map(name => `${name}=${(context as Record<string, unknown>)[name] ?? ''}`);
+  return [kind, ...fields, `text=${hash(clauseText)}:${clauseText.length}`].join('|');
+};
+
+export const createEnrichmentScheduler = ({
+  concurrency = DEFAULT_CONCURRENCY,
+  cache = createEnrichmentCache()
+}: { concurrency?: number; cache?: EnrichmentCache } = {}) => {
+  const tasks = new Map<string, Task<unknown>>();
+  const queue: Task<unknown>[] = [];
+  let running = 0;
+
+  const finish = (task: Task<unknown>, notify: (waiter: Waiter<unknown>) => void) => {
+    if (tasks.get(task.key) === task) tasks.delete(task.key);
+    task.waiters.forEach(notify);
+    task.waiters.clear();
+  };
+
+  const start = async (task: Task<unknown>) => {
+    running++;
+    try {
+      const value = await task.run(task.controller.signal);
+      if (!task.controller.signal.aborted) cache.set(task.key, value);
+      finish(task, w => w.resolve(value));
+    } catch (e) {
+      finish(task, w => w.reject(e));
+    } finally {
+      running--;
+      pump();
+    }
+  };
+
+  const pump = () => {
+    while (running < concurrency && queue.length) {
+      start(queue.shift() as Task<unknown>);
+    }
+  };
+
+  const schedule = <T>(
+    kind: EnrichmentKind,
+    req: ClauseContextRequest,
+    run: (signal: AbortSignal) => Promise<T>,
+    { signal, priority = false }: EnrichmentOptions = {}
+  ): Promise<T> => {
+    const key = enrichmentKey(kind, req);
+    const cached = cache.get<T>(key);
+    if (cached !== undefined) return Promise.resolve(cached);
+    if (signal?.aborted) return Promise.reject(abortError());
+
+    return new Promise<T>((resolve, reject) => {
+      // The key starts with the kind, and each kind always resolves to the same type
+      let task = tasks.get(key) as Task<T> | undefined;
+      if (!task) {
+        task = { key, run, controller: new AbortController(), waiters: new Set() };
+        tasks.set(key, task);
+        queue.push(task);
+      }
+      const queuedAt = queue.indexOf(task);
+      if (priority && queuedAt > 0) {
+        queue.splice(queuedAt, 1);
+        queue.unshift(task);
+      }
+
+      const shared = task;
+      const onAbort = () => {
+        if (!shared.waiters.delete(waiter)) return;
+        reject(abortError());
+        if (shared.waiters.size > 0) return;
+        // Nobody wants the answer any more
+        if (tasks.get(key) === shared) tasks.delete(key);
+        const index = queue.indexOf(shared);
+        if (index >= 0) queue.splice(index, 1);
+        shared.controller.abort();
+      };
+      // Settling detaches from the caller's signal, which may outlive this request
+      const waiter: Waiter<T> = {
+        resolve: value => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(value);
+        },
+        reject: error => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      };
+      shared.waiters.add(waiter);
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      pump();
+    });
+  };
+
+  return {
+    scenarios: (req: ScenariosRequest, options?: EnrichmentOptions) =>
+      schedule<Scenario[]>('scenarios', req, signal => getWhatIfScenarios(req, signal), options),
+
+    references: (req: ClauseContextRequest, options?: EnrichmentOptions) =>
+      schedule<LegalReference[]>('references', req, signal => getLegalReferences(req, signal), options),
+
+    // Requests waiting for a slot and running, for diagnostics
+    stats: () => ({ queued: queue.length, running }),
+
+    clearCache: () => cache.clear()
+  };
+};
+
+export type EnrichmentScheduler = ReturnType<typeof createEnrichmentScheduler>;
+
+export const enrichmentScheduler = createEnrichmentScheduler();
@@ -0,0 +1,115 @@
+import { ExposureParameter, Scenario } from '../api';
+import { clauseExposure, estimateExposure, excludedNote, formatRange, totalExposure } from './estimate';
+
+const scenario = (category: Scenario['category'], id = category): Scenario => ({
+  id,
+  title: id,
+  description: '',
+  likelihood: 'medium',
+  impact: 'high',
+  category,
+  outcomes: [],
+  mitigation: []
+});
+
+const param = (kind: ExposureParameter['kind'], value: number, currency?: string): ExposureParameter => ({
+  id: `${kind}-${value}`,
+  kind,
+  label: kind,
+  value,
+  currency
+});
+
+describe('estimateExposure', () => {
+  test('only breach and financial scenarios have exposure', () => {
+    expect(estimateExposure(scenario('compliance'), [param('penalty', 1000)], 'INR')).toBeNull();
+    expect(estimateExposure(scenario('breach'), [], 'INR')).toBeNull();
+  });
+
+  test('itemises penalties, deposits and 1-3 months of recurring amounts', () => {
+    const range = estimateExposure(scenario('breach'), [param('penalty', 5000), param('deposit', 60000), param('recurring', 20000)], 'INR');
+    expect(range).toEqual({
+      currency: 'INR',
+      low: 25000,
+      high: 125000,
+      items: [
+        { label: 'Penalties', low: 5000, high: 5000 },
+        { label: 'Deposit forfeited', low: 0, high: 60000 },
+        { label: 'Unpaid amounts (1-3 months)', low: 20000, high: 60000 }
+      ]
+    });
+  });
+
+  test('a notice period fixes the months', () => {
+    const range = estimateExposure(scenario('breach'), [param('recurring', 1000), param('notice_period', 60)], 'USD');
+    expect(range).toMatchObject({ low: 2000, high: 2000 });
+    expect(range?.items[0].label).toBe('Amounts for the 60-day notice period');
+  });
+
+  test('interest applies to financial scenarios only', () => {
+    const params = [param('recurring', 12000), param('interest_rate', 18)];
+    expect(estimateExposure(scenario('financial'), params, 'INR')?.items.map(i => i.label)).toContain('Interest at 18% a year');
+    expect(estimateExposure(scenario('breach'), params, 'INR')?.items.map(i => i.label)).not.toContain('Interest at 18% a year');
+  });
+
+  test('takes the currency of the clause terms, ignoring negative values', () => {
+    expect(estimateExposure(scenario('breach'), [param('penalty', 100, 'GBP'), param('penalty', -50)], 'INR')).toMatchObject({
+      currency: 'GBP',
+      low: 100,
+      high: 100
+    });
+  });
+});
+
+describe('mixed currencies', () => {
+  test('terms in another currency are left out and listed, not added at face value', () => {
+    const usdPenalty = param('penalty', 2000, 'USD');
+    const range = estimateExposure(scenario('breach'), [param('deposit', 50000, 'INR'), usdPenalty, param('recurring', 10000)], 'INR');
+    expect(range).toEqual({
+      currency: 'INR',
+      low: 10000,
+      high: 80000,
+      items: [
+        { label: 'Deposit forfeited', low: 0, high: 50000 },
+        { label: 'Unpaid amounts (1-3 months)', low: 10000, high: 30000 }
+      ],
+      excluded: [usdPenalty]
+    });
+    expect(excludedNote(range!)).toBe('Leaves out $2,000: amounts in other currencies are not converted');
+  });
+
+  test('a single currency excludes nothing', () => {
+    const range = estimateExposure(scenario('breach'), [param('penalty', 100, 'USD'), param('deposit', 100)], 'INR');
+    expect(range).not.toHaveProperty('excluded');
+    expect(excludedNote(range!)).toBeNull();
+  });
+});
+
+describe('clauseExposure and totalExposure', () => {
+  test('a clause counts its worst scenario', () => {
+    const params = [param('penalty', 1000), param('recurring', 500), param('interest_rate', 12)];
+    const worst = clauseExposure([scenario('breach'), scenario('financial'), scenario('legal')], params, 'INR');
+    expect(worst).toEqual(estimateExposure(scenario('financial'), params, 'INR'));
+    expect(clauseExposure([scenario('legal')], params, 'INR')).toBeNull();
+  });
+
+  test('totals add up per currency', () => {
+    expect(totalExposure([
+      { currency: 'INR', low: 1, high: 2, items: [] },
+      null,
+      { currency: 'USD', low: 5, high: 5, items: [] },
+      { currency: 'INR', low: 3, high: 4, items: [] }
+    ])).toEqual([{ currency: 'INR', low: 4, high: 6 }, { currency: 'USD', low: 5, high: 5 }]);
+  });
+});
+
+describe('formatRange', () => {
+  test('shows a single amount when low and high agree', () => {
+    expect(formatRange({ currency: 'USD', low: 1500, high: 1500 })).toBe('$1,500');
+    expect(formatRange({ currency: 'INR', low: 100000, high: 250000 })).toBe('₹1,00,000 – ₹2,50,000');
+  });
+
+  test('falls back to the code for unknown currencies', () => {
+    expect(formatRange({ currency: 'XX1', low: 10, high: 10 })).toBe('XX1 10');
+  });
+});
@@ -0,0 +1,126 @@
+import { ExposureParameter, Scenario } from '../api';
+
+// Money at stake if a scenario happens, as a low-high range built from the
+// clause's monetary terms. Deliberately simple and itemised so reviewers can
+// see (and argue with) every line.
+
+export interface ExposureItem {
+  label: string;
+  low: number;
+  high: number;
+}
+
+export interface ExposureRange {
+  currency: string;
+  low: number;
+  high: number;
+  items: ExposureItem[];
+  // Terms in a currency other than `currency`. Amounts are never converted,
+  // so these are left out of the range rather than added in at face value.
+  excluded?: ExposureParameter[];
+}
+
+// Without a notice period, unpaid recurring amounts run for 1-3 months
+const DEFAULT_MONTHS = { low: 1, high: 3 };
+
+export const hasExposure = (scenario: Scenario) => scenario.category === 'breach' || scenario.category === 'financial';
+
+const sum = (params: ExposureParameter[], kind: ExposureParameter['kind']) =>
+  params.filter(p => p.kind === kind).reduce((total, p) => total + (Number.isFinite(p.value) ? Math.max(0, p.value) : 0), 0);
+
+export const estimateExposure = (
+  scenario: Scenario,
+  terms: ExposureParameter[],
+  defaultCurrency: string
+): ExposureRange | null => {
+  if (!hasExposure(scenario)) return null;
+  const currency = terms.find(p => p.currency)?.currency || defaultCurrency;
+  const excluded = terms.filter(p => p.currency && p.currency !== currency);
+  const params = terms.filter(p => !excluded.includes(p));
+  const penalty = sum(params, 'penalty');
+  const deposit = sum(params, 'deposit');
+  const monthly = sum(params, 'recurring');
+  const amount = sum(params, 'amount');
+  const rate = Math.max(0, ...params.filter(p => p.kind === 'interest_rate').map(p => p.value || 0));
+  const noticeDays = Math.max(0, ...params.filter(p => p.kind === 'notice_period').map(p => p.value || 0));
+  const months = noticeDays > 0
+    ? { low: noticeDays / 30, high: noticeDays / 30 }
+    : DEFAULT_MONTHS;
+
+  const items: ExposureItem[] = [];
+  if (penalty) items.push({ label: 'Penalties', low: penalty, high: penalty });
+  if (deposit) items.push({ label: 'Deposit forfeited', low: 0, high: deposit });
+  if (monthly) {
+    items.push({
+      label: noticeDays > 0 ? `Amounts for the ${Math.round(noticeDays)}-day notice period` : 'Unpaid amounts (1-3 months)',
+      low: monthly * months.low,
+      high: monthly * months.high
+    });
+  }
+  if (amount) items.push({ label: 'Other amounts in the clause', low: 0, high: amount });
+  // Late payment interest only applies to money owed, i.e. financial scenarios
+  if (scenario.category === 'financial' && rate > 0) {
+    const principal = monthly || amount || deposit;
+    if (principal) {
+      items.push({
+        label: `Interest at ${rate}% a year`,
+        low: (principal * rate * months.low) / 1200,
+        high: (principal * rate * months.high) / 1200
+      });
+    }
+  }
+
+  if (items.length === 0) return null;
+  return {
+    currency,
+    low: Math.round(items.reduce((t, i) => t + i.low, 0)),
+    high: Math.round(items.reduce((t, i) => t + i.high, 0)),
+    items,
+    ...(excluded.length ? { excluded } : {})
+  };
+};
+
+// A clause's exposure is its worst scenario: the scenarios are alternatives, not additive
+export const clauseExposure = (scenarios: Scenario[], params: ExposureParameter[], defaultCurrency: string): ExposureRange | null =>
+  scenarios
+    .map(s => estimateExposure(s, params, defaultCurrency))
+    .reduce<ExposureRange | null>((worst, range) => {
+      if (!range) return worst;
+      if (!worst) return range;
+      return range.high > worst.high || (range.high === worst.high && range.low > worst.low) ? range : worst;
+    }, null);
+
+// Clause exposures added up per currency, for the document total
+export const totalExposure = (ranges: Array<ExposureRange | null>): Array<{ currency: string; low: number; high: number }> => {
+  const byCurrency = new Map<string, { currency: string; low: number; high: number }>();
+  ranges.forEach(range => {
+    if (!range) return;
+    const total = byCurrency.get(range.currency) || { currency: range.currency, low: 0, high: 0 };
+    byCurrency.set(range.currency, { currency: range.currency, low: total.low + range.low, high: total.high + range.high });
+  });
+  return Array.from(byCurrency.values());
+};
+
+export const formatMoney = (value: number, currency: string) => {
+  try {
+    return new Intl.NumberFormat(currency === 'INR' ? 'en-IN' : 'en-US', {
+      style: 'currency',
+      currency,
+      maximumFractionDigits: 0
+    }).format(value);
+  } catch (_) {
+    // Unknown currency code
+    return `${currency} ${Math.round(value).toLocaleString()}`;
+  }
+};
+
+export const formatRange = (range: { low: number; high: number; currency: string }) =>
+  range.low === range.high
+    ? formatMoney(range.high, range.currency)
+    : `${formatMoney(range.low, range.currency)} – ${formatMoney(range.high, range.currency)}`;
+
+// Says which terms an estimate left out for being in another currency
+export const excludedNote = (range: ExposureRange) =>
+  range.excluded?.length
+    ? `Leaves out ${range.excluded.map(p => formatMoney(p.value, p.currency || range.currency)).join(', ')}: amounts in other currencies are not converted`
+    : null;
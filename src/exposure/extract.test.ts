@@ -0,0 +1,44 @@
+import { extractMonetaryTerms } from './extract';
+
+const terms = (text: string, currency = 'INR') =>
+  extractMonetaryTerms(text, currency).map(({ kind, value, currency: code }) => ({ kind, value, currency: code }));
+
+describe('extractMonetaryTerms', () => {
+  test('reads amounts with symbols, codes, words and Indian scales', () => {
+    expect(terms('A security deposit of Rs. 1.5 lakh is payable.')).toEqual([{ kind: 'deposit', value: 150000, currency: 'INR' }]);
+    expect(terms('Monthly rent of ₹25,000 is due on the 5th.')).toEqual([{ kind: 'recurring', value: 25000, currency: 'INR' }]);
+    expect(terms('A penalty of 2,000 dollars applies.')).toEqual([{ kind: 'penalty', value: 2000, currency: 'USD' }]);
+    expect(terms('The buyer pays £10k on completion.', 'USD')).toEqual([{ kind: 'amount', value: 10000, currency: 'GBP' }]);
+  });
+
+  test('annual fees become monthly amounts', () => {
+    expect(terms('The licence fee is USD 12,000 per annum.')).toEqual([{ kind: 'recurring', value: 1000, currency: 'USD' }]);
+  });
+
+  test('the keyword nearest the number decides its kind', () => {
+    expect(terms('Rent is ₹20,000 and the deposit is ₹60,000.')).toEqual([
+      { kind: 'recurring', value: 20000, currency: 'INR' },
+      { kind: 'deposit', value: 60000, currency: 'INR' }
+    ]);
+  });
+
+  test('reads interest rates only next to interest wording, per year', () => {
+    expect(terms('Late payment attracts interest at 2% per month.')).toEqual([{ kind: 'interest_rate', value: 24, currency: undefined }]);
+    expect(terms('The landlord owns 100% of the premises.')).toEqual([]);
+  });
+
+  test('reads the first notice period in days', () => {
+    expect(terms('Either party may terminate with three (3) months notice, or 2 weeks notice for breach.')).toEqual([
+      { kind: 'notice_period', value: 90, currency: undefined }
+    ]);
+    expect(terms('The term is 11 months.')).toEqual([]);
+  });
+
+  test('numbers the terms in clause order', () => {
+    const found = extractMonetaryTerms('With 30 days notice, a penalty of ₹5,000 applies.', 'INR');
+    expect(found.map(t => [t.id, t.kind, t.source])).toEqual([
+      ['term-1', 'notice_period', '30 days'],
+      ['term-2', 'penalty', '₹5,000']
+    ]);
+  });
+});
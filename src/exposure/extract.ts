@@ -0,0 +1,135 @@
+import { ExposureParameter, ExposureParameterKind } from '../api';
+
+// Reads the monetary terms of a clause (amounts, interest rates, notice
+// periods) into editable exposure parameters. Pattern based, so it errs
+// towards finding too little: reviewers add what it misses by hand.
+
+const CURRENCY_SYMBOLS: Array<[RegExp, string]> = [
+  [/^(₹|rs\.?|inr|rupees?)$/i, 'INR'],
+  [/^(\$|usd|dollars?)$/i, 'USD'],
+  [/^(£|gbp|pounds?)$/i, 'GBP'],
+  [/^(€|eur|euros?)$/i, 'EUR']
+];
+
+const MULTIPLIERS: Record<string, number> = {
+  k: 1e3,
+  thousand: 1e3,
+  lakh: 1e5,
+  lakhs: 1e5,
+  lac: 1e5,
+  crore: 1e7,
+  crores: 1e7,
+  m: 1e6,
+  mn: 1e6,
+  million: 1e6
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+  eleven: 11, twelve: 12, fifteen: 15, thirty: 30, sixty: 60, ninety: 90
+};
+
+const DAYS_PER: Record<string, number> = { day: 1, week: 7, month: 30, year: 365 };
+
+const SYMBOL = '₹|rs\\.?|inr|\\$|usd|£|gbp|€|eur';
+const SCALE = 'k|thousand|lakhs?|lac|crores?|mn|m|million';
+const NUMBER = '\\d{1,3}(?:,\\d{2,3})+(?:\\.\\d+)?|\\d+(?:\\.\\d+)?';
+
+// "₹ 50,000", "Rs. 1.5 lakh", "USD 2,000", "$10k"
+const AMOUNT_BEFORE = new RegExp(`(${SYMBOL})\\s*(${NUMBER})(?:\\s*(${SCALE})\\b)?`, 'gi');
+// "50,000 rupees", "2 lakh INR", "1,000 dollars"
+const AMOUNT_AFTER = new RegExp(`\\b(${NUMBER})(?:\\s*(${SCALE}))?\\s*(rupees?|inr|dollars?|usd|pounds?|gbp|euros?|eur)\\b`, 'gi');
+// "18% per annum", "2 percent per month"
+const RATE = /(\d+(?:\.\d+)?)\s*(?:%|percent\b|per\s*cent\b)(?:\s*(?:per|a|an|p\.?)\s*(annum|year|month|a\.?)\b)?/gi;
+// "30 days", "three (3) months", "2 weeks'"
+const PERIOD = /\b(\d+|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|fifteen|thirty|sixty|ninety)(?:\s*\(\d+\))?\s*(day|week|month|year)s?\b/gi;
+
+const currencyOf = (token: string) => CURRENCY_SYMBOLS.find(([pattern]) => pattern.test(token.trim()))?.[1];
+
+const parseNumber = (text: string, scale?: string) =>
+  parseFloat(text.replace(/,/g, '')) * (scale ? MULTIPLIERS[scale.toLowerCase()] || 1 : 1);
+
+// Words around a match decide what the number is for: the same sentence
+// only, and the keyword nearest the number wins
+const around = (text: string, index: number, length: number, before = 60, after = 30) => ({
+  before: text.slice(Math.max(0, index - before), index).toLowerCase().split(/[.;:]/).pop() || '',
+  after: text.slice(index + length, index + length + after).toLowerCase().split(/[.;:,]/)[0]
+});
+
+const AMOUNT_KEYWORDS: Array<[ExposureParameterKind, RegExp]> = [
+  ['penalty', /penalt|liquidated damages|\bfines?\b|late fee|compensation|forfeit/g],
+  ['deposit', /deposit|security amount|advance/g],
+  ['recurring', /rent|fees?\b|salary|wages?|subscription|install?ments?|per month|monthly|per annum|annual/g]
+];
+
+const lastIndex = (text: string, pattern: RegExp) => Array.from(text.matchAll(pattern)).pop()?.index ?? -1;
+
+const amountKind = ({ before, after }: { before: string; after: string }): { kind: ExposureParameterKind; perYear?: boolean } => {
+  const perYear = /per annum|per year|annual|yearly|a year/.test(before.slice(-20) + after);
+  const nearest = AMOUNT_KEYWORDS
+    .map(([kind, pattern]) => ({ kind, at: lastIndex(before, pattern) }))
+    .filter(k => k.at >= 0)
+    .sort((x, y) => y.at - x.at)[0];
+  const kind = nearest?.kind || AMOUNT_KEYWORDS.find(([, pattern]) => lastIndex(after, pattern) >= 0)?.[0] || 'amount';
+  return kind === 'recurring' ? { kind, perYear } : { kind };
+};
+
+const LABELS: Record<ExposureParameterKind, string> = {
+  penalty: 'Penalty',
+  deposit: 'Deposit',
+  recurring: 'Monthly amount',
+  amount: 'Amount',
+  interest_rate: 'Interest rate',
+  notice_period: 'Notice period'
+};
+
+export const exposureLabel = (kind: ExposureParameterKind) => LABELS[kind];
+
+export const extractMonetaryTerms = (clauseText: string, defaultCurrency: string): ExposureParameter[] => {
+  const text = clauseText || '';
+  const found: Array<ExposureParameter & { index: number }> = [];
+  const taken: Array<[number, number]> = [];
+  const overlaps = (start: number, end: number) => taken.some(([a, b]) => start < b && end > a);
+
+  const addAmount = (match: RegExpExecArray, value: number, currency: string | undefined) => {
+    const start = match.index;
+    const end = start + match[0].length;
+    if (overlaps(start, end) || !(value > 0)) return;
+    taken.push([start, end]);
+    const { kind, perYear } = amountKind(around(text, start, match[0].length));
+    found.push({
+      id: `term-${found.length + 1}`,
+      kind,
+      label: LABELS[kind],
+      value: perYear ? Math.round(value / 12) : value,
+      currency: currency || defaultCurrency,
+      source: match[0].trim(),
+      index: start
+    });
+  };
+
+  let match: RegExpExecArray | null;
+  while ((match = AMOUNT_BEFORE.exec(text))) addAmount(match, parseNumber(match[2], match[3]), currencyOf(match[1]));
+  while ((match = AMOUNT_AFTER.exec(text))) addAmount(match, parseNumber(match[1], match[2]), currencyOf(match[3]));
+
+  while ((match = RATE.exec(text))) {
+    const { before, after } = around(text, match.index, match[0].length);
+    if (!/interest|late payment|overdue|delay/.test(before + after)) continue;
+    const monthly = /month/i.test(match[2] || '') || /^\s*(per month|monthly|a month)/.test(after);
+    const rate = parseFloat(match[1]) * (monthly ? 12 : 1);
+    found.push({ id: `term-${found.length + 1}`, kind: 'interest_rate', label: LABELS.interest_rate, value: rate, source: match[0].trim(), index: match.index });
+  }
+
+  while ((match = PERIOD.exec(text))) {
+    const { before, after } = around(text, match.index, match[0].length);
+    if (!/notice/.test(before + after)) continue;
+    const count = NUMBER_WORDS[match[1].toLowerCase()] ?? parseInt(match[1], 10);
+    const days = count * DAYS_PER[match[2].toLowerCase()];
+    if (!(days > 0) || found.some(p => p.kind === 'notice_period')) continue;
+    found.push({ id: `term-${found.length + 1}`, kind: 'notice_period', label: LABELS.notice_period, value: days, source: match[0].trim(), index: match.index });
+  }
+
+  return found
+    .sort((a, b) => a.index - b.index)
+    .map(({ index, ...parameter }, i) => ({ ...parameter, id: `term-${i + 1}` }));
+};
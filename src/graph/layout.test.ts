@@ -0,0 +1,61 @@
+import { Clause, LegalReference } from '../api';
+import { layoutGraph } from './layout';
+import { buildKnowledgeGraph } from './model';
+
+const size = { width: 600, height: 400 };
+
+const reference = (title: string, section?: string): LegalReference => ({
+  id: title,
+  title,
+  type: 'act',
+  authority: `${title} authority`,
+  section,
+  description: '',
+  relevance: 'medium'
+});
+
+const clause = (id: string): Clause => ({ id, clause_text: `Clause ${id}`, risk: 'medium' });
+
+const graph = buildKnowledgeGraph([
+  { clause: clause('a'), references: [reference('Rent Control Act', 'Section 21'), reference('Indian Contract Act')] },
+  { clause: clause('b'), references: [reference('Rent Control Act', 'Section 21')] },
+  { clause: clause('c'), references: [reference('Transfer of Property Act', 'Section 106')] }
+]);
+
+describe('layoutGraph', () => {
+  test('places every node inside the canvas', () => {
+    const positions = layoutGraph(graph, size);
+    expect(Object.keys(positions).sort()).toEqual(graph.nodes.map(n => n.id).sort());
+    Object.values(positions).forEach(({ x, y }) => {
+      expect(x).toBeGreaterThanOrEqual(0);
+      expect(x).toBeLessThanOrEqual(size.width);
+      expect(y).toBeGreaterThanOrEqual(0);
+      expect(y).toBeLessThanOrEqual(size.height);
+    });
+  });
+
+  test('the same graph always gets the same layout', () => {
+    expect(layoutGraph(graph, size)).toEqual(layoutGraph(graph, size));
+  });
+
+  test('no two nodes end up on top of each other', () => {
+    const points = Object.values(layoutGraph(graph, size));
+    points.forEach((a, i) => points.slice(i + 1).forEach(b => {
+      expect(Math.hypot(a.x - b.x, a.y - b.y)).toBeGreaterThan(1);
+    }));
+  });
+
+  test('linked nodes sit closer together than unrelated ones on average', () => {
+    const positions = layoutGraph(graph, size);
+    const distance = (a: string, b: string) => Math.hypot(positions[a].x - positions[b].x, positions[a].y - positions[b].y);
+    const linked = graph.edges.map(e => distance(e.source, e.target));
+    const ids = graph.nodes.map(n => n.id);
+    const all = ids.flatMap((a, i) => ids.slice(i + 1).map(b => distance(a, b)));
+    const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+    expect(mean(linked)).toBeLessThan(mean(all));
+  });
+
+  test('an empty graph has no positions', () => {
+    expect(layoutGraph({ nodes: [], edges: [] }, size)).toEqual({});
+  });
+});
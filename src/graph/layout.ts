@@ -0,0 +1,84 @@
+import { KnowledgeGraph } from './model';
+
+// Small force-directed layout (Fruchterman–Reingold): nodes repel each other,
+// edges pull their ends together, and the step size cools down each round.
+// Starting positions are deterministic so the same graph always looks the same.
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+const ITERATIONS = 300;
+
+export const layoutGraph = (
+  graph: KnowledgeGraph,
+  { width, height }: { width: number; height: number }
+): Record<string, Point> => {
+  const { nodes, edges } = graph;
+  const positions: Record<string, Point> = {};
+  if (nodes.length === 0) return positions;
+
+  // Clauses start on an inner ring, everything else on an outer one
+  const clauses = nodes.filter(n => n.type === 'clause');
+  const others = nodes.filter(n => n.type !== 'clause');
+  const ring = (list: typeof nodes, radius: number) =>
+    list.forEach((node, i) => {
+      const angle = (2 * Math.PI * i) / Math.max(list.length, 1);
+      positions[node.id] = { x: width / 2 + radius * Math.cos(angle), y: height / 2 + radius * Math.sin(angle) };
+    });
+  ring(clauses, Math.min(width, height) * 0.2);
+  ring(others, Math.min(width, height) * 0.42);
+
+  const k = Math.sqrt((width * height) / nodes.length) * 0.8;
+  let temperature = width / 10;
+  const cooling = temperature / (ITERATIONS + 1);
+
+  for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+    const shift: Record<string, Point> = {};
+    nodes.forEach(n => { shift[n.id] = { x: 0, y: 0 }; });
+
+    for (let i = 0; i < nodes.length; i++) {
+      for (let j = i + 1; j < nodes.length; j++) {
+        const a = positions[nodes[i].id];
+        const b = positions[nodes[j].id];
+        let dx = a.x - b.x;
+        let dy = a.y - b.y;
+        // Coincident nodes get nudged apart in a fixed direction
+        if (dx === 0 && dy === 0) { dx = 0.01 * (i + 1); dy = 0.01 * (j + 1); }
+        const distance = Math.sqrt(dx * dx + dy * dy);
+        const force = (k * k) / distance;
+        shift[nodes[i].id].x += (dx / distance) * force;
+        shift[nodes[i].id].y += (dy / distance) * force;
+        shift[nodes[j].id].x -= (dx / distance) * force;
+        shift[nodes[j].id].y -= (dy / distance) * force;
+      }
+    }
+
+    edges.forEach(edge => {
+      const a = positions[edge.source];
+      const b = positions[edge.target];
+      if (!a || !b) return;
+      const dx = a.x - b.x;
+      const dy = a.y - b.y;
+      const distance = Math.max(Math.sqrt(dx * dx + dy * dy), 0.01);
+      // Heavier (more relevant) links pull harder
+      const force = ((distance * distance) / k) * (0.5 + edge.weight / 4);
+      shift[edge.source].x -= (dx / distance) * force;
+      shift[edge.source].y -= (dy / distance) * force;
+      shift[edge.target].x += (dx / distance) * force;
+      shift[edge.target].y += (dy / distance) * force;
+    });
+
+    for (const n of nodes) {
+      const d = shift[n.id];
+      const length = Math.max(Math.sqrt(d.x * d.x + d.y * d.y), 0.01);
+      const p = positions[n.id];
+      p.x = Math.min(width, Math.max(0, p.x + (d.x / length) * Math.min(length, temperature)));
+      p.y = Math.min(height, Math.max(0, p.y + (d.y / length) * Math.min(length, temperature)));
+    }
+    temperature -= cooling;
+  }
+
+  return positions;
+};
@@ -0,0 +1,86 @@
+import { Clause, LegalReference } from '../api';
+import { buildKnowledgeGraph, filterGraph } from './model';
+
+const clause = (id: string, risk: Clause['risk']): Clause => ({ id, clause_text: `Clause ${id} text`, risk });
+
+const reference = (title: string, fields: Partial<LegalReference> = {}): LegalReference => ({
+  id: title,
+  title,
+  type: 'act',
+  authority: 'Government of India',
+  description: `${title} description`,
+  relevance: 'medium',
+  ...fields
+});
+
+const rentAct = (fields: Partial<LegalReference> = {}) =>
+  reference('Rent Control Act', { authority: 'State Government', section: 'Section 21', relevance: 'high', ...fields });
+
+const graph = () => buildKnowledgeGraph([
+  { clause: clause('a', 'high'), references: [rentAct(), reference('Indian Contract Act')] },
+  // Same laws cited again, spelled a little differently
+  { clause: clause('b', 'low'), references: [rentAct({ title: ' rent  control act', relevance: 'low' }), reference('Indian Contract Act', { relevance: 'low' })] }
+]);
+
+describe('buildKnowledgeGraph', () => {
+  test('references cited by several clauses become one node each', () => {
+    const { nodes, edges } = graph();
+    expect(nodes.map(n => n.id).sort()).toEqual([
+      'authority:government of india',
+      'authority:state government',
+      'clause:a',
+      'clause:b',
+      'law:indian contract act',
+      'law:rent control act',
+      'section:rent control act|section 21'
+    ]);
+    expect(edges).toHaveLength(7);
+  });
+
+  test('clauses link to the section they rely on, sections to their act and acts to their authority', () => {
+    const edges = graph().edges.map(e => `${e.source} ${e.kind} ${e.target} ${e.weight}`);
+    expect(edges).toEqual(expect.arrayContaining([
+      'clause:a relies-on section:rent control act|section 21 3',
+      'clause:b relies-on section:rent control act|section 21 1',
+      'section:rent control act|section 21 part-of law:rent control act 1',
+      'law:rent control act issued-by authority:state government 1',
+      'clause:a relies-on law:indian contract act 2',
+      'law:indian contract act issued-by authority:government of india 1'
+    ]));
+  });
+
+  test('shared nodes keep the first clause as their target and the highest relevance', () => {
+    const contractAct = graph().nodes.find(n => n.id === 'law:indian contract act');
+    expect(contractAct).toMatchObject({ clauseId: 'a', referenceTitle: 'Indian Contract Act', level: 'medium' });
+    const later = buildKnowledgeGraph([
+      { clause: clause('a', 'low'), references: [reference('Indian Contract Act', { relevance: 'low' })] },
+      { clause: clause('b', 'low'), references: [reference('Indian Contract Act', { relevance: 'high' })] }
+    ]).nodes.find(n => n.id === 'law:indian contract act');
+    expect(later).toMatchObject({ clauseId: 'a', level: 'high' });
+  });
+
+  test('a reference repeated within a clause keeps its strongest link', () => {
+    const { edges } = buildKnowledgeGraph([
+      { clause: clause('a', 'low'), references: [reference('Indian Contract Act', { relevance: 'low' }), reference('Indian Contract Act', { relevance: 'high' })] }
+    ]);
+    expect(edges.filter(e => e.kind === 'relies-on')).toEqual([
+      { id: 'clause:a->law:indian contract act', source: 'clause:a', target: 'law:indian contract act', kind: 'relies-on', weight: 3 }
+    ]);
+  });
+
+  test('labels are shortened, with the full text kept for the tooltip', () => {
+    const long = { ...clause('a', 'low'), clause_text: 'The tenant shall pay the monthly rent on or before the fifth day.' };
+    const [node] = buildKnowledgeGraph([{ clause: long, references: [] }]).nodes;
+    expect(node.label).toHaveLength(40);
+    expect(node.label.endsWith('…')).toBe(true);
+    expect(node.detail).toBe(long.clause_text);
+  });
+});
+
+describe('filterGraph', () => {
+  test('hiding a type drops its nodes and every edge touching them', () => {
+    const filtered = filterGraph(graph(), ['section', 'authority']);
+    expect(filtered.nodes.map(n => n.type).sort()).toEqual(['act', 'act', 'clause', 'clause']);
+    expect(filtered.edges.map(e => e.id).sort()).toEqual(['clause:a->law:indian contract act', 'clause:b->law:indian contract act']);
+  });
+});
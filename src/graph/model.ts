@@ -0,0 +1,123 @@
+import { Clause, LegalReference, RiskLevel } from '../api';
+
+// Document-wide knowledge graph: clauses link to the laws (or the sections of
+// laws) they rely on, sections belong to their act and laws to the authority
+// that issued them. References that recur across clauses become one node.
+
+export type GraphNodeType = 'clause' | LegalReference['type'] | 'section' | 'authority';
+
+export type GraphEdgeKind = 'relies-on' | 'part-of' | 'issued-by';
+
+export interface GraphNode {
+  id: string;
+  type: GraphNodeType;
+  label: string;
+  // Clause nodes carry their risk; law nodes the highest relevance of any link
+  level: RiskLevel;
+  // Where clicking the node jumps to: the clause, and for law nodes the reference card in it
+  clauseId: string;
+  referenceTitle?: string;
+  // Full text for the tooltip
+  detail?: string;
+}
+
+export interface GraphEdge {
+  id: string;
+  source: string;
+  target: string;
+  kind: GraphEdgeKind;
+  // 1-3 from relevance; structural edges are 1
+  weight: number;
+}
+
+export interface KnowledgeGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+export interface ClauseReferences {
+  clause: Clause;
+  references: LegalReference[];
+}
+
+const WEIGHT: Record<RiskLevel, number> = { low: 1, medium: 2, high: 3 };
+
+const normalize = (value: string) => value.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const truncate = (text: string, max: number) => (text.length > max ? `${text.slice(0, max - 1)}…` : text);
+
+export const buildKnowledgeGraph = (entries: ClauseReferences[]): KnowledgeGraph => {
+  const nodes = new Map<string, GraphNode>();
+  const edges = new Map<string, GraphEdge>();
+
+  const addNode = (node: GraphNode) => {
+    const existing = nodes.get(node.id);
+    if (!existing) nodes.set(node.id, node);
+    // Keep the first clause as the jump target, but the strongest relevance
+    else if (WEIGHT[node.level] > WEIGHT[existing.level]) nodes.set(node.id, { ...existing, level: node.level });
+    return node.id;
+  };
+
+  const addEdge = (source: string, target: string, kind: GraphEdgeKind, weight: number) => {
+    const id = `${source}->${target}`;
+    const existing = edges.get(id);
+    if (!existing || existing.weight < weight) edges.set(id, { id, source, target, kind, weight });
+  };
+
+  entries.forEach(({ clause, references }) => {
+    const clauseNode = addNode({
+      id: `clause:${clause.id}`,
+      type: 'clause',
+      label: truncate(clause.clause_headline || clause.clause_text, 40),
+      level: clause.risk,
+      clauseId: clause.id,
+      detail: clause.clause_text
+    });
+
+    references.forEach(ref => {
+      const target = { clauseId: clause.id, referenceTitle: ref.title };
+      const lawId = addNode({
+        id: `law:${normalize(ref.title)}`,
+        type: ref.type,
+        label: truncate(ref.title, 40),
+        level: ref.relevance,
+        detail: ref.description,
+        ...target
+      });
+      if (ref.authority) {
+        const authorityId = addNode({
+          id: `authority:${normalize(ref.authority)}`,
+          type: 'authority',
+          label: truncate(ref.authority, 40),
+          level: ref.relevance,
+          ...target
+        });
+        addEdge(lawId, authorityId, 'issued-by', 1);
+      }
+      if (ref.section) {
+        const sectionId = addNode({
+          id: `section:${normalize(ref.title)}|${normalize(ref.section)}`,
+          type: 'section',
+          label: truncate(ref.section, 30),
+          level: ref.relevance,
+          detail: `${ref.title}, ${ref.section}`,
+          ...target
+        });
+        addEdge(sectionId, lawId, 'part-of', 1);
+        addEdge(clauseNode, sectionId, 'relies-on', WEIGHT[ref.relevance]);
+      } else {
+        addEdge(clauseNode, lawId, 'relies-on', WEIGHT[ref.relevance]);
+      }
+    });
+  });
+
+  return { nodes: Array.from(nodes.values()), edges: Array.from(edges.values()) };
+};
+
+// Drop nodes of hidden types along with every edge touching them
+export const filterGraph = (graph: KnowledgeGraph, hidden: GraphNodeType[]): KnowledgeGraph => {
+  if (hidden.length === 0) return graph;
+  const nodes = graph.nodes.filter(n => !hidden.includes(n.type));
+  const kept = new Set(nodes.map(n => n.id));
+  return { nodes, edges: graph.edges.filter(e => kept.has(e.source) && kept.has(e.target)) };
+};
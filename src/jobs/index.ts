@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { jobManager } from './jobManager';
+
+export * from './jobManager';
+
+// Live list of jobs; re-renders whenever any job changes
+export const useJobs = () => useSyncExternalStore(jobManager.subscribe, jobManager.getJobs);
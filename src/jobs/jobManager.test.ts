@@ -0,0 +1,238 @@
+import { ApiError, getProcessStatus, reprocessDocument, startProcessing, uploadDocument } from '../api';
+import { Job, createJobManager } from './jobManager';
+
+jest.mock('../api', () => {
+  const actual = jest.requireActual('../api');
+  return {
+    ApiError: actual.ApiError,
+    isApiError: actual.isApiError,
+    getProcessStatus: jest.fn(),
+    reprocessDocument: jest.fn(),
+    startProcessing: jest.fn(),
+    uploadDocument: jest.fn()
+  };
+});
+
+const upload = uploadDocument as jest.Mock;
+const start = startProcessing as jest.Mock;
+const status = getProcessStatus as jest.Mock;
+const reprocess = reprocessDocument as jest.Mock;
+
+const result = { cleaned_text: 'Text', statistics: {} };
+
+// A request that settles when the test says so
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => { resolve = res; reject = rej; });
+  return { promise, resolve, reject };
+};
+
+// Lets pending promise callbacks run; timers are fake
+const flush = async () => {
+  for (let i = 0; i < 10; i++) await Promise.resolve();
+};
+
+// Steps through poll waits one interval at a time
+const advance = async (ms: number) => {
+  for (let elapsed = 0; elapsed < ms; elapsed += 500) {
+    jest.advanceTimersByTime(500);
+    await flush();
+  }
+};
+
+const file = (name: string) => new File(['text'], name, { type: 'text/plain' });
+
+const onlyJob = (manager: ReturnType<typeof createJobManager>) => manager.getJobs()[0];
+
+describe('createJobManager', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  test('uploads, processes and reports the document the backend names', async () => {
+    upload.mockResolvedValue({ file_id: 'f-1', filename: 'lease.pdf' });
+    start.mockResolvedValue({ accepted: true });
+    status
+      .mockResolvedValueOnce({ status: 'processing' })
+      .mockResolvedValueOnce({ status: 'done', document_id: 'doc-1', result });
+    const manager = createJobManager();
+    const finished: Job[] = [];
+    manager.onJobFinished(job => finished.push(job));
+
+    manager.upload(file('lease.pdf'));
+    await flush();
+    expect(start).toHaveBeenCalledWith('f-1');
+    expect(onlyJob(manager)).toMatchObject({ status: 'pending', fileId: 'f-1' });
+
+    await advance(1500);
+    expect(onlyJob(manager).status).toBe('processing');
+    await advance(1500);
+    expect(onlyJob(manager)).toMatchObject({ status: 'done', progress: 100, documentId: 'doc-1', result });
+    expect(finished.map(j => j.status)).toEqual(['done']);
+  });
+
+  test('a synchronous result finishes without polling', async () => {
+    upload.mockResolvedValue({ file_id: 'f-1', filename: 'lease.pdf', document_id: 'doc-1', result });
+    const manager = createJobManager();
+
+    manager.upload(file('lease.pdf'));
+    await flush();
+    expect(onlyJob(manager)).toMatchObject({ status: 'done', documentId: 'doc-1' });
+    expect(start).not.toHaveBeenCalled();
+    expect(status).not.toHaveBeenCalled();
+  });
+
+  test('uploads at most three files at once', async () => {
+    const uploads = [1, 2, 3, 4].map(() => deferred<{ file_id: string; filename: string; result: typeof result }>());
+    uploads.forEach(u => upload.mockReturnValueOnce(u.promise));
+    const manager = createJobManager();
+
+    manager.uploadBatch(['a', 'b', 'c', 'd'].map(file));
+    await flush();
+    expect(upload).toHaveBeenCalledTimes(3);
+    expect(manager.getJobs().map(j => j.status)).toEqual(['uploading', 'uploading', 'uploading', 'queued']);
+
+    uploads[0].resolve({ file_id: 'f-a', filename: 'a', result });
+    await flush();
+    expect(upload).toHaveBeenCalledTimes(4);
+  });
+
+  test('cancelling aborts the upload and keeps the job out of the finished list', async () => {
+    let signal: AbortSignal | undefined;
+    upload.mockImplementation((_: File, options: { signal: AbortSignal }) => {
+      signal = options.signal;
+      return new Promise(() => {});
+    });
+    const manager = createJobManager();
+    const finished = jest.fn();
+    manager.onJobFinished(finished);
+
+    const job = manager.upload(file('lease.pdf'));
+    await flush();
+    manager.cancel(job.id);
+    expect(signal?.aborted).toBe(true);
+    expect(onlyJob(manager).status).toBe('cancelled');
+    expect(finished).not.toHaveBeenCalled();
+  });
+
+  test('a cancelled upload frees its slot for the next file', async () => {
+    // Like axios, the upload rejects once its signal aborts
+    upload.mockImplementation((_: File, options: { signal: AbortSignal }) =>
+      new Promise((_resolve, reject) => options.signal.addEventListener('abort', () => reject(new Error('canceled')))));
+    const manager = createJobManager();
+
+    const jobs = ['a', 'b', 'c', 'd'].map(name => manager.upload(file(name)));
+    await flush();
+    expect(upload).toHaveBeenCalledTimes(3);
+    manager.cancel(jobs[3].id);
+    manager.cancel(jobs[0].id);
+    await flush();
+    expect(upload).toHaveBeenCalledTimes(3);
+    manager.upload(file('e'));
+    await flush();
+    expect(upload).toHaveBeenCalledTimes(4);
+  });
+
+  test('retrying a failed processing step keeps the uploaded file', async () => {
+    upload.mockResolvedValue({ file_id: 'f-1', filename: 'lease.pdf' });
+    start
+      .mockRejectedValueOnce(new ApiError('Server unavailable', 503, '/api/process/f-1'))
+      .mockResolvedValueOnce({ accepted: false, result });
+    const manager = createJobManager();
+
+    const job = manager.upload(file('lease.pdf'));
+    await flush();
+    expect(onlyJob(manager)).toMatchObject({ status: 'error', error: 'Server unavailable' });
+
+    manager.retry(job.id);
+    await flush();
+    expect(upload).toHaveBeenCalledTimes(1);
+    expect(onlyJob(manager)).toMatchObject({ status: 'done', attempts: 2 });
+  });
+
+  test('a file the server lost is uploaded again on retry', async () => {
+    upload.mockResolvedValue({ file_id: 'f-1', filename: 'lease.pdf' });
+    start.mockResolvedValueOnce({ accepted: true }).mockResolvedValueOnce({ accepted: false, result });
+    status.mockRejectedValue(new ApiError('Not found', 404, '/api/process/status/f-1'));
+    const manager = createJobManager();
+
+    const job = manager.upload(file('lease.pdf'));
+    await flush();
+    await advance(1500);
+    expect(onlyJob(manager)).toMatchObject({ status: 'error', fileId: undefined });
+
+    manager.retry(job.id);
+    await flush();
+    expect(upload).toHaveBeenCalledTimes(2);
+    expect(onlyJob(manager).status).toBe('done');
+  });
+
+  test('every reprocess attempt goes through the reprocess route', async () => {
+    reprocess.mockResolvedValue({ file_id: 'f-1', document_id: 'doc-1' });
+    status
+      .mockResolvedValueOnce({ status: 'error', error: 'Extraction failed' })
+      .mockResolvedValueOnce({ status: 'done', document_id: 'doc-1', result });
+    const manager = createJobManager();
+
+    const job = manager.reprocess('doc-1', 'lease.pdf');
+    await flush();
+    await advance(1500);
+    expect(onlyJob(manager)).toMatchObject({ status: 'error', fileId: 'f-1' });
+
+    manager.retry(job.id);
+    await flush();
+    await advance(1500);
+    expect(reprocess).toHaveBeenCalledTimes(2);
+    expect(start).not.toHaveBeenCalled();
+    expect(onlyJob(manager)).toMatchObject({ status: 'done', documentId: 'doc-1', attempts: 2 });
+  });
+
+  test('a document already being re-processed keeps its job', () => {
+    reprocess.mockReturnValue(new Promise(() => {}));
+    const manager = createJobManager();
+    const job = manager.reprocess('doc-1', 'lease.pdf');
+    expect(manager.reprocess('doc-1', 'lease.pdf')).toBe(job);
+    expect(manager.getJobs()).toHaveLength(1);
+  });
+
+  test('finished jobs outside a batch are dropped after a while', async () => {
+    upload.mockResolvedValue({ file_id: 'f-1', filename: 'lease.pdf', result });
+    const manager = createJobManager();
+
+    manager.upload(file('lease.pdf'));
+    await flush();
+    expect(manager.getJobs()).toHaveLength(1);
+    jest.advanceTimersByTime(8000);
+    expect(manager.getJobs()).toHaveLength(0);
+  });
+
+  test('poll waits take their abort listener back', async () => {
+    const listening = new Set<unknown>();
+    const add = EventTarget.prototype.addEventListener;
+    const remove = EventTarget.prototype.removeEventListener;
+    jest.spyOn(AbortSignal.prototype, 'addEventListener').mockImplementation(function (this: AbortSignal, type, listener, options) {
+      listening.add(listener);
+      add.call(this, type, listener, options);
+    });
+    jest.spyOn(AbortSignal.prototype, 'removeEventListener').mockImplementation(function (this: AbortSignal, type, listener, options) {
+      listening.delete(listener);
+      remove.call(this, type, listener, options);
+    });
+    upload.mockResolvedValue({ file_id: 'f-1', filename: 'lease.pdf' });
+    start.mockResolvedValue({ accepted: true });
+    status
+      .mockResolvedValueOnce({ status: 'pending' })
+      .mockResolvedValueOnce({ status: 'processing' })
+      .mockResolvedValueOnce({ status: 'done', result });
+    const manager = createJobManager();
+
+    manager.upload(file('lease.pdf'));
+    await flush();
+    await advance(4500);
+    expect(onlyJob(manager).status).toBe('done');
+    expect(listening.size).toBe(0);
+  });
+});
@@ -0,0 +1,342 @@
+import { ProcessingResult, getProcessStatus, isApiError, reprocessDocument, startProcessing, uploadDocument } from '../api';
+
+// Single owner of every upload/process job. Jobs live outside the React tree so
+// they keep running while the user switches documents, and are matched back to
+// documents by the document_id the backend reports rather than by file name.
+
+// 'reprocess' runs an existing document through text extraction again
+export type JobKind = 'upload' | 'process' | 'reprocess';
+
+export type JobStatus = 'queued' | 'uploading' | 'pending' | 'processing' | 'done' | 'error' | 'cancelled';
+
+export interface Job {
+  id: string;
+  kind: JobKind;
+  filename: string;
+  // Set once the upload finishes (or up front for process jobs)
+  fileId?: string;
+  // Known up front when re-processing an existing document, otherwise reported by the backend
+  documentId?: string;
+  // Set for jobs created together by uploadBatch
+  batchId?: string;
+  status: JobStatus;
+  // 0-100; upload takes the first 30%, server-side processing the rest
+  progress: number;
+  error?: string;
+  result?: ProcessingResult;
+  attempts: number;
+  startedAt: number;
+  finishedAt?: number;
+}
+
+type Listener = () => void;
+type FinishListener = (job: Job) => void;
+
+const POLL_INTERVAL_MS = 1500;
+// Files beyond this wait in 'queued' until an upload slot frees up
+const MAX_CONCURRENT_UPLOADS = 3;
+const MAX_POLL_MS = 3 * 60 * 1000;
+// Finished jobs linger in the sidebar briefly so the user sees them complete;
+// batch jobs stay until the batch is cleared so its summary stays complete
+const DONE_JOB_TTL_MS = 8000;
+
+export const isActiveJob = (job: Job) =>
+  job.status === 'queued' || job.status === 'uploading' || job.status === 'pending' || job.status === 'processing';
+
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    // The job's signal lives for the whole job, so each wait takes its listener back
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+const messageOf = (e: unknown, fallback: string) =>
+  isApiError(e) && e.status !== 0 ? e.message : (e as Error)?.message || fallback;
+
+export const createJobManager = () => {
+  let jobs: Job[] = [];
+  let counter = 0;
+  const listeners = new Set<Listener>();
+  const finishListeners = new Set<FinishListener>();
+  const controllers = new Map<string, AbortController>();
+  // Original files are kept so failed uploads can be retried
+  const files = new Map<string, File>();
+  let activeUploads = 0;
+  const waitingForSlot: Array<() => void> = [];
+
+  const acquireUploadSlot = (signal: AbortSignal) =>
+    new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        const index = waitingForSlot.indexOf(grant);
+        if (index >= 0) waitingForSlot.splice(index, 1);
+        reject(new DOMException('The operation was aborted.', 'AbortError'));
+      };
+      const grant = () => {
+        signal.removeEventListener('abort', onAbort);
+        activeUploads++;
+        resolve();
+      };
+      if (activeUploads < MAX_CONCURRENT_UPLOADS) {
+        grant();
+        return;
+      }
+      waitingForSlot.push(grant);
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+
+  const releaseUploadSlot = () => {
+    activeUploads--;
+    const next = waitingForSlot.shift();
+    if (next) next();
+  };
+
+  const emit = () => listeners.forEach(l => l());
+
+  const get = (jobId: string) => jobs.find(j => j.id === jobId);
+
+  const update = (jobId: string, patch: Partial<Job>) => {
+    jobs = jobs.map(j => (j.id === jobId ? { ...j, ...patch } : j));
+    emit();
+  };
+
+  const remove = (jobId: string) => {
+    controllers.get(jobId)?.abort();
+    controllers.delete(jobId);
+    files.delete(jobId);
+    jobs = jobs.filter(j => j.id !== jobId);
+    emit();
+  };
+
+  const finish = (jobId: string, patch: Partial<Job>) => {
+    update(jobId, { ...patch, finishedAt: Date.now() });
+    const job = get(jobId);
+    if (!job) return;
+    finishListeners.forEach(l => {
+      try { l(job); } catch (err) { console.warn('Job listener failed', err); }
+    });
+    if (job.status === 'done' && !job.batchId) {
+      setTimeout(() => {
+        if (get(jobId)?.status === 'done') remove(jobId);
+      }, DONE_JOB_TTL_MS);
+    }
+  };
+
+  const fail = (jobId: string, error: string) => finish(jobId, { status: 'error', error });
+
+  const complete = (jobId: string, result?: ProcessingResult, documentId?: string) =>
+    finish(jobId, {
+      status: 'done',
+      progress: 100,
+      result,
+      documentId: documentId || get(jobId)?.documentId
+    });
+
+  const poll = async (jobId: string, fileId: string, signal: AbortSignal) => {
+    const deadline = Date.now() + MAX_POLL_MS;
+    while (Date.now() < deadline) {
+      await sleep(POLL_INTERVAL_MS, signal);
+      try {
+        const status = await getProcessStatus(fileId);
+        if (signal.aborted) return;
+        if (status.status === 'done') {
+          complete(jobId, status.result, status.document_id);
+          return;
+        }
+        if (status.status === 'error') {
+          fail(jobId, status.error || 'Document processing failed. Please try again.');
+          return;
+        }
+        const current = get(jobId);
+        update(jobId, {
+          status: status.status === 'pending' ? 'pending' : 'processing',
+          progress: Math.min(95, (current?.progress || 35) + 4)
+        });
+      } catch (e) {
+        if (signal.aborted) return;
+        if (isApiError(e) && e.status === 404) {
+          // The server lost the file; an upload job must upload it again on retry
+          if (get(jobId)?.kind === 'upload') update(jobId, { fileId: undefined });
+          fail(jobId, 'Processing file not found on server. Please re-upload and try again.');
+          return;
+        }
+        // Transient failure; keep polling until the deadline
+        console.warn('Status poll failed, will retry:', (e as Error)?.message || e);
+      }
+    }
+    fail(jobId, 'Document processing timed out. Please try again.');
+  };
+
+  const run = async (jobId: string) => {
+    const controller = new AbortController();
+    controllers.set(jobId, controller);
+    const { signal } = controller;
+    try {
+      const job = get(jobId);
+      if (job?.kind === 'reprocess' && job.documentId) {
+        // Every attempt goes through the reprocess route: processing the stored
+        // file again could hand back the cached result without extracting anew.
+        // The backend names the stored file to poll once it has queued the document.
+        const { file_id } = await reprocessDocument(job.documentId);
+        if (signal.aborted) return;
+        update(jobId, { fileId: file_id, status: 'pending', progress: 35 });
+        await poll(jobId, file_id, signal);
+        return;
+      }
+      let fileId = job?.fileId;
+      if (!fileId) {
+        const file = files.get(jobId);
+        if (!file) {
+          fail(jobId, 'Original file is no longer available. Please upload it again.');
+          return;
+        }
+        update(jobId, { status: 'queued', progress: 0 });
+        await acquireUploadSlot(signal);
+        let uploaded;
+        try {
+          update(jobId, { status: 'uploading' });
+          uploaded = await uploadDocument(file, {
+            signal,
+            onProgress: percent => update(jobId, { progress: Math.round(percent * 0.3) })
+          });
+        } finally {
+          releaseUploadSlot();
+        }
+        if (signal.aborted) return;
+        fileId = uploaded.file_id;
+        update(jobId, { fileId, filename: uploaded.filename || file.name });
+        // The backend may process synchronously (serverless) and answer with the result
+        if (uploaded.result) {
+          complete(jobId, uploaded.result, uploaded.document_id);
+          return;
+        }
+      }
+
+      update(jobId, { status: 'pending', progress: 35 });
+      const started = await startProcessing(fileId);
+      if (signal.aborted) return;
+      if (!started.accepted) {
+        complete(jobId, started.result, started.document_id);
+        return;
+      }
+      await poll(jobId, fileId, signal);
+    } catch (e) {
+      if (signal.aborted) return;
+      fail(jobId, messageOf(e, 'Processing failed. Please try again.'));
+    } finally {
+      if (controllers.get(jobId) === controller) controllers.delete(jobId);
+    }
+  };
+
+  const retryJob = (jobId: string) => {
+    const job = get(jobId);
+    if (!job || isActiveJob(job) || job.status === 'done') return;
+    update(jobId, {
+      status: job.fileId || job.kind === 'reprocess' ? 'pending' : 'queued',
+      progress: 0,
+      error: undefined,
+      finishedAt: undefined,
+      attempts: job.attempts + 1
+    });
+    run(jobId);
+  };
+
+  const add = (job: Omit<Job, 'id' | 'attempts' | 'startedAt' | 'progress'>) => {
+    const created: Job = {
+      ...job,
+      id: `job-${Date.now().toString(36)}-${++counter}`,
+      progress: 0,
+      attempts: 1,
+      startedAt: Date.now()
+    };
+    jobs = [...jobs, created];
+    emit();
+    return created;
+  };
+
+  return {
+    getJobs: () => jobs,
+
+    subscribe: (listener: Listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+
+    // Fires once per job when it reaches done or error
+    onJobFinished: (listener: FinishListener) => {
+      finishListeners.add(listener);
+      return () => { finishListeners.delete(listener); };
+    },
+
+    upload: (file: File, batchId?: string) => {
+      const job = add({ kind: 'upload', filename: file.name, batchId, status: 'queued' });
+      files.set(job.id, file);
+      run(job.id);
+      return job;
+    },
+
+    // Queue several files at once; each is processed as soon as its upload finishes
+    uploadBatch: (batchFiles: File[]) => {
+      const batchId = `batch-${Date.now().toString(36)}-${++counter}`;
+      batchFiles.forEach(file => {
+        const job = add({ kind: 'upload', filename: file.name, batchId, status: 'queued' });
+        files.set(job.id, file);
+        run(job.id);
+      });
+      return batchId;
+    },
+
+    retryFailed: (batchId: string) => {
+      jobs
+        .filter(j => j.batchId === batchId && (j.status === 'error' || j.status === 'cancelled'))
+        .forEach(j => retryJob(j.id));
+    },
+
+    // Forget the finished jobs of a batch; jobs still running are kept
+    clearBatch: (batchId: string) => {
+      jobs.filter(j => j.batchId === batchId && !isActiveJob(j)).forEach(j => remove(j.id));
+    },
+
+    // Start (or attach to) server-side processing of an already uploaded file
+    process: (fileId: string, filename: string, documentId?: string) => {
+      const existing = jobs.find(j => j.fileId === fileId && isActiveJob(j));
+      if (existing) return existing;
+      const job = add({ kind: 'process', fileId, filename, documentId, status: 'pending' });
+      run(job.id);
+      return job;
+    },
+
+    // Extract the text of an existing document again; a document already being
+    // re-processed keeps its running job
+    reprocess: (documentId: string, filename: string) => {
+      const existing = jobs.find(j => j.kind === 'reprocess' && j.documentId === documentId && isActiveJob(j));
+      if (existing) return existing;
+      const job = add({ kind: 'reprocess', filename, documentId, status: 'pending' });
+      run(job.id);
+      return job;
+    },
+
+    // Stops tracking the job; the backend may still finish processing on its own
+    cancel: (jobId: string) => {
+      const job = get(jobId);
+      if (!job || !isActiveJob(job)) return;
+      controllers.get(jobId)?.abort();
+      controllers.delete(jobId);
+      update(jobId, { status: 'cancelled', finishedAt: Date.now() });
+    },
+
+    retry: retryJob,
+
+    dismiss: remove
+  };
+};
+
+export type JobManager = ReturnType<typeof createJobManager>;
+
+export const jobManager = createJobManager();
@@ -0,0 +1,11 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { jurisdictionSettings } from './settings';
+
+export * from './packs';
+export * from './settings';
+
+// Jurisdiction code for a document; re-renders when it is changed anywhere
+export const useDocumentJurisdiction = (documentId: string) => {
+  const getSnapshot = useCallback(() => jurisdictionSettings.get(documentId), [documentId]);
+  return useSyncExternalStore(jurisdictionSettings.subscribe, getSnapshot);
+};
@@ -0,0 +1,28 @@
+import { indiaPack } from './india';
+import { JurisdictionPack } from './pack';
+import { ukPack } from './uk';
+import { usPack } from './us';
+
+export * from './pack';
+
+// Jurisdictions the app offers, with the local data the offline fallback and the
+// mock backend answer from. More can be registered at start-up (e.g. a firm's
+// own pack); registering an existing code replaces that pack.
+
+export const DEFAULT_JURISDICTION = 'IN';
+
+const packs = new Map<string, JurisdictionPack>();
+
+export const registerJurisdictionPack = (pack: JurisdictionPack) => {
+  packs.set(pack.code.toUpperCase(), pack);
+};
+
+export const getJurisdictionPack = (code?: string): JurisdictionPack | undefined =>
+  packs.get((code || DEFAULT_JURISDICTION).toUpperCase());
+
+export const listJurisdictionPacks = (): JurisdictionPack[] => Array.from(packs.values());
+
+// Display name for a code, also for jurisdictions only the backend knows
+export const jurisdictionName = (code?: string) => getJurisdictionPack(code)?.name || (code || DEFAULT_JURISDICTION).toUpperCase();
+
+[indiaPack, ukPack, usPack].forEach(registerJurisdictionPack);
@@ -0,0 +1,189 @@
+import { LegalReference, Scenario } from '../../api/types';
+import { JurisdictionPack, matcher } from './pack';
+
+const references = (docType: string, clType?: string, clause?: string): LegalReference[] => {
+  const is = matcher(docType, clause);
+  const refs: LegalReference[] = [];
+
+  if (is.type('contract')) {
+    refs.push(
+      {
+        id: 'ica1872',
+        title: 'Indian Contract Act, 1872',
+        type: 'act',
+        authority: 'Government of India',
+        section: 'Section 10-30',
+        description: 'Defines what constitutes a valid contract and the essentials of a contract.',
+        relevance: 'high',
+        url: 'https://legislative.gov.in/sites/default/files/A1872-09.pdf',
+        lastUpdated: '2023-01-15'
+      },
+      {
+        id: 'specific_relief_act',
+        title: 'Specific Relief Act, 1963',
+        type: 'act',
+        authority: 'Government of India',
+        section: 'Section 9-25',
+        description: 'Provides remedies for breach of contract and specific performance.',
+        relevance: 'medium',
+        url: 'https://legislative.gov.in/sites/default/files/A1963-47.pdf'
+      }
+    );
+  }
+
+  if (is.type('lease')) {
+    refs.push(
+      {
+        id: 'rent_control',
+        title: 'Model Tenancy Act, 2021',
+        type: 'act',
+        authority: 'Ministry of Housing and Urban Affairs',
+        description: 'Governs rental agreements and tenant-landlord relationships.',
+        relevance: 'high',
+        url: 'https://mohua.gov.in/upload/uploadfiles/files/MTA_English1.pdf'
+      },
+      {
+        id: 'transfer_property',
+        title: 'Transfer of Property Act, 1882',
+        type: 'act',
+        authority: 'Government of India',
+        section: 'Section 105-117',
+        description: 'Defines lease of immovable property and rights of parties.',
+        relevance: 'high'
+      }
+    );
+  }
+
+  if (is.type('privacy')) {
+    refs.push(
+      {
+        id: 'dpdp_act',
+        title: 'Digital Personal Data Protection Act, 2023',
+        type: 'act',
+        authority: 'Government of India',
+        description: 'Regulates processing of digital personal data.',
+        relevance: 'high',
+        url: 'https://www.meity.gov.in/writereaddata/files/Digital%20Personal%20Data%20Protection%20Act%202023.pdf'
+      },
+      {
+        id: 'it_act',
+        title: 'Information Technology Act, 2000',
+        type: 'act',
+        authority: 'Government of India',
+        section: 'Section 43A, 72A',
+        description: 'Provides framework for data protection and cyber security.',
+        relevance: 'medium'
+      }
+    );
+  }
+
+  if (is.type('employment')) {
+    refs.push(
+      {
+        id: 'labour_code',
+        title: 'Code on Wages, 2019',
+        type: 'act',
+        authority: 'Ministry of Labour and Employment',
+        description: 'Regulates wage and bonus payment to employees.',
+        relevance: 'high'
+      },
+      {
+        id: 'esi_act',
+        title: "Employees' State Insurance Act, 1948",
+        type: 'act',
+        authority: 'ESIC',
+        description: 'Provides for medical care and cash benefits to employees.',
+        relevance: 'medium'
+      }
+    );
+  }
+
+  if (is.clause('payment', 'financial')) {
+    refs.push({
+      id: 'rbi_payment',
+      title: 'RBI Master Direction on Payment System',
+      type: 'guideline',
+      authority: 'Reserve Bank of India',
+      description: 'Guidelines for payment systems and electronic transactions.',
+      relevance: 'medium',
+      url: 'https://www.rbi.org.in/Scripts/BS_ViewMasDirections.aspx?id=11142'
+    });
+  }
+
+  return refs;
+};
+
+const scenarios = (docType: string): Scenario[] => {
+  const is = matcher(docType);
+  const list: Scenario[] = [];
+
+  if (is.type('lease', 'rental')) {
+    list.push({
+      id: 'property_damage',
+      title: 'Property Damage Scenario',
+      description: 'Implications of property damage during lease term',
+      likelihood: 'low',
+      impact: 'high',
+      category: 'legal',
+      outcomes: [
+        'Tenant may be liable for repair costs',
+        'Security deposit may be forfeited',
+        'Insurance claims and potential premium increases'
+      ],
+      mitigation: [
+        'Require comprehensive tenant insurance',
+        'Conduct regular property inspections',
+        'Clearly define normal wear vs. damage'
+      ],
+      precedent: 'Model Tenancy Act 2021, Section 7'
+    });
+  }
+
+  if (is.type('employment')) {
+    list.push({
+      id: 'termination_dispute',
+      title: 'Wrongful Termination Scenario',
+      description: 'Legal implications of disputed employment termination',
+      likelihood: 'medium',
+      impact: 'high',
+      category: 'legal',
+      outcomes: [
+        'Labor court proceedings and legal costs',
+        'Potential compensation for wrongful dismissal',
+        'Reputational impact on employer'
+      ],
+      mitigation: [
+        'Follow proper disciplinary procedures',
+        'Document performance issues clearly',
+        'Provide adequate notice or compensation'
+      ],
+      precedent: 'Industrial Disputes Act 1947'
+    });
+  }
+
+  if (is.type('privacy', 'data')) {
+    list.push({
+      id: 'data_breach',
+      title: 'Data Breach Scenario',
+      description: 'Consequences of personal data compromise',
+      likelihood: 'low',
+      impact: 'high',
+      category: 'compliance',
+      outcomes: [
+        'Regulatory fines under DPDP Act 2023',
+        'Mandatory breach notification to authorities',
+        'Individual compensation claims'
+      ],
+      mitigation: [
+        'Implement robust data security measures',
+        'Regular security audits and updates',
+        'Data breach response plan'
+      ],
+      precedent: 'DPDP Act 2023, Section 33'
+    });
+  }
+
+  return list;
+};
+
+export const indiaPack: JurisdictionPack = { code: 'IN', name: 'India', currency: 'INR', references, scenarios };
@@ -0,0 +1,27 @@
+import { LegalReference, Scenario } from '../../api/types';
+
+// One jurisdiction: its name and currency, shown throughout the UI, and the
+// local legal data used when the knowledge-graph and what-if endpoints are
+// unreachable and served by the mock backend in demo mode. Packs only hold
+// what depends on local law; scenarios that read the same everywhere (breach,
+// late payment, scope creep) are shared.
+
+export interface JurisdictionPack {
+  // Short code sent to the backend, e.g. 'IN'
+  code: string;
+  name: string;
+  // ISO 4217 code amounts in this jurisdiction's documents default to
+  currency: string;
+  references: (docType: string, clauseType?: string, clause?: string) => LegalReference[];
+  scenarios: (docType: string, clauseType?: string) => Scenario[];
+}
+
+// Lower-cased document type and clause text, for the keyword checks every pack makes
+export const matcher = (docType: string, clause?: string) => {
+  const type = docType.toLowerCase();
+  const text = (clause || '').toLowerCase();
+  return {
+    type: (...words: string[]) => words.some(w => type.includes(w)),
+    clause: (...words: string[]) => words.some(w => text.includes(w))
+  };
+};
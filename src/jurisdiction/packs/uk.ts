@@ -0,0 +1,193 @@
+import { LegalReference, Scenario } from '../../api/types';
+import { JurisdictionPack, matcher } from './pack';
+
+const references = (docType: string, clType?: string, clause?: string): LegalReference[] => {
+  const is = matcher(docType, clause);
+  const refs: LegalReference[] = [];
+
+  if (is.type('contract')) {
+    refs.push(
+      {
+        id: 'ucta1977',
+        title: 'Unfair Contract Terms Act 1977',
+        type: 'act',
+        authority: 'UK Parliament',
+        section: 'Sections 2-11',
+        description: 'Limits how far contract terms can exclude or restrict liability for negligence and breach.',
+        relevance: 'high',
+        url: 'https://www.legislation.gov.uk/ukpga/1977/50'
+      },
+      {
+        id: 'cra2015',
+        title: 'Consumer Rights Act 2015',
+        type: 'act',
+        authority: 'UK Parliament',
+        section: 'Part 2',
+        description: 'Requires terms in consumer contracts to be fair and transparent.',
+        relevance: 'medium',
+        url: 'https://www.legislation.gov.uk/ukpga/2015/15'
+      }
+    );
+  }
+
+  if (is.type('lease')) {
+    refs.push(
+      {
+        id: 'lta1985',
+        title: 'Landlord and Tenant Act 1985',
+        type: 'act',
+        authority: 'UK Parliament',
+        section: 'Section 11',
+        description: "Implies the landlord's repairing obligations into short residential leases.",
+        relevance: 'high',
+        url: 'https://www.legislation.gov.uk/ukpga/1985/70'
+      },
+      {
+        id: 'housing_act_1988',
+        title: 'Housing Act 1988',
+        type: 'act',
+        authority: 'UK Parliament',
+        section: 'Part I',
+        description: 'Governs assured and assured shorthold tenancies, including possession grounds.',
+        relevance: 'high',
+        url: 'https://www.legislation.gov.uk/ukpga/1988/50'
+      }
+    );
+  }
+
+  if (is.type('privacy')) {
+    refs.push(
+      {
+        id: 'dpa2018',
+        title: 'Data Protection Act 2018',
+        type: 'act',
+        authority: "Information Commissioner's Office",
+        description: 'Sits alongside the UK GDPR and sets the rules for processing personal data.',
+        relevance: 'high',
+        url: 'https://www.legislation.gov.uk/ukpga/2018/12'
+      },
+      {
+        id: 'pecr2003',
+        title: 'Privacy and Electronic Communications Regulations 2003',
+        type: 'regulation',
+        authority: "Information Commissioner's Office",
+        description: 'Covers electronic marketing, cookies and the security of communications services.',
+        relevance: 'medium',
+        url: 'https://www.legislation.gov.uk/uksi/2003/2426'
+      }
+    );
+  }
+
+  if (is.type('employment')) {
+    refs.push(
+      {
+        id: 'era1996',
+        title: 'Employment Rights Act 1996',
+        type: 'act',
+        authority: 'UK Parliament',
+        section: 'Part X',
+        description: 'Sets out written particulars of employment, notice periods and protection from unfair dismissal.',
+        relevance: 'high',
+        url: 'https://www.legislation.gov.uk/ukpga/1996/18'
+      },
+      {
+        id: 'equality_act_2010',
+        title: 'Equality Act 2010',
+        type: 'act',
+        authority: 'UK Parliament',
+        description: 'Prohibits discrimination in recruitment, pay and dismissal.',
+        relevance: 'medium',
+        url: 'https://www.legislation.gov.uk/ukpga/2010/15'
+      }
+    );
+  }
+
+  if (is.clause('payment', 'financial')) {
+    refs.push({
+      id: 'late_payment_1998',
+      title: 'Late Payment of Commercial Debts (Interest) Act 1998',
+      type: 'act',
+      authority: 'UK Parliament',
+      description: 'Gives businesses a statutory right to interest and compensation on late payments.',
+      relevance: 'medium',
+      url: 'https://www.legislation.gov.uk/ukpga/1998/20'
+    });
+  }
+
+  return refs;
+};
+
+const scenarios = (docType: string): Scenario[] => {
+  const is = matcher(docType);
+  const list: Scenario[] = [];
+
+  if (is.type('lease', 'rental')) {
+    list.push({
+      id: 'property_damage',
+      title: 'Property Damage Scenario',
+      description: 'Implications of property damage during lease term',
+      likelihood: 'low',
+      impact: 'high',
+      category: 'legal',
+      outcomes: [
+        'Tenant may be liable for damage beyond fair wear and tear',
+        'Deductions from a deposit held in a protection scheme, subject to its dispute process',
+        'Structural and exterior repairs usually remain with the landlord'
+      ],
+      mitigation: [
+        'Agree a detailed inventory and check-in report',
+        'Protect the deposit in an approved scheme',
+        'Clearly define normal wear vs. damage'
+      ],
+      precedent: 'Landlord and Tenant Act 1985, Section 11'
+    });
+  }
+
+  if (is.type('employment')) {
+    list.push({
+      id: 'termination_dispute',
+      title: 'Unfair Dismissal Scenario',
+      description: 'Legal implications of disputed employment termination',
+      likelihood: 'medium',
+      impact: 'high',
+      category: 'legal',
+      outcomes: [
+        'Early conciliation through Acas, then an employment tribunal claim',
+        'Basic and compensatory awards for unfair dismissal',
+        'Reputational impact on employer'
+      ],
+      mitigation: [
+        'Follow the Acas Code of Practice on disciplinary procedures',
+        'Document performance issues clearly',
+        'Give the statutory or contractual notice'
+      ],
+      precedent: 'Employment Rights Act 1996, Part X'
+    });
+  }
+
+  if (is.type('privacy', 'data')) {
+    list.push({
+      id: 'data_breach',
+      title: 'Data Breach Scenario',
+      description: 'Consequences of personal data compromise',
+      likelihood: 'low',
+      impact: 'high',
+      category: 'compliance',
+      outcomes: [
+        'ICO fines under the UK GDPR',
+        'Breach notification to the ICO within 72 hours',
+        'Individual compensation claims'
+      ],
+      mitigation: [
+        'Implement robust data security measures',
+        'Regular security audits and updates',
+        'Data breach response plan'
+      ],
+      precedent: 'UK GDPR, Article 33'
+    });
+  }
+
+  return list;
+};
+
+export const ukPack: JurisdictionPack = { code: 'UK', name: 'United Kingdom', currency: 'GBP', references, scenarios };
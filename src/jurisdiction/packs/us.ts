@@ -0,0 +1,189 @@
+import { LegalReference, Scenario } from '../../api/types';
+import { JurisdictionPack, matcher } from './pack';
+
+// Federal law plus the model codes most states adopt; state statutes differ,
+// so the descriptions say where a local rule decides the outcome
+const references = (docType: string, clType?: string, clause?: string): LegalReference[] => {
+  const is = matcher(docType, clause);
+  const refs: LegalReference[] = [];
+
+  if (is.type('contract')) {
+    refs.push(
+      {
+        id: 'ucc_article_2',
+        title: 'Uniform Commercial Code, Article 2',
+        type: 'act',
+        authority: 'Uniform Law Commission (as adopted by the states)',
+        description: 'Governs contracts for the sale of goods, including warranties and remedies.',
+        relevance: 'high',
+        url: 'https://www.law.cornell.edu/ucc/2'
+      },
+      {
+        id: 'restatement_contracts',
+        title: 'Restatement (Second) of Contracts',
+        type: 'guideline',
+        authority: 'American Law Institute',
+        description: 'Persuasive summary of common-law contract principles relied on by courts.',
+        relevance: 'medium'
+      }
+    );
+  }
+
+  if (is.type('lease')) {
+    refs.push(
+      {
+        id: 'fair_housing_act',
+        title: 'Fair Housing Act',
+        type: 'act',
+        authority: 'U.S. Department of Housing and Urban Development',
+        section: '42 U.S.C. 3601-3619',
+        description: 'Prohibits discrimination in the rental and sale of housing.',
+        relevance: 'high',
+        url: 'https://www.justice.gov/crt/fair-housing-act-1'
+      },
+      {
+        id: 'urlta',
+        title: 'Uniform Residential Landlord and Tenant Act',
+        type: 'guideline',
+        authority: 'Uniform Law Commission',
+        description: 'Model law on deposits, repairs and termination; check the state statute that adopted it.',
+        relevance: 'medium'
+      }
+    );
+  }
+
+  if (is.type('privacy')) {
+    refs.push(
+      {
+        id: 'ccpa',
+        title: 'California Consumer Privacy Act',
+        type: 'act',
+        authority: 'California Privacy Protection Agency',
+        section: 'Cal. Civ. Code 1798.100',
+        description: 'Gives consumers rights to know, delete and opt out of the sale of personal information.',
+        relevance: 'high',
+        url: 'https://oag.ca.gov/privacy/ccpa'
+      },
+      {
+        id: 'ftc_act_5',
+        title: 'Federal Trade Commission Act',
+        type: 'act',
+        authority: 'Federal Trade Commission',
+        section: 'Section 5',
+        description: 'Prohibits unfair or deceptive practices, including misleading privacy promises.',
+        relevance: 'medium'
+      }
+    );
+  }
+
+  if (is.type('employment')) {
+    refs.push(
+      {
+        id: 'flsa',
+        title: 'Fair Labor Standards Act of 1938',
+        type: 'act',
+        authority: 'U.S. Department of Labor',
+        description: 'Sets the federal minimum wage, overtime pay and recordkeeping rules.',
+        relevance: 'high',
+        url: 'https://www.dol.gov/agencies/whd/flsa'
+      },
+      {
+        id: 'title_vii',
+        title: 'Civil Rights Act of 1964, Title VII',
+        type: 'act',
+        authority: 'Equal Employment Opportunity Commission',
+        description: 'Prohibits employment discrimination based on race, color, religion, sex and national origin.',
+        relevance: 'medium'
+      }
+    );
+  }
+
+  if (is.clause('payment', 'financial')) {
+    refs.push({
+      id: 'regulation_e',
+      title: 'Electronic Fund Transfer Act (Regulation E)',
+      type: 'regulation',
+      authority: 'Consumer Financial Protection Bureau',
+      section: '12 CFR Part 1005',
+      description: 'Rules for electronic payments, error resolution and consumer liability.',
+      relevance: 'medium'
+    });
+  }
+
+  return refs;
+};
+
+const scenarios = (docType: string): Scenario[] => {
+  const is = matcher(docType);
+  const list: Scenario[] = [];
+
+  if (is.type('lease', 'rental')) {
+    list.push({
+      id: 'property_damage',
+      title: 'Property Damage Scenario',
+      description: 'Implications of property damage during lease term',
+      likelihood: 'low',
+      impact: 'high',
+      category: 'legal',
+      outcomes: [
+        'Tenant may be liable for repair costs beyond normal wear',
+        'Deposit deductions must be itemised within the state deadline',
+        'Insurance claims and potential premium increases'
+      ],
+      mitigation: [
+        'Require renters insurance',
+        'Record a move-in condition checklist',
+        'Clearly define normal wear vs. damage'
+      ],
+      precedent: 'State security deposit statutes'
+    });
+  }
+
+  if (is.type('employment')) {
+    list.push({
+      id: 'termination_dispute',
+      title: 'Wrongful Termination Scenario',
+      description: 'Legal implications of disputed employment termination',
+      likelihood: 'medium',
+      impact: 'high',
+      category: 'legal',
+      outcomes: [
+        'EEOC charge or state agency complaint, then litigation',
+        'Back pay and damages if the dismissal was discriminatory or retaliatory',
+        'Reputational impact on employer'
+      ],
+      mitigation: [
+        'Confirm at-will status and any contractual limits on it',
+        'Document performance issues clearly',
+        'Apply disciplinary policies consistently'
+      ],
+      precedent: 'Civil Rights Act of 1964, Title VII'
+    });
+  }
+
+  if (is.type('privacy', 'data')) {
+    list.push({
+      id: 'data_breach',
+      title: 'Data Breach Scenario',
+      description: 'Consequences of personal data compromise',
+      likelihood: 'low',
+      impact: 'high',
+      category: 'compliance',
+      outcomes: [
+        'Notification duties under state breach laws',
+        'FTC or state attorney general enforcement',
+        'Class action claims from affected individuals'
+      ],
+      mitigation: [
+        'Implement robust data security measures',
+        'Regular security audits and updates',
+        'Data breach response plan'
+      ],
+      precedent: 'Cal. Civ. Code 1798.82'
+    });
+  }
+
+  return list;
+};
+
+export const usPack: JurisdictionPack = { code: 'US', name: 'United States', currency: 'USD', references, scenarios };
@@ -0,0 +1,47 @@
+import { DEFAULT_JURISDICTION } from './packs';
+
+// Jurisdiction chosen for each document, sent with its knowledge-graph and
+// what-if requests. Kept per browser like the reviewer name; documents
+// nobody has set use DEFAULT_JURISDICTION.
+
+const STORAGE_KEY = 'legalai.jurisdictions';
+
+type Listener = () => void;
+
+export const createJurisdictionSettings = (storageKey = STORAGE_KEY) => {
+  let byDocument: Record<string, string> = {};
+  try {
+    byDocument = JSON.parse(window.localStorage.getItem(storageKey) || '{}') || {};
+  } catch (_) {
+    // localStorage can be unavailable (private mode, sandboxed iframes) or hold garbage
+  }
+  const listeners = new Set<Listener>();
+
+  const save = () => {
+    try {
+      window.localStorage.setItem(storageKey, JSON.stringify(byDocument));
+    } catch (_) {}
+  };
+
+  return {
+    get: (documentId: string) => byDocument[documentId] || DEFAULT_JURISDICTION,
+
+    set: (documentId: string, code: string) => {
+      const next = { ...byDocument };
+      if (code === DEFAULT_JURISDICTION) delete next[documentId];
+      else next[documentId] = code;
+      byDocument = next;
+      save();
+      listeners.forEach(l => l());
+    },
+
+    subscribe: (listener: Listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    }
+  };
+};
+
+export type JurisdictionSettings = ReturnType<typeof createJurisdictionSettings>;
+
+export const jurisdictionSettings = createJurisdictionSettings();
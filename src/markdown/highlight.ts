@@ -0,0 +1,59 @@
+import type { Element, ElementContent, Root, Text } from 'hast';
+
+export interface HighlightOptions {
+  // Case-insensitive snippets; the first occurrence of each is marked
+  snippets: string[];
+}
+
+// Highlights never go inside code or links, or nest in another highlight
+const SKIP_TAGS = new Set(['code', 'pre', 'a', 'mark']);
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Rehype plugin: wraps snippet matches in <mark> on the syntax tree, so a
+// snippet can never split a markdown construct or an HTML tag
+export const rehypeHighlights = ({ snippets }: HighlightOptions) => (tree: Root) => {
+  const pending = snippets
+    .filter(s => s && s.trim())
+    .map(s => new RegExp(escapeRegExp(s), 'i'));
+  if (pending.length === 0) return;
+
+  const markText = (node: Text): ElementContent[] => {
+    for (let i = 0; i < pending.length; i++) {
+      const match = pending[i].exec(node.value);
+      if (!match) continue;
+      pending.splice(i, 1);
+      const before = node.value.slice(0, match.index);
+      const after = node.value.slice(match.index + match[0].length);
+      const mark: Element = {
+        type: 'element',
+        tagName: 'mark',
+        properties: { className: ['chat-highlight'] },
+        children: [{ type: 'text', value: match[0] }]
+      };
+      return [
+        ...(before ? markText({ type: 'text', value: before }) : []),
+        mark,
+        ...(after ? markText({ type: 'text', value: after }) : [])
+      ];
+    }
+    return [node];
+  };
+
+  const walk = (children: ElementContent[]): ElementContent[] => {
+    const result: ElementContent[] = [];
+    children.forEach(child => {
+      if (pending.length === 0) {
+        result.push(child);
+      } else if (child.type === 'text') {
+        result.push(...markText(child));
+      } else {
+        if (child.type === 'element' && !SKIP_TAGS.has(child.tagName)) child.children = walk(child.children);
+        result.push(child);
+      }
+    });
+    return result;
+  };
+
+  tree.children = walk(tree.children as ElementContent[]);
+};
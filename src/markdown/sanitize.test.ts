@@ -0,0 +1,78 @@
+import type { Element, ElementContent, Root } from 'hast';
+import { rehypeSanitize } from './sanitize';
+import { rehypeHighlights } from './highlight';
+
+const text = (value: string): ElementContent => ({ type: 'text', value });
+
+const el = (tagName: string, properties: Element['properties'], ...children: ElementContent[]): Element => ({
+  type: 'element',
+  tagName,
+  properties,
+  children
+});
+
+const sanitize = (...children: Root['children']) => {
+  const tree: Root = { type: 'root', children };
+  rehypeSanitize()(tree);
+  return tree.children;
+};
+
+describe('rehypeSanitize', () => {
+  test('keeps allowed tags and attributes only', () => {
+    expect(sanitize(el('a', { href: 'https://example.com', title: 'Example', onClick: 'steal()', target: '_top' }, text('link')))).toEqual([
+      el('a', { href: 'https://example.com', title: 'Example' }, text('link'))
+    ]);
+    expect(sanitize(el('p', { style: 'color: red', id: 'x' }, text('hi')))).toEqual([el('p', {}, text('hi'))]);
+  });
+
+  test('unwraps unknown tags but keeps their text', () => {
+    expect(sanitize(el('div', {}, el('span', {}, text('kept')), el('strong', {}, text('bold'))))).toEqual([
+      text('kept'),
+      el('strong', {}, text('bold'))
+    ]);
+  });
+
+  test('drops scripts and similar tags with their content', () => {
+    expect(sanitize(el('p', {}, text('a'), el('script', {}, text('alert(1)')), el('iframe', { src: 'x' }), text('b')))).toEqual([
+      el('p', {}, text('a'), text('b'))
+    ]);
+  });
+
+  test('shows raw HTML as text and drops comments', () => {
+    const raw = { type: 'raw', value: '<img src=x onerror=alert(1)>' } as unknown as Root['children'][number];
+    expect(sanitize(raw, { type: 'comment', value: 'hidden' })).toEqual([text('<img src=x onerror=alert(1)>')]);
+  });
+
+  test('only language classes survive on code', () => {
+    expect(sanitize(el('code', { className: ['language-ts', 'evil', 'language-x y'] }, text('x')))).toEqual([
+      el('code', { className: ['language-ts'] }, text('x'))
+    ]);
+    expect(sanitize(el('code', { className: ['evil'] }, text('x')))).toEqual([el('code', {}, text('x'))]);
+  });
+});
+
+describe('rehypeHighlights', () => {
+  const highlight = (snippets: string[], ...children: Root['children']) => {
+    const tree: Root = { type: 'root', children };
+    rehypeHighlights({ snippets })(tree);
+    return tree.children;
+  };
+  const mark = (value: string) => el('mark', { className: ['chat-highlight'] }, text(value));
+
+  test('marks the first case-insensitive match of each snippet', () => {
+    expect(highlight(['rent', 'DEPOSIT'], el('p', {}, text('Rent and deposit; rent again')))).toEqual([
+      el('p', {}, mark('Rent'), text(' and '), mark('deposit'), text('; rent again'))
+    ]);
+  });
+
+  test('never marks inside code or links', () => {
+    const tree = [el('p', {}, el('code', {}, text('rent')), el('a', { href: '#' }, text('rent')), text(' rent'))];
+    expect(highlight(['rent'], ...tree)).toEqual([
+      el('p', {}, el('code', {}, text('rent')), el('a', { href: '#' }, text('rent')), text(' '), mark('rent'))
+    ]);
+  });
+
+  test('treats snippets as text, not patterns', () => {
+    expect(highlight(['(a+)+'], el('p', {}, text('x (a+)+ y')))).toEqual([el('p', {}, text('x '), mark('(a+)+'), text(' y'))]);
+  });
+});
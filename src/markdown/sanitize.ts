@@ -0,0 +1,73 @@
+import type { Element, ElementContent, Root, RootContent } from 'hast';
+
+// Everything the chat renderer may emit. Markdown only produces these anyway;
+// the list exists so that HTML smuggled into model output can never reach the
+// DOM, even if a raw-HTML plugin is added to the pipeline again.
+export const ALLOWED_TAGS = new Set([
+  'p', 'br', 'hr', 'strong', 'em', 'del', 'code', 'pre', 'blockquote',
+  'ul', 'ol', 'li', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'a', 'mark',
+  'table', 'thead', 'tbody', 'tr', 'th', 'td'
+]);
+
+// Properties use hast names (className, not class)
+export const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  a: ['href', 'title'],
+  code: ['className'],
+  ol: ['start'],
+  th: ['align'],
+  td: ['align']
+};
+
+// Disallowed tags are normally unwrapped so their text survives; these are
+// dropped together with their content
+const DROP_WITH_CONTENT = new Set(['script', 'style', 'iframe', 'object', 'embed', 'noscript', 'template', 'textarea', 'select']);
+
+type Node = Root | RootContent;
+
+const cleanProperties = (element: Element) => {
+  const allowed = ALLOWED_ATTRIBUTES[element.tagName] || [];
+  const properties: Element['properties'] = {};
+  allowed.forEach(name => {
+    const value = element.properties[name];
+    if (value === undefined || value === null) return;
+    // Only syntax-highlighting hints survive on code blocks
+    if (name === 'className') {
+      const classes = (Array.isArray(value) ? value : [value]).map(String).filter(c => /^language-[\w-]+$/.test(c));
+      if (classes.length) properties.className = classes;
+      return;
+    }
+    properties[name] = value;
+  });
+  element.properties = properties;
+};
+
+const sanitizeChildren = (children: Node[]): ElementContent[] => {
+  const result: ElementContent[] = [];
+  children.forEach(child => {
+    // Raw HTML from the markdown source is shown as text, never parsed
+    if ((child as { type: string }).type === 'raw') {
+      result.push({ type: 'text', value: (child as unknown as { value: string }).value });
+      return;
+    }
+    if (child.type === 'text') {
+      result.push(child);
+      return;
+    }
+    if (child.type !== 'element') return; // comments, doctypes
+    if (DROP_WITH_CONTENT.has(child.tagName)) return;
+    const cleaned = sanitizeChildren(child.children);
+    if (!ALLOWED_TAGS.has(child.tagName)) {
+      result.push(...cleaned);
+      return;
+    }
+    cleanProperties(child);
+    child.children = cleaned;
+    result.push(child);
+  });
+  return result;
+};
+
+// Rehype plugin: strips every element and attribute outside the allowlist
+export const rehypeSanitize = () => (tree: Root) => {
+  tree.children = sanitizeChildren(tree.children);
+};
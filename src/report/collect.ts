@@ -0,0 +1,127 @@
+import {
+  ChatMessage,
+  Clause,
+  Document,
+  LegalReference,
+  RiskLevel,
+  Scenario,
+  analyzeClauses,
+  getPersistedClauses
+} from '../api';
+import { jurisdictionName } from '../jurisdiction';
+import { enrichmentScheduler, isAbortError } from '../enrichment';
+import { countRisks } from './risk';
+
+// Everything a report contains, gathered once and then rendered to any format
+
+export interface ReportClause extends Clause {
+  scenarios: Scenario[];
+  legal_references: LegalReference[];
+  // Set when the backend could not provide them, so the report says so
+  // instead of reading as if the clause had none
+  scenarios_unavailable?: boolean;
+  references_unavailable?: boolean;
+}
+
+export interface ReportQuestion {
+  id: string;
+  question: string;
+  answer: string;
+  asked_at: string;
+}
+
+export interface AnalysisReport {
+  document: Document;
+  documentType: string;
+  // Display name of the jurisdiction the references and scenarios were asked for
+  jurisdiction: string;
+  generatedAt: string;
+  clauses: ReportClause[];
+  riskCounts: Record<RiskLevel, number>;
+  questions: ReportQuestion[];
+}
+
+// Pairs each user question with the assistant reply that follows it. The pair
+// takes the question's id, which is what the export dialog selects by.
+export const questionsFrom = (history: ChatMessage[]): ReportQuestion[] => {
+  const pairs: ReportQuestion[] = [];
+  history.forEach((msg, index) => {
+    const reply = history[index + 1];
+    if (msg.role !== 'user' || !reply || reply.role !== 'assistant' || !reply.message) return;
+    pairs.push({ id: msg.id, question: msg.message, answer: reply.message, asked_at: msg.created_at });
+  });
+  return pairs;
+};
+
+// Scenarios and references already on the clause, otherwise from the backend.
+// Failures are passed on; there is no local stand-in for real analysis.
+export const scenariosFor = async (
+  clause: Clause,
+  documentType: string,
+  jurisdiction?: string,
+  signal?: AbortSignal
+): Promise<Scenario[]> =>
+  clause.scenarios?.length
+    ? clause.scenarios
+    : enrichmentScheduler.scenarios({ clauseText: clause.clause_text, documentType, clauseType: clause.risk, jurisdiction }, { signal });
+
+export const referencesFor = async (
+  clause: Clause,
+  documentType: string,
+  jurisdiction?: string,
+  signal?: AbortSignal
+): Promise<LegalReference[]> =>
+  clause.legal_references?.length
+    ? clause.legal_references
+    : enrichmentScheduler.references({ clauseText: clause.clause_text, documentType, clauseType: clause.risk, jurisdiction }, { signal });
+
+// Settles to null when the request failed for any reason other than an abort
+export const unlessFailed = <T>(promise: Promise<T>): Promise<T | null> =>
+  promise.catch(e => {
+    if (isAbortError(e)) throw e;
+    return null;
+  });
+
+const enrich = async (clause: Clause, documentType: string, jurisdiction?: string): Promise<ReportClause> => {
+  const [scenarios, references] = await Promise.all([
+    unlessFailed(scenariosFor(clause, documentType, jurisdiction)),
+    unlessFailed(referencesFor(clause, documentType, jurisdiction))
+  ]);
+  return {
+    ...clause,
+    scenarios: scenarios || [],
+    legal_references: references || [],
+    scenarios_unavailable: !scenarios,
+    references_unavailable: !references
+  };
+};
+
+export interface CollectOptions {
+  document: Document;
+  documentType: string;
+  jurisdiction?: string;
+  // Clauses already on screen (with any scenarios/references fetched for them);
+  // otherwise persisted clauses are used, then a fresh analysis
+  clauses?: Clause[];
+  questions: ReportQuestion[];
+}
+
+// Clauses on screen win; otherwise the persisted set, then a fresh analysis
+export const clausesForDocument = async (documentId: string, clauses?: Clause[]): Promise<Clause[]> => {
+  const source = clauses && clauses.length ? clauses : await getPersistedClauses(documentId);
+  return source.length ? source : analyzeClauses(documentId);
+};
+
+export const collectReport = async ({ document, documentType, jurisdiction, clauses, questions }: CollectOptions): Promise<AnalysisReport> => {
+  const source = await clausesForDocument(document.id, clauses);
+  const enriched = await Promise.all(source.map(c => enrich(c, documentType, jurisdiction)));
+  return {
+    document,
+    documentType,
+    jurisdiction: jurisdictionName(jurisdiction),
+    generatedAt: new Date().toISOString(),
+    clauses: enriched,
+    riskCounts: countRisks(enriched),
+    questions
+  };
+};
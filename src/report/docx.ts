@@ -0,0 +1,181 @@
+import { AnalysisReport, ReportClause } from './collect';
+import { DISCLAIMER, UNAVAILABLE_NOTE, capitalize, clauseTitle, formatDateTime, markdownToParagraphs, sectionCount } from './text';
+import { createZip } from './zip';
+
+// Word (.docx) rendering. Formatting is applied directly to runs rather than
+// through a styles part, which keeps the package down to three XML files.
+
+const RISK_COLORS = { high: 'E74C3C', medium: 'F39C12', low: '27AE60' };
+
+interface RunStyle {
+  bold?: boolean;
+  italic?: boolean;
+  // Half-points, as Word stores them (22 = 11pt)
+  size?: number;
+  color?: string;
+}
+
+interface ParagraphStyle extends RunStyle {
+  // Twips of space after the paragraph
+  after?: number;
+  indent?: number;
+  shade?: string;
+}
+
+// Control characters other than tab/newline/CR are not allowed in XML 1.0
+const isXmlChar = (ch: string) => {
+  const code = ch.charCodeAt(0);
+  return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+};
+
+const escapeXml = (value: string) =>
+  Array.from(value).filter(isXmlChar).join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const run = (text: string, style: RunStyle = {}) => {
+  const props = [
+    style.bold ? '<w:b/>' : '',
+    style.italic ? '<w:i/>' : '',
+    style.color ? `<w:color w:val="${style.color}"/>` : '',
+    style.size ? `<w:sz w:val="${style.size}"/>` : ''
+  ].join('');
+  const lines = text.split('\n').map(line => `<w:t xml:space="preserve">${escapeXml(line)}</w:t>`);
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}${lines.join('<w:br/>')}</w:r>`;
+};
+
+const paragraph = (runs: string | string[], style: ParagraphStyle = {}) => {
+  const props = [
+    `<w:spacing w:after="${style.after ?? 120}"/>`,
+    style.indent ? `<w:ind w:left="${style.indent}"/>` : '',
+    style.shade ? `<w:shd w:val="clear" w:color="auto" w:fill="${style.shade}"/>` : ''
+  ].join('');
+  return `<w:p><w:pPr>${props}</w:pPr>${Array.isArray(runs) ? runs.join('') : runs}</w:p>`;
+};
+
+const text = (value: string, style: ParagraphStyle = {}) => paragraph(run(value, style), style);
+
+const heading = (value: string, level: 1 | 2 | 3) =>
+  text(value, { bold: true, size: [40, 30, 26][level - 1], color: level === 2 ? '4F46E5' : undefined, after: 160 });
+
+const bullets = (items: string[], indent = 360) => items.map(item => text(`• ${item}`, { indent, after: 60 })).join('');
+
+const riskRun = (level: keyof typeof RISK_COLORS) => run(` ${level.toUpperCase()}`, { bold: true, color: RISK_COLORS[level] });
+
+const cell = (content: string, header = false) =>
+  `<w:tc><w:tcPr>${header ? '<w:shd w:val="clear" w:color="auto" w:fill="F1F5F9"/>' : ''}</w:tcPr>${content}</w:tc>`;
+
+const table = (header: string[], rows: string[][]) => {
+  const border = (side: string) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="CBD5E1"/>`;
+  const borders = ['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(border).join('');
+  return `<w:tbl><w:tblPr><w:tblW w:w="5000" w:type="pct"/><w:tblBorders>${borders}</w:tblBorders></w:tblPr>`
+    + `<w:tr>${header.map(h => cell(text(h, { bold: true, after: 0 }), true)).join('')}</w:tr>`
+    + rows.map(row => `<w:tr>${row.map(c => cell(c)).join('')}</w:tr>`).join('')
+    + '</w:tbl>'
+    + text('', { after: 0 });
+};
+
+const clauseBody = (clause: ReportClause, index: number) => {
+  const parts = [
+    paragraph([run(clauseTitle(clause, index), { bold: true, size: 26 }), riskRun(clause.risk)], { after: 120 }),
+    text(clause.clause_text, { italic: true, shade: 'F8FAFC', indent: 240 })
+  ];
+  if (clause.highlights?.length) {
+    parts.push(text('Key highlights', { bold: true, color: '475569' }), bullets(clause.highlights));
+  }
+  if (clause.scenarios.length) {
+    parts.push(text('What-if scenarios', { bold: true, color: '475569' }));
+    clause.scenarios.forEach(s => {
+      parts.push(
+        text(s.title, { bold: true, indent: 240, after: 40 }),
+        text(`Likelihood: ${capitalize(s.likelihood)} · Impact: ${capitalize(s.impact)} · ${capitalize(s.category)}`, { color: '64748B', size: 18, indent: 240, after: 40 }),
+        text(s.description, { indent: 240 })
+      );
+      if (s.outcomes.length) parts.push(text('Possible outcomes', { bold: true, indent: 240, after: 40 }), bullets(s.outcomes, 600));
+      if (s.mitigation.length) parts.push(text('Mitigation', { bold: true, indent: 240, after: 40 }), bullets(s.mitigation, 600));
+      if (s.precedent) parts.push(text(`Precedent: ${s.precedent}`, { color: '64748B', size: 18, indent: 240 }));
+    });
+  }
+  if (clause.scenarios_unavailable) {
+    parts.push(text('What-if scenarios', { bold: true, color: '475569' }), text(UNAVAILABLE_NOTE, { color: '64748B', size: 18, indent: 240 }));
+  }
+  if (clause.legal_references.length) {
+    parts.push(text('Legal references', { bold: true, color: '475569' }));
+    clause.legal_references.forEach(r => {
+      parts.push(
+        text(`${r.title}${r.section ? `, ${r.section}` : ''}`, { bold: true, indent: 240, after: 40 }),
+        text(`${r.authority} · ${capitalize(r.type)} · ${capitalize(r.relevance)} relevance${r.jurisdiction ? ` · ${r.jurisdiction}` : ''}${r.url ? ` · ${r.url}` : ''}`, { color: '64748B', size: 18, indent: 240, after: 40 }),
+        text(r.description, { indent: 240 })
+      );
+    });
+  }
+  if (clause.references_unavailable) {
+    parts.push(text('Legal references', { bold: true, color: '475569' }), text(UNAVAILABLE_NOTE, { color: '64748B', size: 18, indent: 240 }));
+  }
+  return parts.join('');
+};
+
+const documentXml = (report: AnalysisReport) => {
+  const { document, clauses, riskCounts, questions } = report;
+  const body = [
+    heading(`Legal Analysis Report — ${document.file_name}`, 1),
+    text(`Generated ${formatDateTime(report.generatedAt)}`, { color: '64748B', size: 18, after: 240 }),
+    heading('Document', 2),
+    table(['Field', 'Value'], [
+      ['File', document.file_name],
+      ['Type', report.documentType],
+      ['Jurisdiction', report.jurisdiction],
+      ['Uploaded', formatDateTime(document.created_at)],
+      ['Processed', formatDateTime(document.processed_at)],
+      ['Clauses', `${clauses.length} (${riskCounts.high} high, ${riskCounts.medium} medium, ${riskCounts.low} low risk)`]
+    ].map(row => row.map(value => text(value, { after: 0 })))),
+    heading('Clause summary', 2),
+    clauses.length
+      ? table(['Clause', 'Risk', 'Scenarios', 'References'], clauses.map((c, i) => [
+          text(clauseTitle(c, i), { after: 0 }),
+          paragraph(riskRun(c.risk), { after: 0 }),
+          text(sectionCount(c.scenarios, c.scenarios_unavailable), { after: 0 }),
+          text(sectionCount(c.legal_references, c.references_unavailable), { after: 0 })
+        ]))
+      : text('No clauses were identified in this document.'),
+    clauses.length ? heading('Clause analysis', 2) + clauses.map(clauseBody).join('') : '',
+    questions.length
+      ? heading('Questions & answers', 2) + questions.map(q =>
+          text(`Q: ${q.question}`, { bold: true, after: 80 })
+          + markdownToParagraphs(q.answer).map(p => text(p)).join('')
+          + text(`Asked ${formatDateTime(q.asked_at)}`, { color: '64748B', size: 18, after: 240 })
+        ).join('')
+      : '',
+    text(DISCLAIMER, { italic: true, color: '64748B', size: 18 })
+  ].join('');
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">'
+    + `<w:body>${body}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1440" w:right="1247" w:bottom="1440" w:left="1247" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr></w:body>`
+    + '</w:document>';
+};
+
+export const renderReportDocx = (report: AnalysisReport): Blob => {
+  const zip = createZip([
+    {
+      name: '[Content_Types].xml',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+        + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+        + '<Default Extension="xml" ContentType="application/xml"/>'
+        + '<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>'
+        + '</Types>'
+    },
+    {
+      name: '_rels/.rels',
+      content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+        + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>'
+        + '</Relationships>'
+    },
+    { name: 'word/document.xml', content: documentXml(report) }
+  ]);
+  return new Blob([zip], { type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' });
+};
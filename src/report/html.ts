@@ -0,0 +1,108 @@
+import { AnalysisReport, ReportClause } from './collect';
+import { DISCLAIMER, UNAVAILABLE_NOTE, capitalize, clauseTitle, formatDateTime, markdownToParagraphs, sectionCount } from './text';
+
+const RISK_COLORS = { high: '#e74c3c', medium: '#f39c12', low: '#2ecc71' };
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const risk = (level: keyof typeof RISK_COLORS) =>
+  `<span class="risk" style="background:${RISK_COLORS[level]}">${level.toUpperCase()}</span>`;
+
+const list = (items: string[]) =>
+  items.length ? `<ul>${items.map(i => `<li>${escapeHtml(i)}</li>`).join('')}</ul>` : '';
+
+const clauseSection = (clause: ReportClause, index: number) => `
+  <section class="clause">
+    <h3>${escapeHtml(clauseTitle(clause, index))} ${risk(clause.risk)}</h3>
+    <blockquote>${escapeHtml(clause.clause_text)}</blockquote>
+    ${clause.highlights?.length ? `<h4>Key highlights</h4>${list(clause.highlights)}` : ''}
+    ${clause.scenarios.length ? `<h4>What-if scenarios</h4>${clause.scenarios.map(s => `
+      <div class="item">
+        <strong>${escapeHtml(s.title)}</strong>
+        <span class="meta">Likelihood: ${capitalize(s.likelihood)} · Impact: ${capitalize(s.impact)} · ${capitalize(s.category)}</span>
+        <p>${escapeHtml(s.description)}</p>
+        ${s.outcomes.length ? `<p class="label">Possible outcomes</p>${list(s.outcomes)}` : ''}
+        ${s.mitigation.length ? `<p class="label">Mitigation</p>${list(s.mitigation)}` : ''}
+        ${s.precedent ? `<p class="meta">Precedent: ${escapeHtml(s.precedent)}</p>` : ''}
+      </div>`).join('')}` : ''}
+    ${clause.scenarios_unavailable ? `<h4>What-if scenarios</h4><p class="meta">${UNAVAILABLE_NOTE}</p>` : ''}
+    ${clause.legal_references.length ? `<h4>Legal references</h4>${clause.legal_references.map(r => `
+      <div class="item">
+        <strong>${escapeHtml(r.title)}${r.section ? `, ${escapeHtml(r.section)}` : ''}</strong>
+        <span class="meta">${escapeHtml(r.authority)} · ${capitalize(r.type)} · ${capitalize(r.relevance)} relevance${r.jurisdiction ? ` · ${escapeHtml(r.jurisdiction)}` : ''}</span>
+        <p>${escapeHtml(r.description)}</p>
+        ${r.url && /^https?:/i.test(r.url) ? `<p class="meta"><a href="${escapeHtml(r.url)}">${escapeHtml(r.url)}</a></p>` : ''}
+      </div>`).join('')}` : ''}
+    ${clause.references_unavailable ? `<h4>Legal references</h4><p class="meta">${UNAVAILABLE_NOTE}</p>` : ''}
+  </section>`;
+
+// Standalone HTML document: inline styles only, so it can be emailed, opened
+// offline, or printed to PDF as is
+export const renderReportHtml = (report: AnalysisReport) => {
+  const { document, clauses, riskCounts, questions } = report;
+  const title = `Legal Analysis Report — ${document.file_name}`;
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: Georgia, 'Times New Roman', serif; color: #1e293b; max-width: 820px; margin: 40px auto; padding: 0 24px; line-height: 1.55; }
+  h1 { font-size: 1.7em; margin-bottom: 4px; }
+  h2 { border-bottom: 2px solid #6366f1; padding-bottom: 4px; margin-top: 36px; }
+  h3 { margin-top: 28px; }
+  h4 { margin: 16px 0 6px; color: #475569; }
+  table { border-collapse: collapse; width: 100%; margin: 12px 0; }
+  th, td { border: 1px solid #cbd5e1; padding: 6px 10px; text-align: left; vertical-align: top; }
+  th { background: #f1f5f9; }
+  blockquote { margin: 8px 0; padding: 8px 14px; border-left: 4px solid #cbd5e1; background: #f8fafc; white-space: pre-wrap; }
+  .risk { color: white; font: bold 0.7em sans-serif; padding: 2px 8px; border-radius: 4px; vertical-align: middle; }
+  .item { margin: 10px 0 14px; }
+  .meta { display: block; color: #64748b; font-size: 0.85em; }
+  .label { font-weight: bold; margin: 6px 0 2px; }
+  .qa { margin: 16px 0; }
+  .disclaimer { margin-top: 40px; font-size: 0.8em; color: #64748b; }
+  section.clause { page-break-inside: avoid; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="meta">Generated ${escapeHtml(formatDateTime(report.generatedAt))}</p>
+
+<h2>Document</h2>
+<table>
+  <tr><th>File</th><td>${escapeHtml(document.file_name)}</td></tr>
+  <tr><th>Type</th><td>${escapeHtml(report.documentType)}</td></tr>
+  <tr><th>Jurisdiction</th><td>${escapeHtml(report.jurisdiction)}</td></tr>
+  <tr><th>Uploaded</th><td>${escapeHtml(formatDateTime(document.created_at))}</td></tr>
+  <tr><th>Processed</th><td>${escapeHtml(formatDateTime(document.processed_at))}</td></tr>
+  <tr><th>Clauses</th><td>${clauses.length} (${riskCounts.high} high, ${riskCounts.medium} medium, ${riskCounts.low} low risk)</td></tr>
+</table>
+
+<h2>Clause summary</h2>
+${clauses.length ? `<table>
+  <tr><th>Clause</th><th>Risk</th><th>Scenarios</th><th>References</th></tr>
+  ${clauses.map((c, i) => `<tr><td>${escapeHtml(clauseTitle(c, i))}</td><td>${risk(c.risk)}</td><td>${sectionCount(c.scenarios, c.scenarios_unavailable)}</td><td>${sectionCount(c.legal_references, c.references_unavailable)}</td></tr>`).join('\n  ')}
+</table>` : '<p>No clauses were identified in this document.</p>'}
+
+${clauses.length ? `<h2>Clause analysis</h2>${clauses.map(clauseSection).join('')}` : ''}
+
+${questions.length ? `<h2>Questions &amp; answers</h2>${questions.map(q => `
+  <div class="qa">
+    <h4>Q: ${escapeHtml(q.question)}</h4>
+    ${markdownToParagraphs(q.answer).map(p => `<p>${escapeHtml(p).replace(/\n/g, '<br>')}</p>`).join('')}
+    <span class="meta">Asked ${escapeHtml(formatDateTime(q.asked_at))}</span>
+  </div>`).join('')}` : ''}
+
+<p class="disclaimer">${escapeHtml(DISCLAIMER)}</p>
+</body>
+</html>
+`;
+};
@@ -0,0 +1,75 @@
+import { AnalysisReport } from './collect';
+import { renderReportDocx } from './docx';
+import { renderReportHtml } from './html';
+import { reportFileName } from './text';
+import { createZip } from './zip';
+
+export * from './collect';
+export * from './risk';
+export { renderReportHtml } from './html';
+export { renderReportDocx } from './docx';
+
+export type ReportFormat = 'pdf' | 'docx' | 'html';
+
+const download = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+// PDF goes through the browser's print dialog ("Save as PDF"), which renders
+// the HTML report with proper pagination and selectable text
+const printHtml = (html: string) =>
+  new Promise<void>(resolve => {
+    const frame = document.createElement('iframe');
+    frame.style.position = 'fixed';
+    frame.style.width = '0';
+    frame.style.height = '0';
+    frame.style.border = '0';
+    document.body.appendChild(frame);
+    const cleanup = () => {
+      if (frame.parentNode) frame.parentNode.removeChild(frame);
+    };
+    frame.onload = () => {
+      const win = frame.contentWindow;
+      if (win) {
+        win.onafterprint = () => setTimeout(cleanup, 0);
+        win.focus();
+        win.print();
+      }
+      // Not every browser fires afterprint; don't keep the frame forever
+      setTimeout(cleanup, 60000);
+      resolve();
+    };
+    frame.srcdoc = html;
+  });
+
+export const exportReport = async (report: AnalysisReport, format: ReportFormat) => {
+  const name = report.document.file_name;
+  if (format === 'docx') {
+    download(renderReportDocx(report), reportFileName(name, 'docx'));
+  } else if (format === 'html') {
+    download(new Blob([renderReportHtml(report)], { type: 'text/html' }), reportFileName(name, 'html'));
+  } else {
+    await printHtml(renderReportHtml(report));
+  }
+};
+
+// Several documents' reports in one download, as HTML files in a zip. Documents
+// sharing a file name get a numbered report each.
+export const exportReportBundle = (reports: AnalysisReport[], filename = 'document_reports.zip') => {
+  const used = new Set<string>();
+  const entries = reports.map(report => {
+    const base = reportFileName(report.document.file_name, 'html');
+    let name = base;
+    for (let n = 2; used.has(name); n++) name = base.replace(/\.html$/, `_${n}.html`);
+    used.add(name);
+    return { name, content: renderReportHtml(report) };
+  });
+  download(createZip(entries), filename);
+};
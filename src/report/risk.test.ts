@@ -0,0 +1,84 @@
+import { Clause, RiskLevel, Scenario } from '../api';
+import { RiskMatrix, countRisks, heatStrip, overallRiskScore, riskMatrix, scoreFromCounts, scoreLevel } from './risk';
+
+const risks = (...levels: RiskLevel[]) => levels.map(risk => ({ risk }));
+
+const clause = (id: string, fields: Partial<Clause> = {}): Clause => ({ id, clause_text: 'x'.repeat(10), risk: 'medium', ...fields });
+
+const scenario = (likelihood: RiskLevel, impact: RiskLevel): Scenario => ({
+  id: `${likelihood}-${impact}`,
+  title: 'Scenario',
+  description: '',
+  likelihood,
+  impact,
+  category: 'financial',
+  outcomes: [],
+  mitigation: []
+});
+
+const scenarioCount = (matrix: RiskMatrix) =>
+  Object.values(matrix).reduce((sum, row) => sum + Object.values(row).reduce((n, cell) => n + cell.length, 0), 0);
+
+describe('risk scores', () => {
+  test('counts clauses per level', () => {
+    expect(countRisks(risks('high', 'low', 'high'))).toEqual({ high: 2, medium: 0, low: 1 });
+    expect(countRisks([])).toEqual({ high: 0, medium: 0, low: 0 });
+  });
+
+  test('averages clause scores, pulled up by the worst clause', () => {
+    expect(overallRiskScore([])).toBe(0);
+    expect(overallRiskScore(risks('low', 'low'))).toBe(0);
+    expect(overallRiskScore(risks('high'))).toBe(100);
+    expect(overallRiskScore(risks('medium', 'medium'))).toBe(50);
+    // mean 100/9, worst 100
+    expect(overallRiskScore(risks('high', 'low', 'low', 'low', 'low', 'low', 'low', 'low', 'low'))).toBe(47);
+  });
+
+  test('scores from counts match scores from clauses', () => {
+    const clauses = risks('high', 'medium', 'medium', 'low');
+    expect(scoreFromCounts(countRisks(clauses))).toBe(overallRiskScore(clauses));
+  });
+
+  test('levels split at 30 and 60', () => {
+    expect([0, 29, 30, 59, 60, 100].map(scoreLevel)).toEqual(['low', 'low', 'medium', 'medium', 'high', 'high']);
+  });
+});
+
+describe('heatStrip', () => {
+  test('places clauses by position, in document order', () => {
+    const late = clause('late', { start_pos: 50, end_pos: 100 });
+    const early = clause('early', { start_pos: 0, end_pos: 20 });
+    expect(heatStrip([late, early], 200).placed).toEqual([
+      { clause: early, start: 0, end: 0.1 },
+      { clause: late, start: 0.25, end: 0.5 }
+    ]);
+  });
+
+  test('falls back to the clause length and stretches to the furthest clause', () => {
+    const noEnd = clause('a', { start_pos: 90 });
+    expect(heatStrip([noEnd], 50).placed).toEqual([{ clause: noEnd, start: 0.9, end: 1 }]);
+  });
+
+  test('clauses without a position are left out of the strip', () => {
+    const unknown = clause('a');
+    const negative = clause('b', { start_pos: -1 });
+    expect(heatStrip([unknown, negative], 100)).toEqual({ placed: [], unplaced: [unknown, negative] });
+  });
+});
+
+describe('riskMatrix', () => {
+  test('buckets scenarios by likelihood and impact', () => {
+    const c = clause('a');
+    const entries = [scenario('high', 'low'), scenario('high', 'low'), scenario('low', 'high')].map(s => ({ scenario: s, clause: c }));
+    const matrix = riskMatrix(entries);
+    expect(matrix.high.low).toEqual(entries.slice(0, 2));
+    expect(matrix.low.high).toEqual([entries[2]]);
+    expect(matrix.medium.medium).toEqual([]);
+  });
+
+  test('ignores scenarios with levels it does not know', () => {
+    const odd = { ...scenario('low', 'low'), likelihood: 'unknown' as RiskLevel };
+    const matrix = riskMatrix([{ scenario: odd, clause: clause('a') }]);
+    expect(scenarioCount(matrix)).toBe(0);
+  });
+});
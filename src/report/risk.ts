@@ -0,0 +1,81 @@
+import { Clause, RiskLevel, Scenario } from '../api';
+
+// Document-level risk figures derived from clause risks and their what-if
+// scenarios. Pure functions so the dashboard and the reports agree.
+
+export const RISK_LEVELS: RiskLevel[] = ['low', 'medium', 'high'];
+
+const CLAUSE_SCORE: Record<RiskLevel, number> = { low: 0, medium: 50, high: 100 };
+
+export const countRisks = (clauses: Array<{ risk: RiskLevel }>): Record<RiskLevel, number> => {
+  const counts: Record<RiskLevel, number> = { high: 0, medium: 0, low: 0 };
+  clauses.forEach(c => { counts[c.risk] = (counts[c.risk] || 0) + 1; });
+  return counts;
+};
+
+// 0-100. Mostly the average clause score, but the worst clause pulls it up so
+// one high-risk clause in a long, otherwise benign contract still stands out.
+export const overallRiskScore = (clauses: Array<{ risk: RiskLevel }>): number => {
+  if (clauses.length === 0) return 0;
+  const scores = clauses.map(c => CLAUSE_SCORE[c.risk] ?? 0);
+  const mean = scores.reduce((sum, s) => sum + s, 0) / scores.length;
+  return Math.round(0.6 * mean + 0.4 * Math.max(...scores));
+};
+
+// Same score from per-level counts, for documents whose clauses aren't loaded
+export const scoreFromCounts = (counts: Record<RiskLevel, number>): number =>
+  overallRiskScore(RISK_LEVELS.flatMap(risk => Array.from({ length: counts[risk] || 0 }, () => ({ risk }))));
+
+export const scoreLevel = (score: number): RiskLevel => (score >= 60 ? 'high' : score >= 30 ? 'medium' : 'low');
+
+export interface PlacedClause {
+  clause: Clause;
+  // Fractions of the document length, 0-1
+  start: number;
+  end: number;
+}
+
+export interface HeatStrip {
+  placed: PlacedClause[];
+  // Clauses without usable start_pos, which can't be drawn on the strip
+  unplaced: Clause[];
+}
+
+// Position each clause along the document by start_pos/end_pos. The length
+// is stretched to the furthest clause end when the document's is unknown or short.
+export const heatStrip = (clauses: Clause[], documentLength?: number): HeatStrip => {
+  const spans = clauses
+    .filter(c => typeof c.start_pos === 'number' && c.start_pos >= 0)
+    .map(clause => {
+      const from = clause.start_pos as number;
+      const to = typeof clause.end_pos === 'number' && clause.end_pos > from ? clause.end_pos : from + (clause.clause_text || '').length;
+      return { clause, from, to };
+    });
+  const length = Math.max(documentLength || 0, ...spans.map(s => s.to), 1);
+  return {
+    placed: spans
+      .map(({ clause, from, to }) => ({ clause, start: from / length, end: to / length }))
+      .sort((a, b) => a.start - b.start),
+    unplaced: clauses.filter(c => !spans.some(s => s.clause === c))
+  };
+};
+
+export interface MatrixScenario {
+  scenario: Scenario;
+  clause: Clause;
+}
+
+// Scenarios bucketed by likelihood (rows) and impact (columns)
+export type RiskMatrix = Record<RiskLevel, Record<RiskLevel, MatrixScenario[]>>;
+
+export const riskMatrix = (entries: MatrixScenario[]): RiskMatrix => {
+  const matrix = {} as RiskMatrix;
+  RISK_LEVELS.forEach(likelihood => {
+    matrix[likelihood] = { low: [], medium: [], high: [] };
+  });
+  entries.forEach(entry => {
+    const row = matrix[entry.scenario.likelihood];
+    if (row && row[entry.scenario.impact]) row[entry.scenario.impact].push(entry);
+  });
+  return matrix;
+};
@@ -0,0 +1,43 @@
+// Formatting shared by every report format
+
+// Assistant answers are markdown; reports show them as plain paragraphs
+export const markdownToParagraphs = (markdown: string): string[] =>
+  markdown
+    .replace(/```[\w-]*\n?/g, '')
+    .split(/\n{2,}/)
+    .map(block => block
+      .split('\n')
+      .map(line => line
+        .replace(/^\s{0,3}(#{1,6}|>)\s?/, '')
+        .replace(/^\s*[-*+]\s+/, '• ')
+        .replace(/!?\[([^\]]*)\]\(([^)]*)\)/g, '$1 ($2)')
+        .replace(/(\*\*|__)(.+?)\1/g, '$2')
+        .replace(/(\*|_)(.+?)\1/g, '$2')
+        .replace(/`([^`]+)`/g, '$1'))
+      .join('\n')
+      .trim())
+    .filter(Boolean);
+
+export const formatDateTime = (value?: string) => {
+  if (!value) return '—';
+  const date = new Date(value);
+  return isNaN(date.getTime())
+    ? value
+    : date.toLocaleString('en-US', { year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+};
+
+export const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+export const clauseTitle = (clause: { clause_headline?: string; id: string }, index: number) =>
+  `${index + 1}. ${clause.clause_headline || `Clause ${clause.id}`}`;
+
+// Shown in place of a clause's scenarios or references when the backend could
+// not provide them, and as the count in the clause summary
+export const UNAVAILABLE_NOTE = 'Not available: the backend could not provide these when the report was generated.';
+
+export const sectionCount = (items: unknown[], unavailable?: boolean) => (unavailable ? '—' : String(items.length));
+
+export const reportFileName = (fileName: string, extension: string) =>
+  `${fileName.replace(/\.[^.]+$/, '').replace(/[^\w.-]+/g, '_')}_analysis.${extension}`;
+
+export const DISCLAIMER = 'This report was generated automatically from the document text. It is not legal advice; have a qualified lawyer review important decisions.';
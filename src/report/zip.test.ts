@@ -0,0 +1,64 @@
+/**
+ * @jest-environment node
+ */
+import { Blob as NodeBlob } from 'buffer';
+import { createZip } from './zip';
+
+// Jest's node environment does not expose Node's Blob as a global
+if (typeof Blob === 'undefined') Object.assign(globalThis, { Blob: NodeBlob });
+
+const readZip = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const decoder = new TextDecoder();
+  const entries: Array<{ name: string; content: string; crc: number }> = [];
+  let offset = 0;
+  while (view.getUint32(offset, true) === 0x04034b50) {
+    const crc = view.getUint32(offset + 14, true);
+    const size = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const name = decoder.decode(bytes.subarray(offset + 30, offset + 30 + nameLength));
+    const start = offset + 30 + nameLength;
+    entries.push({ name, content: decoder.decode(bytes.subarray(start, start + size)), crc });
+    offset = start + size;
+  }
+  const end = bytes.length - 22;
+  return {
+    entries,
+    centralOffset: offset,
+    endSignature: view.getUint32(end, true),
+    endCount: view.getUint16(end + 10, true),
+    endCentralOffset: view.getUint32(end + 16, true)
+  };
+};
+
+describe('createZip', () => {
+  test('stores each entry as is, with UTF-8 names', async () => {
+    const zip = await readZip(createZip([
+      { name: 'a.txt', content: 'hello' },
+      { name: 'dossier/résumé.html', content: '<p>₹ 1,000</p>' }
+    ]));
+    expect(zip.entries.map(({ name, content }) => ({ name, content }))).toEqual([
+      { name: 'a.txt', content: 'hello' },
+      { name: 'dossier/résumé.html', content: '<p>₹ 1,000</p>' }
+    ]);
+  });
+
+  test('writes the standard CRC-32', async () => {
+    const zip = await readZip(createZip([{ name: 'a.txt', content: '123456789' }]));
+    expect(zip.entries[0].crc).toBe(0xcbf43926);
+  });
+
+  test('ends with a directory that points back at the entries', async () => {
+    const zip = await readZip(createZip([{ name: 'a', content: '1' }, { name: 'b', content: '2' }]));
+    expect(zip.endSignature).toBe(0x06054b50);
+    expect(zip.endCount).toBe(2);
+    expect(zip.endCentralOffset).toBe(zip.centralOffset);
+  });
+
+  test('an empty archive is just the end record', async () => {
+    const blob = createZip([]);
+    expect(blob.size).toBe(22);
+    expect(blob.type).toBe('application/zip');
+  });
+});
@@ -0,0 +1,61 @@
+import { Clause } from '../api';
+import { diffClauseVersions } from './diff';
+
+let counter = 0;
+const clause = (clauseText: string, fields: Partial<Clause> = {}): Clause => ({
+  id: `clause-${++counter}`,
+  clause_text: clauseText,
+  risk: 'medium',
+  ...fields
+});
+
+describe('diffClauseVersions', () => {
+  test('identical sets have no changes, even with new ids', () => {
+    const before = [clause('Rent is due monthly.'), clause('Deposit is refundable.', { highlights: ['refundable'] })];
+    const after = before.map(c => ({ ...c, id: `${c.id}-v2` }));
+    expect(diffClauseVersions(before, after)).toEqual({ added: [], removed: [], changed: [], unchanged: 2 });
+  });
+
+  test('clauses only in the newer set are added', () => {
+    const rent = clause('Rent is due monthly.');
+    const pets = clause('No pets are allowed.', { risk: 'low' });
+    const diff = diffClauseVersions([rent], [rent, pets]);
+    expect(diff.added).toEqual([pets]);
+    expect(diff.removed).toEqual([]);
+    expect(diff.unchanged).toBe(1);
+  });
+
+  test('clauses only in the older set are removed', () => {
+    const rent = clause('Rent is due monthly.');
+    const pets = clause('No pets are allowed.');
+    const diff = diffClauseVersions([rent, pets], [rent]);
+    expect(diff.removed).toEqual([pets]);
+    expect(diff.added).toEqual([]);
+  });
+
+  test('matches clauses by text, ignoring case and spacing', () => {
+    const diff = diffClauseVersions([clause('Rent is  due\nmonthly.')], [clause(' rent is due monthly. ')]);
+    expect(diff).toMatchObject({ added: [], removed: [], unchanged: 1 });
+  });
+
+  test('reports what changed on a matched clause', () => {
+    const before = clause('Rent is due monthly.', { risk: 'low', clause_headline: 'Rent', highlights: ['monthly'] });
+    const after = clause('Rent is due monthly.', { risk: 'high', clause_headline: 'Rent terms', highlights: ['due'], reviewer_notes: 'Check the date' });
+    expect(diffClauseVersions([before], [after]).changed).toEqual([{
+      before,
+      after,
+      risk: { from: 'low', to: 'high' },
+      headline: { from: 'Rent', to: 'Rent terms' },
+      highlightsChanged: true,
+      notesChanged: true
+    }]);
+  });
+
+  test('clauses sharing a text are matched in order', () => {
+    const before = [clause('Notice applies.', { risk: 'low' }), clause('Notice applies.', { risk: 'high' })];
+    const after = [clause('Notice applies.', { risk: 'low' })];
+    const diff = diffClauseVersions(before, after);
+    expect(diff.unchanged).toBe(1);
+    expect(diff.removed).toEqual([before[1]]);
+  });
+});
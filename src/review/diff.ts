@@ -0,0 +1,51 @@
+import { Clause, RiskLevel } from '../api';
+
+// Compare two persisted clause sets. Clause ids change with every version, so
+// clauses are matched by their text instead.
+
+export interface ClauseChange {
+  before: Clause;
+  after: Clause;
+  risk?: { from: RiskLevel; to: RiskLevel };
+  headline?: { from: string; to: string };
+  highlightsChanged: boolean;
+  notesChanged: boolean;
+}
+
+export interface ClauseVersionDiff {
+  added: Clause[];
+  removed: Clause[];
+  changed: ClauseChange[];
+  unchanged: number;
+}
+
+const keyOf = (clause: Clause) => (clause.clause_text || '').replace(/\s+/g, ' ').trim().toLowerCase();
+
+export const diffClauseVersions = (before: Clause[], after: Clause[]): ClauseVersionDiff => {
+  // Several clauses can share a text; match them up in order
+  const pending = new Map<string, Clause[]>();
+  before.forEach(c => pending.set(keyOf(c), [...(pending.get(keyOf(c)) || []), c]));
+
+  const diff: ClauseVersionDiff = { added: [], removed: [], changed: [], unchanged: 0 };
+  after.forEach(c => {
+    const previous = pending.get(keyOf(c))?.shift();
+    if (!previous) {
+      diff.added.push(c);
+      return;
+    }
+    const change: ClauseChange = {
+      before: previous,
+      after: c,
+      highlightsChanged: (previous.highlights || []).join('\n') !== (c.highlights || []).join('\n'),
+      notesChanged: (previous.reviewer_notes || '') !== (c.reviewer_notes || '')
+    };
+    if (previous.risk !== c.risk) change.risk = { from: previous.risk, to: c.risk };
+    if ((previous.clause_headline || '') !== (c.clause_headline || '')) {
+      change.headline = { from: previous.clause_headline || '', to: c.clause_headline || '' };
+    }
+    if (change.risk || change.headline || change.highlightsChanged || change.notesChanged) diff.changed.push(change);
+    else diff.unchanged++;
+  });
+  pending.forEach(left => diff.removed.push(...left));
+  return diff;
+};
@@ -0,0 +1,13 @@
+import { getReviewerName, setReviewerName } from './reviewer';
+
+describe('reviewer name', () => {
+  beforeEach(() => window.localStorage.clear());
+
+  test('is remembered trimmed, and cleared by a blank name', () => {
+    expect(getReviewerName()).toBe('');
+    setReviewerName('  Asha Verma ');
+    expect(getReviewerName()).toBe('Asha Verma');
+    setReviewerName('   ');
+    expect(getReviewerName()).toBe('');
+  });
+});
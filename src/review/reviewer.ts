@@ -0,0 +1,20 @@
+// Name recorded as the author of persisted clause versions. There are no user
+// accounts in the frontend, so each browser remembers the name it was given.
+
+const REVIEWER_KEY = 'legalai.reviewerName';
+
+export const getReviewerName = (): string => {
+  try {
+    return window.localStorage.getItem(REVIEWER_KEY) || '';
+  } catch (_) {
+    // localStorage can be unavailable (private mode, sandboxed iframes)
+    return '';
+  }
+};
+
+export const setReviewerName = (name: string) => {
+  try {
+    if (name.trim()) window.localStorage.setItem(REVIEWER_KEY, name.trim());
+    else window.localStorage.removeItem(REVIEWER_KEY);
+  } catch (_) {}
+};
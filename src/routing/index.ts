@@ -0,0 +1,44 @@
+import { useSyncExternalStore } from 'react';
+import { AppRoute, parseRoute, routePath } from './routes';
+
+export * from './routes';
+
+// A tiny History API router. The current route is an external store, like the
+// job list, so any component can read it and back/forward re-render the app.
+
+type Listener = () => void;
+
+const listeners = new Set<Listener>();
+let current = { href: '', route: {} as AppRoute };
+
+const emit = () => listeners.forEach(l => l());
+
+// Parsed once per URL so useSyncExternalStore sees a stable snapshot
+export const getRoute = (): AppRoute => {
+  if (window.location.href !== current.href) {
+    current = { href: window.location.href, route: parseRoute(window.location) };
+  }
+  return current.route;
+};
+
+const subscribe = (listener: Listener) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+window.addEventListener('popstate', emit);
+window.addEventListener('hashchange', emit);
+
+// Push a new history entry (or replace the current one) and notify subscribers
+export const navigate = (route: AppRoute, options: { replace?: boolean } = {}) => {
+  const path = routePath(route);
+  if (path === `${window.location.pathname}${window.location.search}${window.location.hash}`) return;
+  if (options.replace) window.history.replaceState(null, '', path);
+  else window.history.pushState(null, '', path);
+  emit();
+};
+
+// Absolute link to a route, for "copy link" actions
+export const routeUrl = (route: AppRoute) => `${window.location.origin}${routePath(route)}`;
+
+export const useRoute = () => useSyncExternalStore(subscribe, getRoute);
@@ -0,0 +1,57 @@
+import { messageAnchorId, parseRoute, routePath } from './routes';
+
+const at = (url: string) => {
+  const { pathname, search, hash } = new URL(url, 'http://localhost');
+  return parseRoute({ pathname, search, hash });
+};
+
+describe('parseRoute', () => {
+  test('reads documents, threads, clauses and messages', () => {
+    expect(at('/documents/doc-1/threads/t-2/clauses/c-3#message-m-4')).toEqual({
+      documentId: 'doc-1',
+      threadId: 't-2',
+      clauses: true,
+      clauseId: 'c-3',
+      messageId: 'm-4'
+    });
+    expect(at('/documents/doc-1/clauses')).toEqual({ documentId: 'doc-1', clauses: true });
+  });
+
+  test('reads comparisons and matters', () => {
+    expect(at('/compare?docs=a,b,,c')).toEqual({ compare: ['a', 'b', 'c'] });
+    expect(at('/compare')).toEqual({ compare: [] });
+    expect(at('/matters/m-1')).toEqual({ matterId: 'm-1' });
+  });
+
+  test('anything else is the start page', () => {
+    expect(at('/')).toEqual({});
+    expect(at('/documents')).toEqual({});
+    expect(at('/settings/doc-1')).toEqual({});
+  });
+
+  test('keeps malformed escapes as typed instead of throwing', () => {
+    expect(at('/documents/bad%E0%A4/threads/t-1#message-m%E0%A4').documentId).toBe('bad%E0%A4');
+    expect(parseRoute({ pathname: '/documents/d', search: '', hash: '#message-m%E0%A4' }).messageId).toBe('m%E0%A4');
+  });
+});
+
+describe('routePath', () => {
+  test('round-trips through parseRoute', () => {
+    const routes = [
+      {},
+      { documentId: 'doc 1' },
+      { documentId: 'doc-1', threadId: 't/2', clauses: true, clauseId: 'c-3', messageId: 'm 4' },
+      { compare: ['a', 'b'] },
+      { matterId: 'matter-1' }
+    ];
+    routes.forEach(route => expect(at(routePath(route))).toEqual(route));
+  });
+
+  test('a clause id implies the clause view', () => {
+    expect(routePath({ documentId: 'd', clauseId: 'c' })).toBe('/documents/d/clauses/c');
+  });
+
+  test('message anchors match the hash', () => {
+    expect(routePath({ documentId: 'd', messageId: 'm-1' })).toBe(`/documents/d#${messageAnchorId('m-1')}`);
+  });
+});
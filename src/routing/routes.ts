@@ -0,0 +1,68 @@
+// URL scheme for the app. Everything worth linking to lives in the path so a
+// refresh or a pasted link restores it:
+//
+//   /documents/:documentId
+//   /documents/:documentId/threads/:threadId
+//   /documents/:documentId[/threads/:threadId]/clauses[/:clauseId]
+//   ...#message-:messageId          (scrolls to a chat message)
+//   /compare?docs=:id,:id           (cross-document chat)
+//   /matters/:matterId              (a matter's documents and risk)
+
+export interface AppRoute {
+  documentId?: string;
+  threadId?: string;
+  // Clause visualizer is open
+  clauses?: boolean;
+  // Clause focused in the visualizer
+  clauseId?: string;
+  messageId?: string;
+  // Documents of the cross-document chat
+  compare?: string[];
+  matterId?: string;
+}
+
+const MESSAGE_HASH = 'message-';
+
+const segment = (value: string) => encodeURIComponent(value);
+
+// A malformed escape in a pasted link is kept as typed rather than thrown
+const decode = (value: string) => {
+  try { return decodeURIComponent(value); } catch { return value; }
+};
+
+export const parseRoute = ({ pathname, search, hash }: { pathname: string; search: string; hash: string }): AppRoute => {
+  const parts = pathname.split('/').filter(Boolean).map(decode);
+  const messageId = hash.startsWith(`#${MESSAGE_HASH}`) ? decode(hash.slice(MESSAGE_HASH.length + 1)) : undefined;
+
+  if (parts[0] === 'compare') {
+    const docs = new URLSearchParams(search).get('docs');
+    return { compare: docs ? docs.split(',').filter(Boolean) : [] };
+  }
+  if (parts[0] === 'matters' && parts[1]) return { matterId: parts[1] };
+  if (parts[0] !== 'documents' || !parts[1]) return {};
+
+  const route: AppRoute = { documentId: parts[1], messageId };
+  for (let i = 2; i < parts.length; i++) {
+    if (parts[i] === 'threads' && parts[i + 1]) {
+      route.threadId = parts[++i];
+    } else if (parts[i] === 'clauses') {
+      route.clauses = true;
+      if (parts[i + 1]) route.clauseId = parts[++i];
+    }
+  }
+  return route;
+};
+
+export const routePath = (route: AppRoute): string => {
+  if (route.compare) return `/compare?docs=${route.compare.map(segment).join(',')}`;
+  if (route.matterId) return `/matters/${segment(route.matterId)}`;
+  if (!route.documentId) return '/';
+  let path = `/documents/${segment(route.documentId)}`;
+  if (route.threadId) path += `/threads/${segment(route.threadId)}`;
+  if (route.clauses || route.clauseId) path += '/clauses';
+  if (route.clauseId) path += `/${segment(route.clauseId)}`;
+  if (route.messageId) path += `#${MESSAGE_HASH}${segment(route.messageId)}`;
+  return path;
+};
+
+export const messageAnchorId = (messageId: string) => `${MESSAGE_HASH}${messageId}`;
@@ -0,0 +1,14 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import { taskBoard } from './taskBoard';
+
+export * from './taskBoard';
+
+// Mitigation tasks of a document, loaded on first use; re-renders on every change
+export const useMitigationTasks = (documentId?: string) => {
+  useEffect(() => {
+    if (!documentId) return;
+    taskBoard.load(documentId).catch(e => console.warn('Failed to load mitigation tasks', e));
+  }, [documentId]);
+  const getSnapshot = useCallback(() => taskBoard.getTasks(documentId || ''), [documentId]);
+  return useSyncExternalStore(taskBoard.subscribe, getSnapshot);
+};
@@ -0,0 +1,99 @@
+import { Clause, MitigationTask, Scenario, createMitigationTask, listMitigationTasks, updateMitigationTask } from '../api';
+import { clauseForTask, createTaskBoard, findTrackedTask, isOverdue } from './taskBoard';
+
+jest.mock('../api', () => ({
+  createMitigationTask: jest.fn(),
+  deleteMitigationTask: jest.fn(),
+  listMitigationTasks: jest.fn(),
+  updateMitigationTask: jest.fn()
+}));
+
+const task = (fields: Partial<MitigationTask> = {}): MitigationTask => ({
+  id: 'task-1',
+  document_id: 'doc-1',
+  clause_id: 'clause-1',
+  clause_text: 'The tenant pays rent monthly.',
+  scenario_id: 'scenario-1',
+  scenario_title: 'Late rent',
+  mitigation: 'Set up a standing order',
+  status: 'todo',
+  created_at: '2025-01-01T00:00:00Z',
+  updated_at: '2025-01-01T00:00:00Z',
+  ...fields
+});
+
+const clause = (id: string, clauseText: string): Clause => ({ id, clause_text: clauseText, risk: 'medium' });
+
+const scenario = (id: string, title: string): Scenario => ({
+  id,
+  title,
+  description: '',
+  likelihood: 'medium',
+  impact: 'medium',
+  category: 'financial',
+  outcomes: [],
+  mitigation: []
+});
+
+describe('task matching', () => {
+  test('finds the clause by id, then by its text after a re-persist', () => {
+    const clauses = [clause('clause-9', '  The tenant pays\nrent monthly. '), clause('clause-2', 'Other')];
+    expect(clauseForTask(task(), clauses)?.id).toBe('clause-9');
+    expect(clauseForTask(task({ clause_id: 'clause-2' }), clauses)?.id).toBe('clause-2');
+    expect(clauseForTask(task({ clause_id: 'x', clause_text: 'Gone' }), clauses)).toBeUndefined();
+  });
+
+  test('a regenerated scenario keeps its tasks when the title matches', () => {
+    const tasks = [task()];
+    expect(findTrackedTask(tasks, scenario('scenario-7', 'late RENT'), 'set up a  standing order')).toBe(tasks[0]);
+    expect(findTrackedTask(tasks, scenario('scenario-7', 'Eviction'), 'Set up a standing order')).toBeUndefined();
+    expect(findTrackedTask(tasks, scenario('scenario-1', 'Renamed'), 'Something else')).toBeUndefined();
+  });
+
+  test('open tasks past their due day are overdue', () => {
+    const now = new Date(2025, 5, 10, 23, 0);
+    expect(isOverdue(task({ due_date: '2025-06-09' }), now)).toBe(true);
+    expect(isOverdue(task({ due_date: '2025-06-10' }), now)).toBe(false);
+    expect(isOverdue(task({ due_date: '2025-06-09', status: 'done' }), now)).toBe(false);
+    expect(isOverdue(task(), now)).toBe(false);
+  });
+});
+
+describe('createTaskBoard', () => {
+  beforeEach(() => jest.resetAllMocks());
+
+  test('concurrent loads share one request and notify subscribers', async () => {
+    (listMitigationTasks as jest.Mock).mockResolvedValue([task()]);
+    const board = createTaskBoard();
+    const listener = jest.fn();
+    board.subscribe(listener);
+
+    await Promise.all([board.load('doc-1'), board.load('doc-1')]);
+    expect(listMitigationTasks).toHaveBeenCalledTimes(1);
+    expect(board.getTasks('doc-1')).toEqual([task()]);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(board.getTasks('doc-2')).toEqual([]);
+  });
+
+  test('tracking a mitigation adds the created task', async () => {
+    (createMitigationTask as jest.Mock).mockResolvedValue(task({ id: 'task-2' }));
+    const board = createTaskBoard();
+    await board.track('doc-1', clause('clause-1', 'Text'), scenario('scenario-1', 'Late rent'), 'Set up a standing order', '');
+    expect(createMitigationTask).toHaveBeenCalledWith('doc-1', expect.objectContaining({ clause_id: 'clause-1', owner: undefined }));
+    expect(board.getTasks('doc-1').map(t => t.id)).toEqual(['task-2']);
+  });
+
+  test('updates show at once and are rolled back when the backend refuses', async () => {
+    (listMitigationTasks as jest.Mock).mockResolvedValue([task()]);
+    let refuse!: (error: Error) => void;
+    (updateMitigationTask as jest.Mock).mockReturnValue(new Promise((_, reject) => { refuse = reject; }));
+    const board = createTaskBoard();
+    await board.load('doc-1');
+
+    const update = board.update(task(), { status: 'done' });
+    expect(board.getTasks('doc-1')[0].status).toBe('done');
+    refuse(new Error('offline'));
+    await expect(update).rejects.toThrow('offline');
+    expect(board.getTasks('doc-1')[0].status).toBe('todo');
+  });
+});
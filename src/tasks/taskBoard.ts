@@ -0,0 +1,118 @@
+import {
+  Clause,
+  MitigationTask,
+  MitigationTaskStatus,
+  Scenario,
+  UpdateMitigationTaskRequest,
+  createMitigationTask,
+  deleteMitigationTask,
+  listMitigationTasks,
+  updateMitigationTask
+} from '../api';
+
+// Mitigation tasks per document, shared by the task board and the what-if
+// cards that create them. Tasks are stored by the backend next to the clause
+// analysis; this only caches them and applies edits optimistically.
+
+export const TASK_STATUSES: Array<{ status: MitigationTaskStatus; label: string }> = [
+  { status: 'todo', label: 'To do' },
+  { status: 'in_progress', label: 'In progress' },
+  { status: 'done', label: 'Done' }
+];
+
+type Listener = () => void;
+
+const EMPTY: MitigationTask[] = [];
+
+const normalise = (text: string) => (text || '').replace(/\s+/g, ' ').trim().toLowerCase();
+
+// Clause ids change with every persisted version, so fall back to the clause text
+export const clauseForTask = (task: MitigationTask, clauses: Clause[]) =>
+  clauses.find(c => c.id === task.clause_id) ||
+  clauses.find(c => normalise(c.clause_text) === normalise(task.clause_text));
+
+// Regenerated scenarios get new ids but usually keep their titles
+export const isTaskForScenario = (task: MitigationTask, scenario: Scenario) =>
+  task.scenario_id === scenario.id || normalise(task.scenario_title) === normalise(scenario.title);
+
+export const findTrackedTask = (tasks: MitigationTask[], scenario: Scenario, mitigation: string) =>
+  tasks.find(t => isTaskForScenario(t, scenario) && normalise(t.mitigation) === normalise(mitigation));
+
+// Due dates are calendar days (YYYY-MM-DD), compared in local time
+export const isOverdue = (task: MitigationTask, now = new Date()) => {
+  if (!task.due_date || task.status === 'done') return false;
+  const today = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+  return task.due_date < today;
+};
+
+export const createTaskBoard = () => {
+  let byDocument: Record<string, MitigationTask[]> = {};
+  const loading = new Map<string, Promise<void>>();
+  const listeners = new Set<Listener>();
+
+  const notify = () => listeners.forEach(l => l());
+
+  const setTasks = (documentId: string, update: (tasks: MitigationTask[]) => MitigationTask[]) => {
+    byDocument = { ...byDocument, [documentId]: update(byDocument[documentId] || EMPTY) };
+    notify();
+  };
+
+  const replace = (task: MitigationTask) =>
+    setTasks(task.document_id, tasks => tasks.map(t => (t.id === task.id ? task : t)));
+
+  return {
+    getTasks: (documentId: string) => byDocument[documentId] || EMPTY,
+
+    // Concurrent loads of the same document share one request
+    load: (documentId: string): Promise<void> => {
+      const pending = loading.get(documentId);
+      if (pending) return pending;
+      const promise = listMitigationTasks(documentId)
+        .then(tasks => setTasks(documentId, () => tasks))
+        .finally(() => loading.delete(documentId));
+      loading.set(documentId, promise);
+      return promise;
+    },
+
+    track: async (documentId: string, clause: Clause, scenario: Scenario, mitigation: string, owner?: string) => {
+      const task = await createMitigationTask(documentId, {
+        clause_id: clause.id,
+        clause_text: clause.clause_text,
+        clause_headline: clause.clause_headline,
+        scenario_id: scenario.id,
+        scenario_title: scenario.title,
+        mitigation,
+        owner: owner || undefined
+      });
+      setTasks(documentId, tasks => [...tasks, task]);
+      return task;
+    },
+
+    // Shows the change right away and puts the task back if the backend refuses it
+    update: async (task: MitigationTask, patch: UpdateMitigationTaskRequest) => {
+      replace({ ...task, ...patch });
+      try {
+        const saved = await updateMitigationTask(task.id, patch);
+        replace(saved);
+        return saved;
+      } catch (e) {
+        replace(task);
+        throw e;
+      }
+    },
+
+    remove: async (task: MitigationTask) => {
+      await deleteMitigationTask(task.id);
+      setTasks(task.document_id, tasks => tasks.filter(t => t.id !== task.id));
+    },
+
+    subscribe: (listener: Listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    }
+  };
+};
+
+export type TaskBoard = ReturnType<typeof createTaskBoard>;
+
+export const taskBoard = createTaskBoard();
@@ -0,0 +1,82 @@
+import { Document } from '../api';
+import {
+  GENERIC_DOCUMENT_TYPE,
+  TaxonomyState,
+  createDocumentTaxonomy,
+  documentTypeOf,
+  matchesDocumentType,
+  resolveDocumentType
+} from './documentTypes';
+
+const KEY = 'legalai.documentTypes.test';
+const EMPTY: TaxonomyState = { custom: [], overrides: {} };
+
+const doc = (id: string, detected?: string): Document => ({
+  id,
+  file_name: `${id}.pdf`,
+  created_at: '2025-01-01T00:00:00Z',
+  processed_at: '2025-01-01T00:00:00Z',
+  ocr_metadata: { document_type: detected }
+});
+
+describe('resolveDocumentType', () => {
+  test('matches names and aliases regardless of case and punctuation', () => {
+    expect(resolveDocumentType('non-disclosure  AGREEMENT', EMPTY)?.name).toBe('NDA');
+    expect(resolveDocumentType('Rental Agreement', EMPTY)?.name).toBe('Lease Agreement');
+    expect(resolveDocumentType('legal document', EMPTY)).toBe(GENERIC_DOCUMENT_TYPE);
+    expect(resolveDocumentType('Shopping list', EMPTY)).toBeUndefined();
+    expect(resolveDocumentType('', EMPTY)).toBeUndefined();
+  });
+
+  test('documents show the user correction, else the detected or generic type', () => {
+    const state: TaxonomyState = { custom: [], overrides: { a: 'Will' } };
+    expect(documentTypeOf(doc('a', 'NDA'), state).name).toBe('Will');
+    expect(documentTypeOf(doc('b', 'MSA'), state).name).toBe('Service Agreement');
+    expect(documentTypeOf(doc('c', 'Shopping list'), state)).toBe(GENERIC_DOCUMENT_TYPE);
+  });
+
+  test('picker search matches part of any label', () => {
+    const nda = resolveDocumentType('NDA', EMPTY)!;
+    expect(matchesDocumentType(nda, 'confiden')).toBe(true);
+    expect(matchesDocumentType(nda, 'lease')).toBe(false);
+    expect(matchesDocumentType(nda, '  ')).toBe(true);
+  });
+});
+
+describe('createDocumentTaxonomy', () => {
+  beforeEach(() => window.localStorage.clear());
+
+  test('custom types and corrections persist across instances', () => {
+    const taxonomy = createDocumentTaxonomy(KEY);
+    taxonomy.addCustomType({ name: ' Franchise Agreement ', aliases: ['Franchise', ' '], icon: 'custom', color: '#000' });
+    taxonomy.setOverride('doc-1', 'Franchise Agreement');
+
+    const reloaded = createDocumentTaxonomy(KEY).getState();
+    expect(reloaded.custom).toEqual([{ name: 'Franchise Agreement', aliases: ['Franchise'], icon: 'custom', color: '#000', custom: true }]);
+    expect(documentTypeOf(doc('doc-1', 'NDA'), reloaded).name).toBe('Franchise Agreement');
+  });
+
+  test('rejects names and aliases that are already taken', () => {
+    const taxonomy = createDocumentTaxonomy(KEY);
+    expect(() => taxonomy.addCustomType({ name: 'Tenancy agreement', aliases: [], icon: 'custom', color: '#000' })).toThrow(/already a document type/);
+    expect(() => taxonomy.addCustomType({ name: 'Other', aliases: ['MSA'], icon: 'custom', color: '#000' })).toThrow('"MSA"');
+    expect(() => taxonomy.addCustomType({ name: ' ', aliases: [], icon: 'custom', color: '#000' })).toThrow('Give the type a name');
+  });
+
+  test('removing a custom type drops the corrections to it', () => {
+    const taxonomy = createDocumentTaxonomy(KEY);
+    const listener = jest.fn();
+    taxonomy.subscribe(listener);
+    taxonomy.addCustomType({ name: 'Franchise Agreement', aliases: [], icon: 'custom', color: '#000' });
+    taxonomy.setOverride('doc-1', 'Franchise Agreement');
+    taxonomy.setOverride('doc-2', 'Will');
+    taxonomy.removeCustomType('Franchise Agreement');
+    expect(taxonomy.getState()).toEqual({ custom: [], overrides: { 'doc-2': 'Will' } });
+    expect(listener).toHaveBeenCalledTimes(4);
+  });
+
+  test('starts empty when storage holds garbage', () => {
+    window.localStorage.setItem(KEY, '{oops');
+    expect(createDocumentTaxonomy(KEY).getState()).toEqual(EMPTY);
+  });
+});
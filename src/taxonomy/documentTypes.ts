@@ -0,0 +1,197 @@
+import {
+  Banknote,
+  Briefcase,
+  ClipboardCheck,
+  FilePen,
+  FileText,
+  Gavel,
+  Handshake,
+  House,
+  KeyRound,
+  Landmark,
+  Lock,
+  LucideIcon,
+  Receipt,
+  Scale,
+  ScrollText,
+  ShieldCheck,
+  ShoppingCart,
+  Stamp,
+  Tag
+} from 'lucide-react';
+import { Document } from '../api';
+
+// The document types the app knows about. The detector's label
+// (ocr_metadata.document_type) is matched against names and aliases; labels
+// nothing matches show as the generic type. The type's name is what clause,
+// scenario and knowledge-graph requests send as documentType.
+
+export type DocumentTypeIcon =
+  | 'contract' | 'lease' | 'will' | 'privacy' | 'invoice' | 'court' | 'nda' | 'employment'
+  | 'service' | 'sale' | 'authority' | 'deed' | 'property' | 'finance' | 'settlement' | 'consent'
+  | 'generic' | 'custom';
+
+export interface DocumentTypeDefinition {
+  name: string;
+  // Other labels the detector (or a reviewer) uses for the same type
+  aliases: string[];
+  icon: DocumentTypeIcon;
+  // CSS color for the type's badge
+  color: string;
+  // Added by a user rather than shipped with the app
+  custom?: boolean;
+}
+
+export const DOCUMENT_TYPE_ICONS: Record<DocumentTypeIcon, LucideIcon> = {
+  contract: FilePen,
+  lease: House,
+  will: ScrollText,
+  privacy: ShieldCheck,
+  invoice: Receipt,
+  court: Gavel,
+  nda: Lock,
+  employment: Briefcase,
+  service: Handshake,
+  sale: ShoppingCart,
+  authority: KeyRound,
+  deed: Stamp,
+  property: Landmark,
+  finance: Banknote,
+  settlement: Scale,
+  consent: ClipboardCheck,
+  generic: FileText,
+  custom: Tag
+};
+
+export const GENERIC_DOCUMENT_TYPE: DocumentTypeDefinition = {
+  name: 'Legal Document',
+  aliases: [],
+  icon: 'generic',
+  color: '#64748b'
+};
+
+export const BUILT_IN_DOCUMENT_TYPES: DocumentTypeDefinition[] = [
+  { name: 'Contract', aliases: [], icon: 'contract', color: '#2563eb' },
+  { name: 'Agreement', aliases: [], icon: 'contract', color: '#2563eb' },
+  { name: 'Lease Agreement', aliases: ['Rental Agreement', 'Rent Agreement', 'Tenancy Agreement', 'Lease'], icon: 'lease', color: '#0d9488' },
+  { name: 'Will', aliases: ['Testament', 'Last Will and Testament'], icon: 'will', color: '#7c3aed' },
+  { name: 'Trust Document', aliases: ['Trust Deed'], icon: 'will', color: '#7c3aed' },
+  { name: 'Privacy Policy', aliases: ['Privacy Notice'], icon: 'privacy', color: '#0891b2' },
+  { name: 'Data Processing Agreement', aliases: ['DPA', 'Data Processing Addendum'], icon: 'privacy', color: '#0891b2' },
+  { name: 'Terms of Service', aliases: ['Terms and Conditions', 'Terms of Use'], icon: 'contract', color: '#475569' },
+  { name: 'Invoice', aliases: ['Bill', 'Tax Invoice'], icon: 'invoice', color: '#ca8a04' },
+  { name: 'Legal Notice', aliases: ['Notice'], icon: 'court', color: '#dc2626' },
+  { name: 'Court Filing', aliases: ['Petition', 'Pleading'], icon: 'court', color: '#dc2626' },
+  { name: 'Complaint', aliases: [], icon: 'court', color: '#dc2626' },
+  { name: 'Summons', aliases: [], icon: 'court', color: '#dc2626' },
+  { name: 'NDA', aliases: ['Non-Disclosure Agreement', 'Confidentiality Agreement', 'Mutual NDA'], icon: 'nda', color: '#4f46e5' },
+  { name: 'Employment Agreement', aliases: ['Employment Contract', 'Offer Letter', 'Appointment Letter'], icon: 'employment', color: '#ea580c' },
+  { name: 'Service Agreement', aliases: ['Services Agreement', 'Master Services Agreement', 'MSA'], icon: 'service', color: '#16a34a' },
+  { name: 'Sales Agreement', aliases: ['Sale Agreement', 'Agreement for Sale'], icon: 'sale', color: '#16a34a' },
+  { name: 'Purchase Agreement', aliases: ['Share Purchase Agreement'], icon: 'sale', color: '#16a34a' },
+  { name: 'Power of Attorney', aliases: ['POA'], icon: 'authority', color: '#9333ea' },
+  { name: 'Deed', aliases: ['Sale Deed', 'Gift Deed'], icon: 'deed', color: '#92400e' },
+  { name: 'Mortgage', aliases: ['Mortgage Deed'], icon: 'property', color: '#92400e' },
+  { name: 'Promissory Note', aliases: [], icon: 'finance', color: '#ca8a04' },
+  { name: 'License Agreement', aliases: ['Licence Agreement', 'Software License'], icon: 'contract', color: '#2563eb' },
+  { name: 'Settlement Agreement', aliases: ['Settlement'], icon: 'settlement', color: '#0f766e' },
+  { name: 'Release', aliases: ['Release Agreement', 'Waiver'], icon: 'settlement', color: '#0f766e' },
+  { name: 'Consent Form', aliases: ['Consent'], icon: 'consent', color: '#0891b2' }
+];
+
+export interface TaxonomyState {
+  custom: DocumentTypeDefinition[];
+  // Type name a user picked per document id, replacing the detected one
+  overrides: Record<string, string>;
+}
+
+// "Non-Disclosure  agreement" and "non disclosure agreement" are the same label
+const labelKey = (label: string) => (label || '').toLowerCase().replace(/[^a-z0-9&]+/g, ' ').trim();
+
+export const listDocumentTypes = (state: TaxonomyState) => [...BUILT_IN_DOCUMENT_TYPES, ...state.custom];
+
+export const resolveDocumentType = (label: string | undefined, state: TaxonomyState): DocumentTypeDefinition | undefined => {
+  const key = labelKey(label || '');
+  if (!key) return undefined;
+  if (key === labelKey(GENERIC_DOCUMENT_TYPE.name)) return GENERIC_DOCUMENT_TYPE;
+  return listDocumentTypes(state).find(t => labelKey(t.name) === key || t.aliases.some(a => labelKey(a) === key));
+};
+
+export const detectedDocumentType = (document: Document, state: TaxonomyState) =>
+  resolveDocumentType(document.ocr_metadata?.document_type, state) || GENERIC_DOCUMENT_TYPE;
+
+// The user's correction when there is one, otherwise what was detected
+export const documentTypeOf = (document: Document, state: TaxonomyState) =>
+  resolveDocumentType(state.overrides[document.id], state) || detectedDocumentType(document, state);
+
+export const matchesDocumentType = (type: DocumentTypeDefinition, query: string) => {
+  const key = labelKey(query);
+  return !key || [type.name, ...type.aliases].some(label => labelKey(label).includes(key));
+};
+
+const STORAGE_KEY = 'legalai.documentTypes';
+
+type Listener = () => void;
+
+const EMPTY_STATE: TaxonomyState = { custom: [], overrides: {} };
+
+export const createDocumentTaxonomy = (storageKey = STORAGE_KEY) => {
+  let state = EMPTY_STATE;
+  try {
+    const saved = JSON.parse(window.localStorage.getItem(storageKey) || '{}') || {};
+    state = {
+      custom: Array.isArray(saved.custom) ? saved.custom.map((t: DocumentTypeDefinition) => ({ ...t, aliases: t.aliases || [], custom: true })) : [],
+      overrides: saved.overrides && typeof saved.overrides === 'object' ? saved.overrides : {}
+    };
+  } catch (_) {
+    // localStorage can be unavailable (private mode, sandboxed iframes) or hold garbage
+  }
+  const listeners = new Set<Listener>();
+
+  const commit = (next: TaxonomyState) => {
+    state = next;
+    try {
+      window.localStorage.setItem(storageKey, JSON.stringify(state));
+    } catch (_) {}
+    listeners.forEach(l => l());
+  };
+
+  return {
+    getState: () => state,
+
+    // null goes back to the detected type
+    setOverride: (documentId: string, name: string | null) => {
+      const overrides = { ...state.overrides };
+      if (name) overrides[documentId] = name;
+      else delete overrides[documentId];
+      commit({ ...state, overrides });
+    },
+
+    // Throws when the name or an alias is taken by another type
+    addCustomType: (type: Omit<DocumentTypeDefinition, 'custom'>) => {
+      const name = type.name.trim();
+      if (!name) throw new Error('Give the type a name');
+      const aliases = type.aliases.map(a => a.trim()).filter(Boolean);
+      const taken = [name, ...aliases].find(label => resolveDocumentType(label, state));
+      if (taken) throw new Error(`"${taken}" is already a document type or alias`);
+      const added: DocumentTypeDefinition = { ...type, name, aliases, custom: true };
+      commit({ ...state, custom: [...state.custom, added] });
+      return added;
+    },
+
+    // Documents corrected to the removed type go back to their detected type
+    removeCustomType: (name: string) => {
+      const overrides = Object.fromEntries(Object.entries(state.overrides).filter(([, type]) => type !== name));
+      commit({ custom: state.custom.filter(t => t.name !== name), overrides });
+    },
+
+    subscribe: (listener: Listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    }
+  };
+};
+
+export type DocumentTaxonomy = ReturnType<typeof createDocumentTaxonomy>;
+
+export const documentTaxonomy = createDocumentTaxonomy();
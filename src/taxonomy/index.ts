@@ -0,0 +1,14 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import { Document } from '../api';
+import { documentTaxonomy, documentTypeOf } from './documentTypes';
+
+export * from './documentTypes';
+
+// Custom types and per-document corrections; re-renders when either changes
+export const useDocumentTaxonomy = () => useSyncExternalStore(documentTaxonomy.subscribe, documentTaxonomy.getState);
+
+// Type of a document after any user correction
+export const useDocumentType = (document: Document) => {
+  const state = useDocumentTaxonomy();
+  return useMemo(() => documentTypeOf(document, state), [document, state]);
+};
@@ -1,4 +0,0 @@
-declare module 'rehype-raw' {
-  const rehypeRaw: any;
-  export default rehypeRaw;
-}